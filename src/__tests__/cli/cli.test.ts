@@ -0,0 +1,258 @@
+/**
+ * Tests for the command-line mode
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { spawn } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+import { findCommand, isCliInvocation, parseCommandArgs, runCli, type CliEnvironment } from '../../cli/index.js';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), '../fixtures/tool-modules');
+const repoRoot = join(dirname(fileURLToPath(import.meta.url)), '../../..');
+
+describe('Command-line mode', () => {
+  let root: string;
+  let stdout: string[];
+  let stderr: string[];
+  let stdin: string;
+
+  const environment = (): CliEnvironment => ({
+    io: {
+      stdout: text => stdout.push(text),
+      stderr: text => stderr.push(text),
+      readStdin: async () => stdin,
+    },
+    env: {},
+    cwd: root,
+  });
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'tailwind-mcp-cli-'));
+    stdout = [];
+    stderr = [];
+    stdin = '';
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('isCliInvocation', () => {
+    it('should treat a leading command or help flag as CLI mode', () => {
+      expect(isCliInvocation(['convert', 'styles.css'])).toBe(true);
+      expect(isCliInvocation(['--help'])).toBe(true);
+      expect(isCliInvocation(['--transport', 'http'])).toBe(false);
+      expect(isCliInvocation([])).toBe(false);
+    });
+  });
+
+  describe('parseCommandArgs', () => {
+    it('should map positionals and options onto tool arguments', () => {
+      const invocation = parseCommandArgs(findCommand('template')!, [
+        'card', '--style=minimal', '--dark-mode', '--no-responsive', '--config', 'custom.json', '--json',
+      ]);
+
+      expect(invocation).toEqual({
+        positionals: { componentType: 'card' },
+        values: { style: 'minimal', darkMode: true, responsive: false },
+        json: true,
+      });
+    });
+
+    it('should convert numeric options and leave invalid values to validation', () => {
+      expect(parseCommandArgs(findCommand('palette')!, ['#3b82f6', '--shades', '100,500,x']).values)
+        .toEqual({ shades: [100, 500, 'x'] });
+      expect(parseCommandArgs(findCommand('search')!, ['grid', '--limit', '3']).values).toEqual({ limit: 3 });
+    });
+
+    it('should reject unknown options and missing arguments', () => {
+      expect(() => parseCommandArgs(findCommand('install')!, ['react', '--yarn'])).toThrow('Unknown option: --yarn');
+      expect(() => parseCommandArgs(findCommand('install')!, [])).toThrow('Missing argument: <framework>');
+      expect(() => parseCommandArgs(findCommand('install')!, ['react', 'vue'])).toThrow('Unexpected argument: vue');
+      expect(() => parseCommandArgs(findCommand('palette')!, ['#fff', '--name'])).toThrow('Missing value for --name');
+    });
+  });
+
+  describe('runCli', () => {
+    it('should convert a CSS file to readable output', async () => {
+      writeFileSync(join(root, 'styles.css'), '.btn { display: flex; padding: 1rem; }');
+
+      const code = await runCli(['convert', 'styles.css', '--version', 'v3'], environment());
+
+      expect(code).toBe(0);
+      expect(stdout[0].split('\n')[0]).toContain('flex');
+      expect(stdout[0]).toContain('p-4');
+    });
+
+    it('should read CSS from stdin and print JSON with --json', async () => {
+      stdin = '.title { font-weight: 700; }';
+
+      const code = await runCli(['convert', '-', '--json'], environment());
+
+      expect(code).toBe(0);
+      expect(JSON.parse(stdout[0])).toMatchObject({ tailwindClasses: expect.stringContaining('font-bold'), version: 'v4' });
+    });
+
+    it('should generate a palette', async () => {
+      const code = await runCli(['palette', '#3b82f6', '--name', 'brand'], environment());
+
+      expect(code).toBe(0);
+      expect(stdout[0]).toMatch(/^brand:\n {2}50 /);
+      expect(stdout[0]).toContain('CSS variables:');
+    });
+
+    it('should pass the package manager to install', async () => {
+      const code = await runCli(['install', 'nextjs', '--pm', 'pnpm', '--json'], environment());
+
+      expect(code).toBe(0);
+      expect(JSON.parse(stdout[0]).commands.some((command: string) => command.startsWith('pnpm'))).toBe(true);
+    });
+
+    it('should apply defaults from the project configuration', async () => {
+      writeFileSync(join(root, '.tailwind-mcp.json'), JSON.stringify({ defaultVersion: 'v3', packageManager: 'yarn' }));
+
+      await runCli(['install', 'react', '--json'], environment());
+
+      const guide = JSON.parse(stdout[0]);
+      expect(guide.version).toBe('v3');
+      expect(guide.commands.some((command: string) => command.startsWith('yarn'))).toBe(true);
+    });
+
+    it('should run add-on tools through call', async () => {
+      const code = await runCli(
+        ['call', 'list_design_tokens', '{}', '--tool-modules', join(fixturesDir, 'design-tools.ts')],
+        environment()
+      );
+
+      expect(code).toBe(0);
+      expect(JSON.parse(stdout[0])).toEqual(['brand', 'accent']);
+    });
+
+    it('should list registered tools', async () => {
+      await runCli(['tools'], environment());
+
+      expect(stdout[0]).toMatch(/^get_tailwind_utilities +Get TailwindCSS utilities/);
+      expect(stdout[0]).toContain('generate_component_template');
+    });
+
+    it('should report server status', async () => {
+      const code = await runCli(['status'], environment());
+
+      expect(code).toBe(0);
+      expect(stdout[0]).toMatch(/^Services:\n {2}documentationScraper +ready {2}cache: 0 entries/);
+      expect(stdout[0]).toContain('Documentation: 0 requests, 0 failed');
+    });
+
+    it('should compare classes across versions', async () => {
+      const code = await runCli(['compare', 'ring p-4'], environment());
+
+      expect(code).toBe(0);
+      expect(stdout[0]).toMatch(/^ring: changed in v4\n {2}v3 {2}box-shadow: 0 0 0 3px var\(--tw-ring-color\); default ring-width: 3px; default ring-color: rgb\(59 130 246 \/ 0\.5\)\n/);
+      expect(stdout[0]).toContain('  Use ring-3 in v4 for the v3 look');
+      expect(stdout[0]).toContain('p-4: same in v3 and v4');
+    });
+
+    it('should explain the CSS of a class', async () => {
+      const code = await runCli(['explain', 'md:p-4', '--version', 'v3'], environment());
+
+      expect(code).toBe(0);
+      expect(stdout[0]).toBe('md:p-4 (TailwindCSS v3.4, catalog)\n\n@media (min-width: 768px) {\n  .md\\:p-4 {\n    padding: 1rem;\n  }\n}');
+    });
+
+    it('should migrate the classes of a markup file', async () => {
+      writeFileSync(join(root, 'card.html'), '<div class="shadow !flex">');
+
+      const code = await runCli(['migrate', 'card.html'], environment());
+
+      expect(code).toBe(0);
+      expect(stdout[0]).toMatch(/^<div class="shadow-sm flex!">\n\nChanges:\n- shadow → shadow-sm: The shadow scale shifted/);
+    });
+
+    it('should translate a config file into CSS', async () => {
+      writeFileSync(join(root, 'tailwind.config.js'), "module.exports = { content: [], theme: { extend: { colors: { brand: '#3b82f6' } } } };");
+
+      const code = await runCli(['migrate-config', 'tailwind.config.js'], environment());
+
+      expect(code).toBe(0);
+      expect(stdout[0]).toMatch(/^@import "tailwindcss";\n\n@theme \{\n {2}--color-brand: #3b82f6;\n\}\n\nNotes:\n- content: /);
+    });
+
+    it('should translate a stylesheet theme into a TypeScript config', async () => {
+      writeFileSync(join(root, 'tokens.css'), '@theme { --radius-card: 0.75rem; }');
+
+      const code = await runCli(['migrate-theme', 'tokens.css', '--typescript'], environment());
+
+      expect(code).toBe(0);
+      expect(stdout[0]).toMatch(/^tailwind\.config\.ts:\n/);
+      expect(stdout[0]).toContain("borderRadius: {\n            card: '0.75rem',");
+    });
+
+    it('should detect the setup of the working directory', async () => {
+      writeFileSync(join(root, 'package.json'), JSON.stringify({ devDependencies: { tailwindcss: '^4.1.0', '@tailwindcss/postcss': '^4.1.0' } }));
+
+      const code = await runCli(['detect'], environment());
+
+      expect(code).toBe(0);
+      expect(stdout[0]).toContain(`TailwindCSS setup of ${root}`);
+      expect(stdout[0]).toMatch(/Version: +v4 \(v4\.1\)\nPackage: +tailwindcss \^4\.1\.0 \(from package\.json\)\nIntegration: +postcss/);
+    });
+
+    it('should report tool errors with exit code 1', async () => {
+      const code = await runCli(['palette', '#3b82f6', '--version', 'v5'], environment());
+
+      expect(code).toBe(1);
+      expect(stderr[0]).toMatch(/^Error: Invalid arguments for generate_color_palette/);
+    });
+
+    it('should report missing files with exit code 1', async () => {
+      const code = await runCli(['convert', 'missing.css'], environment());
+
+      expect(code).toBe(1);
+      expect(stderr[0]).toBe('Error: File not found: missing.css');
+    });
+
+    it('should print usage for unknown commands and options with exit code 2', async () => {
+      expect(await runCli(['compile'], environment())).toBe(2);
+      expect(stderr[0]).toContain('Error: Unknown command: compile');
+      expect(stderr[0]).toContain('Commands:');
+
+      expect(await runCli(['install', 'react', '--typescript=yes'], environment())).toBe(2);
+      expect(stderr[1]).toContain('Usage: tailwindcss-server install <framework>');
+    });
+
+    it('should print help for a command', async () => {
+      expect(await runCli(['help', 'palette'], environment())).toBe(0);
+      expect(stdout[0]).toContain("Usage: tailwindcss-server palette <color> --name <name>");
+    });
+  });
+
+  describe('entry point', () => {
+    it('should write all of a large output into a pipe before exiting', async () => {
+      // Bundled under node_modules so the external packages resolve from the bundle
+      const outdir = mkdtempSync(join(repoRoot, 'node_modules', '.tailwind-mcp-cli-'));
+      try {
+        const entry = join(outdir, 'index.mjs');
+        await build({ entryPoints: [join(repoRoot, 'src/index.ts')], outfile: entry, bundle: true, platform: 'node', format: 'esm', packages: 'external', logLevel: 'silent' });
+        const { VITEST: _vitest, NODE_ENV: _nodeEnv, ...env } = process.env;
+
+        const { code, output } = await new Promise<{ code: number | null; output: string }>((resolve, reject) => {
+          const child = spawn(process.execPath, [entry, 'utilities', '--json'], { cwd: root, env, stdio: ['ignore', 'pipe', 'ignore'] });
+          const chunks: Buffer[] = [];
+          child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+          child.on('error', reject);
+          child.on('close', exitCode => resolve({ code: exitCode, output: Buffer.concat(chunks).toString('utf8') }));
+        });
+
+        expect(code).toBe(0);
+        expect(output.length).toBeGreaterThan(1024 * 1024);
+        expect(JSON.parse(output).length).toBeGreaterThan(1000);
+      } finally {
+        rmSync(outdir, { recursive: true, force: true });
+      }
+    }, 60000);
+  });
+});
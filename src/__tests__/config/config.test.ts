@@ -0,0 +1,136 @@
+/**
+ * Tests for loading and applying the project-level server configuration
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  getServiceOptions,
+  getToolArgumentDefaults,
+  isToolEnabled,
+  loadServerConfig,
+  parseServerConfig,
+  resolveConfigPath,
+} from '../../config/index.js';
+
+describe('Server configuration', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'tailwind-mcp-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('loadServerConfig', () => {
+    it('should find .tailwind-mcp.json in a parent directory', async () => {
+      const nested = join(root, 'apps', 'web');
+      mkdirSync(nested, { recursive: true });
+      writeFileSync(join(root, '.tailwind-mcp.json'), JSON.stringify({
+        defaultVersion: 'v3',
+        cache: { directory: '.cache/tailwind-mcp', ttl: 3600 },
+      }));
+
+      const { config, path } = await loadServerConfig(nested);
+
+      expect(path).toBe(join(root, '.tailwind-mcp.json'));
+      expect(config.defaultVersion).toBe('v3');
+      expect(config.cache).toEqual({ directory: join(root, '.cache/tailwind-mcp'), ttl: 3600 });
+    });
+
+    it('should read the tailwind-mcp key of package.json', async () => {
+      writeFileSync(join(root, 'package.json'), JSON.stringify({
+        name: 'web',
+        'tailwind-mcp': { packageManager: 'pnpm', templateStyle: 'minimal', darkMode: true },
+      }));
+
+      const { config, path } = await loadServerConfig(root);
+
+      expect(path).toBe(join(root, 'package.json'));
+      expect(config).toEqual({ packageManager: 'pnpm', templateStyle: 'minimal', darkMode: true });
+    });
+
+    it('should prefer .tailwind-mcp.json over package.json in the same directory', async () => {
+      writeFileSync(join(root, 'package.json'), JSON.stringify({ 'tailwind-mcp': { defaultVersion: 'v4' } }));
+      writeFileSync(join(root, '.tailwind-mcp.json'), JSON.stringify({ defaultVersion: 'v3' }));
+
+      const { config } = await loadServerConfig(root);
+
+      expect(config.defaultVersion).toBe('v3');
+    });
+
+    it('should load an explicit path and fail when it is missing', async () => {
+      writeFileSync(join(root, 'team.json'), JSON.stringify({ tools: { disabled: ['search_tailwind_docs'] } }));
+
+      const { config } = await loadServerConfig(root, 'team.json');
+      expect(config.tools).toEqual({ disabled: ['search_tailwind_docs'] });
+
+      await expect(loadServerConfig(root, 'missing.json')).rejects.toThrow('Configuration file not found');
+    });
+
+    it('should report invalid JSON', async () => {
+      writeFileSync(join(root, '.tailwind-mcp.json'), '{ "defaultVersion": ');
+
+      await expect(loadServerConfig(root)).rejects.toThrow(`Invalid JSON in ${join(root, '.tailwind-mcp.json')}`);
+    });
+  });
+
+  describe('parseServerConfig', () => {
+    it('should list every invalid setting', () => {
+      expect(() => parseServerConfig({
+        defaultVersion: 'v5',
+        packageManager: 'npm',
+        cache: { ttl: -1 },
+        tools: { enabled: 'install_tailwind' },
+        theme: 'dark',
+      }, '/project/.tailwind-mcp.json')).toThrow(
+        'Invalid configuration in /project/.tailwind-mcp.json: ' +
+        '"defaultVersion" must be one of: v3, v4, v3.0, v3.1, v3.2, v3.3, v3.4, v4.0, v4.1. Did you mean "v3" or "v4"?; ' +
+        '"cache.ttl" must be >= 0; "tools.enabled" must be an array; ' +
+        '"theme" is not a recognized argument (expected one of: $schema, defaultVersion, packageManager, templateStyle, darkMode, docsBaseUrl, cache, tools)'
+      );
+    });
+
+    it('should reject a configuration that is not an object', () => {
+      expect(() => parseServerConfig(['v3'], 'package.json')).toThrow('"configuration" must be an object');
+    });
+  });
+
+  describe('applying the configuration', () => {
+    it('should map settings to tool argument defaults', () => {
+      expect(getToolArgumentDefaults({ defaultVersion: 'v3', packageManager: 'bun', templateStyle: 'playful', darkMode: false }))
+        .toEqual({ version: 'v3', packageManager: 'bun', style: 'playful', darkMode: false });
+      expect(getToolArgumentDefaults({})).toEqual({});
+    });
+
+    it('should map docs and cache settings to service options', () => {
+      expect(getServiceOptions({
+        docsBaseUrl: { v4: 'https://tailwind.mirror.internal' },
+        cache: { directory: '/tmp/cache', ttl: 60 },
+      })).toEqual({
+        documentationScraper: {
+          docsBaseUrls: { v4: 'https://tailwind.mirror.internal' },
+          directory: '/tmp/cache',
+          ttlMs: 60000,
+        },
+      });
+    });
+
+    it('should apply the enable and disable lists', () => {
+      expect(isToolEnabled({}, 'install_tailwind')).toBe(true);
+      expect(isToolEnabled({ tools: { enabled: ['install_tailwind'] } }, 'install_tailwind')).toBe(true);
+      expect(isToolEnabled({ tools: { enabled: ['install_tailwind'] } }, 'search_tailwind_docs')).toBe(false);
+      expect(isToolEnabled({ tools: { disabled: ['search_tailwind_docs'] } }, 'search_tailwind_docs')).toBe(false);
+    });
+
+    it('should resolve an explicit config path from flags or the environment', () => {
+      expect(resolveConfigPath(['--config', 'team.json'], { TAILWIND_MCP_CONFIG: 'other.json' })).toBe('team.json');
+      expect(resolveConfigPath([], { TAILWIND_MCP_CONFIG: 'other.json' })).toBe('other.json');
+      expect(resolveConfigPath([], {})).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for service error classification and "did you mean" suggestions
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { createNotFoundError, toMcpError } from '../../errors/index.js';
+import { ServiceError } from '../../services/base.js';
+import { initializeServices } from '../../services/index.js';
+import { createToolSession } from '../../session/index.js';
+import { createToolRegistry, type ToolContext } from '../../tools/index.js';
+import { editDistance, suggestAlternatives, withSuggestions } from '../../utils/suggestions.js';
+
+describe('suggestAlternatives', () => {
+  it('should rank close matches first', () => {
+    const frameworks = ['react', 'nextjs', 'vue', 'vite', 'laravel', 'angular', 'svelte'];
+
+    expect(suggestAlternatives('nextj', frameworks)).toEqual(['nextjs']);
+    expect(suggestAlternatives('Svelt', frameworks)).toEqual(['svelte']);
+    expect(suggestAlternatives('vte', frameworks)).toEqual(['vite', 'vue']);
+    expect(suggestAlternatives('django', frameworks)).toEqual([]);
+  });
+
+  it('should measure edit distance', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'abc')).toBe(3);
+  });
+
+  it('should append suggestions to a message', () => {
+    expect(withSuggestions('Unsupported framework: vte', ['vite', 'vue'])).toBe('Unsupported framework: vte. Did you mean "vite" or "vue"?');
+    expect(withSuggestions('Unknown tool: x', [])).toBe('Unknown tool: x');
+  });
+});
+
+describe('toMcpError', () => {
+  it('should map correctable errors to InvalidParams with structured data', () => {
+    const error = toMcpError(new ServiceError('Unsupported component type: buton', 'TemplateService', 'generateComponentTemplate', undefined, {
+      kind: 'invalid-params',
+      details: { field: 'componentType', value: 'buton', allowedValues: ['button', 'card'], suggestions: ['button'] },
+    }), 'generate_component_template');
+
+    expect(error.code).toBe(ErrorCode.InvalidParams);
+    expect(error.message).toContain('Unsupported component type: buton. Did you mean "button"?');
+    expect(error.data).toEqual({
+      kind: 'invalid-params',
+      service: 'TemplateService',
+      operation: 'generateComponentTemplate',
+      field: 'componentType',
+      value: 'buton',
+      allowedValues: ['button', 'card'],
+      suggestions: ['button'],
+    });
+  });
+
+  it('should report upstream failures with their cause', () => {
+    const scrape = new ServiceError('Failed to scrape documentation page: https://tailwindcss.com/docs', 'DocumentationScraperService', 'scrapePage',
+      new Error('socket hang up'), { kind: 'upstream' });
+    const error = toMcpError(new ServiceError('Failed to search documentation for query: flex', 'DocumentationScraperService', 'searchDocumentation', scrape), 'search_tailwind_docs');
+
+    expect(error.code).toBe(ErrorCode.InternalError);
+    expect(error.message).toContain('Failed to search documentation for query: flex (socket hang up). The documentation site may be unavailable');
+    expect(error.data).toMatchObject({ kind: 'upstream', operation: 'searchDocumentation' });
+  });
+
+  it('should hide the details of internal errors', () => {
+    const error = toMcpError(new ServiceError('Failed to generate installation guide', 'InstallationService', 'generateInstallationGuide', new TypeError('x is undefined')), 'install_tailwind');
+
+    expect(error.code).toBe(ErrorCode.InternalError);
+    expect(error.message).toContain('An unexpected error occurred during "install_tailwind".');
+    expect(error.data).toEqual({ kind: 'internal', service: 'InstallationService', operation: 'generateInstallationGuide' });
+  });
+
+  it('should pass MCP errors through', () => {
+    const original = new McpError(ErrorCode.InvalidParams, 'Invalid arguments');
+    expect(toMcpError(original, 'install_tailwind')).toBe(original);
+  });
+
+  it('should suggest known names for missing items', () => {
+    const error = createNotFoundError('Resource not found: tailwind://v4/colors/slat', 'slat', ['slate', 'gray']);
+
+    expect(error.message).toContain('Did you mean "slate"?');
+    expect(error.data).toEqual({ kind: 'not-found', value: 'slat', suggestions: ['slate'] });
+  });
+});
+
+describe('tool errors', () => {
+  const registry = createToolRegistry();
+  let context: ToolContext;
+
+  beforeAll(async () => {
+    context = { services: await initializeServices(), options: {}, session: createToolSession() };
+  });
+
+  it('should suggest supported frameworks for a misspelled one', async () => {
+    const error = await registry.call('install_tailwind', { framework: 'nextj' }, context).catch(e => e);
+
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(ErrorCode.InvalidParams);
+    expect(error.message).toContain('Unsupported framework: nextj. Did you mean "nextjs"?');
+    expect(error.data).toMatchObject({ kind: 'invalid-params', field: 'framework', suggestions: ['nextjs'] });
+    expect(error.data.allowedValues).toContain('react');
+  });
+
+  it('should classify invalid colors as invalid params', async () => {
+    const error = await registry.call('generate_color_palette', { baseColor: 'bleu', name: 'brand' }, context).catch(e => e);
+
+    expect(error.code).toBe(ErrorCode.InvalidParams);
+    expect(error.data).toMatchObject({ kind: 'invalid-params', field: 'baseColor', value: 'bleu' });
+  });
+
+  it('should suggest registered tools for an unknown name', async () => {
+    await expect(registry.call('get_tailwind_color', {}, context)).rejects.toMatchObject({
+      code: ErrorCode.MethodNotFound,
+      message: expect.stringContaining('Did you mean "get_tailwind_colors"?'),
+    });
+  });
+});
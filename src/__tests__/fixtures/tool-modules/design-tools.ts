@@ -0,0 +1,22 @@
+/**
+ * Add-on tool module exporting its tools as the default export
+ */
+
+import { defineTool } from '../../../tools/index.js';
+
+const emptyInput = { type: 'object' as const, properties: {}, additionalProperties: false };
+
+export default [
+  defineTool({
+    name: 'list_design_tokens',
+    description: 'List design-system tokens',
+    inputSchema: emptyInput,
+    handler: async () => ({ data: ['brand', 'accent'] }),
+  }),
+  defineTool({
+    name: 'get_design_guidelines',
+    description: 'Get design-system guidelines',
+    inputSchema: emptyInput,
+    handler: async () => ({ data: 'Use brand-500 for primary actions' }),
+  }),
+];
@@ -0,0 +1,5 @@
+/**
+ * Module without any tool exports
+ */
+
+export const unrelated = 1;
@@ -0,0 +1,5 @@
+/**
+ * Module exporting something that is not a tool definition
+ */
+
+export default { name: 'broken' };
@@ -0,0 +1,12 @@
+/**
+ * Add-on tool module exporting a single tool as `tools`
+ */
+
+import { defineTool } from '../../../tools/index.js';
+
+export const tools = defineTool({
+  name: 'lookup_icon',
+  description: 'Look up a design-system icon',
+  inputSchema: { type: 'object', properties: {} },
+  handler: async () => ({ data: 'icon' }),
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for the leveled logger, its sinks and the MCP logging capability
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  LogManager,
+  attachMcpLogging,
+  createFileSink,
+  createLogger,
+  createStderrSink,
+  isLevelEnabled,
+  resolveLoggingOptions,
+  type LogEntry,
+} from '../../logging/index.js';
+import { ServiceError } from '../../services/base.js';
+
+describe('Logging', () => {
+  describe('LogManager', () => {
+    it('should dispatch entries to every sink until removed', () => {
+      const manager = new LogManager();
+      const first = vi.fn();
+      const second = vi.fn();
+      manager.addSink(first);
+      const removeSecond = manager.addSink(second);
+
+      manager.getLogger('Test').info('hello');
+      removeSecond();
+      manager.getLogger('Test').warning('again', { page: 'padding' });
+
+      expect(first).toHaveBeenCalledTimes(2);
+      expect(second).toHaveBeenCalledTimes(1);
+      expect(first.mock.calls[1][0]).toMatchObject({
+        level: 'warning',
+        logger: 'Test',
+        message: 'again',
+        data: { page: 'padding' },
+      });
+    });
+
+    it('should keep logging when a sink throws', () => {
+      const manager = new LogManager();
+      const working = vi.fn();
+      manager.addSink(() => { throw new Error('broken sink'); });
+      manager.addSink(working);
+
+      expect(() => manager.getLogger('Test').error('boom')).not.toThrow();
+      expect(working).toHaveBeenCalled();
+    });
+
+    it('should order levels by severity', () => {
+      expect(isLevelEnabled('error', 'warning')).toBe(true);
+      expect(isLevelEnabled('warning', 'warning')).toBe(true);
+      expect(isLevelEnabled('debug', 'info')).toBe(false);
+    });
+  });
+
+  describe('sinks', () => {
+    const entry = (overrides: Partial<LogEntry> = {}): LogEntry => ({
+      level: 'info',
+      logger: 'DocumentationScraperService',
+      message: 'Scraping documentation page',
+      timestamp: new Date('2025-01-01T00:00:00.000Z'),
+      ...overrides,
+    });
+
+    it('should write plain messages to stderr above the threshold', () => {
+      const sink = createStderrSink('info');
+
+      sink(entry({ level: 'debug' }));
+      sink(entry());
+
+      expect(console.error).toHaveBeenCalledTimes(1);
+      expect(console.error).toHaveBeenCalledWith('Scraping documentation page');
+    });
+
+    it('should append formatted lines to a log file', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'tailwind-mcp-log-'));
+      const file = join(dir, 'server.log');
+      try {
+        const sink = createFileSink(file, 'info');
+        sink(entry({ level: 'debug', message: 'skipped' }));
+        sink(entry());
+        sink(entry({
+          level: 'error',
+          message: 'Failed',
+          data: new ServiceError('Failed to scrape', 'DocumentationScraperService', 'scrapePage', new Error('timeout')),
+        }));
+
+        const lines = readFileSync(file, 'utf8').trim().split('\n');
+        expect(lines).toEqual([
+          '2025-01-01T00:00:00.000Z INFO [DocumentationScraperService] Scraping documentation page',
+          '2025-01-01T00:00:00.000Z ERROR [DocumentationScraperService] Failed {"name":"ServiceError","message":"Failed to scrape","cause":{"name":"Error","message":"timeout"}}',
+        ]);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('resolveLoggingOptions', () => {
+    it('should default to info without a log file', () => {
+      expect(resolveLoggingOptions([], {})).toEqual({ level: 'info', file: undefined });
+    });
+
+    it('should prefer flags over environment variables', () => {
+      expect(resolveLoggingOptions(
+        ['--transport', 'http', '--log-level=debug', '--log-file', '/tmp/tailwind.log'],
+        { TAILWIND_MCP_LOG_LEVEL: 'error', TAILWIND_MCP_LOG_FILE: '/tmp/other.log' }
+      )).toEqual({ level: 'debug', file: '/tmp/tailwind.log' });
+      expect(resolveLoggingOptions([], { TAILWIND_MCP_LOG_LEVEL: 'warning' }).level).toBe('warning');
+    });
+
+    it('should reject unknown levels', () => {
+      expect(() => resolveLoggingOptions(['--log-level', 'verbose'])).toThrow('Unsupported log level: verbose');
+    });
+  });
+
+  describe('MCP logging', () => {
+    let client: Client | undefined;
+
+    afterEach(async () => {
+      await client?.close();
+      client = undefined;
+    });
+
+    const connect = async () => {
+      const server = new Server({ name: 'test-server', version: '1.0.0' }, { capabilities: { logging: {} } });
+      attachMcpLogging(server);
+
+      client = new Client({ name: 'test-client', version: '1.0.0' });
+      const messages: any[] = [];
+      client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+        messages.push(notification.params);
+      });
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+      return messages;
+    };
+
+    const flush = () => new Promise(resolve => setImmediate(resolve));
+
+    it('should forward service logs as notifications/message', async () => {
+      const messages = await connect();
+
+      createLogger('UtilityMapperService').info('UtilityMapperService initialized');
+      createLogger('DocumentationScraperService').debug('Scraping documentation page');
+      await flush();
+
+      expect(messages).toEqual([
+        { level: 'info', logger: 'UtilityMapperService', data: 'UtilityMapperService initialized' },
+      ]);
+    });
+
+    it('should honour logging/setLevel', async () => {
+      const messages = await connect();
+
+      await client!.setLoggingLevel('debug');
+      createLogger('DocumentationScraperService').debug('Scraping documentation page');
+      await client!.setLoggingLevel('error');
+      createLogger('DocumentationScraperService').warning('Failed to extract color info', new Error('404'));
+      createLogger('DocumentationScraperService').error('Failed to scrape', new Error('timeout'));
+      await flush();
+
+      expect(messages).toEqual([
+        { level: 'debug', logger: 'DocumentationScraperService', data: 'Scraping documentation page' },
+        {
+          level: 'error',
+          logger: 'DocumentationScraperService',
+          data: { message: 'Failed to scrape', details: { name: 'Error', message: 'timeout' } },
+        },
+      ]);
+    });
+
+    it('should stop forwarding once the connection closes', async () => {
+      const messages = await connect();
+
+      await client!.close();
+      client = undefined;
+      createLogger('Test').error('after close');
+      await flush();
+
+      expect(messages).toEqual([]);
+    });
+  });
+});
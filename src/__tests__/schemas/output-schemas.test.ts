@@ -0,0 +1,148 @@
+/**
+ * Tests that real service results satisfy the declared tool output schemas
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv';
+import { toolOutputSchemas } from '../../schemas/index.js';
+import { UtilityMapperService } from '../../services/utility-mapper.js';
+import { InstallationService } from '../../services/installation-service.js';
+import { ConversionService } from '../../services/conversion-service.js';
+import { TemplateService } from '../../services/template-service.js';
+import { ProjectDetectionService } from '../../services/project-detection.js';
+import { MigrationService } from '../../services/migration-service.js';
+import { initializeServices } from '../../services/index.js';
+import { createToolSession } from '../../session/index.js';
+import { createToolRegistry } from '../../tools/index.js';
+
+const validator = new AjvJsonSchemaValidator();
+
+const expectValid = (tool: string, structuredContent: unknown) => {
+  const result = validator.getValidator(toolOutputSchemas[tool] as any)(structuredContent);
+  expect(result.errorMessage).toBeUndefined();
+  expect(result.valid).toBe(true);
+};
+
+describe('Tool output schemas', () => {
+  const utilityMapper = new UtilityMapperService();
+  const installationService = new InstallationService();
+  const conversionService = new ConversionService();
+  const templateService = new TemplateService();
+
+  beforeAll(async () => {
+    await Promise.all([
+      utilityMapper.initialize(),
+      installationService.initialize(),
+      conversionService.initialize(),
+      templateService.initialize(),
+    ]);
+  });
+
+  it('should declare an object output schema for every tool', () => {
+    for (const schema of Object.values(toolOutputSchemas)) {
+      expect(schema.type).toBe('object');
+    }
+  });
+
+  it('should describe get_tailwind_utilities results', async () => {
+    const utilities = await utilityMapper.getUtilities({ version: 'v4' });
+    expectValid('get_tailwind_utilities', { utilities });
+  });
+
+  it('should describe get_tailwind_colors results', async () => {
+    const colors = await utilityMapper.getColors({ includeShades: true, version: 'v4' });
+    expectValid('get_tailwind_colors', { colors });
+  });
+
+  it('should describe compare_tailwind_versions results', async () => {
+    const comparisons = await utilityMapper.compareVersions({ classes: 'shadow-sm border p-4 flex-shrink-0 text-shadow-xs' });
+    expectValid('compare_tailwind_versions', { comparisons });
+  });
+
+  it('should describe explain_tailwind_class results', async () => {
+    const explanation = await utilityMapper.explainClass({ className: 'md:hover:bg-linear-to-r', version: 'v4' });
+    expectValid('explain_tailwind_class', { ...explanation });
+  });
+
+  it('should describe get_tailwind_config_guide results, including a missing guide', () => {
+    expectValid('get_tailwind_config_guide', {
+      guide: { topic: 'Installation', description: '', examples: [{ title: 'Example', code: 'npm i' }], bestPractices: [] },
+    });
+    expectValid('get_tailwind_config_guide', { guide: null });
+  });
+
+  it('should describe search_tailwind_docs results', () => {
+    expectValid('search_tailwind_docs', {
+      results: [{ title: 'Padding', url: 'https://tailwindcss.com/docs/padding', snippet: 'Padding', relevance: 1 }],
+    });
+  });
+
+  it('should describe install_tailwind results', async () => {
+    const guide = await installationService.generateInstallationGuide({ framework: 'react', version: 'v3' });
+    expectValid('install_tailwind', guide);
+  });
+
+  it('should describe convert_css_to_tailwind results', async () => {
+    const result = await conversionService.convertCSS({ css: '.a { display: flex; cursor: pointer; }' });
+    expectValid('convert_css_to_tailwind', result);
+  });
+
+  it('should describe generate_color_palette results', async () => {
+    const palette = await templateService.generateColorPalette({ baseColor: '#3b82f6', name: 'brand' });
+    expectValid('generate_color_palette', palette);
+  });
+
+  it('should describe generate_component_template results', async () => {
+    const template = await templateService.generateComponentTemplate({ componentType: 'card' });
+    expectValid('generate_component_template', template);
+  });
+
+  it('should describe migrate_classes_to_v4 results', async () => {
+    const migrationService = new MigrationService();
+    await migrationService.initialize();
+    expectValid('migrate_classes_to_v4', { ...await migrationService.migrateClasses({ content: '<div class="shadow border">' }) });
+  });
+
+  it('should describe migrate_config_to_v4 results', async () => {
+    const migration = await new MigrationService().migrateConfig({ config: "module.exports = { darkMode: 'class', corePlugins: {} };" });
+    expectValid('migrate_config_to_v4', { ...migration });
+  });
+
+  it('should describe migrate_theme_to_v3 results', async () => {
+    const migration = await new MigrationService().migrateThemeToV3({ css: '@theme { --color-brand: #3b82f6; --spacing: 0.25rem; }' });
+    expectValid('migrate_theme_to_v3', { ...migration });
+  });
+
+  it('should describe detect_tailwind_setup results', async () => {
+    const setup = await new ProjectDetectionService().detectSetup({ directory: process.cwd() });
+    expectValid('detect_tailwind_setup', { ...setup });
+  });
+
+  it('should describe get_server_status results', async () => {
+    const services = await initializeServices();
+    const result = await createToolRegistry().run('get_server_status', {}, { services, options: {}, session: createToolSession() });
+
+    expectValid('get_server_status', result.structuredContent);
+    expect(result.structuredContent).toMatchObject({
+      services: expect.arrayContaining([
+        expect.objectContaining({ name: 'documentationScraper', state: 'ready', cache: expect.objectContaining({ totalEntries: 0 }) }),
+      ]),
+      documentation: { requests: 0, failures: 0 },
+      versions: { supported: ['v3', 'v4'], default: 'v4', defaultRelease: 'v4.1' },
+      catalog: { frameworks: expect.any(Number), templates: expect.any(Number) },
+    });
+
+    const configured = await createToolRegistry().run('get_server_status', {}, {
+      services,
+      options: {},
+      session: createToolSession(),
+      defaultVersion: 'v3.2',
+    });
+    expect(configured.structuredContent).toMatchObject({ versions: { default: 'v3', defaultRelease: 'v3.2' } });
+  });
+
+  it('should reject results that break the contract', () => {
+    const result = validator.getValidator(toolOutputSchemas.install_tailwind as any)({ commands: 'npm i' });
+    expect(result.valid).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for tool argument validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { toolInputSchemas, validateArguments, type ValidationIssue } from '../../schemas/index.js';
+
+const validate = (tool: string, args: unknown) => validateArguments<any>(tool, toolInputSchemas[tool], args);
+
+const issuesFor = (tool: string, args: unknown) => {
+  try {
+    validate(tool, args);
+  } catch (error) {
+    return (error as McpError).data as { issues: ValidationIssue[] };
+  }
+  throw new Error('Expected validation to fail');
+};
+
+describe('validateArguments', () => {
+  it('should accept valid arguments and fill in the default version', () => {
+    expect(validate('install_tailwind', { framework: 'react', packageManager: 'pnpm' })).toEqual({
+      framework: 'react',
+      packageManager: 'pnpm',
+      version: 'v4',
+    });
+  });
+
+  it('should treat missing arguments as an empty object', () => {
+    expect(validate('get_tailwind_colors', undefined)).toEqual({ version: 'v4' });
+  });
+
+  it('should validate map values against additionalProperties', () => {
+    expect(issuesFor('set_project_context', { breakpoints: { tablet: '640px', desktop: 1024 } }).issues).toEqual([
+      { field: 'breakpoints.desktop', message: 'must be a string' },
+    ]);
+  });
+
+  it('should drop optional null arguments', () => {
+    expect(validate('get_tailwind_utilities', { category: null, version: 'v3' })).toEqual({ version: 'v3' });
+  });
+
+  it('should throw InvalidParams errors', () => {
+    expect(() => validate('convert_css_to_tailwind', {})).toThrow(McpError);
+    try {
+      validate('convert_css_to_tailwind', {});
+    } catch (error) {
+      expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+      expect((error as McpError).message).toContain('Invalid arguments for convert_css_to_tailwind: "css" is required');
+    }
+  });
+
+  it('should reject empty required strings', () => {
+    expect(issuesFor('generate_component_template', { componentType: '' }).issues).toEqual([
+      { field: 'componentType', message: 'must not be empty' },
+    ]);
+  });
+
+  it('should reject values outside an enum', () => {
+    expect(issuesFor('convert_css_to_tailwind', { css: 'a{}', mode: 'tailwind' }).issues).toEqual([
+      { field: 'mode', message: 'must be one of: inline, classes, component', allowedValues: ['inline', 'classes', 'component'] },
+    ]);
+  });
+
+  it('should suggest close matches for misspelled values and arguments', () => {
+    expect(issuesFor('convert_css_to_tailwind', { css: 'a{}', mode: 'clases' }).issues[0]).toMatchObject({
+      message: 'must be one of: inline, classes, component. Did you mean "classes"?',
+      suggestions: ['classes'],
+    });
+    expect(issuesFor('get_tailwind_colors', { colorname: 'blue' }).issues[0].suggestions).toEqual(['colorName']);
+  });
+
+  it('should reject wrong types without coercing them', () => {
+    expect(issuesFor('generate_component_template', { componentType: 'card', darkMode: 'yes' }).issues).toEqual([
+      { field: 'darkMode', message: 'must be a boolean' },
+    ]);
+  });
+
+  it('should validate array items by index', () => {
+    expect(issuesFor('generate_color_palette', { baseColor: '#fff', name: 'brand', shades: [50, 'x', 1200] }).issues).toEqual([
+      { field: 'shades[1]', message: 'must be an integer' },
+      { field: 'shades[2]', message: 'must be <= 1000' },
+    ]);
+  });
+
+  it('should reject unknown arguments', () => {
+    const { issues } = issuesFor('get_tailwind_colors', { color: 'blue' });
+    expect(issues[0].field).toBe('color');
+    expect(issues[0].message).toContain('is not a recognized argument');
+  });
+
+  it('should reject non-object arguments', () => {
+    expect(issuesFor('get_tailwind_colors', ['blue']).issues).toEqual([
+      { field: 'arguments', message: 'must be an object' },
+    ]);
+  });
+
+  it('should report every invalid field at once', () => {
+    const { issues } = issuesFor('install_tailwind', { packageManager: 'pip', includeTypescript: 1, version: 'v2' });
+    expect(issues.map(issue => issue.field)).toEqual(['framework', 'packageManager', 'includeTypescript', 'version']);
+  });
+});
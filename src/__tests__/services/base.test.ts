@@ -298,6 +298,28 @@ describe('ServiceRegistry', () => {
     });
   });
 
+  describe('status', () => {
+    it('should report each service state and cache statistics', async () => {
+      const cached = new TestCachedService();
+      cached.testMethod('padding', '<html></html>');
+      const failing = new TestService();
+      failing.shouldFailInitialize = true;
+
+      registry.register('cached', cached);
+      registry.register('failing', failing);
+      expect(registry.getStatus().map(service => service.state)).toEqual(['registered', 'registered']);
+
+      await registry.initializeAll().catch(() => {});
+
+      const [cachedStatus, failingStatus] = registry.getStatus();
+      expect(cachedStatus).toMatchObject({ name: 'cached', state: 'ready', cache: { totalEntries: 1 } });
+      expect(failingStatus).toEqual({ name: 'failing', state: 'failed', error: 'Initialize failed' });
+
+      await registry.cleanupAll();
+      expect(registry.getStatus()[0].state).toBe('stopped');
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle empty registry during initialization', async () => {
       await expect(registry.initializeAll()).resolves.toBeUndefined();
@@ -540,5 +540,19 @@ describe('ConversionService', () => {
       const result = await conversionService.convertCSS(params);
       expect(result.version).toBe('v3');
     });
+
+    it('should only emit classes the pinned release ships', async () => {
+      const css = '.element { overflow-wrap: break-word; text-shadow: none; }';
+
+      const latest = await conversionService.convertCSS({ css, version: 'v4' });
+      expect(latest.tailwindClasses).toContain('wrap-break-word');
+      expect(latest.tailwindClasses).toContain('text-shadow-none');
+
+      const pinned = await conversionService.convertCSS({ css, version: 'v4', release: 'v4.0' });
+      expect(pinned.tailwindClasses).toContain('break-words');
+      expect(pinned.tailwindClasses).not.toContain('wrap-break-word');
+      expect(pinned.unsupportedStyles).toContain('text-shadow: none (text-shadow-none requires v4.1)');
+      expect(pinned.suggestions?.some(suggestion => suggestion.includes('Upgrade TailwindCSS to use text-shadow-none (v4.1)'))).toBe(true);
+    });
   });
 });
\ No newline at end of file
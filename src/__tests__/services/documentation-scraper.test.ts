@@ -3,6 +3,9 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { DocumentationScraperService } from '../../services/documentation-scraper.js';
 import { ServiceError } from '../../services/base.js';
 import { httpMock, mockAxios } from '../mocks/http-mock.js';
@@ -93,6 +96,34 @@ describe('DocumentationScraperService', () => {
       await expect(service.scrapePage('/docs/nonexistent')).rejects.toThrow(ServiceError);
     });
 
+    it('should classify missing pages apart from other fetch failures', async () => {
+      const notFound = Object.assign(new Error('Request failed with status code 404'), { response: { status: 404 } });
+      service['axiosInstance'].get = vi.fn().mockRejectedValue(notFound);
+
+      await expect(service.scrapePage('/docs/nonexistent')).rejects.toMatchObject({
+        message: 'Documentation page not found: https://tailwindcss.com/docs/nonexistent',
+        kind: 'not-found',
+      });
+
+      service['axiosInstance'].get = vi.fn().mockRejectedValue(new Error('socket hang up'));
+      await expect(service.searchDocumentation('padding')).rejects.toMatchObject({ kind: 'upstream' });
+    });
+
+    it('should count failed fetches for diagnostics', async () => {
+      // No mocked response, so the request fails
+      await expect(service.scrapePage('/docs/padding')).rejects.toThrow(ServiceError);
+
+      expect(service.getScrapeStats()).toEqual({
+        requests: 1,
+        failures: 1,
+        lastFailure: {
+          url: 'https://tailwindcss.com/docs/padding',
+          message: 'No mock found for GET https://tailwindcss.com/docs/padding',
+          at: expect.any(Date),
+        },
+      });
+    });
+
     it('should extract correct category from path', async () => {
       const testCases = [
         { path: '/docs/padding', expectedCategory: 'padding' },
@@ -113,6 +144,88 @@ describe('DocumentationScraperService', () => {
     });
   });
 
+  describe('configuration', () => {
+    it('should scrape from an overridden docs base URL', async () => {
+      service = new DocumentationScraperService({ docsBaseUrls: { v4: 'https://tailwind.mirror.internal/' } });
+      httpMock.mockRequest(
+        { url: 'https://tailwind.mirror.internal/docs/padding', method: 'GET' },
+        { status: 200, data: sampleTailwindDocsHTML }
+      );
+
+      const document = await service.scrapePage('/docs/padding');
+
+      expect(document.url).toBe('https://tailwind.mirror.internal/docs/padding');
+    });
+
+    it('should refetch pages older than the configured TTL', async () => {
+      service = new DocumentationScraperService({ ttlMs: 1000 });
+      httpMock.mockRequest(
+        { url: 'https://tailwindcss.com/docs/padding', method: 'GET' },
+        { status: 200, data: sampleTailwindDocsHTML }
+      );
+
+      await service.scrapePage('/docs/padding');
+      vi.advanceTimersByTime(2000);
+      await service.scrapePage('/docs/padding');
+
+      expect(httpMock.getRequestHistory()).toHaveLength(2);
+    });
+
+    it('should reuse pages persisted in the cache directory', async () => {
+      const directory = mkdtempSync(join(tmpdir(), 'tailwind-mcp-cache-'));
+      try {
+        httpMock.mockRequest(
+          { url: 'https://tailwindcss.com/docs/padding', method: 'GET' },
+          { status: 200, data: sampleTailwindDocsHTML }
+        );
+        await new DocumentationScraperService({ directory }).scrapePage('/docs/padding');
+        expect(readdirSync(directory)).toHaveLength(1);
+
+        const restarted = new DocumentationScraperService({ directory });
+        const document = await restarted.scrapePage('/docs/padding');
+
+        expect(document.content).toBe(sampleTailwindDocsHTML);
+        expect(document.lastUpdated).toBeInstanceOf(Date);
+        expect(httpMock.getRequestHistory()).toHaveLength(1);
+      } finally {
+        rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('getDocumentationPage', () => {
+    it('should return the readable text of a documentation page', async () => {
+      httpMock.mockRequest(
+        { url: 'https://tailwindcss.com/docs/dark-mode', method: 'GET' },
+        {
+          status: 200,
+          data: '<html><body><nav>Menu</nav><main><h1>Dark mode</h1>\n\n\n<p>Using   variants to style your site in dark mode.</p><script>track()</script></main></body></html>',
+        }
+      );
+
+      const page = await service.getDocumentationPage('dark-mode');
+
+      expect(page.url).toBe('https://tailwindcss.com/docs/dark-mode');
+      expect(page.title).toBe('Dark mode');
+      expect(page.content).toContain('Using variants to style your site in dark mode.');
+      expect(page.content).not.toContain('Menu');
+      expect(page.content).not.toContain('track()');
+      expect(page.version).toBe('v4');
+    });
+
+    it('should resolve nested paths against the versioned docs URL', async () => {
+      httpMock.mockRequest(
+        { url: 'https://v3.tailwindcss.com/docs/guides/nextjs', method: 'GET' },
+        { status: 200, data: '<html><body><h1>Install with Next.js</h1></body></html>' }
+      );
+
+      const page = await service.getDocumentationPage('/guides/nextjs', 'v3');
+
+      expect(page.url).toBe('https://v3.tailwindcss.com/docs/guides/nextjs');
+      expect(page.version).toBe('v3');
+    });
+  });
+
   describe('searchDocumentation', () => {
     it('should search documentation and return relevant results', async () => {
       httpMock.mockRequest(
@@ -139,6 +252,17 @@ describe('DocumentationScraperService', () => {
       expect(results.length).toBeLessThanOrEqual(3);
     });
 
+    it('should return the requested number of results, 10 by default', async () => {
+      httpMock.mockRequest(
+        { url: 'https://tailwindcss.com/docs', method: 'GET' },
+        { status: 200, data: sampleDocsIndexHTML }
+      );
+
+      expect(await service.searchDocumentation({ query: '', limit: 3 })).toHaveLength(3);
+      expect(await service.searchDocumentation({ query: '' })).toHaveLength(10);
+      expect(await service.searchDocumentation({ query: '', limit: 15 })).toHaveLength(15);
+    });
+
     it('should handle case insensitive search', async () => {
       httpMock.mockRequest(
         { url: 'https://tailwindcss.com/docs', method: 'GET' },
@@ -169,6 +293,30 @@ describe('DocumentationScraperService', () => {
       }
     });
 
+    it('should pass the abort signal to the index request', async () => {
+      httpMock.mockRequest(
+        { url: 'https://tailwindcss.com/docs', method: 'GET' },
+        { status: 200, data: sampleDocsIndexHTML }
+      );
+      const controller = new AbortController();
+
+      await service.searchDocumentation({ query: 'padding' }, { signal: controller.signal });
+      expect(httpMock.getRequestHistory()[0].config.signal).toBe(controller.signal);
+
+    });
+
+    it('should abort the index request when the search is cancelled', async () => {
+      const controller = new AbortController();
+      vi.mocked(mockAxios().get).mockImplementation((_url: string, config?: { signal?: AbortSignal }) =>
+        new Promise((_, reject) => config?.signal?.addEventListener('abort', () => reject(new Error('canceled'))))
+      );
+
+      const search = service.searchDocumentation({ query: 'padding', version: 'v3' }, { signal: controller.signal });
+      controller.abort();
+
+      await expect(search).rejects.toThrow('Operation cancelled');
+    });
+
     it('should handle search errors gracefully', async () => {
       const axiosGet = vi.fn().mockRejectedValue(new Error('Network error'));
       vi.mocked(mockAxios().get).mockImplementation(axiosGet);
@@ -227,6 +375,78 @@ describe('DocumentationScraperService', () => {
     });
   });
 
+  describe('scrapeAllUtilities', () => {
+    beforeEach(() => {
+      httpMock.mockRequest(
+        { url: 'https://tailwindcss.com/docs' },
+        { status: 200, data: '<html><body><h1>Utility</h1><p>Description</p></body></html>' }
+      );
+    });
+
+    it('should report progress for every scraped page', async () => {
+      const onProgress = vi.fn();
+
+      const utilities = await service.scrapeAllUtilities({ categories: ['spacing'], onProgress });
+
+      expect(utilities.map(utility => utility.id)).toEqual(['padding', 'margin', 'space-between']);
+      expect(utilities[0].category.id).toBe('spacing');
+      expect(onProgress).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenNthCalledWith(1, { progress: 1, total: 3, message: 'Scraped /docs/padding' });
+      expect(onProgress).toHaveBeenLastCalledWith({ progress: 3, total: 3, message: 'Scraped /docs/space-between' });
+    });
+
+    it('should pass the abort signal down to every request', async () => {
+      const controller = new AbortController();
+
+      await service.scrapeAllUtilities({ categories: ['spacing'], signal: controller.signal });
+
+      const history = httpMock.getRequestHistory();
+      expect(history.length).toBeGreaterThan(0);
+      expect(history.every(({ config }) => config.signal === controller.signal)).toBe(true);
+    });
+
+    it('should stop scraping once cancelled', async () => {
+      const controller = new AbortController();
+      const onProgress = vi.fn(() => controller.abort());
+
+      await expect(
+        service.scrapeAllUtilities({ categories: ['spacing'], signal: controller.signal, onProgress })
+      ).rejects.toThrow('Operation cancelled');
+      expect(onProgress).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('scrapeAllColors', () => {
+    it('should report progress for every color', async () => {
+      httpMock.mockRequest(
+        { url: 'https://tailwindcss.com/docs/customizing-colors' },
+        { status: 200, data: '<html><body><h1>Colors</h1></body></html>' }
+      );
+      const onProgress = vi.fn();
+
+      const colors = await service.scrapeAllColors({ onProgress });
+
+      expect(onProgress).toHaveBeenCalledTimes(22);
+      expect(onProgress).toHaveBeenLastCalledWith({ progress: 22, total: 22, message: 'Extracted rose' });
+      expect(colors.length).toBeLessThanOrEqual(22);
+    });
+
+    it('should reject without scraping when already cancelled', async () => {
+      httpMock.mockRequest(
+        { url: 'https://tailwindcss.com/docs/customizing-colors' },
+        { status: 200, data: '<html><body><h1>Colors</h1></body></html>' }
+      );
+      const controller = new AbortController();
+      controller.abort();
+      const onProgress = vi.fn();
+
+      await expect(
+        service.scrapeAllColors({ signal: controller.signal, onProgress })
+      ).rejects.toThrow('Operation cancelled');
+      expect(onProgress).not.toHaveBeenCalled();
+    });
+  });
+
   describe('extractConfigGuide', () => {
     it('should extract configuration guide information', async () => {
       const mockConfigHTML = `
@@ -0,0 +1,371 @@
+/**
+ * Tests for MigrationService
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MigrationService } from '../../services/migration-service.js';
+import { ServiceError } from '../../services/base.js';
+import { getVersionConfig } from '../../version/index.js';
+
+describe('MigrationService', () => {
+  let service: MigrationService;
+
+  const migrate = async (content: string) => (await service.migrateClasses({ content })).output;
+
+  beforeEach(async () => {
+    service = new MigrationService();
+    await service.initialize();
+  });
+
+  describe('renamed utilities', () => {
+    it('should shift the shadow, blur and rounded scales down a step', async () => {
+      expect(await migrate('shadow-sm shadow blur rounded rounded-sm rounded-t drop-shadow backdrop-blur-sm'))
+        .toBe('shadow-xs shadow-sm blur-sm rounded-sm rounded-xs rounded-t-sm drop-shadow-sm backdrop-blur-xs');
+    });
+
+    it('should rename removed and deprecated utilities', async () => {
+      expect(await migrate('outline-none ring flex-shrink-0 flex-grow overflow-ellipsis decoration-clone bg-gradient-to-r'))
+        .toBe('outline-hidden ring-3 shrink-0 grow text-ellipsis box-decoration-clone bg-linear-to-r');
+    });
+
+    it('should keep variants and leave current utilities alone', async () => {
+      expect(await migrate('flex md:hover:shadow  p-4 shadow-md')).toBe('flex md:hover:shadow-sm  p-4 shadow-md');
+    });
+
+    it('should feed the v4 renames of the version config', () => {
+      const renames = getVersionConfig('v4').renamedUtilities;
+      expect(renames.get('flex-shrink')).toBe('shrink');
+      expect(renames.get('shadow-sm')).toBe('shadow-xs');
+    });
+  });
+
+  describe('syntax changes', () => {
+    it('should move the important modifier to the end', async () => {
+      expect(await migrate('!flex hover:!-mt-4 sm:!rounded')).toBe('flex! hover:-mt-4! sm:rounded-sm!');
+    });
+
+    it('should reverse variant stacks that target other elements', async () => {
+      expect(await migrate('first:*:pt-0 md:last:[&>p]:mb-0 hover:focus:underline')).toBe('*:first:pt-0 md:[&>p]:last:mb-0 hover:focus:underline');
+      expect(await migrate('dark:[&_p]:first:mt-0 hover:before:block')).toBe('dark:first:[&_p]:mt-0 hover:before:block');
+    });
+
+    it('should move opacity utilities onto the color with the same variants', async () => {
+      const result = await service.migrateClasses({ content: 'bg-black bg-opacity-50 hover:text-red-500 hover:text-opacity-[.35] p-2' });
+
+      expect(result.output).toBe('bg-black/50 hover:text-red-500/[.35] p-2');
+      expect(result.changes[0]).toEqual({
+        from: 'bg-black bg-opacity-50',
+        to: 'bg-black/50',
+        reason: 'bg-opacity-* was removed in v4; the opacity is now a modifier on the color',
+        occurrences: 1,
+      });
+    });
+
+    it('should keep opacity utilities without a matching color and warn', async () => {
+      const result = await service.migrateClasses({ content: 'bg-opacity-50 hover:bg-white' });
+
+      expect(result.output).toBe('bg-opacity-50 hover:bg-white');
+      expect(result.warnings[0]).toMatch(/^bg-opacity-50: bg-opacity-\* was removed in v4/);
+    });
+  });
+
+  describe('markup', () => {
+    it('should rewrite class and className attributes only', async () => {
+      const result = await service.migrateClasses({
+        content: [
+          '<div class="shadow rounded">',
+          '  <Button className={\'!flex ring\'} :class="shadow" data-note="shadow" />',
+          '  <p class=\'shadow\'>shadow</p>',
+          '</div>',
+        ].join('\n'),
+      });
+
+      expect(result.format).toBe('markup');
+      expect(result.output).toBe([
+        '<div class="shadow-sm rounded-sm">',
+        '  <Button className={\'flex! ring-3\'} :class="shadow" data-note="shadow" />',
+        '  <p class=\'shadow-sm\'>shadow</p>',
+        '</div>',
+      ].join('\n'));
+      expect(result.changes.find(change => change.from === 'shadow')).toMatchObject({ to: 'shadow-sm', occurrences: 2 });
+    });
+
+    it('should leave interpolated template literals alone', async () => {
+      expect(await migrate('<div className={`shadow ${active}`} class="shadow">')).toBe('<div className={`shadow ${active}`} class="shadow-sm">');
+    });
+  });
+
+  describe('warnings', () => {
+    it('should flag classes that behave differently in v4', async () => {
+      const { warnings } = await service.migrateClasses({ content: 'border ring space-y-4 hover:underline' });
+
+      expect(warnings).toEqual([
+        expect.stringMatching(/^border: Borders and dividers default to currentColor/),
+        expect.stringMatching(/^ring-3: Rings default to currentColor/),
+        expect.stringMatching(/^space-y-4: space-x-\* and space-y-\*/),
+        expect.stringMatching(/^hover:underline: The hover: variant only applies/),
+      ]);
+    });
+
+    it('should not flag borders and rings with an explicit color', async () => {
+      const { warnings } = await service.migrateClasses({ content: 'border-2 border-gray-200 ring ring-blue-500' });
+      expect(warnings).toEqual([]);
+    });
+  });
+});
+
+describe('MigrationService config migration', () => {
+  const service = new MigrationService();
+  const migrate = (config: string) => service.migrateConfig({ config });
+
+  it('should translate theme, darkMode, prefix and plugins into a CSS entry point', async () => {
+    const result = await migrate(`
+      const defaultTheme = require('tailwindcss/defaultTheme');
+
+      /** @type {import('tailwindcss').Config} */
+      module.exports = {
+        content: ['./src/**/*.{js,jsx}'],
+        darkMode: 'class',
+        prefix: 'tw-',
+        theme: {
+          screens: { sm: '480px', lg: '1024px' },
+          extend: {
+            colors: {
+              brand: { DEFAULT: '#3b82f6', light: '#93c5fd' },
+            },
+            spacing: { '4.5': '1.125rem' },
+            fontFamily: { display: ['Inter var', ...defaultTheme.fontFamily.sans], mono: ['"Fira Code"', 'monospace'] },
+            fontSize: { huge: ['5rem', { lineHeight: '1', letterSpacing: '-0.02em' }] },
+            animation: { wiggle: 'wiggle 1s ease-in-out infinite' },
+            keyframes: {
+              wiggle: { '0%, 100%': { transform: 'rotate(-3deg)' }, '50%': { transform: 'rotate(3deg)' } },
+            },
+          },
+        },
+        plugins: [require('@tailwindcss/typography'), require('@tailwindcss/forms')({ strategy: 'class' })],
+      };
+    `);
+
+    expect(result.css).toBe([
+      '@import "tailwindcss" prefix(tw);',
+      '',
+      '@plugin "@tailwindcss/typography";',
+      '@plugin "@tailwindcss/forms" {',
+      '  strategy: class;',
+      '}',
+      '',
+      '@custom-variant dark (&:where(.dark, .dark *));',
+      '',
+      '@theme {',
+      '  --breakpoint-*: initial;',
+      '  --breakpoint-sm: 480px;',
+      '  --breakpoint-lg: 1024px;',
+      '  --color-brand: #3b82f6;',
+      '  --color-brand-light: #93c5fd;',
+      '  --spacing-4_5: 1.125rem;',
+      '  --font-mono: "Fira Code", monospace;',
+      '  --text-huge: 5rem;',
+      '  --text-huge--line-height: 1;',
+      '  --text-huge--letter-spacing: -0.02em;',
+      '  --animate-wiggle: wiggle 1s ease-in-out infinite;',
+      '',
+      '  @keyframes wiggle {',
+      '    0%, 100% {',
+      '      transform: rotate(-3deg);',
+      '    }',
+      '    50% {',
+      '      transform: rotate(3deg);',
+      '    }',
+      '  }',
+      '}',
+      '',
+    ].join('\n'));
+    expect(result.notes).toEqual([
+      expect.stringMatching(/^content: v4 finds your source files automatically/),
+      expect.stringContaining('tw-flex hover:tw-underline becomes tw:flex tw:hover:underline'),
+    ]);
+    expect(result.warnings).toEqual([
+      expect.stringMatching(/^theme\.extend\.fontFamily\.display: `\.\.\.defaultTheme\.fontFamily\.sans` can't be read statically/),
+    ]);
+  });
+
+  it('should escape theme keys that are not valid in variable names', async () => {
+    const result = await migrate(`
+      module.exports = {
+        theme: { extend: { spacing: { '1/2': '50%', '2.5': '0.625rem' }, colors: { 'brand+': '#3b82f6' } } },
+      };
+    `);
+
+    expect(result.css).toContain([
+      '  --spacing-1\\/2: 50%;',
+      '  --spacing-2_5: 0.625rem;',
+      '  --color-brand\\+: #3b82f6;',
+    ].join('\n'));
+  });
+
+  it('should read TypeScript configs with imported plugins and selector strategies', async () => {
+    const result = await migrate(`
+      import type { Config } from 'tailwindcss';
+      import typography from '@tailwindcss/typography';
+      import containerQueries from '@tailwindcss/container-queries';
+
+      const config: Config = {
+        darkMode: ['selector', '[data-theme="dark"]'],
+        important: true,
+        theme: { extend: { boxShadow: { card: '0 1px 2px rgb(0 0 0 / 0.1)' } } },
+        plugins: [typography({ className: 'wysiwyg' }), containerQueries],
+      } satisfies Config;
+
+      export default config;
+    `);
+
+    expect(result.css).toContain('@import "tailwindcss" important;');
+    expect(result.css).toContain('@plugin "@tailwindcss/typography" {\n  className: wysiwyg;\n}');
+    expect(result.css).not.toContain('container-queries');
+    expect(result.css).toContain('@custom-variant dark (&:where([data-theme="dark"], [data-theme="dark"] *));');
+    expect(result.css).toContain('--shadow-card: 0 1px 2px rgb(0 0 0 / 0.1);');
+    expect(result.notes).toEqual([expect.stringMatching(/^@tailwindcss\/container-queries: Container queries are built into v4/)]);
+  });
+
+  it('should flag options and values it cannot translate', async () => {
+    const result = await migrate(`
+      const colors = require('tailwindcss/colors');
+
+      export default {
+        darkMode: ['variant', '&:not(.light *)'],
+        safelist: ['bg-red-500'],
+        corePlugins: { preflight: false },
+        theme: {
+          colors: { primary: colors.blue, white: '#fff' },
+          extend: {
+            gridTemplateColumns: { sidebar: '200px 1fr' },
+            screens: { tall: { raw: '(min-height: 800px)' } },
+          },
+        },
+        plugins: [plugin(function ({ addUtilities }) { addUtilities({}) })],
+      };
+    `);
+
+    expect(result.css).toContain('@custom-variant dark (&:not(.light *));');
+    expect(result.css).toContain('  --color-*: initial;\n  --color-white: #fff;');
+    expect(result.warnings).toEqual([
+      expect.stringMatching(/^safelist: v4 has no safelist/),
+      expect.stringMatching(/^corePlugins: /),
+      'theme.colors.primary: `colors.blue` is computed; add --color-primary to @theme by hand',
+      expect.stringMatching(/^theme\.extend\.gridTemplateColumns: v4 has no @theme namespace/),
+      expect.stringMatching(/^theme\.extend\.screens\.tall: min\/max\/raw screens/),
+      expect.stringMatching(/^plugins: `plugin\(function .*` is defined inline/),
+    ]);
+  });
+
+  it('should reject sources without an exported config object as invalid params', async () => {
+    const missing = await migrate('const config = 1;').catch(error => error);
+    const broken = await migrate('module.exports = { theme: { colors: { a: "b" }; };').catch(error => error);
+
+    expect(missing).toBeInstanceOf(ServiceError);
+    expect(missing.kind).toBe('invalid-params');
+    expect(missing.details).toEqual({ field: 'config' });
+    expect(missing.message).toContain('No exported config object found');
+    expect(broken.message).toMatch(/^Could not read the config: Expected "}" but found ";" \(line 1\)/);
+  });
+});
+
+describe('MigrationService theme migration', () => {
+  const service = new MigrationService();
+
+  it('should map @theme variables into theme.extend of a v3 config', async () => {
+    const result = await service.migrateThemeToV3({
+      css: `
+        @import "tailwindcss";
+
+        @theme {
+          --color-brand: #3b82f6;
+          --color-brand-50: #eff6ff;
+          --color-brand-900: #1e3a8a;
+          --color-accent: var(--color-brand-50);
+          --spacing-4_5: 1.125rem;
+          --font-display: "Inter var", ui-sans-serif, sans-serif;
+          --font-display--font-feature-settings: "cv11";
+          --font-weight-heavy: 850;
+          --breakpoint-3xl: 120rem;
+          --radius-card: 0.75rem;
+          --animate-wiggle: wiggle 1s ease-in-out infinite;
+
+          @keyframes wiggle {
+            0%, 100% { transform: rotate(-3deg); }
+            50% { transform: rotate(3deg); }
+          }
+        }
+      `,
+    });
+
+    expect(result.filename).toBe('tailwind.config.js');
+    expect(result.warnings).toEqual([]);
+    expect(result.content).toContain([
+      '  theme: {',
+      '    extend: {',
+      '      colors: {',
+      '        brand: {',
+      "          50: '#eff6ff',",
+      "          900: '#1e3a8a',",
+      "          DEFAULT: '#3b82f6',",
+      '        },',
+      "        accent: '#eff6ff',",
+      '      },',
+      '      spacing: {',
+      "        '4.5': '1.125rem',",
+      '      },',
+      '      fontFamily: {',
+      `        display: [['"Inter var"', 'ui-sans-serif', 'sans-serif'], {`,
+      `          fontFeatureSettings: '"cv11"',`,
+      '        }],',
+    ].join('\n'));
+    expect(result.content).toContain("      fontWeight: {\n        heavy: '850',\n      },");
+    expect(result.content).toContain("      screens: {\n        '3xl': '120rem',\n      },");
+    expect(result.content).toContain("      borderRadius: {\n        card: '0.75rem',\n      },");
+    expect(result.content).toContain("      keyframes: {\n        wiggle: {\n          '0%, 100%': {\n            transform: 'rotate(-3deg)',\n          },");
+  });
+
+  it('should unescape variable names back into theme keys', async () => {
+    const result = await service.migrateThemeToV3({ css: '@theme { --spacing-1\\/2: 50%; --color-brand\\+: #3b82f6; }' });
+
+    expect(result.warnings).toEqual([]);
+    expect(result.content).toContain("      spacing: {\n        '1/2': '50%',\n      },");
+    expect(result.content).toContain("      colors: {\n        'brand+': '#3b82f6',\n      },");
+  });
+
+  it('should write TypeScript configs with the given content paths', async () => {
+    const result = await service.migrateThemeToV3({
+      css: '@theme { --animate-spin-slow: spin 3s linear infinite; }',
+      includeTypescript: true,
+      contentPaths: ['./app/**/*.tsx'],
+    });
+
+    expect(result.filename).toBe('tailwind.config.ts');
+    expect(result.content).toContain('const config: Config = {');
+    expect(result.content).toContain('"./app/**/*.tsx"');
+    expect(result.content).toContain("      animation: {\n        'spin-slow': 'spin 3s linear infinite',\n      },");
+  });
+
+  it('should flag variables without a v3 theme key', async () => {
+    const { warnings, content } = await service.migrateThemeToV3({
+      css: '@theme { --color-*: initial; --spacing: 0.25rem; --default-transition-duration: 200ms; --size-lg: calc(var(--spacing) * 8); --color-white: #fff; }',
+    });
+
+    expect(warnings).toEqual([
+      '--color-*: initial resets the v4 defaults; to replace the v3 defaults too, move these values from theme.extend to theme',
+      expect.stringMatching(/^--spacing: v4 derives the spacing scale from this value/),
+      expect.stringMatching(/^--default-transition-duration: no v3 theme key matches/),
+      expect.stringMatching(/^--size-lg: no v3 theme key matches/),
+    ]);
+    expect(content).toContain("colors: {\n        white: '#fff',\n      },");
+  });
+
+  it('should reject CSS without a @theme block as invalid params', async () => {
+    const error = await service.migrateThemeToV3({ css: ':root { --brand: red; }' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ServiceError);
+    expect(error.kind).toBe('invalid-params');
+    expect(error.details).toEqual({ field: 'css' });
+  });
+});
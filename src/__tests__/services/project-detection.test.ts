@@ -0,0 +1,176 @@
+/**
+ * Tests for ProjectDetectionService
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { ProjectDetectionService } from '../../services/project-detection.js';
+import { InstallationService } from '../../services/installation-service.js';
+import { ServiceError } from '../../services/base.js';
+import { createToolSession } from '../../session/index.js';
+import { createToolRegistry, type ToolContext, type ToolServices } from '../../tools/index.js';
+
+describe('ProjectDetectionService', () => {
+  const service = new ProjectDetectionService();
+  let root: string;
+
+  /** Creates a project directory with the given files */
+  const project = async (name: string, files: Record<string, string | object>): Promise<string> => {
+    const directory = join(root, name);
+    for (const [file, content] of Object.entries(files)) {
+      await mkdir(dirname(join(directory, file)), { recursive: true });
+      await writeFile(join(directory, file), typeof content === 'string' ? content : JSON.stringify(content, null, 2));
+    }
+    return directory;
+  };
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), 'tailwind-detect-'));
+    await service.initialize();
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should detect a v4 Vite project from its lockfile', async () => {
+    const directory = await project('vite-v4', {
+      'package.json': { devDependencies: { tailwindcss: '^4.0.0', '@tailwindcss/vite': '^4.0.0', vite: '^6.0.0', react: '^19.0.0' } },
+      'pnpm-lock.yaml': "lockfileVersion: '9.0'\n\npackages:\n\n  '@tailwindcss/vite@4.1.3':\n    resolution: {}\n\n  tailwindcss@4.1.3:\n    resolution: {}\n",
+      'vite.config.ts': "import tailwindcss from '@tailwindcss/vite';\nexport default { plugins: [tailwindcss()] };\n",
+      'src/index.css': '@import "tailwindcss";\n',
+    });
+
+    const setup = await service.detectSetup({ directory });
+
+    expect(setup).toMatchObject({
+      directory,
+      detected: true,
+      version: 'v4',
+      release: 'v4.1',
+      packageVersion: '4.1.3',
+      versionSource: 'lockfile',
+      integration: 'vite',
+      framework: 'react',
+      packageManager: 'pnpm',
+      configFiles: ['vite.config.ts'],
+      cssEntries: ['src/index.css'],
+    });
+    expect(setup.evidence).toContain('tailwindcss 4.1.3 found in pnpm-lock.yaml');
+  });
+
+  it('should detect a v3 PostCSS project from the installed package', async () => {
+    const directory = await project('next-v3', {
+      'package.json': { dependencies: { next: '14.2.0', react: '^18.0.0' }, devDependencies: { tailwindcss: '^3.3.0', postcss: '^8', autoprefixer: '^10' } },
+      'package-lock.json': { packages: { 'node_modules/tailwindcss': { version: '3.3.7' } } },
+      'node_modules/tailwindcss/package.json': { name: 'tailwindcss', version: '3.4.17' },
+      'postcss.config.js': 'module.exports = { plugins: { tailwindcss: {}, autoprefixer: {} } };\n',
+      'tailwind.config.js': 'module.exports = { content: [] };\n',
+      'app/globals.css': '@tailwind base;\n@tailwind components;\n@tailwind utilities;\n',
+      'node_modules/some-lib/styles.css': '@tailwind base;\n',
+    });
+
+    expect(await service.detectSetup({ directory })).toMatchObject({
+      version: 'v3',
+      release: 'v3.4',
+      packageVersion: '3.4.17',
+      versionSource: 'node_modules',
+      integration: 'postcss',
+      framework: 'nextjs',
+      packageManager: 'npm',
+      configFiles: ['postcss.config.js', 'tailwind.config.js'],
+      cssEntries: ['app/globals.css'],
+    });
+  });
+
+  it('should fall back to the declared range and the packageManager field', async () => {
+    const directory = await project('cli-range', {
+      'package.json': {
+        packageManager: 'yarn@4.1.0',
+        scripts: { 'build:css': 'tailwindcss -i ./src/input.css -o ./dist/output.css' },
+        devDependencies: { tailwindcss: '~3.2.4' },
+      },
+    });
+
+    expect(await service.detectSetup({ directory })).toMatchObject({
+      version: 'v3',
+      release: 'v3.2',
+      packageVersion: '~3.2.4',
+      versionSource: 'package.json',
+      integration: 'cli',
+      packageManager: 'yarn',
+    });
+  });
+
+  it('should infer the version from the stylesheets when no package declares it', async () => {
+    const directory = await project('laravel', {
+      'composer.json': { require: { 'laravel/framework': '^11.0' } },
+      'resources/css/app.css': '@import "tailwindcss";\n@theme { --color-brand: #3b82f6; }\n',
+    });
+
+    const setup = await service.detectSetup({ directory });
+
+    expect(setup).toMatchObject({ detected: true, version: 'v4', release: 'v4.1', versionSource: 'setup', framework: 'laravel' });
+    expect(setup.evidence).toContain('resources/css/app.css uses @import "tailwindcss" or @theme');
+  });
+
+  it('should note stylesheets that do not match the installed version', async () => {
+    const directory = await project('mid-migration', {
+      'package.json': { devDependencies: { tailwindcss: '4.0.6' } },
+      'src/styles.css': '@tailwind base;\n@tailwind utilities;\n',
+    });
+
+    const setup = await service.detectSetup({ directory });
+
+    expect(setup).toMatchObject({ version: 'v4', release: 'v4.0' });
+    expect(setup.evidence.some(reason => reason.includes('src/styles.css uses @tailwind directives, which is v3 syntax'))).toBe(true);
+  });
+
+  it('should report projects without TailwindCSS', async () => {
+    const directory = await project('plain', { 'package.json': { dependencies: { express: '^4' } }, 'yarn.lock': '' });
+
+    const setup = await service.detectSetup({ directory });
+
+    expect(setup.detected).toBe(false);
+    expect(setup.version).toBeUndefined();
+    expect(setup.packageManager).toBe('yarn');
+    expect(setup.evidence).toContain('No TailwindCSS dependency, config file or stylesheet found');
+  });
+
+  it('should only report framework keys the installation service supports', async () => {
+    const installationService = new InstallationService();
+    await installationService.initialize();
+    const directory = await project('svelte', { 'package.json': { devDependencies: { '@sveltejs/kit': '^2', tailwindcss: '^4.1.0' } } });
+
+    const { framework } = await service.detectSetup({ directory });
+
+    expect(installationService.getSupportedFrameworks()).toContain(framework);
+  });
+
+  it('should reject missing directories as invalid params', async () => {
+    const error = await service.detectSetup({ directory: join(root, 'missing') }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ServiceError);
+    expect(error.kind).toBe('invalid-params');
+    expect(error.details).toMatchObject({ field: 'directory' });
+    expect(error.message).toContain('Directory not found');
+  });
+
+  it('should only read directories inside the project root when one is set', async () => {
+    const registry = createToolRegistry();
+    const inside = await project('served', { 'package.json': { devDependencies: { tailwindcss: '^4.1.0' } } });
+    const context: ToolContext = {
+      services: { projectDetector: service } as ToolServices,
+      options: {},
+      session: createToolSession(),
+      projectRoot: inside,
+    };
+
+    await expect(registry.run('detect_tailwind_setup', { directory: inside }, context))
+      .resolves.toMatchObject({ data: { detected: true } });
+    await expect(registry.run('detect_tailwind_setup', { directory: join(inside, '..') }, context))
+      .rejects.toMatchObject({ message: expect.stringContaining('outside the project root'), data: { field: 'directory' } });
+  });
+});
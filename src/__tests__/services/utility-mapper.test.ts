@@ -84,14 +84,14 @@ describe('UtilityMapperService', () => {
     it('should create arbitrary utilities for unsupported values', async () => {
       const css = `
         .test {
-          margin: 1.75rem;
+          margin: 1.8rem;
           width: 425px;
         }
       `;
 
       const result = await service.convertCSSToTailwind(css);
 
-      expect(result.tailwindClasses).toContain('m-[1.75rem]');
+      expect(result.tailwindClasses).toContain('m-[1.8rem]');
       expect(result.tailwindClasses).toContain('w-[425px]');
       expect(result.suggestions).toBeDefined();
       expect(result.suggestions!.length).toBeGreaterThan(0);
@@ -188,6 +188,16 @@ describe('UtilityMapperService', () => {
       });
     });
 
+    describe('getCategories', () => {
+      it('should return each category once, sorted', () => {
+        const categories = service.getCategories();
+
+        expect(categories).toContain('spacing');
+        expect(categories).toContain('typography');
+        expect(categories).toEqual([...new Set(categories)].sort());
+      });
+    });
+
     describe('getUtilitiesByProperty', () => {
       it('should return utilities for valid CSS properties', () => {
         const marginUtilities = service.getUtilitiesByProperty('margin');
@@ -252,6 +262,360 @@ describe('UtilityMapperService', () => {
     });
   });
 
+  describe('getUtilities', () => {
+    it('should record the release that introduced a utility', async () => {
+      const [utility] = await service.getUtilities({ search: 'text-shadow-xs' });
+      expect(utility.minVersion).toBe('v4.1');
+    });
+
+    it('should leave out utilities the requested release does not ship', async () => {
+      const names = async (params: Parameters<typeof service.getUtilities>[0]) =>
+        (await service.getUtilities(params)).map(utility => utility.name);
+
+      expect(await names({ category: 'effects', version: 'v4' })).toContain('text-shadow-xs');
+      expect(await names({ category: 'effects', version: 'v4', release: 'v4.0' })).not.toContain('text-shadow-xs');
+      expect(await names({ category: 'typography', version: 'v3' })).toContain('text-balance');
+    });
+
+    it('should list the variants of the category in the requested release', async () => {
+      const prefixes = async (params: Parameters<typeof service.getUtilities>[0]) =>
+        (await service.getUtilities(params))[0].modifiers.map(modifier => modifier.prefix);
+
+      expect(await prefixes({ search: 'bg-blue-500', version: 'v4' })).toEqual(expect.arrayContaining(['md:', 'hover:', 'aria-selected:', 'data-[state=open]:']));
+      expect(await prefixes({ search: 'bg-blue-500', version: 'v3', release: 'v3.0' })).not.toContain('aria-selected:');
+      expect((await service.getUtilities({ search: 'bg-blue-500' }))[0].modifiers[0]).toEqual({
+        type: 'responsive',
+        prefix: 'sm:',
+        description: 'Applies inside @media (width >= 40rem)',
+      });
+    });
+  });
+
+  describe('catalog', () => {
+    it('should cover borders, effects, grid, transforms, filters and interactivity', () => {
+      const find = (category: string, name: string) =>
+        service.getUtilitiesByCategory(category).find(utility => utility.name === name);
+
+      expect(find('borders', 'rounded-lg')).toMatchObject({ cssProperty: 'border-radius', values: [{ value: '0.5rem' }] });
+      expect(find('effects', 'shadow-md')).toMatchObject({ cssProperty: 'box-shadow' });
+      expect(find('flexbox-and-grid', 'grid-cols-3')).toMatchObject({ values: [{ value: 'repeat(3, minmax(0, 1fr))' }] });
+      expect(find('transforms', '-rotate-45')).toMatchObject({ cssProperty: 'transform', values: [{ value: 'rotate(-45deg)' }] });
+      expect(find('filters', 'backdrop-blur-md')).toMatchObject({ cssProperty: 'backdrop-filter', values: [{ value: 'blur(12px)' }] });
+      expect(find('interactivity', 'cursor-pointer')).toMatchObject({ cssProperty: 'cursor', values: [{ value: 'pointer' }] });
+    });
+
+    it('should generate color utilities from the palette', () => {
+      const [utility] = service.getUtilitiesByProperty('background-color').filter(candidate => candidate.name === 'bg-blue-500');
+      expect(utility.values[0].value).toBe('#3b82f6');
+      expect(service.getUtilitiesByProperty('color').map(candidate => candidate.name)).toEqual(
+        expect.arrayContaining(['text-current', 'text-slate-900'])
+      );
+    });
+
+    it('should know every palette color, including the 950 shades', async () => {
+      const names = async (params: Parameters<typeof service.getUtilities>[0]) => (await service.getUtilities(params)).map(utility => utility.name);
+
+      expect(await names({ search: 'red-500', version: 'v3' })).toEqual(expect.arrayContaining(['bg-red-500', 'text-red-500', 'border-red-500']));
+      expect(await names({ search: 'border-green-300', version: 'v3' })).toContain('border-green-300');
+      expect(await names({ search: 'bg-gray-950', version: 'v3', release: 'v3.3' })).toContain('bg-gray-950');
+      expect(await names({ search: 'bg-gray-950', version: 'v3', release: 'v3.2' })).toEqual([]);
+      expect((await service.explainClass({ className: 'hover:bg-red-500', version: 'v3' })).declarations).toEqual(['background-color: #ef4444']);
+      await expect(service.explainClass({ className: 'bg-zinc-950', version: 'v3', release: 'v3.2' })).rejects.toThrow(/needs TailwindCSS v3\.3/);
+    });
+
+    it('should describe every declaration of composite utilities', async () => {
+      const [truncate] = await service.getUtilities({ search: 'truncate' });
+      expect(truncate.examples[0].description).toBe('Applies text-overflow: ellipsis; overflow: hidden; white-space: nowrap');
+    });
+
+    it('should keep each version to the utilities it ships', async () => {
+      const names = async (params: Parameters<typeof service.getUtilities>[0]) =>
+        (await service.getUtilities(params)).map(utility => utility.name);
+
+      const v3 = await names({ category: 'effects', version: 'v3' });
+      const v4 = await names({ category: 'effects', version: 'v4' });
+      expect(v3).toEqual(expect.arrayContaining(['shadow-sm', 'shadow', 'shadow-inner']));
+      expect(v3).not.toContain('shadow-2xs');
+      expect(v4).toEqual(expect.arrayContaining(['shadow-2xs', 'shadow-xs', 'shadow-sm', 'inset-shadow-sm']));
+      expect(v4).not.toContain('shadow-inner');
+      expect(await names({ category: 'backgrounds', version: 'v3' })).toContain('bg-opacity-50');
+      expect(await names({ category: 'backgrounds', version: 'v4' })).not.toContain('bg-opacity-50');
+    });
+
+    it('should list v4 classes with their v4 names and CSS', async () => {
+      const v4 = [
+        ...await service.getUtilities({ category: 'effects', version: 'v4' }),
+        ...await service.getUtilities({ category: 'filters', version: 'v4' }),
+        ...await service.getUtilities({ category: 'borders', version: 'v4' }),
+      ];
+      const find = (name: string) => v4.find(utility => utility.name === name);
+
+      expect(find('shadow-sm')).toMatchObject({
+        values: [{ class: 'shadow-sm', value: '0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)' }],
+        examples: [{ code: '<div class="shadow-sm">Content</div>' }],
+      });
+      expect(find('drop-shadow-xs')?.values).toEqual([{ class: 'drop-shadow-xs', value: 'drop-shadow(0 1px 1px rgb(0 0 0 / 0.05))', isDefault: false }]);
+      expect(find('drop-shadow-sm')?.values[0].value).toBe('drop-shadow(0 1px 2px rgb(0 0 0 / 0.15))');
+      expect(find('ring-3')?.values[0]).toMatchObject({ class: 'ring-3', value: '0 0 0 3px var(--tw-ring-color)' });
+      expect(find('ring')?.values[0].value).toBe('0 0 0 1px var(--tw-ring-color)');
+      expect(find('outline-none')).toMatchObject({ cssProperty: 'outline-style', values: [{ value: 'none' }] });
+      expect(find('outline-hidden')?.documentation).toBe('Sets outline to 2px solid transparent, with outline-offset: 2px');
+    });
+
+    it('should list each v4 class once', async () => {
+      const classes = (await service.getUtilities({ version: 'v4' })).flatMap(utility => utility.values.map(value => value.class));
+
+      expect(classes.filter((name, index) => classes.indexOf(name) !== index)).toEqual([]);
+      expect(classes).toEqual(expect.arrayContaining(['rounded-xs', 'rounded-sm', 'shadow-sm', 'blur-sm', 'drop-shadow-sm', 'backdrop-blur-sm']));
+    });
+
+    it('should convert CSS to the single-purpose utility', async () => {
+      const result = await service.convertCSSToTailwind(
+        '.a { margin-left: 1rem; border-radius: .5rem; transform: rotate(45deg); text-overflow: ellipsis; cursor: pointer; }'
+      );
+      expect(result.tailwindClasses).toBe('ml-4 rounded-lg rotate-45 text-ellipsis cursor-pointer');
+    });
+  });
+
+  describe('compareVersions', () => {
+    it('should report shifted scale steps with their equivalents', async () => {
+      const [comparison] = await service.compareVersions({ classes: 'hover:shadow-sm' });
+
+      expect(comparison).toMatchObject({
+        className: 'hover:shadow-sm',
+        v3: { available: true, css: 'box-shadow: 0 1px 2px 0 rgb(0 0 0 / 0.05)' },
+        v4: { available: true, css: 'box-shadow: 0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)' },
+        sameMeaning: false,
+        v4Equivalent: 'hover:shadow-xs',
+        v3Equivalent: 'hover:shadow',
+      });
+      expect(comparison.notes).toContain('The hover: variant only applies on devices that support hovering in v4, so touch screens no longer keep hover styles after a tap');
+    });
+
+    it('should compare the defaults classes rely on', async () => {
+      const [border, ring, colored] = await service.compareVersions({ classes: 'border ring ring-2 ring-blue-500' });
+
+      expect(border).toMatchObject({
+        v3: { css: 'border-width: 1px', defaults: ['border-color: #e5e7eb'] },
+        v4: { css: 'border-width: 1px', defaults: ['border-color: currentColor'] },
+        sameMeaning: false,
+      });
+      expect(border.v4Equivalent).toBeUndefined();
+      expect(border.notes[0]).toMatch(/^Borders and dividers default to currentColor/);
+      expect(ring).toMatchObject({ v3: { defaults: ['ring-width: 3px'] }, v4: { defaults: ['ring-width: 1px'] }, v4Equivalent: 'ring-3' });
+      expect(colored).toMatchObject({ className: 'ring-2', v3: { defaults: [] }, v4: { defaults: [] }, sameMeaning: true });
+    });
+
+    it('should mark removed and new classes as unavailable', async () => {
+      const [shrink, opacity, linear, textShadow] = await service.compareVersions({ classes: 'flex-shrink-0 bg-opacity-50 bg-linear-to-r text-shadow-xs' });
+
+      expect(shrink).toMatchObject({ v3: { available: true }, v4: { available: false }, v4Equivalent: 'shrink-0' });
+      expect(opacity.v4.available).toBe(false);
+      expect(opacity.notes[0]).toMatch(/opacity modifier/);
+      expect(linear).toMatchObject({ v3: { available: false }, v4: { available: true, since: 'v4.0' }, v3Equivalent: 'bg-gradient-to-r' });
+      expect(textShadow).toMatchObject({ v3: { available: false }, v4: { available: true, since: 'v4.1' }, sameMeaning: false });
+    });
+
+    it('should keep unchanged classes the same, with v4 written in its theme variables', async () => {
+      const [padding, width] = await service.compareVersions({ classes: 'p-4 w-1/2' });
+
+      expect(padding).toMatchObject({
+        sameMeaning: true,
+        v3: { css: 'padding: 1rem' },
+        v4: { css: 'padding: calc(var(--spacing) * 4)' },
+        notes: ['--spacing is 0.25rem in the default theme'],
+      });
+      expect(width).toMatchObject({ sameMeaning: true, v3: { css: 'width: 50%' }, v4: { css: 'width: calc(1/2 * 100%)' } });
+    });
+
+    it('should compare the v4 CSS of renamed scales and palette colors', async () => {
+      const [radius, color] = await service.compareVersions({ classes: 'rounded-t-sm bg-blue-500' });
+
+      expect(radius).toMatchObject({
+        sameMeaning: false,
+        v3: { css: 'border-top-left-radius: 0.125rem; border-top-right-radius: 0.125rem' },
+        v4: { css: 'border-top-left-radius: 0.25rem; border-top-right-radius: 0.25rem' },
+        v4Equivalent: 'rounded-t-xs',
+      });
+      expect(color).toMatchObject({
+        sameMeaning: false,
+        v3: { css: 'background-color: #3b82f6' },
+        v4: { css: 'background-color: var(--color-blue-500)' },
+        notes: ['--color-blue-500 is oklch(62.3% 0.214 259.815) in the default theme'],
+      });
+    });
+
+    it('should expand a utility into its scale and a category into its utilities', async () => {
+      const shadows = (await service.compareVersions({ utility: 'shadow' })).map(comparison => comparison.className);
+      const typography = await service.compareVersions({ category: 'typography' });
+
+      expect(shadows).toEqual(expect.arrayContaining(['shadow', 'shadow-sm', 'shadow-xs', 'shadow-2xs']));
+      expect(shadows).not.toContain('drop-shadow');
+      expect(typography.map(comparison => comparison.className)).toContain('text-balance');
+    });
+
+    it('should reject calls without anything to compare', async () => {
+      const error = await service.compareVersions({}).catch(e => e);
+      expect(error).toBeInstanceOf(ServiceError);
+      expect(error.kind).toBe('invalid-params');
+    });
+  });
+
+  describe('explainClass', () => {
+    it('should wrap the rule in the media queries and selectors of its variants', async () => {
+      const v3 = await service.explainClass({ className: 'md:hover:bg-blue-500/50', version: 'v3' });
+      const v4 = await service.explainClass({ className: 'md:hover:bg-blue-500/50', version: 'v4' });
+
+      expect(v3).toMatchObject({
+        utility: 'bg-blue-500/50',
+        variants: ['md', 'hover'],
+        source: 'catalog',
+        selector: '.md\\:hover\\:bg-blue-500\\/50:hover',
+        atRules: ['@media (min-width: 768px)'],
+        declarations: ['background-color: rgb(59 130 246 / 0.5)'],
+      });
+      expect(v4.css).toBe([
+        '@media (width >= 48rem) {',
+        '  @media (hover: hover) {',
+        '    .md\\:hover\\:bg-blue-500\\/50:hover {',
+        '      background-color: color-mix(in oklab, var(--color-blue-500) 50%, transparent);',
+        '    }',
+        '  }',
+        '}',
+      ].join('\n'));
+    });
+
+    it('should explain arbitrary values and properties', async () => {
+      const margin = await service.explainClass({ className: '-mt-[3px]', version: 'v3' });
+      const property = await service.explainClass({ className: '[mask-type:luminance]' });
+      const columns = await service.explainClass({ className: 'grid-cols-[200px_1fr]' });
+
+      expect(margin).toMatchObject({ source: 'arbitrary-value', declarations: ['margin-top: -3px'] });
+      expect((await service.explainClass({ className: '-mt-[3px]', version: 'v4' })).declarations).toEqual(['margin-top: calc(3px * -1)']);
+      expect(property).toMatchObject({ source: 'arbitrary-property', css: '.\\[mask-type\\:luminance\\] {\n  mask-type: luminance;\n}' });
+      expect(columns.declarations).toEqual(['grid-template-columns: 200px 1fr']);
+    });
+
+    it('should take type hints and v4 variable shorthands for arbitrary values', async () => {
+      const size = await service.explainClass({ className: 'bg-[length:200px_100px]' });
+      const position = await service.explainClass({ className: 'bg-[position:center_top]' });
+      const brand = await service.explainClass({ className: 'hover:bg-(--brand)', version: 'v4' });
+
+      expect(size.declarations).toEqual(['background-size: 200px 100px']);
+      expect(position.declarations).toEqual(['background-position: center top']);
+      expect(brand).toMatchObject({ source: 'arbitrary-value', declarations: ['background-color: var(--brand)'] });
+      expect((await service.explainClass({ className: 'w-[calc(100%-2rem)]' })).declarations).toEqual(['width: calc(100% - 2rem)']);
+      await expect(service.explainClass({ className: 'bg-(--brand)', version: 'v3' })).rejects.toThrow();
+      await expect(service.explainClass({ className: 'text-[image:url(a.png)]' }))
+        .rejects.toThrow('add a type hint such as text-[length:url(a.png)]');
+    });
+
+    it('should set content, not align-content, for arbitrary content values', async () => {
+      const before = await service.explainClass({ className: 'before:content-["x"]', version: 'v3' });
+
+      expect(before).toMatchObject({ selector: '.before\\:content-\\[\\"x\\"\\]::before', declarations: ['--tw-content: "x"', 'content: var(--tw-content)'] });
+      expect((await service.explainClass({ className: "after:content-['→']" })).declarations).toEqual(["--tw-content: '→'", 'content: var(--tw-content)']);
+      expect((await service.explainClass({ className: 'before:content-none' })).declarations).toEqual(['--tw-content: none', 'content: none']);
+      expect((await service.explainClass({ className: 'content-center' })).declarations).toEqual(['align-content: center']);
+    });
+
+    it('should pick the property of an ambiguous prefix from the value', async () => {
+      const size = await service.explainClass({ className: 'text-[14px]' });
+      const color = await service.explainClass({ className: 'text-[#1da1f2]' });
+      const blur = await service.explainClass({ className: 'blur-[2px]' });
+
+      expect(size.declarations).toEqual(['font-size: 14px']);
+      expect(color.declarations).toEqual(['color: #1da1f2']);
+      expect(blur.declarations).toEqual(['filter: blur(2px)']);
+    });
+
+    it('should compute v4 spacing steps and fractions outside the default scale', async () => {
+      const padding = await service.explainClass({ className: 'p-13' });
+      const width = await service.explainClass({ className: 'w-7/9' });
+
+      expect(padding).toMatchObject({ source: 'theme', declarations: ['padding: calc(var(--spacing) * 13)'] });
+      expect(padding.notes[0]).toContain('3.25rem');
+      expect(width).toMatchObject({ declarations: ['width: calc(7/9 * 100%)'], notes: ['v4 generates any fraction; 7/9 is 77.777778%'] });
+      expect((await service.explainClass({ className: '-mt-13' })).declarations).toEqual(['margin-top: calc(var(--spacing) * -13)']);
+      await expect(service.explainClass({ className: 'p-13', version: 'v3' })).rejects.toThrow(/not a TailwindCSS v3 utility/);
+    });
+
+    it('should write v4 rules with the theme variables v4 reads', async () => {
+      const padding = await service.explainClass({ className: 'p-4' });
+      const color = await service.explainClass({ className: 'bg-blue-500' });
+
+      expect(padding).toMatchObject({ declarations: ['padding: calc(var(--spacing) * 4)'], notes: ['--spacing is 0.25rem in the default theme'] });
+      expect(color).toMatchObject({
+        declarations: ['background-color: var(--color-blue-500)'],
+        notes: ['--color-blue-500 is oklch(62.3% 0.214 259.815) in the default theme'],
+      });
+      expect((await service.explainClass({ className: '-mx-0.5' })).declarations).toEqual([
+        'margin-left: calc(var(--spacing) * -0.5)',
+        'margin-right: calc(var(--spacing) * -0.5)',
+      ]);
+      expect((await service.explainClass({ className: 'w-1/2' })).declarations).toEqual(['width: calc(1/2 * 100%)']);
+      expect((await service.explainClass({ className: 'p-4', version: 'v3' })).declarations).toEqual(['padding: 1rem']);
+      expect((await service.explainClass({ className: 'border-2' })).declarations).toEqual(['border-width: 2px']);
+
+      const [listed] = await service.getUtilities({ search: 'text-red-500', version: 'v4' });
+      expect(listed.values[0]).toMatchObject({ class: 'text-red-500', value: 'var(--color-red-500)' });
+    });
+
+    it('should pair text sizes with their line-height', async () => {
+      const v3 = await service.explainClass({ className: 'text-lg', version: 'v3' });
+      const v4 = await service.explainClass({ className: 'text-lg' });
+
+      expect(v3.declarations).toEqual(['font-size: 1.125rem', 'line-height: 1.75rem']);
+      expect(v4).toMatchObject({
+        declarations: ['font-size: var(--text-lg)', 'line-height: var(--tw-leading, var(--text-lg--line-height))'],
+        notes: ['--text-lg is 1.125rem and --text-lg--line-height is calc(1.75 / 1.125) in the default theme'],
+      });
+      expect((await service.explainClass({ className: 'text-9xl', version: 'v3' })).declarations).toEqual(['font-size: 8rem', 'line-height: 1']);
+      expect((await service.explainClass({ className: 'text-[14px]' })).declarations).toEqual(['font-size: 14px']);
+
+      const [comparison] = await service.compareVersions({ classes: 'text-lg' });
+      expect(comparison).toMatchObject({
+        sameMeaning: true,
+        v3: { css: 'font-size: 1.125rem; line-height: 1.75rem' },
+        v4: { css: 'font-size: var(--text-lg); line-height: var(--tw-leading, var(--text-lg--line-height))' },
+      });
+    });
+
+    it('should use the names and scales of the version', async () => {
+      const shadow = await service.explainClass({ className: 'shadow-sm', version: 'v4' });
+      const gradient = await service.explainClass({ className: 'bg-linear-to-r' });
+      const important = await service.explainClass({ className: 'before:!block' });
+
+      expect(shadow.declarations).toEqual(['box-shadow: 0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)']);
+      expect(gradient).toMatchObject({ since: 'v4.0', declarations: ['background-image: linear-gradient(to right, var(--tw-gradient-stops))'] });
+      expect(important).toMatchObject({ important: true, selector: '.before\\:\\!block::before', declarations: ['content: var(--tw-content)', 'display: block !important'] });
+      expect((await service.explainClass({ className: 'space-x-4', version: 'v3' })).selector).toBe('.space-x-4 > :not([hidden]) ~ :not([hidden])');
+    });
+
+    it('should explain named groups, container queries and not-* variants', async () => {
+      const group = await service.explainClass({ className: 'group-hover/card:underline', version: 'v3' });
+      const container = await service.explainClass({ className: '@md:not-first:flex' });
+
+      expect(group.selector).toBe('.group\\/card:hover .group-hover\\/card\\:underline');
+      expect(container).toMatchObject({
+        atRules: ['@container (width >= 28rem)'],
+        selector: '.\\@md\\:not-first\\:flex:not(:first-child)',
+      });
+    });
+
+    it('should reject unknown and unavailable classes', async () => {
+      const error = await service.explainClass({ className: 'md:wat:p-4' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ServiceError);
+      expect(error.kind).toBe('invalid-params');
+      expect(error.message).toBe('Unknown variant "wat:" in md:wat:p-4');
+      await expect(service.explainClass({ className: 'shadow-inner' })).rejects.toThrow('shadow-inner was removed after TailwindCSS v3.4');
+      await expect(service.explainClass({ className: 'flex-grow' })).rejects.toThrow(/not a v4 utility/);
+      await expect(service.explainClass({ className: 'scheme-dark', version: 'v3' })).rejects.toThrow(/needs TailwindCSS v4\.0/);
+      await expect(service.explainClass({ className: 'p-4 m-2' })).rejects.toThrow(/single class/);
+    });
+  });
+
   describe('color information', () => {
     describe('getColorInfo', () => {
       it('should return all colors when no specific color requested', () => {
@@ -273,6 +637,19 @@ describe('UtilityMapperService', () => {
         expect(blueColors[0].usage.length).toBeGreaterThan(0);
       });
 
+      it('should list the full palette of each version', () => {
+        const v3 = service.getColorInfo(undefined, 'v3');
+        const [red] = service.getColorInfo('red', 'v4');
+
+        expect(v3.map(color => color.name)).toEqual([
+          'slate', 'gray', 'zinc', 'neutral', 'stone', 'red', 'orange', 'amber', 'yellow', 'lime', 'green',
+          'emerald', 'teal', 'cyan', 'sky', 'blue', 'indigo', 'violet', 'purple', 'fuchsia', 'pink', 'rose',
+        ]);
+        expect(v3.every(color => Object.keys(color.shades).length === 11)).toBe(true);
+        expect(v3.find(color => color.name === 'blue')?.shades['950']).toBe('#172554');
+        expect(red.shades['500']).toBe('oklch(63.7% 0.237 25.331)');
+      });
+
       it('should return empty array for nonexistent colors', () => {
         const colors = service.getColorInfo('nonexistent-color');
         expect(colors).toEqual([]);
@@ -0,0 +1,164 @@
+/**
+ * Tests for the session-scoped project context
+ */
+
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { TailwindCSSServer } from '../../index.js';
+import { initializeServices } from '../../services/index.js';
+import {
+  createToolSession,
+  getProjectArguments,
+  mergeProjectContext,
+  rewriteClass,
+  rewriteClasses,
+  type ToolSession,
+} from '../../session/index.js';
+import { createToolRegistry, type ToolContext, type ToolServices } from '../../tools/index.js';
+
+describe('Project context', () => {
+  describe('rewriteClass', () => {
+    it('should add the prefix in the version-specific position', () => {
+      const context = { prefix: 'tw' };
+
+      expect(rewriteClass('hover:bg-blue-500', context, 'v3')).toBe('hover:tw-bg-blue-500');
+      expect(rewriteClass('-mt-4', context, 'v3')).toBe('-tw-mt-4');
+      expect(rewriteClass('!font-bold', context, 'v3')).toBe('!tw-font-bold');
+      expect(rewriteClass('hover:bg-blue-500', context, 'v4')).toBe('tw:hover:bg-blue-500');
+    });
+
+    it('should map default breakpoints to the nearest project breakpoint', () => {
+      const context = { breakpoints: { tablet: '40rem', desktop: '1100px' } };
+
+      expect(rewriteClass('sm:px-6', context, 'v4')).toBe('tablet:px-6');
+      expect(rewriteClass('md:flex', context, 'v4')).toBe('tablet:flex');
+      expect(rewriteClass('lg:px-8', context, 'v4')).toBe('desktop:px-8');
+      expect(rewriteClass('max-lg:hidden', context, 'v4')).toBe('max-desktop:hidden');
+      expect(rewriteClass('left-[50%]', context, 'v4')).toBe('left-[50%]');
+    });
+
+    it('should keep colons inside arbitrary values', () => {
+      expect(rewriteClass('md:[mask-type:luminance]', { prefix: 'tw' }, 'v3')).toBe('md:tw-[mask-type:luminance]');
+    });
+
+    it('should swap the accent color only when asked', () => {
+      const context = { colors: ['brand'] };
+
+      expect(rewriteClass('dark:bg-blue-600/20', context, 'v4', { replaceAccentColor: true })).toBe('dark:bg-brand-600/20');
+      expect(rewriteClass('bg-blue-600', context, 'v4')).toBe('bg-blue-600');
+    });
+  });
+
+  describe('rewriteClasses', () => {
+    it('should rewrite class attributes and @apply rules', () => {
+      const context = { prefix: 'tw' };
+
+      expect(rewriteClasses('<div class="flex p-4">x</div>', context, 'v3')).toBe('<div class="tw-flex tw-p-4">x</div>');
+      expect(rewriteClasses('.card {\n  @apply flex p-4;\n}', context, 'v4')).toBe('.card {\n  @apply tw:flex tw:p-4;\n}');
+      expect(rewriteClasses('flex p-4', context, 'v4')).toBe('tw:flex tw:p-4');
+    });
+  });
+
+  describe('mergeProjectContext', () => {
+    it('should merge updates and start over on reset', () => {
+      const current = mergeProjectContext({}, { version: 'v3', prefix: 'tw' });
+
+      expect(mergeProjectContext(current, { framework: 'vite' })).toEqual({ version: 'v3', prefix: 'tw', framework: 'vite' });
+      expect(mergeProjectContext(current, { reset: true, framework: 'vite' })).toEqual({ framework: 'vite' });
+    });
+
+    it('should reject breakpoints that are not lengths', () => {
+      expect(() => mergeProjectContext({}, { breakpoints: { tablet: 'wide' } }))
+        .toThrow(expect.objectContaining({ message: expect.stringContaining('Invalid breakpoint width: tablet=wide'), field: 'breakpoints' }));
+    });
+
+    it('should derive tool arguments', () => {
+      expect(getProjectArguments({ version: 'v3', prefix: 'tw', packageManager: 'pnpm' }))
+        .toEqual({ version: 'v3', packageManager: 'pnpm' });
+    });
+  });
+
+  describe('tools', () => {
+    let services: ToolServices;
+    let session: ToolSession;
+    const registry = createToolRegistry({ argumentDefaults: { packageManager: 'yarn' } });
+
+    const run = (name: string, args: Record<string, unknown>) => {
+      const context: ToolContext = { services, options: {}, session };
+      return registry.run(name, args, context).then(result => result.data as any);
+    };
+
+    beforeAll(async () => {
+      services = await initializeServices();
+    });
+
+    it('should fill missing arguments from the session, ahead of configured defaults', async () => {
+      session = createToolSession();
+      await run('set_project_context', { version: 'v3', framework: 'vite', packageManager: 'pnpm' });
+
+      const guide = await run('install_tailwind', {});
+      expect(guide.version).toBe('v3');
+      expect(guide.commands[0]).toMatch(/^pnpm/);
+
+      const explicit = await run('install_tailwind', { framework: 'react', version: 'v4' });
+      expect(explicit.version).toBe('v4');
+    });
+
+    it('should apply the prefix, breakpoints and palette to generated classes', async () => {
+      session = createToolSession();
+      await run('set_project_context', { prefix: 'tw', colors: ['brand'], breakpoints: { tablet: '640px' }, version: 'v3' });
+
+      const template = await run('generate_component_template', { componentType: 'alert' });
+      expect(template.html).toContain('tw-bg-brand-50');
+      expect(template.html).not.toMatch(/class="[^"]*\bsm:/);
+
+      const conversion = await run('convert_css_to_tailwind', { css: '.a { display: flex; }' });
+      expect(conversion.tailwindClasses).toBe('tw-flex');
+
+      const [utility] = await run('get_tailwind_utilities', { search: 'flex' });
+      expect(utility.values[0].class).toMatch(/^tw-/);
+    });
+
+    it('should return the stored context and keep it unchanged without arguments', async () => {
+      session = createToolSession();
+      await run('set_project_context', { prefix: 'tw' });
+
+      await expect(run('set_project_context', {})).resolves.toEqual({ prefix: 'tw' });
+      await expect(run('set_project_context', { breakpoints: { tablet: 'wide' } }))
+        .rejects.toMatchObject({ message: expect.stringContaining('Invalid breakpoint width: tablet=wide'), data: { field: 'breakpoints' } });
+    });
+  });
+
+  describe('sessions', () => {
+    const clients: Client[] = [];
+
+    afterEach(async () => {
+      await Promise.all(clients.splice(0).map(client => client.close()));
+    });
+
+    it('should keep a separate context for each connected client', async () => {
+      const server = new TailwindCSSServer();
+      await server.initialize();
+
+      const connect = async () => {
+        const client = new Client({ name: 'test-client', version: '1.0.0' });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await Promise.all([server.createServer().connect(serverTransport), client.connect(clientTransport)]);
+        clients.push(client);
+        return client;
+      };
+      const convert = async (client: Client) => {
+        const result = await client.callTool({ name: 'convert_css_to_tailwind', arguments: { css: '.a { display: flex; }' } });
+        return (result.structuredContent as { tailwindClasses: string }).tailwindClasses;
+      };
+
+      const first = await connect();
+      const second = await connect();
+      await first.callTool({ name: 'set_project_context', arguments: { prefix: 'tw' } });
+
+      expect(await convert(first)).toBe('tw:flex');
+      expect(await convert(second)).toBe('flex');
+    });
+  });
+});
@@ -9,24 +9,39 @@ vi.mock('../services/index.js', () => {
   const mockDocumentationScraper = {
     searchDocumentation: vi.fn(),
     getConfigGuide: vi.fn(),
+    getDocumentationPage: vi.fn(),
+    scrapeAllUtilities: vi.fn(),
+    scrapeAllColors: vi.fn(),
     initialize: vi.fn().mockResolvedValue(undefined),
   };
 
   const mockUtilityMapper = {
     getUtilities: vi.fn(),
     getColors: vi.fn(),
+    getCategories: vi.fn(),
     initialize: vi.fn().mockResolvedValue(undefined),
   };
 
+  const mockInstallationService = {
+    getSupportedFrameworks: vi.fn().mockReturnValue(['react', 'nextjs', 'vue', 'vite', 'laravel', 'angular', 'svelte']),
+  };
+
+  const mockTemplateService = {
+    getAvailableComponents: vi.fn().mockReturnValue(['button', 'card', 'form', 'navbar', 'modal', 'alert', 'badge', 'breadcrumb']),
+  };
+
   return {
     initializeServices: vi.fn().mockResolvedValue({
       documentationScraper: mockDocumentationScraper,
       utilityMapper: mockUtilityMapper,
+      installationService: mockInstallationService,
+      templateService: mockTemplateService,
     }),
   };
 });
 
 import { TailwindCSSServer } from '../index.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 
 describe('TailwindCSSServer', () => {
   let server: TailwindCSSServer;
@@ -82,11 +97,12 @@ describe('TailwindCSSServer', () => {
 
       mockUtilityMapper.getUtilities.mockResolvedValue(mockUtilities);
 
-      const result = await server['handleGetTailwindUtilities']({});
+      const result = await server['callTool']('get_tailwind_utilities', {});
 
       expect(mockUtilityMapper.getUtilities).toHaveBeenCalledWith({ version: 'v4' });
       expect(result.content[0].text).toContain('m-1');
       expect(result.content[0].text).toContain('margin');
+      expect(result.structuredContent).toEqual({ utilities: mockUtilities });
     });
 
     it('should handle get colors request correctly', async () => {
@@ -103,7 +119,7 @@ describe('TailwindCSSServer', () => {
 
       mockUtilityMapper.getColors.mockResolvedValue(mockColors);
 
-      const result = await server['handleGetTailwindColors']({});
+      const result = await server['callTool']('get_tailwind_colors', {});
 
       expect(mockUtilityMapper.getColors).toHaveBeenCalledWith({ version: 'v4' });
       expect(result.content[0].text).toContain('blue');
@@ -125,9 +141,9 @@ describe('TailwindCSSServer', () => {
 
       mockDocumentationScraper.getConfigGuide.mockResolvedValue(mockGuide);
 
-      const result = await server['handleGetTailwindConfigGuide']({});
+      const result = await server['callTool']('get_tailwind_config_guide', {});
 
-      expect(mockDocumentationScraper.getConfigGuide).toHaveBeenCalledWith({ version: 'v4' });
+      expect(mockDocumentationScraper.getConfigGuide).toHaveBeenCalledWith({ version: 'v4' }, {});
       expect(result.content[0].text).toContain('Installation');
       expect(result.content[0].text).toContain('npm install');
     });
@@ -144,11 +160,12 @@ describe('TailwindCSSServer', () => {
 
       mockDocumentationScraper.searchDocumentation.mockResolvedValue(mockResults);
 
-      const result = await server['handleSearchTailwindDocs']({ query: 'margin' });
+      const result = await server['callTool']('search_tailwind_docs', { query: 'margin' });
 
-      expect(mockDocumentationScraper.searchDocumentation).toHaveBeenCalledWith({ query: 'margin', version: 'v4' });
+      expect(mockDocumentationScraper.searchDocumentation).toHaveBeenCalledWith({ query: 'margin', version: 'v4' }, {});
       expect(result.content[0].text).toContain('Margin');
       expect(result.content[0].text).toContain('utilities');
+      expect(result.structuredContent).toEqual({ results: mockResults });
     });
   });
 
@@ -156,7 +173,7 @@ describe('TailwindCSSServer', () => {
     it('should validate get utilities parameters correctly', async () => {
       mockUtilityMapper.getUtilities.mockResolvedValue([]);
 
-      await server['handleGetTailwindUtilities']({ category: 'spacing', property: 'margin' });
+      await server['callTool']('get_tailwind_utilities', { category: 'spacing', property: 'margin' });
 
       expect(mockUtilityMapper.getUtilities).toHaveBeenCalledWith({
         category: 'spacing',
@@ -168,7 +185,7 @@ describe('TailwindCSSServer', () => {
     it('should validate get colors parameters correctly', async () => {
       mockUtilityMapper.getColors.mockResolvedValue([]);
 
-      await server['handleGetTailwindColors']({ colorName: 'blue', includeShades: true });
+      await server['callTool']('get_tailwind_colors', { colorName: 'blue', includeShades: true });
 
       expect(mockUtilityMapper.getColors).toHaveBeenCalledWith({
         colorName: 'blue',
@@ -180,20 +197,40 @@ describe('TailwindCSSServer', () => {
     it('should validate search docs parameters correctly', async () => {
       mockDocumentationScraper.searchDocumentation.mockResolvedValue([]);
 
-      await server['handleSearchTailwindDocs']({ query: 'test', category: 'layout', limit: 5 });
+      await server['callTool']('search_tailwind_docs', { query: 'test', category: 'layout', limit: 5 });
 
       expect(mockDocumentationScraper.searchDocumentation).toHaveBeenCalledWith({
         query: 'test',
         category: 'layout',
         limit: 5,
         version: 'v4',
-      });
+      }, {});
     });
 
     it('should require query parameter for search', async () => {
       await expect(
-        server['handleSearchTailwindDocs']({})
-      ).rejects.toThrow('Search query is required');
+        server['callTool']('search_tailwind_docs', {})
+      ).rejects.toThrow('Invalid arguments for search_tailwind_docs: "query" is required');
+    });
+
+    it('should reject invalid enum values instead of dropping them', async () => {
+      await expect(
+        server['callTool']('get_tailwind_utilities', { version: 'v5' })
+      ).rejects.toThrow('"version" must be one of: v3, v4');
+      expect(mockUtilityMapper.getUtilities).not.toHaveBeenCalled();
+    });
+
+    it('should reject a fractional search limit', async () => {
+      await expect(
+        server['callTool']('search_tailwind_docs', { query: 'test', limit: 2.5 })
+      ).rejects.toThrow('"limit" must be an integer');
+    });
+
+    it('should list every invalid field in one error', async () => {
+      const error = await server['callTool']('search_tailwind_docs', { limit: 0, category: 3, colour: 'blue' }).catch((e: any) => e);
+
+      expect(error.code).toBe(-32602);
+      expect(error.data.issues.map((issue: any) => issue.field)).toEqual(['query', 'limit', 'category', 'colour']);
     });
   });
 
@@ -202,16 +239,338 @@ describe('TailwindCSSServer', () => {
       mockUtilityMapper.getUtilities.mockRejectedValue(new Error('Service error'));
 
       await expect(
-        server['handleGetTailwindUtilities']({})
+        server['callTool']('get_tailwind_utilities', {})
       ).rejects.toThrow();
     });
 
     it('should handle null responses from services', async () => {
       mockDocumentationScraper.getConfigGuide.mockResolvedValue(null);
 
-      const result = await server['handleGetTailwindConfigGuide']({});
+      const result = await server['callTool']('get_tailwind_config_guide', {});
       
       expect(result.content[0].text).toBe('null');
+      expect(result.structuredContent).toEqual({ guide: null });
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should pass docs and cache settings to the services', async () => {
+      const { initializeServices } = await import('../services/index.js');
+      const configured = new TailwindCSSServer({
+        docsBaseUrl: { v4: 'https://tailwind.mirror.internal' },
+        cache: { directory: '/tmp/tailwind-mcp', ttl: 600 },
+      });
+
+      await configured.initialize();
+
+      expect(initializeServices).toHaveBeenCalledWith({
+        documentationScraper: {
+          docsBaseUrls: { v4: 'https://tailwind.mirror.internal' },
+          directory: '/tmp/tailwind-mcp',
+          ttlMs: 600000,
+        },
+      });
+    });
+
+    it('should use the configured defaults for omitted arguments', async () => {
+      const configured = new TailwindCSSServer({ defaultVersion: 'v3' });
+      await configured.initialize();
+      mockUtilityMapper.getUtilities.mockResolvedValue([]);
+
+      await configured['callTool']('get_tailwind_utilities', {});
+
+      expect(mockUtilityMapper.getUtilities).toHaveBeenCalledWith({ version: 'v3' });
+      const tool = configured['tools'].get('get_tailwind_utilities');
+      expect(tool?.inputSchema.properties.version.default).toBe('v3');
+      expect(configured['validateVersion'](undefined)).toBe('v3');
+    });
+
+    it('should only serve enabled tools', async () => {
+      const configured = new TailwindCSSServer({
+        tools: { enabled: ['convert_css_to_tailwind', 'search_tailwind_docs'], disabled: ['search_tailwind_docs'] },
+      });
+
+      expect(configured['tools'].list().map((tool: any) => tool.name)).toEqual(['convert_css_to_tailwind']);
+      await expect(configured['callTool']('search_tailwind_docs', { query: 'flex' })).rejects.toThrow('Unknown tool');
+    });
+  });
+
+  describe('Tool registry', () => {
+    it('should serve add-on tools next to the built-in tools', async () => {
+      const handler = vi.fn(async (params: any, context: any) => ({
+        data: { token: params.token, colors: await context.services.utilityMapper.getColors({ colorName: 'blue' }) },
+      }));
+      mockUtilityMapper.getColors.mockResolvedValue([{ name: 'blue' }]);
+
+      server.registerTool({
+        name: 'lookup_design_token',
+        description: 'Look up a design-system token',
+        inputSchema: { type: 'object', properties: { token: { type: 'string' } }, required: ['token'] },
+        handler,
+      });
+
+      expect(server['tools'].list().map((tool: any) => tool.name)).toContain('lookup_design_token');
+
+      const result = await server['callTool']('lookup_design_token', { token: 'brand' });
+      expect(JSON.parse(result.content[0].text)).toEqual({ token: 'brand', colors: [{ name: 'blue' }] });
+      await expect(server['callTool']('lookup_design_token', {})).rejects.toThrow('"token" is required');
+    });
+
+    it('should reject unknown tools', async () => {
+      await expect(server['callTool']('unknown_tool', {})).rejects.toThrow('Unknown tool: unknown_tool');
+    });
+  });
+
+  describe('Progress and cancellation', () => {
+    const scrapedUtilities = [
+      { id: 'padding', name: 'Padding', cssProperty: 'padding', category: { id: 'spacing', name: 'spacing' } },
+      { id: 'margin', name: 'Margin', cssProperty: 'margin', category: { id: 'spacing', name: 'spacing' } },
+    ];
+
+    const createExtra = (progressToken?: string | number) => ({
+      signal: new AbortController().signal,
+      sendNotification: vi.fn().mockResolvedValue(undefined),
+      _meta: progressToken === undefined ? undefined : { progressToken },
+    });
+
+    it('should scrape utilities from the docs and forward progress notifications', async () => {
+      mockDocumentationScraper.scrapeAllUtilities.mockImplementation(async (options: any) => {
+        options.onProgress({ progress: 1, total: 2, message: 'Scraped /docs/padding' });
+        options.onProgress({ progress: 2, total: 2, message: 'Scraped /docs/margin' });
+        return scrapedUtilities;
+      });
+      const extra = createExtra('token-1');
+
+      const result = await server['callTool']('get_tailwind_utilities', 
+        { source: 'docs', category: 'spacing', property: 'margin' },
+        server['createOperationOptions'](extra as any)
+      );
+
+      expect(mockDocumentationScraper.scrapeAllUtilities).toHaveBeenCalledWith(expect.objectContaining({
+        version: 'v4',
+        categories: ['spacing'],
+        signal: extra.signal,
+      }));
+      expect(mockUtilityMapper.getUtilities).not.toHaveBeenCalled();
+      expect(result.structuredContent.utilities.map((utility: any) => utility.id)).toEqual(['margin']);
+      expect(extra.sendNotification).toHaveBeenCalledTimes(2);
+      expect(extra.sendNotification).toHaveBeenLastCalledWith({
+        method: 'notifications/progress',
+        params: { progressToken: 'token-1', progress: 2, total: 2, message: 'Scraped /docs/margin' },
+      });
+    });
+
+    it('should not send progress notifications without a progress token', () => {
+      const extra = createExtra();
+
+      const options = server['createOperationOptions'](extra as any);
+
+      expect(options.signal).toBe(extra.signal);
+      expect(options.onProgress).toBeUndefined();
+    });
+
+    it('should scrape colors from the docs when requested', async () => {
+      mockDocumentationScraper.scrapeAllColors.mockResolvedValue([
+        { name: 'blue', value: '#3b82f6', shades: {} },
+        { name: 'red', value: '#ef4444', shades: {} },
+      ]);
+
+      const result = await server['callTool']('get_tailwind_colors', { source: 'docs', colorName: 'Blue' });
+
+      expect(mockDocumentationScraper.scrapeAllColors).toHaveBeenCalledWith({ version: 'v4' });
+      expect(result.structuredContent.colors).toHaveLength(1);
+      expect(result.structuredContent.colors[0].name).toBe('blue');
+    });
+
+    it('should reject an unknown source', async () => {
+      await expect(server['callTool']('get_tailwind_utilities', { source: 'web' }))
+        .rejects.toThrow('"source" must be one of: catalog, docs');
+    });
+  });
+
+  describe('Resources', () => {
+    const blue = {
+      name: 'blue',
+      shades: { '500': '#3b82f6' },
+      usage: ['bg-blue-500'],
+    };
+    const margin = {
+      id: 'm-1',
+      name: 'm-1',
+      category: { id: 'spacing', name: 'spacing', description: '', utilities: [] },
+      cssProperty: 'margin',
+      values: [{ class: 'm-1', value: '0.25rem' }],
+      modifiers: [],
+      examples: [],
+      documentation: 'Sets margin to 0.25rem',
+    };
+
+    it('should list color and utility resources for every version', async () => {
+      mockUtilityMapper.getColors.mockResolvedValue([blue]);
+      mockUtilityMapper.getUtilities.mockResolvedValue([margin]);
+
+      const resources = await server['listResources']();
+      const uris = resources.map((resource: any) => resource.uri);
+
+      expect(uris).toContain('tailwind://v3/colors/blue');
+      expect(uris).toContain('tailwind://v4/colors/blue');
+      expect(uris).toContain('tailwind://v4/utilities/m-1');
+    });
+
+    it('should read a color resource', async () => {
+      mockUtilityMapper.getColors.mockResolvedValue([blue]);
+
+      const result = await server['handleReadResource']('tailwind://v3/colors/blue');
+
+      expect(mockUtilityMapper.getColors).toHaveBeenCalledWith({ colorName: 'blue', includeShades: true, version: 'v3' });
+      expect(result.contents[0].uri).toBe('tailwind://v3/colors/blue');
+      expect(result.contents[0].mimeType).toBe('application/json');
+      expect(JSON.parse(result.contents[0].text)).toEqual(blue);
+    });
+
+    it('should read a utility resource with an encoded id', async () => {
+      mockUtilityMapper.getUtilities.mockResolvedValue([{ ...margin, id: 'w-1/2', name: 'w-1/2' }]);
+
+      const result = await server['handleReadResource']('tailwind://v4/utilities/w-1%2F2');
+
+      expect(JSON.parse(result.contents[0].text).id).toBe('w-1/2');
+    });
+
+    it('should read a documentation page resource', async () => {
+      mockDocumentationScraper.getDocumentationPage.mockResolvedValue({
+        url: 'https://tailwindcss.com/docs/guides/nextjs',
+        title: 'Install with Next.js',
+        content: 'Setting up Tailwind CSS in a Next.js project.',
+        version: 'v4',
+      });
+
+      const result = await server['handleReadResource']('tailwind://v4/docs/guides/nextjs');
+
+      expect(mockDocumentationScraper.getDocumentationPage).toHaveBeenCalledWith('guides/nextjs', 'v4', {});
+      expect(result.contents[0].mimeType).toBe('text/plain');
+      expect(result.contents[0].text).toContain('# Install with Next.js');
+    });
+
+    it('should reject unknown or unsupported resource URIs', async () => {
+      await expect(server['handleReadResource']('tailwind://v2/colors/blue')).rejects.toThrow('Unknown resource');
+      await expect(server['handleReadResource']('https://tailwindcss.com')).rejects.toThrow('Unknown resource');
+    });
+
+    it('should reject malformed escapes as invalid params', async () => {
+      const error = await server['handleReadResource']('tailwind://v4/utilities/%E0%A4%A').catch(e => e);
+
+      expect(error).toBeInstanceOf(McpError);
+      expect(error.code).toBe(ErrorCode.InvalidParams);
+      expect(error.message).toContain('Malformed resource URI');
+    });
+
+    it('should report missing resources', async () => {
+      mockUtilityMapper.getColors.mockResolvedValue([]);
+
+      await expect(server['handleReadResource']('tailwind://v4/colors/chartreuse')).rejects.toThrow('Resource not found');
     });
   });
-});
\ No newline at end of file
+
+  describe('Prompts', () => {
+    it('should pre-fill convert_css_to_tailwind for convert_stylesheet', () => {
+      const result = server['handleGetPrompt']('convert_stylesheet', { css: '.btn { padding: 1rem; }', version: 'v3' });
+
+      expect(result.messages).toHaveLength(1);
+      expect(result.messages[0].role).toBe('user');
+      expect(result.messages[0].content.text).toContain('convert_css_to_tailwind');
+      expect(result.messages[0].content.text).toContain('"css": ".btn { padding: 1rem; }"');
+      expect(result.messages[0].content.text).toContain('"version": "v3"');
+    });
+
+    it('should list the v4 renames in review_v4_compatibility', () => {
+      const result = server['handleGetPrompt']('review_v4_compatibility', { classes: 'flex-shrink-0 overflow-ellipsis' });
+      const text = result.messages[0].content.text;
+
+      expect(text).toContain('flex-shrink-0 overflow-ellipsis');
+      expect(text).toContain('`flex-shrink-0` → `shrink-0`');
+      expect(text).toContain('migrate_classes_to_v4');
+      expect(text).toContain('`overflow-ellipsis` → `text-ellipsis`');
+    });
+
+    it('should pre-fill palette and template calls for build_themed_component', () => {
+      const result = server['handleGetPrompt']('build_themed_component', {
+        componentType: 'card',
+        baseColor: '#6366F1',
+        style: 'playful',
+        darkMode: 'true',
+      });
+      const text = result.messages[0].content.text;
+
+      expect(text).toContain('generate_color_palette');
+      expect(text).toContain('"name": "brand"');
+      expect(text).toContain('generate_component_template');
+      expect(text).toContain('"style": "playful"');
+      expect(text).toContain('"darkMode": true');
+    });
+
+    it('should require prompt arguments', () => {
+      expect(() => server['handleGetPrompt']('build_themed_component', { componentType: 'card' }))
+        .toThrow('requires the "baseColor" argument');
+    });
+
+    it('should reject unknown prompts', () => {
+      expect(() => server['handleGetPrompt']('unknown_prompt', {})).toThrow('Unknown prompt');
+    });
+  });
+
+  describe('Completions', () => {
+    it('should complete frameworks regardless of punctuation', async () => {
+      const result = await server['handleComplete']('framework', 'next.js');
+
+      expect(result.completion.values).toEqual(['nextjs']);
+      expect(result.completion.total).toBe(1);
+      expect(result.completion.hasMore).toBe(false);
+    });
+
+    it('should complete component types by prefix', async () => {
+      const result = await server['handleComplete']('componentType', 'nav');
+
+      expect(result.completion.values).toEqual(['navbar']);
+    });
+
+    it('should complete color names for the requested version', async () => {
+      mockUtilityMapper.getColors.mockResolvedValue([
+        { name: 'blue', shades: {}, usage: [] },
+        { name: 'slate', shades: {}, usage: [] },
+      ]);
+
+      const result = await server['handleComplete']('name', 'bl', { version: 'v3' });
+
+      expect(mockUtilityMapper.getColors).toHaveBeenCalledWith({ includeShades: false, version: 'v3' });
+      expect(result.completion.values).toEqual(['blue']);
+    });
+
+    it('should complete categories from the utility catalog', async () => {
+      mockUtilityMapper.getCategories.mockReturnValue(['flexbox', 'layout', 'spacing']);
+
+      const result = await server['handleComplete']('category', '');
+
+      expect(result.completion.values).toEqual(['flexbox', 'layout', 'spacing']);
+    });
+
+    it('should rank prefix matches before substring matches', async () => {
+      mockUtilityMapper.getCategories.mockReturnValue(['flexbox', 'layout', 'spacing']);
+
+      const result = await server['handleComplete']('category', 'a');
+
+      expect(result.completion.values).toEqual(['layout', 'spacing']);
+    });
+
+    it('should complete enumerated tool arguments from the input schemas', async () => {
+      expect((await server['handleComplete']('packageManager', 'pn')).completion.values).toEqual(['pnpm']);
+      expect((await server['handleComplete']('version', 'v4')).completion.values).toEqual(['v4', 'v4.0', 'v4.1']);
+      expect((await server['handleComplete']('style', 'm')).completion.values).toEqual(['minimal', 'modern']);
+    });
+
+    it('should return no values for unknown arguments', async () => {
+      const result = await server['handleComplete']('unknown', 'x');
+
+      expect(result.completion.values).toEqual([]);
+    });
+  });
+});
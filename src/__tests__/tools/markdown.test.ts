@@ -0,0 +1,95 @@
+/**
+ * Tests for markdown rendering of tool results
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { initializeServices } from '../../services/index.js';
+import { createToolSession } from '../../session/index.js';
+import { createToolRegistry, defineTool, renderMarkdown, type ToolContext } from '../../tools/index.js';
+import { responseFormat } from '../../schemas/index.js';
+
+describe('renderMarkdown', () => {
+  it('should render utilities as tables of class and CSS', () => {
+    const markdown = renderMarkdown('get_tailwind_utilities', [{
+      id: 'flex',
+      name: 'flex',
+      category: { id: 'layout', name: 'layout', description: '', utilities: [] },
+      cssProperty: 'display',
+      values: [{ class: 'flex', value: 'flex' }],
+      modifiers: [],
+      examples: [],
+      documentation: '',
+    }]);
+
+    expect(markdown).toBe('### flex\n\nCategory: layout\n\n| Class | CSS |\n|---|---|\n| `flex` | `display: flex;` |');
+  });
+
+  it('should render installation guides as numbered steps with fenced files', () => {
+    const markdown = renderMarkdown('install_tailwind', {
+      commands: ['npm install tailwindcss'],
+      configFiles: [{ filename: 'src/index.css', content: '@import "tailwindcss";' }],
+      nextSteps: ['Start the dev server'],
+      version: 'v4',
+    });
+
+    expect(markdown).toBe([
+      '## Install TailwindCSS v4',
+      '1. Run:\n\n   ```bash\n   npm install tailwindcss\n   ```',
+      '2. Create `src/index.css`:\n\n   ```css\n   @import "tailwindcss";\n   ```',
+      '3. Start the dev server',
+    ].join('\n\n'));
+  });
+
+  it('should escape table cells and lengthen fences around nested fences', () => {
+    const markdown = renderMarkdown('set_project_context', { prefix: 'a|b' });
+    expect(markdown).toContain('| prefix | `a\\|b` |');
+
+    expect(renderMarkdown('lookup_design_token', { note: '```' })).toBe('````json\n{\n  "note": "```"\n}\n````');
+  });
+});
+
+describe('responseFormat', () => {
+  const registry = createToolRegistry();
+  let context: ToolContext;
+
+  beforeAll(async () => {
+    context = { services: await initializeServices(), options: {}, session: createToolSession() };
+  });
+
+  const text = async (name: string, args: Record<string, unknown>) => {
+    const result = await registry.call(name, args, context);
+    return (result.content[0] as { text: string }).text;
+  };
+
+  it('should be accepted by every built-in tool', () => {
+    for (const tool of registry.list()) {
+      expect(tool.inputSchema.properties?.responseFormat).toEqual(responseFormat);
+    }
+  });
+
+  it('should render markdown and keep structured content unchanged', async () => {
+    const args = { baseColor: '#3b82f6', name: 'brand', shades: [500] };
+    const json = await registry.call('generate_color_palette', args, context);
+    const markdown = await registry.call('generate_color_palette', { ...args, responseFormat: 'markdown' }, context);
+
+    expect(markdown.structuredContent).toEqual(json.structuredContent);
+    expect((markdown.content[0] as { text: string }).text).toContain('| 500 | `#3b82f6` | `bg-brand-500` |');
+    expect(await text('generate_component_template', { componentType: 'button', responseFormat: 'markdown' })).toMatch(/^.+\n\n```html\n<button/);
+  });
+
+  it('should not pass the format on to handlers', async () => {
+    const json = JSON.parse(await text('set_project_context', { prefix: 'tw', responseFormat: 'json' }));
+    expect(json).toEqual({ prefix: 'tw' });
+  });
+
+  it('should render add-on tools that accept it as fenced JSON', async () => {
+    registry.register(defineTool({
+      name: 'lookup_design_token',
+      description: 'Look up a design-system token',
+      inputSchema: { type: 'object', properties: { responseFormat }, required: [], additionalProperties: false },
+      handler: async () => ({ data: { value: '#3b82f6' } }),
+    }));
+
+    expect(await text('lookup_design_token', { responseFormat: 'markdown' })).toBe('```json\n{\n  "value": "#3b82f6"\n}\n```');
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Tests for the tool registry and add-on tool modules
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ToolRegistry,
+  builtinTools,
+  createToolRegistry,
+  defineTool,
+  loadToolModules,
+  resolveToolModules,
+  withArgumentDefaults,
+  type ToolContext,
+} from '../../tools/index.js';
+import { createToolSession } from '../../session/index.js';
+
+const designTokenTool = defineTool<{ token: string }>({
+  name: 'lookup_design_token',
+  description: 'Look up a design-system token',
+  inputSchema: {
+    type: 'object',
+    properties: { token: { type: 'string', minLength: 1 } },
+    required: ['token'],
+    additionalProperties: false,
+  },
+  annotations: { readOnlyHint: true },
+  handler: async ({ token }) => ({ data: { token, value: '#3b82f6' } }),
+});
+
+const context = { services: {}, options: {}, session: createToolSession() } as ToolContext;
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), '../fixtures/tool-modules');
+
+describe('ToolRegistry', () => {
+  it('should register every built-in tool', () => {
+    const registry = createToolRegistry();
+
+    expect(registry.list().map(tool => tool.name)).toEqual(builtinTools.map(tool => tool.name));
+    expect(registry.list().every(tool => tool.outputSchema)).toBe(true);
+  });
+
+  it('should reject duplicate tool names', () => {
+    const registry = createToolRegistry();
+
+    expect(() => registry.register({ ...designTokenTool, name: 'get_tailwind_colors' }))
+      .toThrow('Tool already registered: get_tailwind_colors');
+  });
+
+  it('should skip disabled tools and apply argument defaults on registration', async () => {
+    const registry = createToolRegistry({
+      argumentDefaults: { version: 'v3' },
+      isEnabled: name => name !== 'search_tailwind_docs',
+    });
+
+    expect(registry.get('search_tailwind_docs')).toBeUndefined();
+    expect(registry.register(designTokenTool)).toBe(true);
+    expect(registry.get('install_tailwind')!.inputSchema.properties.version.default).toBe('v3');
+  });
+
+  it('should return raw results from run', async () => {
+    const registry = new ToolRegistry();
+    registry.register(designTokenTool);
+
+    await expect(registry.run('lookup_design_token', { token: 'brand' }, context))
+      .resolves.toEqual({ data: { token: 'brand', value: '#3b82f6' } });
+  });
+
+  it('should advertise schemas and annotations of add-on tools', () => {
+    const registry = new ToolRegistry();
+    registry.register(designTokenTool);
+
+    expect(registry.list()).toEqual([{
+      name: 'lookup_design_token',
+      description: 'Look up a design-system token',
+      inputSchema: designTokenTool.inputSchema,
+      annotations: { readOnlyHint: true },
+    }]);
+  });
+
+  it('should declare safety hints for every built-in tool', () => {
+    const annotations = Object.fromEntries(createToolRegistry().list().map(tool => [tool.name, tool.annotations]));
+
+    for (const hints of Object.values(annotations)) {
+      expect(hints).toMatchObject({
+        title: expect.any(String),
+        readOnlyHint: expect.any(Boolean),
+        idempotentHint: expect.any(Boolean),
+        openWorldHint: expect.any(Boolean),
+      });
+    }
+    expect(annotations.search_tailwind_docs).toMatchObject({ readOnlyHint: true, openWorldHint: true });
+    expect(annotations.get_tailwind_config_guide).toMatchObject({ readOnlyHint: true, openWorldHint: true });
+    expect(annotations.convert_css_to_tailwind).toMatchObject({ readOnlyHint: true, openWorldHint: false });
+    expect(annotations.set_project_context).toMatchObject({ readOnlyHint: false, destructiveHint: false });
+  });
+
+  it('should advertise tools that are not read-only as destructive unless stated otherwise', () => {
+    const registry = new ToolRegistry();
+    registry.register({ ...designTokenTool, name: 'write_design_tokens', annotations: { title: 'Write Design Tokens', readOnlyHint: false } });
+
+    expect(registry.list()[0].annotations).toEqual({ title: 'Write Design Tokens', readOnlyHint: false, destructiveHint: true });
+  });
+
+  it('should validate arguments before calling the handler', async () => {
+    const registry = new ToolRegistry();
+    const handler = vi.fn(designTokenTool.handler);
+    registry.register({ ...designTokenTool, handler });
+
+    await expect(registry.call('lookup_design_token', { token: '' }, context))
+      .rejects.toThrow('Invalid arguments for lookup_design_token: "token" must not be empty');
+    expect(handler).not.toHaveBeenCalled();
+
+    const result = await registry.call('lookup_design_token', { token: 'brand' }, context);
+    expect(handler).toHaveBeenCalledWith({ token: 'brand' }, context);
+    expect(JSON.parse((result.content[0] as { text: string }).text)).toEqual({ token: 'brand', value: '#3b82f6' });
+    expect(result.structuredContent).toBeUndefined();
+  });
+
+  it('should split a pinned minor release into version and release', async () => {
+    const registry = new ToolRegistry();
+    const handler = vi.fn(async () => ({ data: {} }));
+    registry.register(defineTool({
+      name: 'lookup_design_token',
+      description: 'Look up a design-system token',
+      inputSchema: { type: 'object', properties: { version: { type: 'string' } }, required: [], additionalProperties: false },
+      handler,
+    }));
+
+    await registry.run('lookup_design_token', { version: 'v4.0' }, context);
+    await registry.run('lookup_design_token', { version: 'v4' }, context);
+
+    expect(handler).toHaveBeenNthCalledWith(1, { version: 'v4', release: 'v4.0' }, context);
+    expect(handler).toHaveBeenNthCalledWith(2, { version: 'v4' }, context);
+  });
+
+  it('should reject unknown tools', async () => {
+    const registry = new ToolRegistry();
+
+    await expect(registry.call('unknown_tool', {}, context)).rejects.toMatchObject({
+      code: ErrorCode.MethodNotFound,
+      message: expect.stringContaining('Unknown tool: unknown_tool'),
+    });
+  });
+
+  it('should wrap unexpected handler errors as internal errors', async () => {
+    const registry = new ToolRegistry();
+    registry.register({ ...designTokenTool, handler: async () => { throw new Error('lookup failed'); } });
+
+    const error = await registry.call('lookup_design_token', { token: 'brand' }, context).catch(e => e);
+
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(ErrorCode.InternalError);
+    expect(error.message).toContain('An unexpected error occurred during "lookup_design_token".');
+  });
+});
+
+describe('withArgumentDefaults', () => {
+  it('should advertise and apply configured defaults', async () => {
+    const installTailwind = builtinTools.find(tool => tool.name === 'install_tailwind')!;
+
+    const configured = withArgumentDefaults(installTailwind, { version: 'v3', packageManager: 'pnpm', style: 'minimal' });
+
+    expect(configured.inputSchema.properties.version.default).toBe('v3');
+    expect(configured.inputSchema.properties.version.description).toMatch(/^TailwindCSS version.*\(default: v3\)$/);
+    expect(configured.inputSchema.properties.packageManager.default).toBe('pnpm');
+    expect(configured.inputSchema.properties.packageManager.description).toBe('Package manager to use (default: pnpm)');
+    expect(configured.inputSchema.properties.style).toBeUndefined();
+    expect(installTailwind.inputSchema.properties.version.default).toBe('v4');
+  });
+
+  it('should return tools without matching arguments unchanged', () => {
+    expect(withArgumentDefaults(designTokenTool, { version: 'v3' })).toBe(designTokenTool);
+  });
+});
+
+describe('Add-on tool modules', () => {
+  it('should resolve module specifiers from flags or the environment', () => {
+    expect(resolveToolModules(['--tool-modules', './tools/a.js, design-tools'])).toEqual(['./tools/a.js', 'design-tools']);
+    expect(resolveToolModules([], { TAILWIND_MCP_TOOL_MODULES: './b.js' })).toEqual(['./b.js']);
+    expect(resolveToolModules([], {})).toEqual([]);
+  });
+
+  it('should load tools from default and named exports', async () => {
+    const tools = await loadToolModules(['./design-tools.ts', join(fixturesDir, 'named-tools.ts')], fixturesDir);
+
+    expect(tools.map(tool => tool.name)).toEqual(['list_design_tokens', 'get_design_guidelines', 'lookup_icon']);
+  });
+
+  it('should reject modules without valid tools', async () => {
+    await expect(loadToolModules(['./empty.ts'], fixturesDir)).rejects.toThrow('Tool module ./empty.ts does not export any tools');
+    await expect(loadToolModules(['./invalid.ts'], fixturesDir)).rejects.toThrow('Invalid tool in module ./invalid.ts');
+    await expect(loadToolModules(['./missing.ts'], fixturesDir)).rejects.toThrow('Failed to load tool module ./missing.ts');
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Tests for transport selection and the HTTP transports
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { request } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  resolveTransportOptions,
+  startHttpTransport,
+  DEFAULT_TRANSPORT_OPTIONS,
+  type HttpTransportHandle,
+} from '../../transport/index.js';
+
+const createTestServer = () => {
+  const server = new Server({ name: 'test-server', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+  return server;
+};
+
+const post = (port: number, path: string, body: unknown, headers: Record<string, string> = {}) => {
+  return new Promise<{ status: number; headers: Record<string, any>; body: string }>((resolve, reject) => {
+    const req = request({
+      host: '127.0.0.1',
+      port,
+      path,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...headers,
+      },
+    }, (res) => {
+      let data = '';
+      res.on('data', chunk => { data += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body: data }));
+    });
+    req.on('error', reject);
+    req.end(typeof body === 'string' ? body : JSON.stringify(body));
+  });
+};
+
+const send = (port: number, path: string, method: string, headers: Record<string, string> = {}) => {
+  return new Promise<{ status: number }>((resolve, reject) => {
+    const req = request({ host: '127.0.0.1', port, path, method, headers: { Accept: 'text/event-stream', ...headers } }, (res) => {
+      res.resume();
+      resolve({ status: res.statusCode ?? 0 });
+    });
+    req.on('error', reject);
+    req.end();
+  });
+};
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+describe('resolveTransportOptions', () => {
+  it('should default to stdio', () => {
+    expect(resolveTransportOptions([], {})).toEqual(DEFAULT_TRANSPORT_OPTIONS);
+  });
+
+  it('should read CLI flags in both forms', () => {
+    expect(resolveTransportOptions(['--transport', 'http', '--port=8080', '--host', '0.0.0.0'], {})).toEqual({
+      transport: 'http',
+      host: '0.0.0.0',
+      port: 8080,
+      allowedHosts: [],
+      allowedOrigins: [],
+    });
+  });
+
+  it('should fall back to environment variables', () => {
+    expect(resolveTransportOptions([], {
+      TAILWIND_MCP_TRANSPORT: 'sse',
+      TAILWIND_MCP_HOST: 'localhost',
+      TAILWIND_MCP_PORT: '4000',
+    })).toEqual({ transport: 'sse', host: 'localhost', port: 4000, allowedHosts: [], allowedOrigins: [] });
+  });
+
+  it('should read the allowed hosts and origins as lists', () => {
+    const options = resolveTransportOptions(['--allowed-hosts', 'mcp.team.internal, tailwind-mcp'], {
+      TAILWIND_MCP_ALLOWED_ORIGINS: 'https://tools.team.internal',
+    });
+
+    expect(options.allowedHosts).toEqual(['mcp.team.internal', 'tailwind-mcp']);
+    expect(options.allowedOrigins).toEqual(['https://tools.team.internal']);
+  });
+
+  it('should prefer CLI flags over environment variables', () => {
+    expect(resolveTransportOptions(['--transport=stdio'], { TAILWIND_MCP_TRANSPORT: 'http' }).transport).toBe('stdio');
+  });
+
+  it('should reject unsupported transports and invalid ports', () => {
+    expect(() => resolveTransportOptions(['--transport', 'websocket'], {})).toThrow('Unsupported transport');
+    expect(() => resolveTransportOptions(['--port', 'abc'], {})).toThrow('Invalid port');
+    expect(() => resolveTransportOptions(['--port'], {})).toThrow('Missing value for --port');
+  });
+});
+
+describe('startHttpTransport', () => {
+  let handle: HttpTransportHandle | undefined;
+
+  afterEach(async () => {
+    await handle?.close();
+    handle = undefined;
+  });
+
+  it('should create a session per initialize request on /mcp', async () => {
+    handle = await startHttpTransport({ transport: 'http', host: '127.0.0.1', port: 0 }, createTestServer);
+
+    const first = await post(handle.port, '/mcp', initializeRequest);
+    const second = await post(handle.port, '/mcp', initializeRequest);
+
+    expect(first.status).toBe(200);
+    expect(first.body).toContain('test-server');
+    expect(first.headers['mcp-session-id']).toBeDefined();
+    expect(second.headers['mcp-session-id']).not.toBe(first.headers['mcp-session-id']);
+    expect(handle.sessionCount()).toBe(2);
+  });
+
+  it('should route requests with a session id to that session', async () => {
+    handle = await startHttpTransport({ transport: 'http', host: '127.0.0.1', port: 0 }, createTestServer);
+
+    const init = await post(handle.port, '/mcp', initializeRequest);
+    const sessionId = init.headers['mcp-session-id'];
+    const protocol = { 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-06-18' };
+
+    await post(handle.port, '/mcp', { jsonrpc: '2.0', method: 'notifications/initialized' }, protocol);
+    const list = await post(handle.port, '/mcp', { jsonrpc: '2.0', id: 2, method: 'tools/list' }, protocol);
+
+    expect(list.status).toBe(200);
+    expect(list.body).toContain('"tools":[]');
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    handle = await startHttpTransport({ transport: 'http', host: '127.0.0.1', port: 0 }, createTestServer);
+
+    const response = await post(handle.port, '/mcp', { jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toContain('No valid session ID');
+  });
+
+  it('should answer unknown session ids with 404 so clients initialize again', async () => {
+    handle = await startHttpTransport({ transport: 'http', host: '127.0.0.1', port: 0 }, createTestServer);
+    const headers = { 'mcp-session-id': 'expired', 'mcp-protocol-version': '2025-06-18' };
+
+    const response = await post(handle.port, '/mcp', { jsonrpc: '2.0', id: 1, method: 'tools/list' }, headers);
+    const stream = await send(handle.port, '/mcp', 'GET', headers);
+
+    expect(response.status).toBe(404);
+    expect(response.body).toContain('Session not found');
+    expect(stream.status).toBe(404);
+  });
+
+  it('should close the server of an initialize request that fails', async () => {
+    const closed: string[] = [];
+    handle = await startHttpTransport({ transport: 'http', host: '127.0.0.1', port: 0 }, () => {
+      const server = createTestServer();
+      server.onclose = () => closed.push('server');
+      return server;
+    });
+
+    const response = await post(handle.port, '/mcp', initializeRequest, { Accept: 'text/plain' });
+
+    expect(response.status).toBe(406);
+    expect(handle.sessionCount()).toBe(0);
+    expect(closed).toEqual(['server']);
+  });
+
+  it('should refuse requests from other hosts and origins', async () => {
+    handle = await startHttpTransport(
+      { transport: 'http', host: '0.0.0.0', port: 0, allowedHosts: ['mcp.team.internal'], allowedOrigins: ['https://tools.team.internal'] },
+      createTestServer
+    );
+
+    const rebound = await post(handle.port, '/mcp', initializeRequest, { Host: 'attacker.example:3000' });
+    const crossSite = await post(handle.port, '/mcp', initializeRequest, { Origin: 'https://attacker.example' });
+    const team = await post(handle.port, '/mcp', initializeRequest, { Host: 'mcp.team.internal:3000', Origin: 'https://tools.team.internal' });
+    const local = await post(handle.port, '/mcp', initializeRequest, { Origin: 'http://localhost:6274' });
+
+    expect(rebound.status).toBe(403);
+    expect(rebound.body).toContain('host attacker.example:3000 is not allowed');
+    expect(crossSite.status).toBe(403);
+    expect(team.status).toBe(200);
+    expect(local.status).toBe(200);
+  });
+
+  it('should reject invalid JSON and unknown paths', async () => {
+    handle = await startHttpTransport({ transport: 'http', host: '127.0.0.1', port: 0 }, createTestServer);
+
+    expect((await post(handle.port, '/mcp', '{not json')).status).toBe(400);
+    expect((await post(handle.port, '/other', initializeRequest)).status).toBe(404);
+  });
+
+  it('should close all sessions on shutdown', async () => {
+    handle = await startHttpTransport({ transport: 'http', host: '127.0.0.1', port: 0 }, createTestServer);
+    await post(handle.port, '/mcp', initializeRequest);
+
+    await handle.close();
+
+    expect(handle.sessionCount()).toBe(0);
+    handle = undefined;
+  });
+
+  it('should reject legacy SSE messages for unknown sessions', async () => {
+    handle = await startHttpTransport({ transport: 'sse', host: '127.0.0.1', port: 0 }, createTestServer);
+
+    const response = await post(handle.port, '/messages?sessionId=missing', { jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -5,8 +5,15 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import {
   getVersionConfig,
+  getClassRequirement,
+  getFeatureFlags,
+  isReleaseAtLeast,
+  resolveVersion,
+  supportsFeature,
   DEFAULT_VERSION,
   SUPPORTED_VERSIONS,
+  UTILITY_CATEGORIES,
+  UTILITY_FAMILIES,
   type TailwindVersion,
   type TailwindVersionConfig,
 } from '../../version/index.js';
@@ -89,6 +96,12 @@ describe('TailwindCSS Version Configuration', () => {
       expect(tailwindConfig).toContain('export default config;');
     });
 
+    it('should write the theme extension as a JS literal', () => {
+      const tailwindConfig = config.generateTailwindConfig([], false, { colors: { brand: { 500: '#3b82f6' } }, fontFamily: { sans: ['Inter', 'sans-serif'] } });
+      expect(tailwindConfig).toContain("    extend: {\n      colors: {\n        brand: {\n          500: '#3b82f6',\n        },\n      },");
+      expect(tailwindConfig).toContain("      fontFamily: {\n        sans: ['Inter', 'sans-serif'],\n      },");
+    });
+
     it('should have empty renamed utilities', () => {
       expect(config.renamedUtilities.size).toBe(0);
     });
@@ -184,4 +197,55 @@ describe('TailwindCSS Version Configuration', () => {
       expect(v4.configFileRequired).toBe(false);
     });
   });
+
+  describe('releases and features', () => {
+    it('should resolve a major version to its latest release', () => {
+      expect(resolveVersion('v3')).toEqual({ version: 'v3', release: 'v3.4' });
+      expect(resolveVersion('v4')).toEqual({ version: 'v4', release: 'v4.1' });
+      expect(resolveVersion('v4.0')).toEqual({ version: 'v4', release: 'v4.0' });
+      expect(resolveVersion()).toEqual({ version: 'v4', release: 'v4.1' });
+    });
+
+    it('should order releases across major versions', () => {
+      expect(isReleaseAtLeast('v4.0', 'v3.4')).toBe(true);
+      expect(isReleaseAtLeast('v4.0', 'v4.1')).toBe(false);
+      expect(isReleaseAtLeast('v4.1', 'v4.1')).toBe(true);
+    });
+
+    it('should flag the features each release ships', () => {
+      expect(supportsFeature('v4.0', 'text-shadow')).toBe(false);
+      expect(supportsFeature('v4.1', 'text-shadow')).toBe(true);
+      expect(supportsFeature('v3.3', 'line-clamp')).toBe(true);
+
+      const flags = getFeatureFlags('v3.4');
+      expect(flags['has-variant']).toBe(true);
+      expect(flags['starting-variant']).toBe(false);
+    });
+
+    it('should find the release a class requires', () => {
+      expect(getClassRequirement('text-shadow-sm')).toMatchObject({ feature: 'text-shadow', since: 'v4.1' });
+      expect(getClassRequirement('md:pointer-fine:p-4')).toMatchObject({ feature: 'pointer-variants', since: 'v4.1' });
+      expect(getClassRequirement('hover:text-balance')).toMatchObject({ since: 'v3.4' });
+      expect(getClassRequirement('hover:p-4')).toBeUndefined();
+    });
+  });
+
+  describe('utility catalog', () => {
+    it('should give every class a single family', () => {
+      const classes = UTILITY_FAMILIES.flatMap(family => Object.keys(family.values));
+      expect(classes.filter((name, index) => classes.indexOf(name) !== index)).toEqual([]);
+    });
+
+    it('should cover every documentation category', () => {
+      const categories = new Set(UTILITY_FAMILIES.map(family => family.category));
+      expect([...categories].sort()).toEqual(Object.keys(UTILITY_CATEGORIES).sort());
+    });
+
+    it('should keep v4 names out of the v3-based catalog', () => {
+      const classes = new Set(UTILITY_FAMILIES.flatMap(family => Object.keys(family.values)));
+      expect(classes).toContain('shadow-sm');
+      expect(classes).not.toContain('shadow-xs');
+      expect(classes).not.toContain('bg-linear-to-r');
+    });
+  });
 });
@@ -0,0 +1,107 @@
+/**
+ * Tests for the TailwindCSS variant registry and parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyVariants,
+  decodeArbitrary,
+  getCategoryVariants,
+  getVariantRegistry,
+  parseClass,
+  parseVariant,
+} from '../../version/index.js';
+
+describe('TailwindCSS variants', () => {
+  describe('parseVariant', () => {
+    it('should resolve breakpoints, container queries and media variants per version', () => {
+      expect(parseVariant('md', 'v3')).toEqual({ variant: 'md', kind: 'responsive', atRule: '@media (min-width: 768px)' });
+      expect(parseVariant('max-md', 'v4')?.atRule).toBe('@media (width < 48rem)');
+      expect(parseVariant('@max-md/sidebar', 'v4')).toMatchObject({ kind: 'container', atRule: '@container sidebar (width < 28rem)' });
+      expect(parseVariant('@md', 'v3')).toBeUndefined();
+      expect(parseVariant('forced-colors', 'v3')?.atRule).toBe('@media (forced-colors: active)');
+      expect(parseVariant('starting', 'v4')).toMatchObject({ kind: 'starting', atRule: '@starting-style' });
+    });
+
+    it('should resolve named groups and peers with any state', () => {
+      expect(parseVariant('group-hover/card', 'v3')?.selector).toBe('.group\\/card:hover &');
+      expect(parseVariant('group-hover/card', 'v4')).toMatchObject({
+        selector: '&:is(:where(.group\\/card):hover *)',
+        atRule: '@media (hover: hover)',
+      });
+      expect(parseVariant('peer-data-[state=open]', 'v3')?.selector).toBe('.peer[data-state=open] ~ &');
+      expect(parseVariant('group-[:nth-of-type(3)_&]', 'v3')?.selector).toBe(':nth-of-type(3) .group &');
+    });
+
+    it('should resolve attribute, has, not, in and supports variants', () => {
+      expect(parseVariant('aria-checked', 'v3')).toMatchObject({ kind: 'aria', selector: '&[aria-checked="true"]' });
+      expect(parseVariant('data-active', 'v3')).toBeUndefined();
+      expect(parseVariant('data-active', 'v4')?.selector).toBe('&[data-active]');
+      expect(parseVariant('has-[img]', 'v3')?.selector).toBe('&:has(img)');
+      expect(parseVariant('not-first', 'v4')?.selector).toBe('&:not(:first-child)');
+      expect(parseVariant('not-dark', 'v4')?.atRule).toBe('@media not (prefers-color-scheme: dark)');
+      expect(parseVariant('in-focus', 'v4')?.selector).toBe(':where(*:focus) &');
+      expect(parseVariant('in-range', 'v3')).toMatchObject({ kind: 'state', selector: '&:in-range' });
+      expect(parseVariant('supports-grid', 'v3')?.atRule).toBe('@supports (grid: var(--tw))');
+    });
+  });
+
+  describe('parseClass', () => {
+    it('should split stacked variants, the utility and the important modifier', () => {
+      const parsed = parseClass('md:group-hover:*:!p-4', 'v3');
+
+      expect(parsed.variants.map(variant => variant.kind)).toEqual(['responsive', 'group', 'child']);
+      expect(parsed).toMatchObject({ utility: 'p-4', important: true, unknownVariants: [] });
+      expect(parseClass('tablet:hover:p-4', 'v4').unknownVariants).toEqual(['tablet']);
+    });
+  });
+
+  describe('applyVariants', () => {
+    it('should apply selectors inside out in v3 and in order in v4', () => {
+      expect(applyVariants('.x', parseClass('first:*:p-4', 'v3').variants, 'v3').selector).toBe('.x > *:first-child');
+      expect(applyVariants('.x', parseClass('*:first:p-4', 'v4').variants, 'v4').selector).toBe(':is(.x > *):first-child');
+      expect(applyVariants('.x', parseClass('md:dark:hover:p-4', 'v4').variants, 'v4').atRules).toEqual([
+        '@media (width >= 48rem)',
+        '@media (prefers-color-scheme: dark)',
+        '@media (hover: hover)',
+      ]);
+    });
+  });
+
+  describe('decodeArbitrary', () => {
+    it('should turn underscores into spaces and space math operators', () => {
+      expect(decodeArbitrary('calc(100%-2rem)')).toBe('calc(100% - 2rem)');
+      expect(decodeArbitrary('calc(100%_-_2rem)')).toBe('calc(100% - 2rem)');
+      expect(decodeArbitrary('calc((100%-1rem)/2)')).toBe('calc((100% - 1rem) / 2)');
+      expect(decodeArbitrary('clamp(1rem,2vw+1rem,3rem)')).toBe('clamp(1rem,2vw + 1rem,3rem)');
+      expect(decodeArbitrary('max(100vh-2rem,50%)')).toBe('max(100vh - 2rem,50%)');
+      expect(decodeArbitrary('calc(-1*var(--gap-x))')).toBe('calc(-1 * var(--gap-x))');
+      expect(decodeArbitrary('calc(var(--x)-1e-3px)')).toBe('calc(var(--x) - 1e-3px)');
+      expect(decodeArbitrary('url(/img/hero-bg.png)')).toBe('url(/img/hero-bg.png)');
+      expect(decodeArbitrary('grid\\_area')).toBe('grid_area');
+    });
+  });
+
+  describe('getVariantRegistry', () => {
+    it('should list the variants each release ships', () => {
+      const names = (release: Parameters<typeof getVariantRegistry>[0]) => getVariantRegistry(release).map(variant => variant.name);
+
+      expect(names('v3.0')).not.toContain('data-*');
+      expect(names('v3.2')).toContain('data-*');
+      expect(names('v3.4')).not.toContain('@*');
+      expect(names('v4.0')).toEqual(expect.arrayContaining(['@*', 'not-*', 'in-*', 'starting', '**', 'inert']));
+      expect(names('v4.0')).not.toContain('details-content');
+      expect(names('v4.1')).toContain('details-content');
+      expect(getVariantRegistry('v4.1').find(variant => variant.name === 'has-*')).toMatchObject({ kind: 'has', since: 'v3.4' });
+    });
+  });
+
+  describe('getCategoryVariants', () => {
+    it('should suggest the variants of a category the release ships', () => {
+      const names = getCategoryVariants('backgrounds', 'v3.0').map(variant => variant.name);
+
+      expect(names).toEqual(['sm', 'md', 'lg', 'xl', '2xl', 'hover', 'focus', 'active', 'dark', 'group-hover', 'peer-checked']);
+      expect(getCategoryVariants('backgrounds', 'v4.1').map(variant => variant.name)).toContain('aria-selected');
+    });
+  });
+});
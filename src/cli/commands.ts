@@ -0,0 +1,356 @@
+/**
+ * Command table and argument parsing for the command-line mode
+ * Each command maps its positional arguments and options onto the arguments of one tool
+ */
+
+export interface CommandOption {
+  /** Tool argument the option sets */
+  argument: string;
+  type: 'string' | 'boolean' | 'integer' | 'integer-list';
+}
+
+export interface CliCommand {
+  name: string;
+  usage: string;
+  summary: string;
+  /** Tool run by the command; `call` names the tool as its first argument instead */
+  tool?: string;
+  /** Names of the positional arguments, in order */
+  positionals: string[];
+  /** Number of positional arguments that must be given */
+  required: number;
+  options: Record<string, CommandOption>;
+  /** Positional argument holding a file path whose contents are passed instead (`-` reads stdin) */
+  fileArgument?: string;
+  /** Positional argument holding a directory, resolved against the working directory it defaults to */
+  directoryArgument?: string;
+}
+
+export interface CommandInvocation {
+  positionals: Record<string, string>;
+  /** Tool arguments set through options */
+  values: Record<string, unknown>;
+  json: boolean;
+}
+
+/**
+ * Raised for malformed command lines; the CLI prints the command's usage alongside it
+ */
+export class UsageError extends Error {
+  constructor(message: string, public command?: CliCommand) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/** Options handled by the config, add-on tool and logging resolvers */
+const GLOBAL_VALUE_OPTIONS = ['config', 'tool-modules', 'log-level', 'log-file'];
+
+const version: CommandOption = { argument: 'version', type: 'string' };
+
+export const CLI_COMMANDS: CliCommand[] = [
+  {
+    name: 'convert',
+    tool: 'convert_css_to_tailwind',
+    usage: 'convert <file|-> [--mode classes|inline|component] [--version v3|v4]',
+    summary: 'Convert a CSS file (or stdin) to TailwindCSS utilities',
+    positionals: ['css'],
+    required: 1,
+    options: { mode: { argument: 'mode', type: 'string' }, version },
+    fileArgument: 'css',
+  },
+  {
+    name: 'migrate',
+    tool: 'migrate_classes_to_v4',
+    usage: 'migrate <file|->',
+    summary: 'Rewrite the v3 classes of a markup file (or stdin) for TailwindCSS v4',
+    positionals: ['content'],
+    required: 1,
+    options: {},
+    fileArgument: 'content',
+  },
+  {
+    name: 'migrate-config',
+    tool: 'migrate_config_to_v4',
+    usage: 'migrate-config <file|->',
+    summary: 'Translate a v3 tailwind.config.js (or stdin) into a TailwindCSS v4 CSS entry point',
+    positionals: ['config'],
+    required: 1,
+    options: {},
+    fileArgument: 'config',
+  },
+  {
+    name: 'migrate-theme',
+    tool: 'migrate_theme_to_v3',
+    usage: 'migrate-theme <file|-> [--typescript]',
+    summary: 'Translate the @theme variables of a v4 stylesheet (or stdin) into a TailwindCSS v3 config',
+    positionals: ['css'],
+    required: 1,
+    options: {
+      typescript: { argument: 'includeTypescript', type: 'boolean' },
+    },
+    fileArgument: 'css',
+  },
+  {
+    name: 'palette',
+    tool: 'generate_color_palette',
+    usage: 'palette <color> --name <name> [--shades 50,100,...] [--version v3|v4]',
+    summary: 'Generate a color palette from a base color',
+    positionals: ['baseColor'],
+    required: 1,
+    options: {
+      name: { argument: 'name', type: 'string' },
+      shades: { argument: 'shades', type: 'integer-list' },
+      version,
+    },
+  },
+  {
+    name: 'install',
+    tool: 'install_tailwind',
+    usage: 'install <framework> [--pm npm|yarn|pnpm|bun] [--typescript] [--version v3|v4]',
+    summary: 'Show installation commands and config files for a framework',
+    positionals: ['framework'],
+    required: 1,
+    options: {
+      pm: { argument: 'packageManager', type: 'string' },
+      'package-manager': { argument: 'packageManager', type: 'string' },
+      typescript: { argument: 'includeTypescript', type: 'boolean' },
+      version,
+    },
+  },
+  {
+    name: 'template',
+    tool: 'generate_component_template',
+    usage: 'template <component> [--style minimal|modern|playful] [--dark-mode] [--no-responsive] [--version v3|v4]',
+    summary: 'Generate an HTML component template',
+    positionals: ['componentType'],
+    required: 1,
+    options: {
+      style: { argument: 'style', type: 'string' },
+      'dark-mode': { argument: 'darkMode', type: 'boolean' },
+      responsive: { argument: 'responsive', type: 'boolean' },
+      version,
+    },
+  },
+  {
+    name: 'utilities',
+    tool: 'get_tailwind_utilities',
+    usage: 'utilities [--category <name>] [--property <css>] [--search <term>] [--source catalog|docs] [--version v3|v4]',
+    summary: 'List utilities by category, CSS property or search term',
+    positionals: [],
+    required: 0,
+    options: {
+      category: { argument: 'category', type: 'string' },
+      property: { argument: 'property', type: 'string' },
+      search: { argument: 'search', type: 'string' },
+      source: { argument: 'source', type: 'string' },
+      version,
+    },
+  },
+  {
+    name: 'colors',
+    tool: 'get_tailwind_colors',
+    usage: 'colors [name] [--no-shades] [--source catalog|docs] [--version v3|v4]',
+    summary: 'Show the default color palette',
+    positionals: ['colorName'],
+    required: 0,
+    options: {
+      shades: { argument: 'includeShades', type: 'boolean' },
+      source: { argument: 'source', type: 'string' },
+      version,
+    },
+  },
+  {
+    name: 'compare',
+    tool: 'compare_tailwind_versions',
+    usage: 'compare [classes] [--utility <name>] [--category <name>]',
+    summary: 'Compare what classes mean in TailwindCSS v3 and v4',
+    positionals: ['classes'],
+    required: 0,
+    options: {
+      utility: { argument: 'utility', type: 'string' },
+      category: { argument: 'category', type: 'string' },
+    },
+  },
+  {
+    name: 'explain',
+    tool: 'explain_tailwind_class',
+    usage: 'explain <class> [--version v3|v4]',
+    summary: 'Show the CSS rule a class generates',
+    positionals: ['className'],
+    required: 1,
+    options: { version },
+  },
+  {
+    name: 'guide',
+    tool: 'get_tailwind_config_guide',
+    usage: 'guide [topic] [--framework <name>] [--version v3|v4]',
+    summary: 'Show a configuration guide',
+    positionals: ['topic'],
+    required: 0,
+    options: { framework: { argument: 'framework', type: 'string' }, version },
+  },
+  {
+    name: 'search',
+    tool: 'search_tailwind_docs',
+    usage: 'search <query> [--category <name>] [--limit <n>] [--version v3|v4]',
+    summary: 'Search the TailwindCSS documentation',
+    positionals: ['query'],
+    required: 1,
+    options: {
+      category: { argument: 'category', type: 'string' },
+      limit: { argument: 'limit', type: 'integer' },
+      version,
+    },
+  },
+  {
+    name: 'status',
+    tool: 'get_server_status',
+    usage: 'status',
+    summary: 'Show service health, cache statistics and catalog size',
+    positionals: [],
+    required: 0,
+    options: {},
+  },
+  {
+    name: 'detect',
+    tool: 'detect_tailwind_setup',
+    usage: 'detect [directory]',
+    summary: "Detect a project's TailwindCSS version, integration, framework and package manager",
+    positionals: ['directory'],
+    required: 0,
+    options: {},
+    directoryArgument: 'directory',
+  },
+  {
+    name: 'call',
+    usage: "call <tool> ['<json arguments>'|-]",
+    summary: 'Run any registered tool, including add-on tools, with JSON arguments',
+    positionals: ['tool', 'arguments'],
+    required: 1,
+    options: {},
+  },
+  {
+    name: 'tools',
+    usage: 'tools',
+    summary: 'List the registered tools',
+    positionals: [],
+    required: 0,
+    options: {},
+  },
+];
+
+export function findCommand(name: string): CliCommand | undefined {
+  return CLI_COMMANDS.find(command => command.name === name);
+}
+
+/**
+ * Parses the arguments following the command name.
+ * Boolean options accept a `--no-` prefix; global options are skipped.
+ */
+export function parseCommandArgs(command: CliCommand, args: string[]): CommandInvocation {
+  const positionals: string[] = [];
+  const values: Record<string, unknown> = {};
+  let json = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const match = /^--(no-)?([a-z][a-z0-9-]*)(?:=(.*))?$/.exec(arg);
+    if (!match) {
+      if (arg === '--') {
+        positionals.push(...args.slice(i + 1));
+        break;
+      }
+      positionals.push(arg);
+      continue;
+    }
+
+    const [, negated, name, inline] = match;
+    if (!negated && GLOBAL_VALUE_OPTIONS.includes(name)) {
+      if (inline === undefined) {
+        i++;
+      }
+      continue;
+    }
+    if (!negated && name === 'json') {
+      json = true;
+      continue;
+    }
+
+    const option = command.options[name];
+    if (!option || (negated && option.type !== 'boolean')) {
+      throw new UsageError(`Unknown option: ${arg}`, command);
+    }
+
+    if (option.type === 'boolean') {
+      if (inline !== undefined) {
+        throw new UsageError(`Option --${name} does not take a value`, command);
+      }
+      values[option.argument] = !negated;
+      continue;
+    }
+
+    const value = inline ?? args[++i];
+    if (value === undefined || value === '') {
+      throw new UsageError(`Missing value for --${name}`, command);
+    }
+    values[option.argument] = coerceOptionValue(option, value);
+  }
+
+  if (positionals.length < command.required) {
+    const missing = command.positionals.slice(positionals.length, command.required);
+    throw new UsageError(`Missing argument: <${missing[0]}>`, command);
+  }
+  if (positionals.length > command.positionals.length) {
+    throw new UsageError(`Unexpected argument: ${positionals[command.positionals.length]}`, command);
+  }
+
+  return {
+    positionals: Object.fromEntries(positionals.map((value, index) => [command.positionals[index], value])),
+    values,
+    json,
+  };
+}
+
+/**
+ * Describes every command, or the usage of a single one
+ */
+export function formatUsage(command?: CliCommand): string {
+  if (command) {
+    return `Usage: tailwindcss-server ${command.usage}\n\n${command.summary}`;
+  }
+
+  const width = Math.max(...CLI_COMMANDS.map(entry => entry.name.length));
+  return [
+    'Usage: tailwindcss-server <command> [options]',
+    '       tailwindcss-server [--transport stdio|http|sse] [--port <port>]   (start the MCP server)',
+    '',
+    'Commands:',
+    ...CLI_COMMANDS.map(entry => `  ${entry.name.padEnd(width)}  ${entry.summary}`),
+    '',
+    'Options:',
+    '  --json                 Print the raw tool result as JSON',
+    '  --config <path>        Project configuration file',
+    '  --tool-modules <a,b>   Add-on tool modules',
+    '  --log-level <level>    Log level on stderr (default: warning)',
+    '',
+    'Run `tailwindcss-server help <command>` for the options of a command.',
+  ].join('\n');
+}
+
+/**
+ * Numeric options are converted when they look numeric; anything else is passed
+ * through so the tool's input validation reports it
+ */
+function coerceOptionValue(option: CommandOption, value: string): unknown {
+  const toInteger = (text: string) => /^-?\d+$/.test(text.trim()) ? Number(text) : text;
+
+  switch (option.type) {
+    case 'integer':
+      return toInteger(value);
+    case 'integer-list':
+      return value.split(',').map(toInteger);
+    default:
+      return value;
+  }
+}
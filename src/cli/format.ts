@@ -0,0 +1,197 @@
+/**
+ * Human-readable rendering of tool results for the command-line mode
+ * Tools without a formatter (e.g. add-on tools) are printed as JSON
+ */
+
+import type {
+  ClassExplanation,
+  ClassMigrationResult,
+  ClassVersionDetails,
+  ColorInfo,
+  ColorPalette,
+  ComponentTemplate,
+  ConfigGuide,
+  ConfigMigrationResult,
+  ConversionResult,
+  InstallationGuide,
+  SearchResult,
+  ServerStatus,
+  TailwindSetup,
+  TailwindUtility,
+  ThemeMigrationResult,
+  VersionComparison,
+} from '../types/index.js';
+
+type Formatter = (data: any) => string;
+
+const formatters: Record<string, Formatter> = {
+  get_tailwind_utilities: (utilities: TailwindUtility[]) => {
+    if (utilities.length === 0) {
+      return 'No utilities found.';
+    }
+    return utilities.map(utility => [
+      `${utility.name} (${utility.category.name}): ${[utility.cssProperty].flat().join(', ')}` +
+        (utility.minVersion ? ` [requires ${utility.minVersion}]` : '') +
+        (utility.maxVersion ? ` [removed after ${utility.maxVersion}]` : ''),
+      ...utility.values.map(value => `  ${value.class}  ${value.value}`),
+    ].join('\n')).join('\n\n');
+  },
+
+  get_tailwind_colors: (colors: ColorInfo[]) => {
+    if (colors.length === 0) {
+      return 'No colors found.';
+    }
+    return colors.map(color => [
+      color.name,
+      ...Object.entries(color.shades).map(([shade, value]) => `  ${shade.padEnd(4)} ${value}`),
+    ].join('\n')).join('\n\n');
+  },
+
+  compare_tailwind_versions: (comparisons: VersionComparison[]) => {
+    if (comparisons.length === 0) {
+      return 'No classes to compare.';
+    }
+    const describe = (details: ClassVersionDetails) => details.available
+      ? [details.css ?? '(not in the catalog)', ...details.defaults.map(value => `default ${value}`)].join('; ') + (details.since ? ` [requires ${details.since}]` : '')
+      : 'not available';
+    return comparisons.map(comparison => [
+      `${comparison.className}: ${comparison.sameMeaning ? 'same in v3 and v4' : 'changed in v4'}`,
+      `  v3  ${describe(comparison.v3)}`,
+      `  v4  ${describe(comparison.v4)}`,
+      ...(comparison.v4Equivalent ? [`  Use ${comparison.v4Equivalent} in v4 for the v3 look`] : []),
+      ...(comparison.v3Equivalent ? [`  Use ${comparison.v3Equivalent} in v3 for the v4 look`] : []),
+      ...comparison.notes.map(note => `  - ${note}`),
+    ].join('\n')).join('\n\n');
+  },
+
+  explain_tailwind_class: (explanation: ClassExplanation) => joinSections([
+    `${explanation.className} (TailwindCSS ${explanation.release}, ${explanation.source})` +
+      (explanation.since ? ` [requires ${explanation.since}]` : ''),
+    explanation.css,
+    section('Notes', explanation.notes.map(note => `- ${note}`)),
+  ]),
+
+  get_tailwind_config_guide: (guide: ConfigGuide) => joinSections([
+    `${guide.topic}\n${guide.description}`,
+    ...guide.examples.map(example => `${example.title}:\n${indent(example.code)}`),
+    section('Best practices', guide.bestPractices.map(practice => `- ${practice}`)),
+  ]),
+
+  search_tailwind_docs: (results: SearchResult[]) => {
+    if (results.length === 0) {
+      return 'No results found.';
+    }
+    return results
+      .map((result, index) => `${index + 1}. ${result.title}\n   ${result.url}\n   ${result.snippet}`)
+      .join('\n\n');
+  },
+
+  install_tailwind: (guide: InstallationGuide) => joinSections([
+    section('Commands', guide.commands.map(command => `  ${command}`)),
+    ...guide.configFiles.map(file => `${file.filename}:\n${indent(file.content)}`),
+    section('Next steps', guide.nextSteps.map((step, index) => `  ${index + 1}. ${step}`)),
+  ]),
+
+  convert_css_to_tailwind: (result: ConversionResult) => joinSections([
+    result.tailwindClasses,
+    section('Unsupported styles', (result.unsupportedStyles ?? []).map(style => `- ${style}`)),
+    section('Custom utilities', (result.customUtilities ?? []).map(utility => `- ${utility}`)),
+    section('Suggestions', (result.suggestions ?? []).map(suggestion => `- ${suggestion}`)),
+  ]),
+
+  migrate_classes_to_v4: (migration: ClassMigrationResult) => joinSections([
+    migration.output,
+    section('Changes', migration.changes.map(change =>
+      `- ${change.from} → ${change.to}${change.occurrences > 1 ? ` (${change.occurrences}×)` : ''}: ${change.reason}`
+    )),
+    section('Warnings', migration.warnings.map(warning => `- ${warning}`)),
+  ]),
+
+  migrate_config_to_v4: (migration: ConfigMigrationResult) => joinSections([
+    migration.css.trimEnd(),
+    section('Notes', migration.notes.map(note => `- ${note}`)),
+    section('Needs manual migration', migration.warnings.map(warning => `- ${warning}`)),
+  ]),
+
+  migrate_theme_to_v3: (migration: ThemeMigrationResult) => joinSections([
+    `${migration.filename}:\n${indent(migration.content)}`,
+    section('Needs manual migration', migration.warnings.map(warning => `- ${warning}`)),
+  ]),
+
+  generate_color_palette: (palette: ColorPalette) => joinSections([
+    section(palette.name, Object.entries(palette.colors).map(([shade, value]) => `  ${shade.padEnd(4)} ${value}`)),
+    `CSS variables:\n${indent(palette.cssVariables)}`,
+    `Tailwind config:\n${indent(palette.tailwindConfig)}`,
+  ]),
+
+  generate_component_template: (template: ComponentTemplate) => joinSections([
+    template.description,
+    template.html,
+    section('Utilities', template.utilities.length > 0 ? [`  ${template.utilities.join(' ')}`] : []),
+    section('Customizations', template.customizations.map(customization => `- ${customization}`)),
+  ]),
+
+  get_server_status: (status: ServerStatus) => {
+    const width = Math.max(...status.services.map(service => service.name.length));
+    const { documentation, versions, catalog } = status;
+    return joinSections([
+      section('Services', status.services.map(service => {
+        const cache = service.cache
+          ? `  cache: ${service.cache.totalEntries} entries, ${Math.round(service.cache.memoryUsage / 1024)} KB, ` +
+            `${Math.round(service.cache.hitRate * 100)}% hits`
+          : '';
+        const error = service.error ? `  (${service.error})` : '';
+        return `  ${service.name.padEnd(width)}  ${service.state}${error}${cache}`;
+      })),
+      [
+        `Documentation: ${documentation.requests} requests, ${documentation.failures} failed`,
+        ...(documentation.lastFailure
+          ? [`  Last failure: ${documentation.lastFailure.url} (${documentation.lastFailure.message}) at ${documentation.lastFailure.at}`]
+          : []),
+      ].join('\n'),
+      `Versions: ${versions.supported.join(', ')} (default: ${versions.defaultRelease})`,
+      `Catalog: ${catalog.utilities} utilities in ${catalog.categories} categories, ${catalog.colors} colors, ` +
+        `${catalog.frameworks} frameworks, ${catalog.templates} templates`,
+    ]);
+  },
+
+  detect_tailwind_setup: (setup: TailwindSetup) => {
+    const rows: Array<[string, string | undefined]> = [
+      ['Version', setup.version && `${setup.version} (${setup.release})`],
+      ['Package', setup.packageVersion && `tailwindcss ${setup.packageVersion} (from ${setup.versionSource})`],
+      ['Integration', setup.integration],
+      ['Framework', setup.framework],
+      ['Package manager', setup.packageManager],
+      ['Config files', setup.configFiles.join(', ')],
+      ['CSS entries', setup.cssEntries.join(', ')],
+    ];
+    return joinSections([
+      setup.detected ? `TailwindCSS setup of ${setup.directory}` : `No TailwindCSS setup found in ${setup.directory}`,
+      rows.filter(([, value]) => value).map(([label, value]) => `${`${label}:`.padEnd(17)}${value}`).join('\n'),
+      section('Evidence', setup.evidence.map(reason => `- ${reason}`)),
+    ]);
+  },
+};
+
+/**
+ * Renders a tool's result data for a terminal
+ */
+export function formatToolResult(toolName: string, data: unknown): string {
+  const formatter = formatters[toolName];
+  return formatter ? formatter(data) : JSON.stringify(data, null, 2);
+}
+
+/**
+ * A titled list, or nothing when the list is empty
+ */
+function section(title: string, lines: string[]): string {
+  return lines.length > 0 ? `${title}:\n${lines.join('\n')}` : '';
+}
+
+function joinSections(sections: string[]): string {
+  return sections.filter(Boolean).join('\n\n');
+}
+
+function indent(text: string): string {
+  return text.trim().split('\n').map(line => `    ${line}`).join('\n');
+}
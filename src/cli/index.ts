@@ -0,0 +1,171 @@
+/**
+ * Command-line mode for TailwindCSS MCP Server
+ * Runs a single tool from the shell and prints its result, without an MCP client:
+ *
+ *   tailwindcss-server convert styles.css --version v3
+ *   tailwindcss-server palette '#3b82f6' --name brand --json
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getServiceOptions, getToolRegistryOptions, loadServerConfig, resolveConfigPath } from '../config/index.js';
+import { configureLogging, resolveLoggingOptions } from '../logging/index.js';
+import { initializeServices, serviceRegistry } from '../services/index.js';
+import { createToolSession } from '../session/index.js';
+import { createToolRegistry, loadToolModules, resolveToolModules } from '../tools/index.js';
+import type { ToolContext, ToolRegistry } from '../tools/index.js';
+import { UsageError, findCommand, formatUsage, parseCommandArgs } from './commands.js';
+import type { CliCommand, CommandInvocation } from './commands.js';
+import { formatToolResult } from './format.js';
+
+export { CLI_COMMANDS, UsageError, findCommand, formatUsage, parseCommandArgs } from './commands.js';
+export type { CliCommand, CommandInvocation, CommandOption } from './commands.js';
+export { formatToolResult } from './format.js';
+
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+  readStdin(): Promise<string>;
+}
+
+export interface CliEnvironment {
+  io: CliIO;
+  env: NodeJS.ProcessEnv;
+  cwd: string;
+}
+
+const processEnvironment: CliEnvironment = {
+  io: {
+    stdout: text => process.stdout.write(`${text}\n`),
+    stderr: text => process.stderr.write(`${text}\n`),
+    readStdin: async () => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of process.stdin) {
+        chunks.push(chunk as Buffer);
+      }
+      return Buffer.concat(chunks).toString('utf8');
+    },
+  },
+  env: process.env,
+  cwd: process.cwd(),
+};
+
+/**
+ * Returns true when the arguments name a command (or ask for help) rather than
+ * only passing server flags such as `--transport`
+ */
+export function isCliInvocation(argv: string[]): boolean {
+  return argv.length > 0 && (!argv[0].startsWith('-') || argv[0] === '--help' || argv[0] === '-h');
+}
+
+/**
+ * Runs a command and returns the process exit code:
+ * 0 on success, 1 when the tool fails and 2 for usage errors
+ */
+export async function runCli(argv: string[], environment: CliEnvironment = processEnvironment): Promise<number> {
+  const { io, env, cwd } = environment;
+  const [name, ...args] = argv;
+
+  if (name === 'help' || name === '--help' || name === '-h') {
+    const command = args[0] === undefined ? undefined : findCommand(args[0]);
+    io.stdout(formatUsage(command));
+    return 0;
+  }
+
+  const command = findCommand(name);
+  if (!command) {
+    io.stderr(`Error: Unknown command: ${name}\n\n${formatUsage()}`);
+    return 2;
+  }
+
+  try {
+    // Keep the terminal quiet unless a level is asked for explicitly
+    configureLogging(resolveLoggingOptions(argv, env, 'warning'));
+
+    const invocation = parseCommandArgs(command, args);
+    const toolName = command.tool ?? invocation.positionals.tool;
+    const toolArgs = await buildToolArguments(command, invocation, environment);
+
+    const { config } = await loadServerConfig(cwd, resolveConfigPath(argv, env));
+    const registry = createToolRegistry(getToolRegistryOptions(config));
+    for (const tool of await loadToolModules(resolveToolModules(argv, env), cwd)) {
+      registry.register(tool);
+    }
+
+    if (command.name === 'tools') {
+      io.stdout(invocation.json ? JSON.stringify(registry.list(), null, 2) : formatToolList(registry));
+      return 0;
+    }
+
+    const services = await initializeServices(getServiceOptions(config));
+    try {
+      const context: ToolContext = { services, options: {}, session: createToolSession(), defaultVersion: config.defaultVersion };
+      const result = await registry.run(toolName, toolArgs, context);
+      io.stdout(invocation.json ? JSON.stringify(result.data, null, 2) : formatToolResult(toolName, result.data));
+      return 0;
+    } finally {
+      await serviceRegistry.cleanupAll();
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`Error: ${error.message}\n\n${formatUsage(error.command)}`);
+      return 2;
+    }
+    io.stderr(`Error: ${describeError(error)}`);
+    return 1;
+  }
+}
+
+/**
+ * Assembles the tool arguments from positionals and options, reading files where the command expects them
+ */
+async function buildToolArguments(
+  command: CliCommand,
+  invocation: CommandInvocation,
+  { io, cwd }: CliEnvironment
+): Promise<Record<string, unknown>> {
+  const readInput = async (source: string) => source === '-'
+    ? await io.readStdin()
+    : await readFile(resolve(cwd, source), 'utf8').catch((error: NodeJS.ErrnoException) => {
+        throw new Error(error.code === 'ENOENT' ? `File not found: ${source}` : error.message);
+      });
+
+  if (command.name === 'call') {
+    const source = invocation.positionals.arguments;
+    if (source === undefined) {
+      return {};
+    }
+    const text = source === '-' ? await io.readStdin() : source;
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new UsageError(`Invalid JSON arguments: ${(error as Error).message}`, command);
+    }
+  }
+
+  const args: Record<string, unknown> = { ...invocation.values };
+  for (const [name, value] of Object.entries(invocation.positionals)) {
+    args[name] = name === command.fileArgument ? await readInput(value) : value;
+  }
+  if (command.directoryArgument) {
+    args[command.directoryArgument] = resolve(cwd, invocation.positionals[command.directoryArgument] ?? '.');
+  }
+  return args;
+}
+
+function formatToolList(registry: ToolRegistry): string {
+  const tools = registry.getAll();
+  const width = Math.max(...tools.map(tool => tool.name.length));
+  return tools.map(tool => `${tool.name.padEnd(width)}  ${tool.description}`).join('\n');
+}
+
+/**
+ * Strips the protocol error prefix that is meaningless on a terminal
+ */
+function describeError(error: unknown): string {
+  if (error instanceof McpError) {
+    return error.message.replace(/^MCP error -?\d+: /, '');
+  }
+  return error instanceof Error ? error.message : String(error);
+}
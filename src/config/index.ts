@@ -0,0 +1,216 @@
+/**
+ * Project-level configuration for TailwindCSS MCP Server
+ * Read from `.tailwind-mcp.json` or the `tailwind-mcp` key of package.json
+ */
+
+import { readFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { collectValidationIssues, toolInputSchemas } from '../schemas/index.js';
+import type { JsonSchema, ObjectSchema } from '../schemas/index.js';
+import type { ServiceOptions } from '../services/index.js';
+import type { ToolRegistryOptions } from '../tools/index.js';
+import type { InstallTailwindParams, GenerateTemplateParams } from '../types/index.js';
+import { parseFlags } from '../utils/flags.js';
+import { VERSION_SPECS } from '../version/index.js';
+import type { TailwindVersion, TailwindVersionSpec } from '../version/index.js';
+
+export const CONFIG_FILE_NAME = '.tailwind-mcp.json';
+
+export const PACKAGE_JSON_KEY = 'tailwind-mcp';
+
+export interface ServerConfig {
+  /** Version used when a call does not pass `version`; a minor release pins the available features */
+  defaultVersion?: TailwindVersionSpec;
+  /** Default `packageManager` for install_tailwind */
+  packageManager?: InstallTailwindParams['packageManager'];
+  /** Default `style` for generate_component_template */
+  templateStyle?: GenerateTemplateParams['style'];
+  /** Default `darkMode` for generate_component_template */
+  darkMode?: boolean;
+  /** Per-version documentation site overrides, e.g. an internal mirror */
+  docsBaseUrl?: Partial<Record<TailwindVersion, string>>;
+  cache?: {
+    /** Directory for persisting scraped pages, relative to the config file */
+    directory?: string;
+    /** Seconds a scraped page stays fresh */
+    ttl?: number;
+  };
+  tools?: {
+    /** Only these tools are served when set */
+    enabled?: string[];
+    /** These tools are never served */
+    disabled?: string[];
+  };
+}
+
+export interface LoadedConfig {
+  config: ServerConfig;
+  /** File the configuration was read from; undefined when none was found */
+  path?: string;
+}
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 } };
+
+const baseUrl: JsonSchema = { type: 'string', minLength: 1 };
+
+export const serverConfigSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    $schema: { type: 'string' },
+    defaultVersion: { type: 'string', enum: VERSION_SPECS },
+    packageManager: { type: 'string', enum: toolInputSchemas.install_tailwind.properties.packageManager.enum },
+    templateStyle: { type: 'string', enum: toolInputSchemas.generate_component_template.properties.style.enum },
+    darkMode: { type: 'boolean' },
+    docsBaseUrl: {
+      type: 'object',
+      properties: { v3: baseUrl, v4: baseUrl },
+      additionalProperties: false,
+    },
+    cache: {
+      type: 'object',
+      properties: {
+        directory: { type: 'string', minLength: 1 },
+        ttl: { type: 'integer', minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    tools: {
+      type: 'object',
+      properties: { enabled: stringList, disabled: stringList },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * Resolves an explicit config path from CLI flags, falling back to environment variables.
+ *
+ * Flag: `--config <path>` (also `--config=path`).
+ * Environment: `TAILWIND_MCP_CONFIG`.
+ */
+export function resolveConfigPath(argv: string[], env: NodeJS.ProcessEnv = {}): string | undefined {
+  return parseFlags(argv, ['config']).config ?? env.TAILWIND_MCP_CONFIG;
+}
+
+/**
+ * Loads the server configuration. An explicit path must exist; otherwise the
+ * nearest `.tailwind-mcp.json` or package.json `tailwind-mcp` key from `cwd` upwards is used.
+ */
+export async function loadServerConfig(cwd: string = process.cwd(), explicitPath?: string): Promise<LoadedConfig> {
+  if (explicitPath) {
+    const path = resolve(cwd, explicitPath);
+    const raw = await readJsonFile(path);
+    if (raw === undefined) {
+      throw new Error(`Configuration file not found: ${path}`);
+    }
+    return { config: parseServerConfig(raw, path), path };
+  }
+
+  for (let dir = resolve(cwd); ; dir = dirname(dir)) {
+    const configPath = join(dir, CONFIG_FILE_NAME);
+    const raw = await readJsonFile(configPath);
+    if (raw !== undefined) {
+      return { config: parseServerConfig(raw, configPath), path: configPath };
+    }
+
+    const packagePath = join(dir, 'package.json');
+    const packageJson = await readJsonFile(packagePath) as Record<string, unknown> | undefined;
+    if (packageJson?.[PACKAGE_JSON_KEY] !== undefined) {
+      return { config: parseServerConfig(packageJson[PACKAGE_JSON_KEY], packagePath), path: packagePath };
+    }
+
+    if (dirname(dir) === dir) {
+      return { config: {} };
+    }
+  }
+}
+
+/**
+ * Validates a raw configuration value, resolving the cache directory against the config file
+ */
+export function parseServerConfig(raw: unknown, source: string): ServerConfig {
+  const issues = collectValidationIssues(serverConfigSchema, raw, 'configuration');
+  if (issues.length > 0) {
+    const details = issues.map(issue => `"${issue.field}" ${issue.message}`).join('; ');
+    throw new Error(`Invalid configuration in ${source}: ${details}`);
+  }
+
+  const config = raw as ServerConfig;
+  if (config.cache?.directory) {
+    return {
+      ...config,
+      cache: { ...config.cache, directory: resolve(dirname(source), config.cache.directory) },
+    };
+  }
+  return config;
+}
+
+/**
+ * Tool argument defaults implied by the configuration, keyed by argument name
+ */
+export function getToolArgumentDefaults(config: ServerConfig): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {
+    version: config.defaultVersion,
+    packageManager: config.packageManager,
+    style: config.templateStyle,
+    darkMode: config.darkMode,
+  };
+
+  return Object.fromEntries(Object.entries(defaults).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Tool registry options implied by the configuration: argument defaults and enabled tools
+ */
+export function getToolRegistryOptions(config: ServerConfig): ToolRegistryOptions {
+  return {
+    argumentDefaults: getToolArgumentDefaults(config),
+    isEnabled: name => isToolEnabled(config, name),
+  };
+}
+
+/**
+ * Service options implied by the configuration
+ */
+export function getServiceOptions(config: ServerConfig): ServiceOptions {
+  return {
+    documentationScraper: {
+      docsBaseUrls: config.docsBaseUrl,
+      directory: config.cache?.directory,
+      ttlMs: config.cache?.ttl === undefined ? undefined : config.cache.ttl * 1000,
+    },
+  };
+}
+
+/**
+ * Returns true when the configuration allows serving `toolName`
+ */
+export function isToolEnabled(config: ServerConfig, toolName: string): boolean {
+  const { enabled, disabled } = config.tools ?? {};
+  if (enabled && !enabled.includes(toolName)) {
+    return false;
+  }
+  return !disabled?.includes(toolName);
+}
+
+/**
+ * Reads and parses a JSON file, returning undefined when it does not exist
+ */
+async function readJsonFile(path: string): Promise<unknown> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${path}: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Maps service errors to MCP errors
+ * Errors the caller can correct become InvalidParams errors whose data names the offending
+ * field, the accepted values and close matches, so a model can retry with a fixed request
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ServiceError } from '../services/base.js';
+import type { ServiceErrorDetails, ServiceErrorKind } from '../services/base.js';
+import { suggestAlternatives, withSuggestions } from '../utils/suggestions.js';
+
+/**
+ * The `data` of an MCP error raised for a service error
+ */
+export interface ServiceErrorData extends ServiceErrorDetails {
+  kind: ServiceErrorKind;
+  service: string;
+  operation: string;
+}
+
+const ERROR_CODES: Record<ServiceErrorKind, ErrorCode> = {
+  'invalid-params': ErrorCode.InvalidParams,
+  'not-found': ErrorCode.InvalidParams,
+  upstream: ErrorCode.InternalError,
+  internal: ErrorCode.InternalError,
+};
+
+/**
+ * Converts any error thrown while handling a request into an McpError; `context`
+ * names the tool or resource being handled. McpErrors pass through unchanged.
+ */
+export function toMcpError(error: unknown, context: string): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+
+  if (error instanceof ServiceError && error.kind !== 'internal') {
+    const data: ServiceErrorData = {
+      kind: error.kind,
+      service: error.service,
+      operation: error.operation,
+      ...error.details,
+    };
+    return new McpError(ERROR_CODES[error.kind], describeServiceError(error), data);
+  }
+
+  // Internal failures are not actionable for the caller; keep their details in the log
+  return new McpError(
+    ErrorCode.InternalError,
+    `An unexpected error occurred during "${context}".`,
+    error instanceof ServiceError ? { kind: error.kind, service: error.service, operation: error.operation } : { kind: 'internal' }
+  );
+}
+
+/**
+ * Creates the error for a lookup that matched nothing, suggesting the closest known names
+ */
+export function createNotFoundError(message: string, value: string, candidates: Iterable<string>): McpError {
+  const suggestions = suggestAlternatives(value, candidates);
+  return new McpError(ErrorCode.InvalidParams, withSuggestions(message, suggestions), { kind: 'not-found', value, suggestions });
+}
+
+/**
+ * Returns true for errors caused by the request rather than by the server or its sources
+ */
+export function isCallerError(error: McpError): boolean {
+  return error.code === ErrorCode.InvalidParams || error.code === ErrorCode.MethodNotFound;
+}
+
+function describeServiceError(error: ServiceError): string {
+  if (error.kind === 'upstream') {
+    const cause = findRootCause(error);
+    return cause ? `${error.message} (${cause}). The documentation site may be unavailable; try again later.` : error.message;
+  }
+  return withSuggestions(error.message, error.details.suggestions);
+}
+
+/**
+ * Message of the innermost non-service error, e.g. the HTTP failure behind a scrape
+ */
+function findRootCause(error: ServiceError): string | undefined {
+  let cause: unknown = error.originalError;
+  while (cause instanceof ServiceError) {
+    cause = cause.originalError;
+  }
+  return cause instanceof Error ? cause.message : undefined;
+}
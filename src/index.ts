@@ -7,25 +7,54 @@
  * - Get TailwindCSS color information
  * - Get configuration guides for frameworks
  * - Search TailwindCSS documentation
+ *
+ * It also exposes utilities, colors and documentation pages as resources
+ * so clients can attach reference data without calling a tool, and prompts
+ * for common workflows that pre-fill the matching tool calls.
+ *
+ * Given a command instead of server flags (e.g. `convert styles.css`), it runs
+ * that tool once from the command line and exits.
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  CompleteRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  type ServerNotification,
+  type ServerRequest,
 } from "@modelcontextprotocol/sdk/types.js";
-import { initializeServices } from './services/index.js';
-import { DEFAULT_VERSION, SUPPORTED_VERSIONS } from './version/index.js';
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { initializeServices, serviceRegistry } from './services/index.js';
+import type { MigrationService, ProjectDetectionService } from './services/index.js';
+import { attachMcpLogging, configureLogging, createLogger, resolveLoggingOptions } from './logging/index.js';
+import type { LoggingOptions } from './logging/index.js';
+import { resolveTransportOptions, startHttpTransport } from './transport/index.js';
+import type { HttpTransportHandle, TransportOptions } from './transport/index.js';
+import { ToolRegistry, builtinTools, createToolRegistry, loadToolModules, resolveToolModules } from './tools/index.js';
+import type { ToolDefinition } from './tools/index.js';
+import {
+  getServiceOptions,
+  getToolRegistryOptions,
+  loadServerConfig,
+  resolveConfigPath,
+} from './config/index.js';
+import type { ServerConfig } from './config/index.js';
+import { isCliInvocation, runCli } from './cli/index.js';
+import { createNotFoundError, isCallerError, toMcpError } from './errors/index.js';
+import { createToolSession } from './session/index.js';
+import type { ToolSession } from './session/index.js';
+import { DEFAULT_VERSION, SUPPORTED_VERSIONS, getVersionConfig, resolveVersion } from './version/index.js';
 import type { TailwindVersion } from './version/index.js';
 import type {
-  GetUtilitiesParams,
-  GetColorsParams,
-  ConfigGuideParams,
-  SearchDocsParams,
-  InstallTailwindParams,
   ConvertCSSParams,
   GeneratePaletteParams,
   GenerateTemplateParams,
@@ -36,22 +65,53 @@ import type {
   InstallationGuide,
   ConversionResult,
   ColorPalette,
-  ComponentTemplate
+  ComponentTemplate,
+  DocumentationPage,
+  OperationOptions
 } from './types/index.js';
 
+type RequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+const logger = createLogger('TailwindCSSServer');
+
 /**
  * TailwindCSSServer class that handles all the TailwindCSS information functionality
  */
 export class TailwindCSSServer {
   private server: Server;
+  private tools: ToolRegistry;
+  private httpTransport?: HttpTransportHandle;
   private documentationScraper: any;
   private utilityMapper: any;
   private installationService: any;
   private conversionService: any;
   private templateService: any;
+  private projectDetector!: ProjectDetectionService;
+  private migrationService!: MigrationService;
+  /** Set when serving remote clients, who may only inspect projects inside it */
+  private projectRoot?: string;
+
+  constructor(private config: ServerConfig = {}) {
+    this.tools = createToolRegistry(getToolRegistryOptions(config));
+    this.server = this.createServer();
 
-  constructor() {
-    this.server = new Server(
+    // Only add signal handlers in non-test environments to avoid MaxListenersExceededWarning
+    if (process.env.NODE_ENV !== 'test' && !process.env.VITEST) {
+      const shutdown = async () => {
+        await this.shutdown();
+        process.exit(0);
+      };
+      process.on("SIGINT", shutdown);
+      process.on("SIGTERM", shutdown);
+    }
+  }
+
+  /**
+   * Create an MCP server with all handlers registered.
+   * The HTTP transports create one per client session; services are shared.
+   */
+  createServer(): Server {
+    const server = new Server(
       {
         name: "tailwindcss-server",
         version: "1.0.0",
@@ -59,657 +119,613 @@ export class TailwindCSSServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
+          completions: {},
+          logging: {},
         },
       }
     );
 
-    this.setupToolHandlers();
+    this.setupToolHandlers(server);
+    this.setupResourceHandlers(server);
+    this.setupPromptHandlers(server);
+    this.setupCompletionHandlers(server);
+    attachMcpLogging(server);
 
-    this.server.onerror = (error) => console.error("[MCP Error]", error);
-    
-    // Only add SIGINT handler in non-test environments to avoid MaxListenersExceededWarning
-    if (process.env.NODE_ENV !== 'test' && !process.env.VITEST) {
-      process.on("SIGINT", async () => {
-        await this.server.close();
-        process.exit(0);
-      });
-    }
+    server.onerror = (error) => logger.error("[MCP Error]", error);
+
+    return server;
   }
 
   /**
    * Initialize the server with services
    */
   async initialize() {
-    const services = await initializeServices();
+    const services = await initializeServices(getServiceOptions(this.config));
     this.documentationScraper = services.documentationScraper;
     this.utilityMapper = services.utilityMapper;
     this.installationService = services.installationService;
     this.conversionService = services.conversionService;
     this.templateService = services.templateService;
+    this.projectDetector = services.projectDetector;
+    this.migrationService = services.migrationService;
   }
 
   /**
    * Set up the tool handlers for the server
    */
-  private setupToolHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
-        {
-          name: "get_tailwind_utilities",
-          description: "Get TailwindCSS utilities by category, property, or search term",
-          inputSchema: {
-            type: "object",
-            properties: {
-              category: {
-                type: "string",
-                description: "Filter by utility category (e.g., 'layout', 'typography', 'colors')",
-              },
-              property: {
-                type: "string",
-                description: "Filter by CSS property (e.g., 'margin', 'color', 'font-size')",
-              },
-              search: {
-                type: "string",
-                description: "Search term to find utilities",
-              },
-              version: {
-                type: "string",
-                enum: ["v3", "v4"],
-                description: "TailwindCSS version (default: v4)",
-              },
-            },
-            required: [],
-          },
-        },
-        {
-          name: "get_tailwind_colors",
-          description: "Get TailwindCSS color palette information",
-          inputSchema: {
-            type: "object",
-            properties: {
-              colorName: {
-                type: "string",
-                description: "Specific color name (e.g., 'blue', 'red')",
-              },
-              includeShades: {
-                type: "boolean",
-                description: "Include all color shades (default: true)",
-              },
-              version: {
-                type: "string",
-                enum: ["v3", "v4"],
-                description: "TailwindCSS version (default: v4)",
-              },
-            },
-            required: [],
-          },
-        },
-        {
-          name: "get_tailwind_config_guide",
-          description: "Get TailwindCSS configuration guides for different frameworks",
-          inputSchema: {
-            type: "object",
-            properties: {
-              topic: {
-                type: "string",
-                description: "Configuration topic (e.g., 'installation', 'customization')",
-              },
-              framework: {
-                type: "string",
-                description: "Target framework (e.g., 'react', 'vue', 'nextjs')",
-              },
-              version: {
-                type: "string",
-                enum: ["v3", "v4"],
-                description: "TailwindCSS version (default: v4)",
-              },
-            },
-            required: [],
-          },
-        },
-        {
-          name: "search_tailwind_docs",
-          description: "Search TailwindCSS documentation",
-          inputSchema: {
-            type: "object",
-            properties: {
-              query: {
-                type: "string",
-                description: "Search query for TailwindCSS documentation",
-              },
-              category: {
-                type: "string",
-                description: "Filter by documentation category",
-              },
-              limit: {
-                type: "number",
-                description: "Limit number of results (default: 10)",
-              },
-              version: {
-                type: "string",
-                enum: ["v3", "v4"],
-                description: "TailwindCSS version (default: v4)",
-              },
-            },
-            required: ["query"],
-          },
-        },
-        {
-          name: "install_tailwind",
-          description: "Generate installation commands and configuration files for TailwindCSS in different frameworks",
-          inputSchema: {
-            type: "object",
-            properties: {
-              framework: {
-                type: "string",
-                description: "Target framework (e.g., 'react', 'nextjs', 'vue', 'vite', 'laravel', 'angular', 'svelte')",
-              },
-              packageManager: {
-                type: "string",
-                enum: ["npm", "yarn", "pnpm", "bun"],
-                description: "Package manager to use (default: npm)",
-              },
-              includeTypescript: {
-                type: "boolean",
-                description: "Include TypeScript configuration (default: false)",
-              },
-              version: {
-                type: "string",
-                enum: ["v3", "v4"],
-                description: "TailwindCSS version (default: v4)",
-              },
-            },
-            required: ["framework"],
-          },
-        },
-        {
-          name: "convert_css_to_tailwind",
-          description: "Convert traditional CSS to TailwindCSS utility classes",
-          inputSchema: {
-            type: "object",
-            properties: {
-              css: {
-                type: "string",
-                description: "CSS code to convert to TailwindCSS utilities",
-              },
-              mode: {
-                type: "string",
-                enum: ["inline", "classes", "component"],
-                description: "Output format: 'classes' for space-separated utilities, 'inline' for class attribute, 'component' for @apply directive (default: classes)",
-              },
-              version: {
-                type: "string",
-                enum: ["v3", "v4"],
-                description: "TailwindCSS version (default: v4)",
-              },
-            },
-            required: ["css"],
-          },
-        },
-        {
-          name: "generate_color_palette",
-          description: "Generate a custom color palette with multiple shades from a base color",
-          inputSchema: {
-            type: "object",
-            properties: {
-              baseColor: {
-                type: "string",
-                description: "Base color in hex, rgb, or hsl format (e.g., '#3B82F6', 'rgb(59, 130, 246)')",
-              },
-              name: {
-                type: "string",
-                description: "Name for the color palette (e.g., 'brand', 'accent')",
-              },
-              shades: {
-                type: "array",
-                items: { type: "number" },
-                description: "Array of shade values to generate (default: [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950])",
-              },
-              version: {
-                type: "string",
-                enum: ["v3", "v4"],
-                description: "TailwindCSS version (default: v4)",
-              },
-            },
-            required: ["baseColor", "name"],
-          },
-        },
-        {
-          name: "generate_component_template",
-          description: "Generate HTML component templates with TailwindCSS classes",
-          inputSchema: {
-            type: "object",
-            properties: {
-              componentType: {
-                type: "string",
-                description: "Type of component to generate (e.g., 'button', 'card', 'form', 'navbar', 'modal', 'alert', 'badge', 'breadcrumb')",
-              },
-              style: {
-                type: "string",
-                enum: ["minimal", "modern", "playful"],
-                description: "Visual style of the component (default: modern)",
-              },
-              darkMode: {
-                type: "boolean",
-                description: "Include dark mode support (default: false)",
-              },
-              responsive: {
-                type: "boolean",
-                description: "Include responsive design classes (default: true)",
-              },
-              version: {
-                type: "string",
-                enum: ["v3", "v4"],
-                description: "TailwindCSS version (default: v4)",
-              },
-            },
-            required: ["componentType"],
-          },
-        },
-      ],
+  private setupToolHandlers(server: Server) {
+    // Each MCP server serves one client session, so it keeps its own project context
+    const session = createToolSession();
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.tools.list(),
     }));
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      switch (request.params.name) {
-        case "get_tailwind_utilities":
-          return await this.handleGetTailwindUtilities(request.params.arguments);
-        case "get_tailwind_colors":
-          return await this.handleGetTailwindColors(request.params.arguments);
-        case "get_tailwind_config_guide":
-          return await this.handleGetTailwindConfigGuide(request.params.arguments);
-        case "search_tailwind_docs":
-          return await this.handleSearchTailwindDocs(request.params.arguments);
-        case "install_tailwind":
-          return await this.handleInstallTailwind(request.params.arguments);
-        case "convert_css_to_tailwind":
-          return await this.handleConvertCSSToTailwind(request.params.arguments);
-        case "generate_color_palette":
-          return await this.handleGenerateColorPalette(request.params.arguments);
-        case "generate_component_template":
-          return await this.handleGenerateComponentTemplate(request.params.arguments);
-        default:
-          throw new McpError(
-            ErrorCode.MethodNotFound,
-            `Unknown tool: ${request.params.name}`
-          );
-      }
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      return await this.callTool(request.params.name, request.params.arguments, this.createOperationOptions(extra), session);
     });
   }
 
   /**
-   * Handle the get_tailwind_utilities tool request
+   * Register a tool, e.g. from an add-on module, applying the configured argument
+   * defaults. Tools disabled by the configuration are skipped.
    */
-  private async handleGetTailwindUtilities(args: any): Promise<any> {
-    try {
-      const params = this.validateGetUtilitiesParams(args);
-      const utilities = await this.utilityMapper.getUtilities(params);
-      return this.createSuccessResponse(utilities);
-    } catch (error) {
-      this.handleServiceError(error, "Failed to get TailwindCSS utilities");
-    }
+  registerTool(tool: ToolDefinition): void {
+    this.tools.register(tool);
   }
 
   /**
-   * Validates and returns a TailwindVersion, defaulting to v4
+   * Run a registered tool with the shared services
    */
-  private validateVersion(version: any): TailwindVersion {
-    if (version && typeof version === "string" && SUPPORTED_VERSIONS.includes(version as TailwindVersion)) {
-      return version as TailwindVersion;
-    }
-    return DEFAULT_VERSION;
+  private async callTool(
+    name: string,
+    args: unknown,
+    options: OperationOptions = {},
+    session: ToolSession = createToolSession()
+  ): Promise<any> {
+    return await this.tools.call(name, args, {
+      services: {
+        documentationScraper: this.documentationScraper,
+        utilityMapper: this.utilityMapper,
+        installationService: this.installationService,
+        conversionService: this.conversionService,
+        templateService: this.templateService,
+        projectDetector: this.projectDetector,
+        migrationService: this.migrationService,
+      },
+      options,
+      session,
+      defaultVersion: this.config.defaultVersion,
+      projectRoot: this.projectRoot,
+    });
   }
 
   /**
-   * Validates get utilities parameters
+   * Set up the resource handlers for the server
    */
-  private validateGetUtilitiesParams(args: any): GetUtilitiesParams {
-    const params: GetUtilitiesParams = {
-      version: this.validateVersion(args?.version),
-    };
-
-    if (args?.category && typeof args.category === "string") {
-      params.category = args.category;
-    }
-
-    if (args?.property && typeof args.property === "string") {
-      params.property = args.property;
-    }
+  private setupResourceHandlers(server: Server) {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: await this.listResources(),
+    }));
 
-    if (args?.search && typeof args.search === "string") {
-      params.search = args.search;
-    }
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: [
+        {
+          uriTemplate: "tailwind://{version}/utilities/{id}",
+          name: "TailwindCSS utility",
+          description: "A TailwindCSS utility class with its CSS property, values and examples",
+          mimeType: "application/json",
+        },
+        {
+          uriTemplate: "tailwind://{version}/colors/{name}",
+          name: "TailwindCSS color",
+          description: "A TailwindCSS default color with all of its shades",
+          mimeType: "application/json",
+        },
+        {
+          uriTemplate: "tailwind://{version}/docs/{path}",
+          name: "TailwindCSS documentation page",
+          description: "The text of a TailwindCSS documentation page (e.g. 'tailwind://v4/docs/dark-mode')",
+          mimeType: "text/plain",
+        },
+      ],
+    }));
 
-    return params;
+    server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      return await this.handleReadResource(request.params.uri, this.createOperationOptions(extra));
+    });
   }
 
   /**
-   * Validates get colors parameters
+   * Lists the concrete utility and color resources for every supported version
    */
-  private validateGetColorsParams(args: any): GetColorsParams {
-    const params: GetColorsParams = {
-      version: this.validateVersion(args?.version),
-    };
-
-    if (args?.colorName && typeof args.colorName === "string") {
-      params.colorName = args.colorName;
-    }
+  private async listResources(): Promise<any[]> {
+    const resources: any[] = [];
+
+    for (const version of SUPPORTED_VERSIONS) {
+      const colors: ColorInfo[] = await this.utilityMapper.getColors({ includeShades: false, version });
+      for (const color of colors) {
+        resources.push({
+          uri: `tailwind://${version}/colors/${encodeURIComponent(color.name)}`,
+          name: `${color.name} (${version})`,
+          description: `TailwindCSS ${version} ${color.name} color shades`,
+          mimeType: "application/json",
+        });
+      }
 
-    if (args?.includeShades !== undefined) {
-      params.includeShades = Boolean(args.includeShades);
+      const utilities: TailwindUtility[] = await this.utilityMapper.getUtilities({ version });
+      for (const utility of utilities) {
+        resources.push({
+          uri: `tailwind://${version}/utilities/${encodeURIComponent(utility.id)}`,
+          name: `${utility.name} (${version})`,
+          description: utility.documentation,
+          mimeType: "application/json",
+        });
+      }
     }
 
-    return params;
+    return resources;
   }
 
   /**
-   * Validates config guide parameters
+   * Handle a resources/read request for a tailwind:// URI
    */
-  private validateConfigGuideParams(args: any): ConfigGuideParams {
-    const params: ConfigGuideParams = {
-      version: this.validateVersion(args?.version),
-    };
-
-    if (args?.topic && typeof args.topic === "string") {
-      params.topic = args.topic;
+  private async handleReadResource(uri: string, options: OperationOptions = {}): Promise<any> {
+    const match = /^tailwind:\/\/([^/]+)\/(utilities|colors|docs)\/(.+)$/.exec(uri);
+    if (!match || !SUPPORTED_VERSIONS.includes(match[1] as TailwindVersion)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
     }
 
-    if (args?.framework && typeof args.framework === "string") {
-      params.framework = args.framework;
-    }
+    const version = match[1] as TailwindVersion;
+    const kind = match[2];
 
-    return params;
+    try {
+      const key = decodeResourceKey(match[3], uri);
+      switch (kind) {
+        case "utilities": {
+          const utilities: TailwindUtility[] = await this.utilityMapper.getUtilities({ version });
+          const utility = utilities.find(item => item.id === key);
+          if (!utility) {
+            throw createNotFoundError(`Resource not found: ${uri}`, key, utilities.map(item => item.id));
+          }
+          return this.createResourceResponse(uri, "application/json", JSON.stringify(utility, null, 2));
+        }
+        case "colors": {
+          const colors: ColorInfo[] = await this.utilityMapper.getColors({ colorName: key, includeShades: true, version });
+          if (colors.length === 0) {
+            const palette: ColorInfo[] = await this.utilityMapper.getColors({ version });
+            throw createNotFoundError(`Resource not found: ${uri}`, key, palette.map(color => color.name));
+          }
+          return this.createResourceResponse(uri, "application/json", JSON.stringify(colors[0], null, 2));
+        }
+        default: {
+          const page: DocumentationPage = await this.documentationScraper.getDocumentationPage(key, version, options);
+          return this.createResourceResponse(uri, "text/plain", page.title ? `# ${page.title}\n\n${page.content}` : page.content);
+        }
+      }
+    } catch (error) {
+      this.handleServiceError(error, `Failed to read resource ${uri}`);
+    }
   }
 
   /**
-   * Validates search docs parameters
+   * Creates a standardized resource read response
    */
-  private validateSearchDocsParams(args: any): SearchDocsParams {
-    if (!args?.query || typeof args.query !== "string") {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        "Search query is required and must be a string"
-      );
-    }
-
-    const params: SearchDocsParams = {
-      query: args.query,
-      version: this.validateVersion(args?.version),
+  private createResourceResponse(uri: string, mimeType: string, text: string) {
+    return {
+      contents: [
+        {
+          uri,
+          mimeType,
+          text,
+        },
+      ],
     };
-
-    if (args?.category && typeof args.category === "string") {
-      params.category = args.category;
-    }
-
-    if (args?.limit && typeof args.limit === "number" && args.limit > 0) {
-      params.limit = args.limit;
-    }
-
-    return params;
   }
 
   /**
-   * Handles service errors consistently
+   * Set up the prompt handlers for the server
    */
-  private handleServiceError(error: unknown, context: string): never {
-    console.error(`Service error during "${context}":`, error);
-    
-    if (error instanceof McpError) {
-      throw error;
-    }
-    
-    // Wrap other errors as internal errors
-    throw new McpError(
-      ErrorCode.InternalError,
-      `An unexpected error occurred during "${context}".`
-    );
-  }
+  private setupPromptHandlers(server: Server) {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: [
+        {
+          name: "convert_stylesheet",
+          description: "Convert a stylesheet to TailwindCSS utility classes",
+          arguments: [
+            {
+              name: "css",
+              description: "CSS code to convert",
+              required: true,
+            },
+            {
+              name: "mode",
+              description: "Output format: 'classes', 'inline' or 'component' (default: classes)",
+            },
+            {
+              name: "version",
+              description: "TailwindCSS version: 'v3' or 'v4' (default: v4)",
+            },
+          ],
+        },
+        {
+          name: "review_v4_compatibility",
+          description: "Review TailwindCSS classes for TailwindCSS v4 compatibility",
+          arguments: [
+            {
+              name: "classes",
+              description: "Space-separated classes or markup to review",
+              required: true,
+            },
+          ],
+        },
+        {
+          name: "build_themed_component",
+          description: "Build a component template themed with a custom color palette",
+          arguments: [
+            {
+              name: "componentType",
+              description: "Component to build (e.g. 'button', 'card', 'navbar')",
+              required: true,
+            },
+            {
+              name: "baseColor",
+              description: "Brand color in hex, rgb, or hsl format (e.g. '#3B82F6')",
+              required: true,
+            },
+            {
+              name: "paletteName",
+              description: "Name for the color palette (default: brand)",
+            },
+            {
+              name: "style",
+              description: "Visual style: 'minimal', 'modern' or 'playful' (default: modern)",
+            },
+            {
+              name: "darkMode",
+              description: "Include dark mode support: 'true' or 'false' (default: false)",
+            },
+            {
+              name: "version",
+              description: "TailwindCSS version: 'v3' or 'v4' (default: v4)",
+            },
+          ],
+        },
+      ],
+    }));
 
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      return this.handleGetPrompt(request.params.name, request.params.arguments);
+    });
+  }
 
   /**
-   * Handle the get_tailwind_colors tool request
+   * Handle a prompts/get request by pre-filling the matching tool calls
    */
-  private async handleGetTailwindColors(args: any): Promise<any> {
-    try {
-      const params = this.validateGetColorsParams(args);
-      const colors = await this.utilityMapper.getColors(params);
-      return this.createSuccessResponse(colors);
-    } catch (error) {
-      this.handleServiceError(error, "Failed to get TailwindCSS colors");
+  private handleGetPrompt(name: string, args: Record<string, string> = {}): any {
+    const version = this.validateVersion(args.version);
+
+    switch (name) {
+      case "convert_stylesheet": {
+        const css = this.requirePromptArgument(name, args, "css");
+        const toolArgs: ConvertCSSParams = { css, version };
+        if (args.mode) {
+          toolArgs.mode = args.mode as ConvertCSSParams["mode"];
+        }
+        return this.createPromptResponse(
+          "Convert a stylesheet to TailwindCSS",
+          `Convert the following stylesheet to TailwindCSS ${version} utility classes.
+
+Call the \`convert_css_to_tailwind\` tool with these arguments:
+${this.formatToolArguments(toolArgs)}
+
+Then present the resulting classes for each selector, and explain any unsupported styles or suggested custom utilities.`
+        );
+      }
+      case "review_v4_compatibility": {
+        const classes = this.requirePromptArgument(name, args, "classes");
+        const renames = Array.from(getVersionConfig("v4").renamedUtilities.entries())
+          .map(([from, to]) => `- \`${from}\` → \`${to}\``)
+          .join("\n");
+        return this.createPromptResponse(
+          "Review classes for TailwindCSS v4 compatibility",
+          `Review the following TailwindCSS classes for TailwindCSS v4 compatibility:
+
+\`\`\`
+${classes}
+\`\`\`
+
+Call the \`migrate_classes_to_v4\` tool with these arguments:
+${this.formatToolArguments({ content: classes })}
+
+It rewrites renamed utilities, opacity utilities, the important modifier and the variant order, and warns about classes that behave differently. These utilities were renamed in v4:
+${renames}
+
+Use the \`get_tailwind_utilities\` tool with \`{ "version": "v4" }\` and the \`search_tailwind_docs\` tool with \`{ "query": "upgrade guide", "version": "v4" }\` to check anything else you are unsure about. List every class that needs to change, its v4 replacement and why.`
+        );
+      }
+      case "build_themed_component": {
+        const componentType = this.requirePromptArgument(name, args, "componentType");
+        const baseColor = this.requirePromptArgument(name, args, "baseColor");
+        const paletteArgs: GeneratePaletteParams = {
+          baseColor,
+          name: args.paletteName || "brand",
+          version,
+        };
+        const templateArgs: GenerateTemplateParams = {
+          componentType,
+          darkMode: args.darkMode === "true",
+          version,
+        };
+        if (args.style) {
+          templateArgs.style = args.style as GenerateTemplateParams["style"];
+        }
+        return this.createPromptResponse(
+          "Build a themed component",
+          `Build a ${componentType} component themed with a custom \`${paletteArgs.name}\` color palette for TailwindCSS ${version}.
+
+1. Call the \`generate_color_palette\` tool with these arguments:
+${this.formatToolArguments(paletteArgs)}
+
+2. Call the \`generate_component_template\` tool with these arguments:
+${this.formatToolArguments(templateArgs)}
+
+3. Replace the template's accent colors (e.g. \`bg-primary\`, \`bg-blue-600\`) with shades of \`${paletteArgs.name}\`, and include the palette configuration the project needs.`
+        );
+      }
+      default:
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown prompt: ${name}`
+        );
     }
   }
 
   /**
-   * Handle the get_tailwind_config_guide tool request
+   * Returns a required prompt argument or throws an InvalidParams error
    */
-  private async handleGetTailwindConfigGuide(args: any): Promise<any> {
-    try {
-      const params = this.validateConfigGuideParams(args);
-      const guide = await this.documentationScraper.getConfigGuide(params);
-      return this.createSuccessResponse(guide);
-    } catch (error) {
-      this.handleServiceError(error, "Failed to get TailwindCSS config guide");
+  private requirePromptArgument(prompt: string, args: Record<string, string>, key: string): string {
+    if (!args[key] || typeof args[key] !== "string") {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Prompt "${prompt}" requires the "${key}" argument`
+      );
     }
+    return args[key];
   }
 
   /**
-   * Handle the search_tailwind_docs tool request
+   * Formats tool arguments as a JSON code block for prompt messages
    */
-  private async handleSearchTailwindDocs(args: any): Promise<any> {
-    try {
-      const params = this.validateSearchDocsParams(args);
-      const results = await this.documentationScraper.searchDocumentation(params);
-      return this.createSuccessResponse(results);
-    } catch (error) {
-      this.handleServiceError(error, "Failed to search TailwindCSS documentation");
-    }
+  private formatToolArguments(args: object): string {
+    return `\`\`\`json\n${JSON.stringify(args, null, 2)}\n\`\`\``;
   }
 
   /**
-   * Creates a standardized success response
+   * Creates a standardized single-message prompt response
    */
-  private createSuccessResponse(data: any) {
+  private createPromptResponse(description: string, text: string) {
     return {
-      content: [
+      description,
+      messages: [
         {
-          type: "text",
-          text: JSON.stringify(data, null, 2)
+          role: "user",
+          content: {
+            type: "text",
+            text,
+          },
         },
       ],
     };
   }
 
   /**
-   * Handle the install_tailwind tool request
+   * Set up the completion handler for prompt and resource template arguments
    */
-  private async handleInstallTailwind(args: any): Promise<any> {
-    try {
-      const params = this.validateInstallTailwindParams(args);
-      const guide = await this.installationService.generateInstallationGuide(params);
-      return this.createSuccessResponse(guide);
-    } catch (error) {
-      this.handleServiceError(error, "Failed to generate TailwindCSS installation guide");
-    }
+  private setupCompletionHandlers(server: Server) {
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      return this.handleComplete(
+        request.params.argument.name,
+        request.params.argument.value,
+        request.params.context?.arguments
+      );
+    });
   }
 
   /**
-   * Handle the convert_css_to_tailwind tool request
+   * Completes an argument value. Candidates are chosen by argument name, so the
+   * same names complete the same way for every prompt and resource template.
    */
-  private async handleConvertCSSToTailwind(args: any): Promise<any> {
-    try {
-      const params = this.validateConvertCSSParams(args);
-      const result = await this.conversionService.convertCSS(params);
-      return this.createSuccessResponse(result);
-    } catch (error) {
-      this.handleServiceError(error, "Failed to convert CSS to TailwindCSS");
-    }
-  }
+  private async handleComplete(argumentName: string, value: string, context: Record<string, string> = {}): Promise<any> {
+    const candidates = await this.getCompletionCandidates(argumentName, this.validateVersion(context.version));
+    const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, "");
+    const query = normalize(value);
+
+    const prefixMatches = candidates.filter(candidate => normalize(candidate).startsWith(query));
+    const otherMatches = candidates.filter(candidate =>
+      !prefixMatches.includes(candidate) && normalize(candidate).includes(query)
+    );
+    const matches = [...prefixMatches, ...otherMatches];
 
-  /**
-   * Handle the generate_color_palette tool request
-   */
-  private async handleGenerateColorPalette(args: any): Promise<any> {
-    try {
-      const params = this.validateGeneratePaletteParams(args);
-      const palette = await this.templateService.generateColorPalette(params);
-      return this.createSuccessResponse(palette);
-    } catch (error) {
-      this.handleServiceError(error, "Failed to generate color palette");
-    }
+    return {
+      completion: {
+        values: matches.slice(0, 100),
+        total: matches.length,
+        hasMore: matches.length > 100,
+      },
+    };
   }
 
   /**
-   * Handle the generate_component_template tool request
+   * Gets the possible values for an argument from the services and tool schemas
    */
-  private async handleGenerateComponentTemplate(args: any): Promise<any> {
-    try {
-      const params = this.validateGenerateTemplateParams(args);
-      const template = await this.templateService.generateComponentTemplate(params);
-      return this.createSuccessResponse(template);
-    } catch (error) {
-      this.handleServiceError(error, "Failed to generate component template");
+  private async getCompletionCandidates(argumentName: string, version: TailwindVersion): Promise<string[]> {
+    switch (argumentName) {
+      case "framework":
+        return this.installationService?.getSupportedFrameworks() ?? [];
+      case "componentType":
+        return this.templateService?.getAvailableComponents() ?? [];
+      case "colorName":
+      case "name": {
+        const colors: ColorInfo[] = await this.utilityMapper.getColors({ includeShades: false, version });
+        return colors.map(color => color.name);
+      }
+      case "category":
+        return this.utilityMapper.getCategories();
+      case "id": {
+        const utilities: TailwindUtility[] = await this.utilityMapper.getUtilities({ version });
+        return utilities.map(utility => utility.id);
+      }
+      case "darkMode":
+        return ["true", "false"];
+      default: {
+        // Enumerated tool arguments such as version, packageManager, style and mode
+        const values = new Set<string>();
+        for (const tool of this.tools.getAll()) {
+          for (const value of tool.inputSchema.properties[argumentName]?.enum ?? []) {
+            values.add(String(value));
+          }
+        }
+        return Array.from(values);
+      }
     }
   }
 
   /**
-   * Validates install tailwind parameters
+   * Builds operation options from the request, forwarding progress to the client
+   * when it sent a progress token and cancellation through the request's abort signal
    */
-  private validateInstallTailwindParams(args: any): InstallTailwindParams {
-    if (!args?.framework || typeof args.framework !== "string") {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        "Framework is required and must be a string"
-      );
+  private createOperationOptions(extra?: RequestExtra): OperationOptions {
+    if (!extra) {
+      return {};
     }
 
-    const params: InstallTailwindParams = {
-      framework: args.framework,
-      version: this.validateVersion(args?.version),
+    const progressToken = extra._meta?.progressToken;
+    return {
+      signal: extra.signal,
+      onProgress: progressToken === undefined ? undefined : (update) => {
+        extra.sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, ...update },
+        }).catch(error => {
+          logger.warning("Failed to send progress notification:", error);
+        });
+      },
     };
-
-    if (args?.packageManager && typeof args.packageManager === "string") {
-      const validPackageManagers = ['npm', 'yarn', 'pnpm', 'bun'];
-      if (validPackageManagers.includes(args.packageManager)) {
-        params.packageManager = args.packageManager as "npm" | "yarn" | "pnpm" | "bun";
-      }
-    }
-
-    if (args?.includeTypescript !== undefined) {
-      params.includeTypescript = Boolean(args.includeTypescript);
-    }
-
-    return params;
   }
 
   /**
-   * Validates convert CSS parameters
+   * Validates and returns a TailwindVersion, defaulting to the configured version
    */
-  private validateConvertCSSParams(args: any): ConvertCSSParams {
-    if (!args?.css || typeof args.css !== "string") {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        "CSS is required and must be a string"
-      );
-    }
-
-    const params: ConvertCSSParams = {
-      css: args.css,
-      version: this.validateVersion(args?.version),
-    };
-
-    if (args?.mode && typeof args.mode === "string") {
-      const validModes = ['inline', 'classes', 'component'];
-      if (validModes.includes(args.mode)) {
-        params.mode = args.mode as "inline" | "classes" | "component";
-      }
+  private validateVersion(version: any): TailwindVersion {
+    if (version && typeof version === "string" && SUPPORTED_VERSIONS.includes(version as TailwindVersion)) {
+      return version as TailwindVersion;
     }
-
-    return params;
+    return resolveVersion(this.config.defaultVersion).version;
   }
 
   /**
-   * Validates generate palette parameters
+   * Handles service errors consistently
    */
-  private validateGeneratePaletteParams(args: any): GeneratePaletteParams {
-    if (!args?.baseColor || typeof args.baseColor !== "string") {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        "Base color is required and must be a string"
-      );
-    }
-
-    if (!args?.name || typeof args.name !== "string") {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        "Palette name is required and must be a string"
-      );
-    }
-
-    const params: GeneratePaletteParams = {
-      baseColor: args.baseColor,
-      name: args.name,
-      version: this.validateVersion(args?.version),
-    };
-
-    if (args?.shades && Array.isArray(args.shades)) {
-      if (args.shades.every((shade: any) => typeof shade === 'number')) {
-        params.shades = args.shades;
-      }
-    }
-
-    return params;
+  private handleServiceError(error: unknown, context: string): never {
+    const mcpError = toMcpError(error, context);
+    logger.log(isCallerError(mcpError) ? "warning" : "error", `Service error during "${context}":`, error);
+    throw mcpError;
   }
 
   /**
-   * Validates generate template parameters
+   * Run the server on the transport selected by CLI flags or environment variables
    */
-  private validateGenerateTemplateParams(args: any): GenerateTemplateParams {
-    if (!args?.componentType || typeof args.componentType !== "string") {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        "Component type is required and must be a string"
-      );
-    }
-
-    const params: GenerateTemplateParams = {
-      componentType: args.componentType,
-      version: this.validateVersion(args?.version),
-    };
+  async run(
+    options: TransportOptions = resolveTransportOptions(process.argv.slice(2), process.env),
+    logging: LoggingOptions = resolveLoggingOptions(process.argv.slice(2), process.env)
+  ) {
+    configureLogging(logging);
+    const addOnTools = await loadToolModules(resolveToolModules(process.argv.slice(2), process.env));
+    for (const tool of addOnTools) {
+      this.registerTool(tool);
+    }
+    this.warnAboutUnknownConfiguredTools([...builtinTools, ...addOnTools]);
+    await this.initialize();
 
-    if (args?.style && typeof args.style === "string") {
-      const validStyles = ['minimal', 'modern', 'playful'];
-      if (validStyles.includes(args.style)) {
-        params.style = args.style as "minimal" | "modern" | "playful";
-      }
+    if (options.transport === "stdio") {
+      const transport = new StdioServerTransport();
+      await this.server.connect(transport);
+      logger.info("TailwindCSS MCP server running on stdio");
+      return;
     }
 
-    if (args?.darkMode !== undefined) {
-      params.darkMode = Boolean(args.darkMode);
-    }
+    this.projectRoot = process.cwd();
+    this.httpTransport = await startHttpTransport(
+      {
+        transport: options.transport,
+        host: options.host,
+        port: options.port,
+        allowedHosts: options.allowedHosts,
+        allowedOrigins: options.allowedOrigins,
+      },
+      () => this.createServer()
+    );
+    const endpoint = options.transport === "http" ? "/mcp" : "/sse";
+    logger.info(`TailwindCSS MCP server running on http://${this.httpTransport.host}:${this.httpTransport.port}${endpoint}`);
+  }
 
-    if (args?.responsive !== undefined) {
-      params.responsive = Boolean(args.responsive);
+  /**
+   * Warns about tool names in the enable/disable lists that match no tool
+   */
+  private warnAboutUnknownConfiguredTools(tools: ToolDefinition[]) {
+    const known = new Set(tools.map(tool => tool.name));
+    const configured = [...(this.config.tools?.enabled ?? []), ...(this.config.tools?.disabled ?? [])];
+    for (const name of configured.filter(name => !known.has(name))) {
+      logger.warning(`Unknown tool in configuration: ${name}`);
     }
-
-    return params;
   }
 
-
   /**
-   * Run the server
+   * Close all transports and clean up the services
    */
-  async run() {
-    await this.initialize();
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error("TailwindCSS MCP server running on stdio");
+  async shutdown() {
+    if (this.httpTransport) {
+      await this.httpTransport.close();
+      this.httpTransport = undefined;
+    }
+    await this.server.close();
+    await serviceRegistry.cleanupAll();
+  }
+}
+
+/**
+ * Decodes the key of a resource URI; a malformed escape such as %E0%A4%A is the caller's mistake
+ */
+function decodeResourceKey(key: string, uri: string): string {
+  try {
+    return decodeURIComponent(key);
+  } catch (error) {
+    if (error instanceof URIError) {
+      throw new McpError(ErrorCode.InvalidParams, `Malformed resource URI: ${uri}`);
+    }
+    throw error;
   }
 }
 
 // Only run the server if not in test environment
-if (process.env.NODE_ENV !== 'test' && !process.env.VITEST) {
-  const server = new TailwindCSSServer();
-  server.run().catch((error) => {
-    console.error("Server failed to run:", error);
-    process.exit(1);
+if (process.env.NODE_ENV !== 'test' && !process.env.VITEST && isCliInvocation(process.argv.slice(2))) {
+  // Let the process end on its own: process.exit would cut off output still draining into a pipe
+  runCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
   });
-} 
\ No newline at end of file
+} else if (process.env.NODE_ENV !== 'test' && !process.env.VITEST) {
+  loadServerConfig(process.cwd(), resolveConfigPath(process.argv.slice(2), process.env))
+    .then(({ config, path }) => {
+      if (path) {
+        logger.info(`Loaded configuration from ${path}`);
+      }
+      return new TailwindCSSServer(config).run();
+    })
+    .catch((error) => {
+      console.error("Server failed to run:", error);
+      process.exit(1);
+    });
+}
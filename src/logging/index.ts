@@ -0,0 +1,55 @@
+/**
+ * Logging for TailwindCSS MCP Server
+ * Resolves the log level and optional log file from CLI flags and environment variables
+ */
+
+import { parseFlags } from '../utils/flags.js';
+import { DEFAULT_LOG_LEVEL, LOG_LEVELS } from './logger.js';
+import type { LogLevel } from './logger.js';
+
+export {
+  type LogEntry,
+  type LogLevel,
+  type LogSink,
+  DEFAULT_LOG_LEVEL,
+  LOG_LEVELS,
+  LogManager,
+  Logger,
+  configureLogging,
+  createFileSink,
+  createLogger,
+  createStderrSink,
+  isLevelEnabled,
+  logManager,
+  toSerializable,
+} from './logger.js';
+export { attachMcpLogging } from './mcp-sink.js';
+
+export interface LoggingOptions {
+  level: LogLevel;
+  file?: string;
+}
+
+/**
+ * Resolves logging options from CLI flags, falling back to environment variables.
+ *
+ * Flags: `--log-level <level>`, `--log-file <path>` (also `--flag=value`).
+ * Environment: `TAILWIND_MCP_LOG_LEVEL`, `TAILWIND_MCP_LOG_FILE`.
+ */
+export function resolveLoggingOptions(
+  argv: string[],
+  env: NodeJS.ProcessEnv = {},
+  defaultLevel: LogLevel = DEFAULT_LOG_LEVEL
+): LoggingOptions {
+  const flags = parseFlags(argv, ['log-level', 'log-file']);
+
+  const level = flags['log-level'] ?? env.TAILWIND_MCP_LOG_LEVEL ?? defaultLevel;
+  if (!LOG_LEVELS.includes(level as LogLevel)) {
+    throw new Error(`Unsupported log level: ${level}. Use one of: ${LOG_LEVELS.join(', ')}`);
+  }
+
+  return {
+    level: level as LogLevel,
+    file: flags['log-file'] ?? env.TAILWIND_MCP_LOG_FILE,
+  };
+}
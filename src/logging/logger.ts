@@ -0,0 +1,159 @@
+/**
+ * Leveled logger for TailwindCSS MCP Server
+ * Services log through named loggers; entries fan out to every registered sink
+ * (stderr, a local log file, and the connected MCP clients)
+ */
+
+import { appendFileSync } from 'node:fs';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+
+export type LogLevel = LoggingLevel;
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+export const DEFAULT_LOG_LEVEL: LogLevel = 'info';
+
+export interface LogEntry {
+  level: LogLevel;
+  logger: string;
+  message: string;
+  data?: unknown;
+  timestamp: Date;
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+/**
+ * Returns true when a message at `level` should be emitted for a `minimum` threshold
+ */
+export function isLevelEnabled(level: LogLevel, minimum: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum);
+}
+
+/**
+ * Dispatches log entries to the registered sinks
+ */
+export class LogManager {
+  private sinks: Set<LogSink> = new Set();
+
+  /**
+   * Registers a sink and returns a function that removes it again
+   */
+  addSink(sink: LogSink): () => void {
+    this.sinks.add(sink);
+    return () => {
+      this.sinks.delete(sink);
+    };
+  }
+
+  getLogger(name: string): Logger {
+    return new Logger(this, name);
+  }
+
+  dispatch(entry: LogEntry): void {
+    for (const sink of this.sinks) {
+      try {
+        sink(entry);
+      } catch {
+        // A failing sink must never break the operation that is logging
+      }
+    }
+  }
+}
+
+/**
+ * Named logger used by services and transports
+ */
+export class Logger {
+  constructor(private manager: LogManager, readonly name: string) {}
+
+  debug(message: string, data?: unknown): void {
+    this.log('debug', message, data);
+  }
+
+  info(message: string, data?: unknown): void {
+    this.log('info', message, data);
+  }
+
+  warning(message: string, data?: unknown): void {
+    this.log('warning', message, data);
+  }
+
+  error(message: string, data?: unknown): void {
+    this.log('error', message, data);
+  }
+
+  log(level: LogLevel, message: string, data?: unknown): void {
+    this.manager.dispatch({ level, logger: this.name, message, data, timestamp: new Date() });
+  }
+}
+
+/**
+ * Writes entries at or above `minimum` to stderr, which is safe alongside the stdio transport
+ */
+export function createStderrSink(minimum: LogLevel = DEFAULT_LOG_LEVEL): LogSink {
+  return (entry) => {
+    if (!isLevelEnabled(entry.level, minimum)) {
+      return;
+    }
+    if (entry.data === undefined) {
+      console.error(entry.message);
+    } else {
+      console.error(entry.message, entry.data);
+    }
+  };
+}
+
+/**
+ * Appends entries at or above `minimum` to a local log file, one line per entry
+ */
+export function createFileSink(path: string, minimum: LogLevel = DEFAULT_LOG_LEVEL): LogSink {
+  return (entry) => {
+    if (!isLevelEnabled(entry.level, minimum)) {
+      return;
+    }
+    const data = entry.data === undefined ? '' : ` ${JSON.stringify(toSerializable(entry.data))}`;
+    appendFileSync(
+      path,
+      `${entry.timestamp.toISOString()} ${entry.level.toUpperCase()} [${entry.logger}] ${entry.message}${data}\n`
+    );
+  };
+}
+
+/**
+ * Converts log data into a JSON-safe value, expanding errors into their name and message
+ */
+export function toSerializable(data: unknown): unknown {
+  if (data instanceof Error) {
+    const cause = (data as Error & { originalError?: unknown }).originalError ?? data.cause;
+    return {
+      name: data.name,
+      message: data.message,
+      ...(cause === undefined ? {} : { cause: toSerializable(cause) }),
+    };
+  }
+  return data;
+}
+
+export const logManager = new LogManager();
+
+// stderr is the default sink until the server configures logging explicitly
+let removeConfiguredSinks = logManager.addSink(createStderrSink());
+
+/**
+ * Replaces the default stderr sink and, when a path is given, adds a file sink
+ */
+export function configureLogging(options: { level: LogLevel; file?: string }): void {
+  removeConfiguredSinks();
+  const removeStderr = logManager.addSink(createStderrSink(options.level));
+  const removeFile = options.file ? logManager.addSink(createFileSink(options.file, options.level)) : undefined;
+
+  removeConfiguredSinks = () => {
+    removeStderr();
+    removeFile?.();
+  };
+}
+
+export function createLogger(name: string): Logger {
+  return logManager.getLogger(name);
+}
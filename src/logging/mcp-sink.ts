@@ -0,0 +1,43 @@
+/**
+ * MCP log sink
+ * Forwards log entries to a connected client as `notifications/message`
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_LOG_LEVEL, isLevelEnabled, logManager, toSerializable } from './logger.js';
+import type { LogLevel } from './logger.js';
+
+/**
+ * Forwards log entries to the client of `server` until it closes.
+ * Handles `logging/setLevel` so each client picks its own threshold (default: `minimum`).
+ */
+export function attachMcpLogging(server: Server, minimum: LogLevel = DEFAULT_LOG_LEVEL): void {
+  let level = minimum;
+
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    level = request.params.level;
+    return {};
+  });
+
+  const removeSink = logManager.addSink((entry) => {
+    // Nothing can be sent until the client has completed initialization
+    if (!server.getClientCapabilities() || !isLevelEnabled(entry.level, level)) {
+      return;
+    }
+
+    const data = entry.data === undefined
+      ? entry.message
+      : { message: entry.message, details: toSerializable(entry.data) };
+
+    server.sendLoggingMessage({ level: entry.level, logger: entry.logger, data }).catch(() => {
+      // The transport may already be closing; dropping the message is fine
+    });
+  });
+
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    removeSink();
+    previousOnClose?.();
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Tool schemas for TailwindCSS MCP Server
+ */
+
+export type { JsonSchema, ObjectSchema } from './types.js';
+export { RESPONSE_FORMATS, responseFormat, toolInputSchemas } from './input.js';
+export type { ResponseFormat } from './input.js';
+export {
+  toolOutputSchemas,
+  tailwindUtilitySchema,
+  colorInfoSchema,
+  configGuideSchema,
+  searchResultSchema,
+  installationGuideSchema,
+  conversionResultSchema,
+  classMigrationSchema,
+  configMigrationSchema,
+  themeMigrationSchema,
+  colorPaletteSchema,
+  componentTemplateSchema,
+  projectContextSchema,
+  serverStatusSchema,
+  tailwindSetupSchema,
+  versionComparisonSchema,
+  classExplanationSchema,
+} from './output.js';
+export { collectValidationIssues, validateArguments } from './validation.js';
+export type { ValidationIssue } from './validation.js';
@@ -0,0 +1,358 @@
+/**
+ * Input schemas for TailwindCSS MCP Server tools
+ * Each schema is both advertised in tools/list and used to validate tools/call arguments
+ */
+
+import { DEFAULT_VERSION, VERSION_SPECS } from '../version/index.js';
+import type { JsonSchema, ObjectSchema } from './types.js';
+
+const source: JsonSchema = {
+  type: 'string',
+  enum: ['catalog', 'docs'],
+  description: "Where to read from: 'catalog' for the built-in catalog, 'docs' to scrape the live documentation with progress reporting (default: catalog)",
+};
+
+const version: JsonSchema = {
+  type: 'string',
+  enum: VERSION_SPECS,
+  default: DEFAULT_VERSION,
+  description: `TailwindCSS version, or a minor release such as v4.0 to only use the features it ships (default: ${DEFAULT_VERSION})`,
+};
+
+/** Formats the text content of a tool result can be rendered in */
+export const RESPONSE_FORMATS = ['json', 'markdown'] as const;
+
+export type ResponseFormat = typeof RESPONSE_FORMATS[number];
+
+/**
+ * Accepted by every tool; the registry removes it before the handler runs
+ */
+export const responseFormat: JsonSchema = {
+  type: 'string',
+  enum: RESPONSE_FORMATS,
+  description: "How to render the text result: 'json' for raw data, 'markdown' for tables, numbered steps and fenced code (default: json)",
+};
+
+export const toolInputSchemas: Record<string, ObjectSchema> = {
+  get_tailwind_utilities: {
+    type: 'object',
+    properties: {
+      category: {
+        type: 'string',
+        description: "Filter by utility category (e.g., 'layout', 'typography', 'colors')",
+      },
+      property: {
+        type: 'string',
+        description: "Filter by CSS property (e.g., 'margin', 'color', 'font-size')",
+      },
+      search: {
+        type: 'string',
+        description: 'Search term to find utilities',
+      },
+      source,
+      version,
+      responseFormat,
+    },
+    required: [],
+    additionalProperties: false,
+  },
+  get_tailwind_colors: {
+    type: 'object',
+    properties: {
+      colorName: {
+        type: 'string',
+        description: "Specific color name (e.g., 'blue', 'red')",
+      },
+      includeShades: {
+        type: 'boolean',
+        description: 'Include all color shades (default: true)',
+      },
+      source,
+      version,
+      responseFormat,
+    },
+    required: [],
+    additionalProperties: false,
+  },
+  compare_tailwind_versions: {
+    type: 'object',
+    properties: {
+      classes: {
+        type: 'string',
+        minLength: 1,
+        description: "Classes separated by spaces (e.g., 'shadow-sm ring border hover:bg-blue-500')",
+      },
+      utility: {
+        type: 'string',
+        minLength: 1,
+        description: "A utility whose whole scale is compared (e.g., 'shadow' for shadow-2xs through shadow-2xl)",
+      },
+      category: {
+        type: 'string',
+        minLength: 1,
+        description: "Compare every catalog utility of a category (e.g., 'typography')",
+      },
+      responseFormat,
+    },
+    required: [],
+    additionalProperties: false,
+  },
+  explain_tailwind_class: {
+    type: 'object',
+    properties: {
+      className: {
+        type: 'string',
+        minLength: 1,
+        description: "A single class with any variants and arbitrary values (e.g., 'md:hover:bg-blue-500/50', '-mt-[3px]', '[mask-type:luminance]')",
+      },
+      version,
+      responseFormat,
+    },
+    required: ['className'],
+    additionalProperties: false,
+  },
+  get_tailwind_config_guide: {
+    type: 'object',
+    properties: {
+      topic: {
+        type: 'string',
+        description: "Configuration topic (e.g., 'installation', 'customization')",
+      },
+      framework: {
+        type: 'string',
+        description: "Target framework (e.g., 'react', 'vue', 'nextjs')",
+      },
+      version,
+      responseFormat,
+    },
+    required: [],
+    additionalProperties: false,
+  },
+  search_tailwind_docs: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        minLength: 1,
+        description: 'Search query for TailwindCSS documentation',
+      },
+      category: {
+        type: 'string',
+        description: 'Filter by documentation category',
+      },
+      limit: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Limit number of results (default: 10)',
+      },
+      version,
+      responseFormat,
+    },
+    required: ['query'],
+    additionalProperties: false,
+  },
+  install_tailwind: {
+    type: 'object',
+    properties: {
+      framework: {
+        type: 'string',
+        minLength: 1,
+        description: "Target framework (e.g., 'react', 'nextjs', 'vue', 'vite', 'laravel', 'angular', 'svelte')",
+      },
+      packageManager: {
+        type: 'string',
+        enum: ['npm', 'yarn', 'pnpm', 'bun'],
+        description: 'Package manager to use (default: npm)',
+      },
+      includeTypescript: {
+        type: 'boolean',
+        description: 'Include TypeScript configuration (default: false)',
+      },
+      version,
+      responseFormat,
+    },
+    required: ['framework'],
+    additionalProperties: false,
+  },
+  convert_css_to_tailwind: {
+    type: 'object',
+    properties: {
+      css: {
+        type: 'string',
+        minLength: 1,
+        description: 'CSS code to convert to TailwindCSS utilities',
+      },
+      mode: {
+        type: 'string',
+        enum: ['inline', 'classes', 'component'],
+        description: "Output format: 'classes' for space-separated utilities, 'inline' for class attribute, 'component' for @apply directive (default: classes)",
+      },
+      version,
+      responseFormat,
+    },
+    required: ['css'],
+    additionalProperties: false,
+  },
+  migrate_classes_to_v4: {
+    type: 'object',
+    properties: {
+      content: {
+        type: 'string',
+        minLength: 1,
+        description: "TailwindCSS v3 classes separated by spaces (e.g., 'shadow-sm !flex bg-black bg-opacity-50'), or HTML/JSX markup whose class and className attributes are rewritten",
+      },
+      responseFormat,
+    },
+    required: ['content'],
+    additionalProperties: false,
+  },
+  migrate_config_to_v4: {
+    type: 'object',
+    properties: {
+      config: {
+        type: 'string',
+        minLength: 1,
+        description: 'Source of a TailwindCSS v3 tailwind.config.js or tailwind.config.ts; it is parsed, never executed',
+      },
+      responseFormat,
+    },
+    required: ['config'],
+    additionalProperties: false,
+  },
+  migrate_theme_to_v3: {
+    type: 'object',
+    properties: {
+      css: {
+        type: 'string',
+        minLength: 1,
+        description: 'CSS with TailwindCSS v4 @theme blocks; other rules are ignored',
+      },
+      includeTypescript: {
+        type: 'boolean',
+        description: 'Write tailwind.config.ts instead of tailwind.config.js (default: false)',
+      },
+      contentPaths: {
+        type: 'array',
+        items: { type: 'string', minLength: 1 },
+        description: "Globs for the content option (default: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'])",
+      },
+      responseFormat,
+    },
+    required: ['css'],
+    additionalProperties: false,
+  },
+  generate_color_palette: {
+    type: 'object',
+    properties: {
+      baseColor: {
+        type: 'string',
+        minLength: 1,
+        description: "Base color in hex, rgb, or hsl format (e.g., '#3B82F6', 'rgb(59, 130, 246)')",
+      },
+      name: {
+        type: 'string',
+        minLength: 1,
+        description: "Name for the color palette (e.g., 'brand', 'accent')",
+      },
+      shades: {
+        type: 'array',
+        items: { type: 'integer', minimum: 0, maximum: 1000 },
+        description: 'Array of shade values to generate (default: [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950])',
+      },
+      version,
+      responseFormat,
+    },
+    required: ['baseColor', 'name'],
+    additionalProperties: false,
+  },
+  generate_component_template: {
+    type: 'object',
+    properties: {
+      componentType: {
+        type: 'string',
+        minLength: 1,
+        description: "Type of component to generate (e.g., 'button', 'card', 'form', 'navbar', 'modal', 'alert', 'badge', 'breadcrumb')",
+      },
+      style: {
+        type: 'string',
+        enum: ['minimal', 'modern', 'playful'],
+        description: 'Visual style of the component (default: modern)',
+      },
+      darkMode: {
+        type: 'boolean',
+        description: 'Include dark mode support (default: false)',
+      },
+      responsive: {
+        type: 'boolean',
+        description: 'Include responsive design classes (default: true)',
+      },
+      version,
+      responseFormat,
+    },
+    required: ['componentType'],
+    additionalProperties: false,
+  },
+  set_project_context: {
+    type: 'object',
+    properties: {
+      version: {
+        type: 'string',
+        enum: VERSION_SPECS,
+        description: 'TailwindCSS version used by the project; a minor release such as v4.0 pins the available features',
+      },
+      prefix: {
+        type: 'string',
+        minLength: 1,
+        description: "Class prefix configured in the project, e.g. 'tw' (tw-flex in v3, tw:flex in v4)",
+      },
+      colors: {
+        type: 'array',
+        items: { type: 'string', minLength: 1 },
+        description: "Custom palette names, e.g. ['brand', 'accent']; the first replaces the accent color in component templates",
+      },
+      breakpoints: {
+        type: 'object',
+        additionalProperties: { type: 'string', minLength: 1 },
+        description: "Custom breakpoints with their min-width, e.g. { tablet: '640px', desktop: '1024px' }; responsive classes use the nearest one",
+      },
+      framework: {
+        type: 'string',
+        minLength: 1,
+        description: "Framework used by the project (e.g., 'nextjs', 'vite')",
+      },
+      packageManager: {
+        type: 'string',
+        enum: ['npm', 'yarn', 'pnpm', 'bun'],
+        description: 'Package manager used by the project',
+      },
+      reset: {
+        type: 'boolean',
+        description: 'Clear the stored settings before applying these (default: false)',
+      },
+      responseFormat,
+    },
+    required: [],
+    additionalProperties: false,
+  },
+  get_server_status: {
+    type: 'object',
+    properties: {
+      responseFormat,
+    },
+    required: [],
+    additionalProperties: false,
+  },
+  detect_tailwind_setup: {
+    type: 'object',
+    properties: {
+      directory: {
+        type: 'string',
+        minLength: 1,
+        description: "Project directory containing package.json; relative paths resolve against the server's working directory (default: the working directory)",
+      },
+      responseFormat,
+    },
+    required: [],
+    additionalProperties: false,
+  },
+};
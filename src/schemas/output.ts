@@ -0,0 +1,420 @@
+/**
+ * Output schemas for TailwindCSS MCP Server tools
+ * JSON Schemas mirroring the result interfaces in types/index.ts
+ */
+
+import { SUPPORTED_RELEASES, SUPPORTED_VERSIONS, VARIANT_KINDS, VERSION_SPECS } from '../version/index.js';
+import type { JsonSchema, ObjectSchema } from './types.js';
+
+const stringArray: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const stringRecord: JsonSchema = { type: 'object', additionalProperties: { type: 'string' } };
+
+const version: JsonSchema = { type: 'string', enum: SUPPORTED_VERSIONS };
+
+export const tailwindUtilitySchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    category: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        description: { type: 'string' },
+        utilities: stringArray,
+      },
+      required: ['id', 'name'],
+    },
+    cssProperty: {
+      oneOf: [{ type: 'string' }, stringArray],
+    },
+    values: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          class: { type: 'string' },
+          value: { type: 'string' },
+          isDefault: { type: 'boolean' },
+          isArbitrary: { type: 'boolean' },
+        },
+        required: ['class', 'value'],
+      },
+    },
+    modifiers: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: VARIANT_KINDS },
+          prefix: { type: 'string' },
+          description: { type: 'string' },
+        },
+        required: ['type', 'prefix'],
+      },
+    },
+    examples: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          code: { type: 'string' },
+          description: { type: 'string' },
+        },
+        required: ['title', 'code'],
+      },
+    },
+    documentation: { type: 'string' },
+    minVersion: { type: 'string', enum: SUPPORTED_RELEASES },
+    maxVersion: { type: 'string', enum: SUPPORTED_RELEASES },
+  },
+  required: ['id', 'name', 'category', 'cssProperty', 'values'],
+};
+
+export const colorInfoSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    shades: stringRecord,
+    usage: stringArray,
+  },
+  required: ['name', 'shades', 'usage'],
+};
+
+export const configGuideSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    topic: { type: 'string' },
+    description: { type: 'string' },
+    examples: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          code: { type: 'string' },
+          framework: { type: 'string' },
+        },
+        required: ['title', 'code'],
+      },
+    },
+    bestPractices: stringArray,
+  },
+  required: ['topic', 'description', 'examples', 'bestPractices'],
+};
+
+export const searchResultSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    url: { type: 'string' },
+    snippet: { type: 'string' },
+    relevance: { type: 'number' },
+  },
+  required: ['title', 'url', 'snippet', 'relevance'],
+};
+
+export const installationGuideSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    commands: stringArray,
+    configFiles: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          filename: { type: 'string' },
+          content: { type: 'string' },
+        },
+        required: ['filename', 'content'],
+      },
+    },
+    nextSteps: stringArray,
+    version,
+  },
+  required: ['commands', 'configFiles', 'nextSteps', 'version'],
+};
+
+export const conversionResultSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    tailwindClasses: { type: 'string' },
+    unsupportedStyles: stringArray,
+    suggestions: stringArray,
+    customUtilities: stringArray,
+    version,
+  },
+  required: ['tailwindClasses', 'version'],
+};
+
+export const classMigrationSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    output: { type: 'string' },
+    format: { type: 'string', enum: ['classes', 'markup'] },
+    changes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          from: { type: 'string' },
+          to: { type: 'string' },
+          reason: { type: 'string' },
+          occurrences: { type: 'integer', minimum: 1 },
+        },
+        required: ['from', 'to', 'reason', 'occurrences'],
+      },
+    },
+    warnings: stringArray,
+  },
+  required: ['output', 'format', 'changes', 'warnings'],
+};
+
+export const configMigrationSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    css: { type: 'string' },
+    notes: stringArray,
+    warnings: stringArray,
+  },
+  required: ['css', 'notes', 'warnings'],
+};
+
+export const themeMigrationSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    filename: { type: 'string' },
+    content: { type: 'string' },
+    warnings: stringArray,
+  },
+  required: ['filename', 'content', 'warnings'],
+};
+
+export const colorPaletteSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    colors: stringRecord,
+    cssVariables: { type: 'string' },
+    tailwindConfig: { type: 'string' },
+    version,
+  },
+  required: ['name', 'colors', 'cssVariables', 'tailwindConfig', 'version'],
+};
+
+export const componentTemplateSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    html: { type: 'string' },
+    description: { type: 'string' },
+    utilities: stringArray,
+    customizations: stringArray,
+  },
+  required: ['html', 'description', 'utilities', 'customizations'],
+};
+
+export const projectContextSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    version: { type: 'string', enum: VERSION_SPECS },
+    prefix: { type: 'string' },
+    colors: stringArray,
+    breakpoints: stringRecord,
+    framework: { type: 'string' },
+    packageManager: { type: 'string' },
+  },
+};
+
+const count: JsonSchema = { type: 'integer', minimum: 0 };
+
+export const serverStatusSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    services: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          state: { type: 'string', enum: ['registered', 'initializing', 'ready', 'failed', 'stopped'] },
+          error: { type: 'string' },
+          cache: {
+            type: 'object',
+            properties: {
+              totalEntries: count,
+              memoryUsage: count,
+              hitRate: { type: 'number', minimum: 0, maximum: 1 },
+              lastCleanup: { type: 'string' },
+            },
+            required: ['totalEntries', 'memoryUsage', 'hitRate', 'lastCleanup'],
+          },
+        },
+        required: ['name', 'state'],
+      },
+    },
+    documentation: {
+      type: 'object',
+      properties: {
+        requests: count,
+        failures: count,
+        lastFailure: {
+          type: 'object',
+          properties: {
+            url: { type: 'string' },
+            message: { type: 'string' },
+            at: { type: 'string' },
+          },
+          required: ['url', 'message', 'at'],
+        },
+      },
+      required: ['requests', 'failures'],
+    },
+    versions: {
+      type: 'object',
+      properties: {
+        supported: { type: 'array', items: version },
+        default: version,
+        defaultRelease: { type: 'string', enum: SUPPORTED_RELEASES },
+      },
+      required: ['supported', 'default', 'defaultRelease'],
+    },
+    catalog: {
+      type: 'object',
+      properties: {
+        utilities: count,
+        categories: count,
+        colors: count,
+        frameworks: count,
+        templates: count,
+      },
+      required: ['utilities', 'categories', 'colors', 'frameworks', 'templates'],
+    },
+  },
+  required: ['services', 'documentation', 'versions', 'catalog'],
+};
+
+const classVersionDetailsSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    available: { type: 'boolean' },
+    css: { type: 'string' },
+    defaults: stringArray,
+    since: { type: 'string', enum: SUPPORTED_RELEASES },
+  },
+  required: ['available', 'defaults'],
+};
+
+export const versionComparisonSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    className: { type: 'string' },
+    v3: classVersionDetailsSchema,
+    v4: classVersionDetailsSchema,
+    sameMeaning: { type: 'boolean' },
+    v4Equivalent: { type: 'string' },
+    v3Equivalent: { type: 'string' },
+    notes: stringArray,
+  },
+  required: ['className', 'v3', 'v4', 'sameMeaning', 'notes'],
+};
+
+export const classExplanationSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    className: { type: 'string' },
+    version,
+    release: { type: 'string', enum: SUPPORTED_RELEASES },
+    utility: { type: 'string' },
+    variants: stringArray,
+    important: { type: 'boolean' },
+    source: { type: 'string', enum: ['catalog', 'theme', 'arbitrary-value', 'arbitrary-property'] },
+    selector: { type: 'string' },
+    atRules: stringArray,
+    declarations: stringArray,
+    css: { type: 'string' },
+    since: { type: 'string', enum: SUPPORTED_RELEASES },
+    notes: stringArray,
+  },
+  required: ['className', 'version', 'release', 'utility', 'variants', 'important', 'source', 'selector', 'atRules', 'declarations', 'css', 'notes'],
+};
+
+export const tailwindSetupSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    directory: { type: 'string' },
+    detected: { type: 'boolean' },
+    version,
+    release: { type: 'string', enum: SUPPORTED_RELEASES },
+    packageVersion: { type: 'string' },
+    versionSource: { type: 'string', enum: ['node_modules', 'lockfile', 'package.json', 'setup'] },
+    integration: { type: 'string', enum: ['postcss', 'vite', 'cli'] },
+    framework: { type: 'string' },
+    packageManager: { type: 'string', enum: ['npm', 'yarn', 'pnpm', 'bun'] },
+    configFiles: stringArray,
+    cssEntries: stringArray,
+    evidence: stringArray,
+  },
+  required: ['directory', 'detected', 'configFiles', 'cssEntries', 'evidence'],
+};
+
+/**
+ * Output schema for each tool. Structured content must be an object, so list
+ * and nullable results are wrapped in a single property.
+ */
+export const toolOutputSchemas: Record<string, ObjectSchema> = {
+  get_tailwind_utilities: {
+    type: 'object',
+    properties: {
+      utilities: { type: 'array', items: tailwindUtilitySchema },
+    },
+    required: ['utilities'],
+  },
+  get_tailwind_colors: {
+    type: 'object',
+    properties: {
+      colors: { type: 'array', items: colorInfoSchema },
+    },
+    required: ['colors'],
+  },
+  compare_tailwind_versions: {
+    type: 'object',
+    properties: {
+      comparisons: { type: 'array', items: versionComparisonSchema },
+    },
+    required: ['comparisons'],
+  },
+  explain_tailwind_class: classExplanationSchema,
+  get_tailwind_config_guide: {
+    type: 'object',
+    properties: {
+      guide: { oneOf: [configGuideSchema, { type: 'null' }] },
+    },
+    required: ['guide'],
+  },
+  search_tailwind_docs: {
+    type: 'object',
+    properties: {
+      results: { type: 'array', items: searchResultSchema },
+    },
+    required: ['results'],
+  },
+  install_tailwind: installationGuideSchema,
+  convert_css_to_tailwind: conversionResultSchema,
+  migrate_classes_to_v4: classMigrationSchema,
+  migrate_config_to_v4: configMigrationSchema,
+  migrate_theme_to_v3: themeMigrationSchema,
+  generate_color_palette: colorPaletteSchema,
+  generate_component_template: componentTemplateSchema,
+  set_project_context: {
+    type: 'object',
+    properties: {
+      context: projectContextSchema,
+    },
+    required: ['context'],
+  },
+  get_server_status: serverStatusSchema,
+  detect_tailwind_setup: tailwindSetupSchema,
+};
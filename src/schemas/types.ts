@@ -0,0 +1,29 @@
+/**
+ * JSON Schema types shared by the tool input and output schemas
+ */
+
+/**
+ * The subset of JSON Schema used to describe tool arguments and results
+ */
+export interface JsonSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+  description?: string;
+  enum?: readonly unknown[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  oneOf?: JsonSchema[];
+}
+
+/**
+ * A JSON Schema describing an object, as required for tool schemas
+ */
+export interface ObjectSchema extends JsonSchema {
+  type: 'object';
+  properties: Record<string, JsonSchema>;
+}
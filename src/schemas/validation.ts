@@ -0,0 +1,179 @@
+/**
+ * Runtime validation of tool arguments against their input schemas
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { suggestAlternatives, withSuggestions } from '../utils/suggestions.js';
+import type { JsonSchema, ObjectSchema } from './types.js';
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+  /** Values the field accepts, for enums and unknown arguments */
+  allowedValues?: readonly unknown[];
+  /** Accepted values close to the rejected one */
+  suggestions?: string[];
+}
+
+/**
+ * Validates tool arguments against an input schema and fills in schema defaults.
+ * Throws an InvalidParams error listing every invalid field.
+ */
+export function validateArguments<T>(toolName: string, schema: ObjectSchema, args: unknown): T {
+  const input = args ?? {};
+  const issues = collectValidationIssues(schema, input, 'arguments');
+
+  if (issues.length > 0) {
+    const details = issues.map(issue => `"${issue.field}" ${issue.message}`).join('; ');
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for ${toolName}: ${details}`,
+      { tool: toolName, issues }
+    );
+  }
+
+  const params: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    if (value !== undefined && value !== null) {
+      params[key] = value;
+    }
+  }
+  for (const [key, property] of Object.entries(schema.properties)) {
+    if (params[key] === undefined && property.default !== undefined) {
+      params[key] = property.default;
+    }
+  }
+
+  return params as T;
+}
+
+/**
+ * Lists every way `value` violates an object schema; `name` labels a value that is not an object
+ */
+export function collectValidationIssues(schema: ObjectSchema, value: unknown, name: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ field: name, message: 'must be an object' });
+  } else {
+    collectObjectIssues(schema, value as Record<string, unknown>, '', issues);
+  }
+
+  return issues;
+}
+
+/**
+ * Collects issues for an object value, including missing and unknown properties
+ */
+function collectObjectIssues(schema: JsonSchema, value: Record<string, unknown>, path: string, issues: ValidationIssue[]): void {
+  const properties = schema.properties ?? {};
+
+  for (const key of schema.required ?? []) {
+    if (value[key] === undefined || value[key] === null) {
+      issues.push({ field: joinPath(path, key), message: 'is required' });
+    }
+  }
+
+  for (const [key, propertyValue] of Object.entries(value)) {
+    // Missing required values were reported above; optional nulls mean "not set"
+    if (propertyValue === undefined || propertyValue === null) {
+      continue;
+    }
+
+    const propertySchema = properties[key]
+      ?? (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined);
+    if (propertySchema) {
+      collectIssues(propertySchema, propertyValue, joinPath(path, key), issues);
+    } else if (schema.additionalProperties === false) {
+      const allowedValues = Object.keys(properties);
+      issues.push(withSuggestedValues({
+        field: joinPath(path, key),
+        message: `is not a recognized argument (expected one of: ${allowedValues.join(', ')})`,
+        allowedValues,
+      }, key));
+    }
+  }
+}
+
+/**
+ * Collects issues for a single value
+ */
+function collectIssues(schema: JsonSchema, value: unknown, path: string, issues: ValidationIssue[]): void {
+  if (schema.type && !matchesType(schema.type, value)) {
+    issues.push({ field: path, message: `must be ${describeType(schema.type)}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push(withSuggestedValues({ field: path, message: `must be one of: ${schema.enum.join(', ')}`, allowedValues: schema.enum }, value));
+    return;
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push({ field: path, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ field: path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ field: path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => collectIssues(schema.items!, item, `${path}[${index}]`, issues));
+  }
+
+  if (schema.type === 'object' && (schema.properties || typeof schema.additionalProperties === 'object')) {
+    collectObjectIssues(schema, value as Record<string, unknown>, path, issues);
+  }
+}
+
+/**
+ * Adds the allowed values closest to a rejected string value to an issue,
+ * unless every allowed value matches equally well
+ */
+function withSuggestedValues(issue: ValidationIssue, value: unknown): ValidationIssue {
+  const candidates = (issue.allowedValues ?? []).filter((candidate): candidate is string => typeof candidate === 'string');
+  const suggestions = typeof value === 'string' ? suggestAlternatives(value, candidates) : [];
+  return suggestions.length > 0 && suggestions.length < candidates.length
+    ? { ...issue, message: withSuggestions(issue.message, suggestions), suggestions }
+    : issue;
+}
+
+function matchesType(type: NonNullable<JsonSchema['type']>, value: unknown): boolean {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(type: NonNullable<JsonSchema['type']>): string {
+  switch (type) {
+    case 'integer':
+      return 'an integer';
+    case 'array':
+    case 'object':
+      return `an ${type}`;
+    case 'null':
+      return 'null';
+    default:
+      return `a ${type}`;
+  }
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
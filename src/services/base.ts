@@ -2,7 +2,15 @@
  * Base service interfaces and abstract classes for TailwindCSS MCP Server
  */
 
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
 import { CachedDocument } from '../types/index.js';
+import { createLogger } from '../logging/index.js';
+
+const logger = createLogger('ServiceRegistry');
+
+export const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Base interface for all services
@@ -27,6 +35,13 @@ export interface CacheStats {
   lastCleanup: Date;
 }
 
+export interface CacheOptions {
+  /** How long cached documents stay fresh (default: 24 hours) */
+  ttlMs?: number;
+  /** Directory for persisting documents across restarts; memory only when unset */
+  directory?: string;
+}
+
 /**
  * Abstract base class for cached services
  */
@@ -35,6 +50,13 @@ export abstract class CachedService implements CacheableService {
   protected cacheHits = 0;
   protected cacheRequests = 0;
   protected lastCleanup = new Date();
+  protected readonly cacheTtlMs: number;
+  protected readonly cacheDirectory?: string;
+
+  constructor(options: CacheOptions = {}) {
+    this.cacheTtlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.cacheDirectory = options.directory;
+  }
 
   async initialize(): Promise<void> {
     // Override in subclasses
@@ -67,10 +89,46 @@ export abstract class CachedService implements CacheableService {
     }
   }
 
-  protected isCacheExpired(item: CachedDocument, ttlMs: number = 24 * 60 * 60 * 1000): boolean {
+  protected isCacheExpired(item: CachedDocument, ttlMs: number = this.cacheTtlMs): boolean {
     return Date.now() - item.lastUpdated.getTime() > ttlMs;
   }
 
+  /**
+   * Reads a document persisted by an earlier run, if a cache directory is configured
+   */
+  protected async readPersistedDocument(key: string): Promise<CachedDocument | undefined> {
+    if (!this.cacheDirectory) {
+      return undefined;
+    }
+
+    try {
+      const stored = JSON.parse(await readFile(this.getPersistedPath(key), 'utf8'));
+      return { ...stored, lastUpdated: new Date(stored.lastUpdated) };
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Writes a document to the cache directory, if one is configured
+   */
+  protected async persistDocument(key: string, document: CachedDocument): Promise<void> {
+    if (!this.cacheDirectory) {
+      return;
+    }
+
+    try {
+      await mkdir(this.cacheDirectory, { recursive: true });
+      await writeFile(this.getPersistedPath(key), JSON.stringify(document));
+    } catch (error) {
+      logger.warning(`Failed to persist cache entry to ${this.cacheDirectory}:`, error);
+    }
+  }
+
+  private getPersistedPath(key: string): string {
+    return join(this.cacheDirectory!, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
   private estimateMemoryUsage(): number {
     let totalSize = 0;
     for (const [key, value] of this.cache) {
@@ -83,54 +141,132 @@ export abstract class CachedService implements CacheableService {
   }
 }
 
+/**
+ * What went wrong, from the caller's point of view:
+ * - invalid-params: the request asked for something unsupported and can be corrected
+ * - not-found: the requested document or item does not exist
+ * - upstream: a remote source (the documentation site) failed; retrying may help
+ * - internal: a bug or unexpected failure in the server
+ */
+export type ServiceErrorKind = 'invalid-params' | 'not-found' | 'upstream' | 'internal';
+
+/**
+ * Structured hints that help the caller correct a request
+ */
+export interface ServiceErrorDetails {
+  /** Argument the error is about */
+  field?: string;
+  /** The value that was rejected */
+  value?: unknown;
+  /** Every value the argument accepts */
+  allowedValues?: string[];
+  /** Accepted values close to the rejected one */
+  suggestions?: string[];
+}
+
+export interface ServiceErrorOptions {
+  /** Defaults to the kind of a wrapped ServiceError, otherwise 'internal' */
+  kind?: ServiceErrorKind;
+  details?: ServiceErrorDetails;
+}
+
 /**
  * Error handling utilities
  */
 export class ServiceError extends Error {
+  readonly kind: ServiceErrorKind;
+  readonly details: ServiceErrorDetails;
+
   constructor(
     message: string,
     public readonly service: string,
     public readonly operation: string,
-    public readonly originalError?: unknown
+    public readonly originalError?: unknown,
+    options: ServiceErrorOptions = {}
   ) {
     super(message);
     this.name = 'ServiceError';
+
+    // Wrapping a service error keeps its classification
+    const wrapped = originalError instanceof ServiceError ? originalError : undefined;
+    this.kind = options.kind ?? wrapped?.kind ?? 'internal';
+    this.details = options.details ?? wrapped?.details ?? {};
   }
 }
 
+export type ServiceState = 'registered' | 'initializing' | 'ready' | 'failed' | 'stopped';
+
+export interface ServiceStatus {
+  name: string;
+  state: ServiceState;
+  /** Why initialization failed */
+  error?: string;
+  /** Present for services that cache documents */
+  cache?: CacheStats;
+}
+
 /**
  * Service registry for managing service instances
  */
 export class ServiceRegistry {
   private services: Map<string, BaseService> = new Map();
+  private states: Map<string, { state: ServiceState; error?: string }> = new Map();
 
   register<T extends BaseService>(name: string, service: T): void {
     this.services.set(name, service);
+    this.states.set(name, { state: 'registered' });
   }
 
   get<T extends BaseService>(name: string): T | undefined {
     return this.services.get(name) as T;
   }
 
+  /**
+   * Reports the lifecycle state of every registered service, with cache statistics where available
+   */
+  getStatus(): ServiceStatus[] {
+    return Array.from(this.services.entries()).map(([name, service]) => ({
+      name,
+      ...this.states.get(name)!,
+      ...(isCacheable(service) ? { cache: service.getCacheStats() } : {}),
+    }));
+  }
+
   async initializeAll(): Promise<void> {
-    const initPromises = Array.from(this.services.values()).map(service => 
-      service.initialize().catch(error => {
-        console.error(`Failed to initialize service:`, error);
-        throw error;
-      })
-    );
+    const initPromises = Array.from(this.services.entries()).map(([name, service]) => {
+      this.states.set(name, { state: 'initializing' });
+      return service.initialize().then(
+        () => {
+          this.states.set(name, { state: 'ready' });
+        },
+        error => {
+          this.states.set(name, { state: 'failed', error: error instanceof Error ? error.message : String(error) });
+          logger.error(`Failed to initialize service:`, error);
+          throw error;
+        }
+      );
+    });
     
     await Promise.all(initPromises);
   }
 
   async cleanupAll(): Promise<void> {
-    const cleanupPromises = Array.from(this.services.values()).map(service => 
-      service.cleanup().catch(error => {
-        console.error(`Failed to cleanup service:`, error);
-        // Continue cleanup even if one service fails
-      })
+    const cleanupPromises = Array.from(this.services.entries()).map(([name, service]) => 
+      service.cleanup().then(
+        () => {
+          this.states.set(name, { state: 'stopped' });
+        },
+        error => {
+          logger.error(`Failed to cleanup service:`, error);
+          // Continue cleanup even if one service fails
+        }
+      )
     );
     
     await Promise.allSettled(cleanupPromises);
   }
+}
+
+function isCacheable(service: BaseService): service is CacheableService {
+  return typeof (service as Partial<CacheableService>).getCacheStats === 'function';
 }
\ No newline at end of file
@@ -6,8 +6,50 @@
 import { BaseService, ServiceError } from './base.js';
 import type { ConversionResult, ConvertCSSParams } from '../types/index.js';
 import * as csstree from 'css-tree';
-import { getVersionConfig, DEFAULT_VERSION } from '../version/index.js';
-import type { TailwindVersion } from '../version/index.js';
+import { getClassRequirement, getVersionConfig, isReleaseAtLeast, resolveVersion, DEFAULT_VERSION } from '../version/index.js';
+import type { TailwindRelease, TailwindVersion } from '../version/index.js';
+
+/** Spacing steps of the default theme in rem, e.g. `4` is 1rem */
+export const SPACING_SCALE: ReadonlyArray<{ value: number; class: string }> = [
+  { value: 0, class: '0' },
+  { value: 0.125, class: '0.5' },
+  { value: 0.25, class: '1' },
+  { value: 0.375, class: '1.5' },
+  { value: 0.5, class: '2' },
+  { value: 0.625, class: '2.5' },
+  { value: 0.75, class: '3' },
+  { value: 0.875, class: '3.5' },
+  { value: 1, class: '4' },
+  { value: 1.25, class: '5' },
+  { value: 1.5, class: '6' },
+  { value: 1.75, class: '7' },
+  { value: 2, class: '8' },
+  { value: 2.25, class: '9' },
+  { value: 2.5, class: '10' },
+  { value: 2.75, class: '11' },
+  { value: 3, class: '12' },
+  { value: 3.5, class: '14' },
+  { value: 4, class: '16' },
+  { value: 5, class: '20' },
+  { value: 6, class: '24' }
+];
+
+/** Fractions of the default theme in percent, e.g. `1/3` is 33.333333% */
+export const FRACTION_SCALE: ReadonlyArray<{ percent: number; class: string }> = [
+  { percent: 8.333333, class: '1/12' },
+  { percent: 16.666667, class: '1/6' },
+  { percent: 20, class: '1/5' },
+  { percent: 25, class: '1/4' },
+  { percent: 33.333333, class: '1/3' },
+  { percent: 41.666667, class: '5/12' },
+  { percent: 50, class: '1/2' },
+  { percent: 58.333333, class: '7/12' },
+  { percent: 66.666667, class: '2/3' },
+  { percent: 75, class: '3/4' },
+  { percent: 83.333333, class: '5/6' },
+  { percent: 91.666667, class: '11/12' },
+  { percent: 100, class: 'full' }
+];
 
 export class ConversionService implements BaseService {
   private propertyMap: Map<string, PropertyMapping> = new Map();
@@ -29,6 +71,7 @@ export class ConversionService implements BaseService {
   async convertCSS(params: ConvertCSSParams): Promise<ConversionResult> {
     try {
       const { css, mode = 'classes', version = DEFAULT_VERSION } = params;
+      const release = params.release ?? resolveVersion(version).release;
       const versionConfig = getVersionConfig(version);
 
       if (!css.trim()) {
@@ -45,12 +88,14 @@ export class ConversionService implements BaseService {
         throw new ServiceError(
           'Invalid CSS syntax',
           'ConversionService',
-          'convertCSS'
+          'convertCSS',
+          undefined,
+          { kind: 'invalid-params', details: { field: 'css' } }
         );
       }
 
       const ast = this.parseCSS(css);
-      const conversions = this.extractStylesFromAST(ast);
+      const conversions = this.extractStylesFromAST(ast, release);
 
       // Apply version-specific utility renames
       if (versionConfig.renamedUtilities.size > 0) {
@@ -86,7 +131,8 @@ export class ConversionService implements BaseService {
           'Invalid CSS syntax',
           'ConversionService',
           'parseCSS',
-          error
+          error,
+          { kind: 'invalid-params', details: { field: 'css' } }
         );
       }
       // For other parse errors, also throw
@@ -94,7 +140,8 @@ export class ConversionService implements BaseService {
         'Invalid CSS syntax',
         'ConversionService',
         'parseCSS',
-        error
+        error,
+        { kind: 'invalid-params', details: { field: 'css' } }
       );
     }
   }
@@ -102,16 +149,17 @@ export class ConversionService implements BaseService {
   /**
    * Extract styles from CSS AST
    */
-  private extractStylesFromAST(ast: csstree.CssNode): ConversionData {
+  private extractStylesFromAST(ast: csstree.CssNode, release: TailwindRelease): ConversionData {
     const result: ConversionData = {
       utilities: [],
       unsupported: [],
-      custom: []
+      custom: [],
+      unavailable: []
     };
 
     csstree.walk(ast, (node, item, list) => {
       if (node.type === 'Rule') {
-        this.processRule(node as csstree.Rule, result);
+        this.processRule(node as csstree.Rule, result, release);
       }
     });
 
@@ -121,7 +169,7 @@ export class ConversionService implements BaseService {
   /**
    * Process a CSS rule
    */
-  private processRule(rule: csstree.Rule, result: ConversionData): void {
+  private processRule(rule: csstree.Rule, result: ConversionData, release: TailwindRelease): void {
     if (!rule.block || rule.block.type !== 'Block') return;
 
     const declarations: Array<{ property: string; value: string }> = [];
@@ -137,14 +185,14 @@ export class ConversionService implements BaseService {
     });
 
     declarations.forEach(({ property, value }) => {
-      this.processDeclaration(property, value, result);
+      this.processDeclaration(property, value, result, release);
     });
   }
 
   /**
    * Process a CSS declaration
    */
-  private processDeclaration(property: string, value: string, result: ConversionData): void {
+  private processDeclaration(property: string, value: string, result: ConversionData, release: TailwindRelease): void {
     const mapping = this.propertyMap.get(property);
     
     if (!mapping) {
@@ -152,7 +200,19 @@ export class ConversionService implements BaseService {
       return;
     }
 
-    const tailwindClass = this.convertDeclaration(property, value, mapping);
+    let tailwindClass = this.convertDeclaration(property, value, mapping);
+
+    // Don't emit classes the target release doesn't ship
+    const requirement = tailwindClass ? getClassRequirement(tailwindClass) : undefined;
+    if (tailwindClass && requirement && !isReleaseAtLeast(release, requirement.since)) {
+      const fallback = mapping.fallbacks?.get(tailwindClass);
+      if (!fallback) {
+        result.unsupported.push(`${property}: ${value} (${tailwindClass} requires ${requirement.since})`);
+        result.unavailable.push({ className: tailwindClass, since: requirement.since });
+        return;
+      }
+      tailwindClass = fallback;
+    }
     
     if (tailwindClass) {
       // Check if it's a space-separated list of utilities (like "py-4 px-8")
@@ -274,34 +334,10 @@ export class ConversionService implements BaseService {
    * Find closest Tailwind spacing value
    */
   private findClosestTailwindValue(remValue: number): string {
-    const spacingScale = [
-      { value: 0, class: '0' },
-      { value: 0.125, class: '0.5' },
-      { value: 0.25, class: '1' },
-      { value: 0.375, class: '1.5' },
-      { value: 0.5, class: '2' },
-      { value: 0.625, class: '2.5' },
-      { value: 0.75, class: '3' },
-      { value: 0.875, class: '3.5' },
-      { value: 1, class: '4' },
-      { value: 1.25, class: '5' },
-      { value: 1.5, class: '6' },
-      { value: 1.75, class: '7' },
-      { value: 2, class: '8' },
-      { value: 2.25, class: '9' },
-      { value: 2.5, class: '10' },
-      { value: 2.75, class: '11' },
-      { value: 3, class: '12' },
-      { value: 3.5, class: '14' },
-      { value: 4, class: '16' },
-      { value: 5, class: '20' },
-      { value: 6, class: '24' }
-    ];
-
-    let closest = spacingScale[0];
+    let closest = SPACING_SCALE[0];
     let minDiff = Math.abs(remValue - closest.value);
 
-    for (const scale of spacingScale) {
+    for (const scale of SPACING_SCALE) {
       const diff = Math.abs(remValue - scale.value);
       if (diff < minDiff) {
         minDiff = diff;
@@ -316,26 +352,10 @@ export class ConversionService implements BaseService {
    * Convert percentage to Tailwind fraction
    */
   private convertPercentToTailwind(percent: number): string | null {
-    const fractions = [
-      { percent: 8.333333, class: '1/12' },
-      { percent: 16.666667, class: '1/6' },
-      { percent: 20, class: '1/5' },
-      { percent: 25, class: '1/4' },
-      { percent: 33.333333, class: '1/3' },
-      { percent: 41.666667, class: '5/12' },
-      { percent: 50, class: '1/2' },
-      { percent: 58.333333, class: '7/12' },
-      { percent: 66.666667, class: '2/3' },
-      { percent: 75, class: '3/4' },
-      { percent: 83.333333, class: '5/6' },
-      { percent: 91.666667, class: '11/12' },
-      { percent: 100, class: 'full' }
-    ];
-
-    let closest = fractions[0];
+    let closest = FRACTION_SCALE[0];
     let minDiff = Math.abs(percent - closest.percent);
 
-    for (const fraction of fractions) {
+    for (const fraction of FRACTION_SCALE) {
       const diff = Math.abs(percent - fraction.percent);
       if (diff < minDiff) {
         minDiff = diff;
@@ -364,6 +384,11 @@ export class ConversionService implements BaseService {
       result.suggestions.push("Some CSS properties don't have direct TailwindCSS equivalents. Consider using arbitrary values like [property:value]");
     }
 
+    if (conversions.unavailable.length > 0) {
+      const classes = conversions.unavailable.map(({ className, since }) => `${className} (${since})`).join(', ');
+      result.suggestions!.push(`Upgrade TailwindCSS to use ${classes}, or keep these styles as arbitrary properties like [property:value]`);
+    }
+
     if (conversions.custom.length > 0) {
       if (!result.suggestions) result.suggestions = [];
       result.suggestions.push("Some values are outside Tailwind's default scale. Consider extending your Tailwind config or using arbitrary values");
@@ -491,6 +516,40 @@ export class ConversionService implements BaseService {
       ])
     });
 
+    this.propertyMap.set('text-wrap', {
+      prefix: 'text',
+      valueMap: new Map([
+        ['wrap', 'text-wrap'],
+        ['nowrap', 'text-nowrap'],
+        ['balance', 'text-balance'],
+        ['pretty', 'text-pretty']
+      ])
+    });
+
+    this.propertyMap.set('overflow-wrap', {
+      prefix: 'wrap',
+      valueMap: new Map([
+        ['normal', 'wrap-normal'],
+        ['break-word', 'wrap-break-word'],
+        ['anywhere', 'wrap-anywhere']
+      ]),
+      // Releases before v4.1 only cover these through the break-* utilities
+      fallbacks: new Map([
+        ['wrap-normal', 'break-normal'],
+        ['wrap-break-word', 'break-words']
+      ])
+    });
+
+    this.propertyMap.set('text-shadow', {
+      prefix: 'text-shadow',
+      valueMap: new Map([['none', 'text-shadow-none']])
+    });
+
+    this.propertyMap.set('mask-image', {
+      prefix: 'mask',
+      valueMap: new Map([['none', 'mask-none']])
+    });
+
     // Colors
     this.propertyMap.set('color', { prefix: 'text', pattern: /#([a-fA-F0-9]{6}|[a-fA-F0-9]{3})/ });
     this.propertyMap.set('background-color', { prefix: 'bg', pattern: /#([a-fA-F0-9]{6}|[a-fA-F0-9]{3})/ });
@@ -515,7 +574,9 @@ export class ConversionService implements BaseService {
         ['center', 'justify-center'],
         ['space-between', 'justify-between'],
         ['space-around', 'justify-around'],
-        ['space-evenly', 'justify-evenly']
+        ['space-evenly', 'justify-evenly'],
+        ['safe center', 'justify-center-safe'],
+        ['safe flex-end', 'justify-end-safe']
       ])
     });
 
@@ -526,7 +587,10 @@ export class ConversionService implements BaseService {
         ['flex-end', 'items-end'],
         ['center', 'items-center'],
         ['baseline', 'items-baseline'],
-        ['stretch', 'items-stretch']
+        ['last baseline', 'items-baseline-last'],
+        ['stretch', 'items-stretch'],
+        ['safe center', 'items-center-safe'],
+        ['safe flex-end', 'items-end-safe']
       ])
     });
   }
@@ -564,11 +628,18 @@ export class ConversionService implements BaseService {
       'font-thin', 'font-light', 'font-normal', 'font-medium', 'font-semibold', 'font-bold', 'font-extrabold', 'font-black',
       'text-left', 'text-center', 'text-right', 'text-justify',
       'text-xs', 'text-sm', 'text-base', 'text-lg', 'text-xl', 'text-2xl', 'text-3xl', 'text-4xl', 'text-5xl', 'text-6xl',
+      'text-wrap', 'text-nowrap', 'text-balance', 'text-pretty',
+      'wrap-normal', 'wrap-break-word', 'wrap-anywhere', 'break-normal', 'break-words',
+      'text-shadow-none',
+
+      // Masks
+      'mask-none',
       
       // Flexbox
       'flex-row', 'flex-row-reverse', 'flex-col', 'flex-col-reverse',
       'justify-start', 'justify-end', 'justify-center', 'justify-between', 'justify-around', 'justify-evenly',
-      'items-start', 'items-end', 'items-center', 'items-baseline', 'items-stretch'
+      'items-start', 'items-end', 'items-center', 'items-baseline', 'items-stretch',
+      'justify-center-safe', 'justify-end-safe', 'items-center-safe', 'items-end-safe', 'items-baseline-last'
     ];
 
     utilities.forEach(utility => this.tailwindUtilities.add(utility));
@@ -615,6 +686,8 @@ interface PropertyMapping {
   valueMap?: Map<string, string>;
   pattern?: RegExp;
   unitMapping?: boolean;
+  /** Equivalent classes for releases that predate a mapped class */
+  fallbacks?: Map<string, string>;
 }
 
 interface UnitMapping {
@@ -625,4 +698,6 @@ interface ConversionData {
   utilities: string[];
   unsupported: string[];
   custom: string[];
+  /** Classes left out because the target release predates them */
+  unavailable: Array<{ className: string; since: TailwindRelease }>;
 }
\ No newline at end of file
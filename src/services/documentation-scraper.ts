@@ -6,6 +6,7 @@
 import axios, { AxiosInstance } from 'axios';
 import * as cheerio from 'cheerio';
 import { CachedService, ServiceError } from './base.js';
+import type { CacheOptions } from './base.js';
 import {
   CachedDocument,
   SearchResult,
@@ -13,20 +14,46 @@ import {
   ConfigGuide,
   ConfigExample,
   ConfigGuideParams,
+  DocumentationPage,
+  OperationOptions,
+  ScrapeColorsOptions,
+  ScrapeUtilitiesOptions,
   SearchDocsParams,
   Example,
   UtilityValue,
   ColorInfo
 } from '../types/index.js';
-import { getVersionConfig, DEFAULT_VERSION } from '../version/index.js';
+import { COLOR_PALETTES, getVersionConfig, DEFAULT_VERSION } from '../version/index.js';
 import type { TailwindVersion } from '../version/index.js';
+import { createLogger } from '../logging/index.js';
+
+const logger = createLogger('DocumentationScraperService');
+
+export interface DocumentationScraperOptions extends CacheOptions {
+  /** Per-version overrides for the documentation site, e.g. an internal mirror */
+  docsBaseUrls?: Partial<Record<TailwindVersion, string>>;
+}
+
+export interface ScrapeStats {
+  /** Pages fetched from the documentation site rather than a cache */
+  requests: number;
+  failures: number;
+  lastFailure?: {
+    url: string;
+    message: string;
+    at: Date;
+  };
+}
 
 export class DocumentationScraperService extends CachedService {
   private axiosInstance: AxiosInstance;
   private readonly USER_AGENT = 'Mozilla/5.0 (compatible; TailwindCSSMcpServer/0.1.0)';
+  private readonly docsBaseUrls: Partial<Record<TailwindVersion, string>>;
+  private scrapeStats: ScrapeStats = { requests: 0, failures: 0 };
 
-  constructor() {
-    super();
+  constructor(options: DocumentationScraperOptions = {}) {
+    super(options);
+    this.docsBaseUrls = options.docsBaseUrls ?? {};
     this.axiosInstance = axios.create({
       timeout: 15000,
       headers: {
@@ -37,29 +64,30 @@ export class DocumentationScraperService extends CachedService {
 
   async initialize(): Promise<void> {
     await super.initialize();
-    console.error('DocumentationScraperService initialized');
+    logger.info('DocumentationScraperService initialized');
   }
 
   /**
    * Scrapes and caches a documentation page
    */
-  async scrapePage(path: string, version: TailwindVersion = DEFAULT_VERSION): Promise<CachedDocument> {
-    const docsBaseUrl = getVersionConfig(version).docsBaseUrl;
-    const fullUrl = `${docsBaseUrl}${path}`;
+  async scrapePage(path: string, version: TailwindVersion = DEFAULT_VERSION, signal?: AbortSignal): Promise<CachedDocument> {
+    const fullUrl = `${this.getDocsBaseUrl(version)}${path}`;
     const cacheKey = this.getCacheKey(fullUrl, version);
 
     this.updateCacheStats(false);
 
-    // Check cache first
-    const cached = this.cache.get(cacheKey);
+    // Check cache first, then documents persisted by an earlier run
+    const cached = this.cache.get(cacheKey) ?? await this.readPersistedDocument(cacheKey);
     if (cached && !this.isCacheExpired(cached)) {
+      this.cache.set(cacheKey, cached);
       this.updateCacheStats(true);
       return cached;
     }
 
     try {
-      console.error(`[${version}] Scraping documentation page: ${fullUrl}`);
-      const response = await this.axiosInstance.get(fullUrl);
+      logger.debug(`[${version}] Scraping documentation page: ${fullUrl}`);
+      this.scrapeStats.requests++;
+      const response = await this.axiosInstance.get(fullUrl, { signal });
       
       const document: CachedDocument = {
         url: fullUrl,
@@ -73,33 +101,82 @@ export class DocumentationScraperService extends CachedService {
       };
 
       this.cache.set(cacheKey, document);
+      await this.persistDocument(cacheKey, document);
       return document;
 
     } catch (error) {
+      // Cancelled requests say nothing about the health of the documentation site
+      if (!signal?.aborted) {
+        this.scrapeStats.failures++;
+        this.scrapeStats.lastFailure = {
+          url: fullUrl,
+          message: error instanceof Error ? error.message : String(error),
+          at: new Date(),
+        };
+      }
+      const status = (error as { response?: { status?: number } } | undefined)?.response?.status;
       throw new ServiceError(
-        `Failed to scrape documentation page: ${fullUrl}`,
+        status === 404 ? `Documentation page not found: ${fullUrl}` : `Failed to scrape documentation page: ${fullUrl}`,
         'DocumentationScraperService',
         'scrapePage',
-        error
+        error,
+        { kind: status === 404 ? 'not-found' : 'upstream', details: { value: path } }
       );
     }
   }
 
+  /**
+   * Counts the pages fetched from the documentation site and the fetches that failed
+   */
+  getScrapeStats(): ScrapeStats {
+    return { ...this.scrapeStats };
+  }
+
+  /**
+   * Gets the readable text of a documentation page (e.g. 'dark-mode' or 'guides/nextjs')
+   */
+  async getDocumentationPage(path: string, version: TailwindVersion = DEFAULT_VERSION, options: OperationOptions = {}): Promise<DocumentationPage> {
+    const doc = await this.scrapePage(`/docs/${path.replace(/^\/+/, '')}`, version, options.signal);
+    const $ = cheerio.load(doc.content);
+    $('script, style, nav').remove();
+
+    const root = $('main').length ? $('main').first() : $('body');
+    const content = root.text()
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\s*\n\s*(\n\s*)+/g, '\n\n')
+      .trim();
+
+    return {
+      url: doc.url,
+      title: $('h1').first().text().trim(),
+      content,
+      version,
+    };
+  }
+
   /**
    * Searches documentation pages for content matching query (overloaded for params object)
    */
-  async searchDocumentation(params: SearchDocsParams): Promise<SearchResult[]>;
-  async searchDocumentation(query: string, category?: string, limit?: number, version?: TailwindVersion): Promise<SearchResult[]>;
-  async searchDocumentation(queryOrParams: string | SearchDocsParams, category?: string, limit: number = 10, version: TailwindVersion = DEFAULT_VERSION): Promise<SearchResult[]> {
+  async searchDocumentation(params: SearchDocsParams, options?: OperationOptions): Promise<SearchResult[]>;
+  async searchDocumentation(query: string, category?: string, limit?: number, version?: TailwindVersion, options?: OperationOptions): Promise<SearchResult[]>;
+  async searchDocumentation(
+    queryOrParams: string | SearchDocsParams,
+    categoryOrOptions?: string | OperationOptions,
+    limit: number = 10,
+    version: TailwindVersion = DEFAULT_VERSION,
+    options: OperationOptions = {}
+  ): Promise<SearchResult[]> {
     const query = typeof queryOrParams === 'string' ? queryOrParams : queryOrParams.query;
+    const category = typeof categoryOrOptions === 'string' ? categoryOrOptions : undefined;
+    const { signal } = typeof queryOrParams === 'string' ? options : (categoryOrOptions as OperationOptions | undefined) ?? {};
     const searchCategory = typeof queryOrParams === 'string' ? category : queryOrParams.category;
-    const searchLimit = typeof queryOrParams === 'string' ? limit : queryOrParams.limit || 10;
+    const searchLimit = typeof queryOrParams === 'string' ? limit : queryOrParams.limit ?? 10;
     const searchVersion = typeof queryOrParams === 'string' ? version : queryOrParams.version || DEFAULT_VERSION;
-    const docsBaseUrl = getVersionConfig(searchVersion).docsBaseUrl;
+    const docsBaseUrl = this.getDocsBaseUrl(searchVersion);
     try {
       // For now, implement a simple search by scraping the docs index
       // In a production system, you'd want to build an index
-      const docsIndex = await this.scrapePage('/docs', searchVersion);
+      const docsIndex = await this.scrapePage('/docs', searchVersion, signal);
       const $ = cheerio.load(docsIndex.content);
 
       const results: SearchResult[] = [];
@@ -127,9 +204,10 @@ export class DocumentationScraperService extends CachedService {
       // Sort by relevance and limit results
       return results
         .sort((a, b) => b.relevance - a.relevance)
-        .slice(0, limit);
+        .slice(0, searchLimit);
 
     } catch (error) {
+      this.throwIfCancelled(signal, 'searchDocumentation');
       throw new ServiceError(
         `Failed to search documentation for query: ${query}`,
         'DocumentationScraperService',
@@ -140,37 +218,56 @@ export class DocumentationScraperService extends CachedService {
   }
 
   /**
-   * Scrapes all TailwindCSS utilities from the documentation
+   * Scrapes all TailwindCSS utilities from the documentation, reporting progress page by page
    */
-  async scrapeAllUtilities(): Promise<TailwindUtility[]> {
+  async scrapeAllUtilities(options: ScrapeUtilitiesOptions = {}): Promise<TailwindUtility[]> {
+    const { version = DEFAULT_VERSION, signal, onProgress } = options;
+
     try {
-      console.error('Scraping all TailwindCSS utilities...');
-      
-      // Get the main docs page to find all utility categories
-      const mainDoc = await this.scrapePage('/docs');
-      const $ = cheerio.load(mainDoc.content);
-      
-      const utilities: TailwindUtility[] = [];
-      const utilityCategories = [
+      logger.info(`[${version}] Scraping all TailwindCSS utilities...`);
+
+      // Make sure the docs are reachable before walking every utility page
+      await this.scrapePage('/docs', version, signal);
+
+      const utilityCategories = options.categories ?? [
         'layout', 'flexbox-and-grid', 'spacing', 'sizing', 'typography', 
         'backgrounds', 'borders', 'effects', 'filters', 'tables', 
         'transitions-and-animation', 'transforms', 'interactivity', 'svg', 'accessibility'
       ];
 
-      // Scrape each category
+      const pages: Array<{ category: string; path: string }> = [];
       for (const category of utilityCategories) {
-        try {
-          const categoryUtilities = await this.scrapeCategoryUtilities(category);
-          utilities.push(...categoryUtilities);
-        } catch (error) {
-          console.warn(`Failed to scrape category ${category}:`, error);
+        const paths = await this.getUtilityPathsForCategory(category);
+        pages.push(...paths.map(path => ({ category, path })));
+      }
+
+      const utilities: TailwindUtility[] = [];
+      for (const [index, { category, path }] of pages.entries()) {
+        this.throwIfCancelled(signal, 'scrapeAllUtilities');
+
+        const utility = await this.extractUtilityInfo(path, version, signal);
+        if (utility) {
+          utilities.push({
+            ...utility,
+            category: { ...utility.category, id: category, name: category },
+          });
         }
+
+        onProgress?.({
+          progress: index + 1,
+          total: pages.length,
+          message: `Scraped /docs/${path}`,
+        });
       }
 
-      console.error(`Successfully scraped ${utilities.length} utilities`);
+      this.throwIfCancelled(signal, 'scrapeAllUtilities');
+      logger.info(`Successfully scraped ${utilities.length} utilities`);
       return utilities;
       
     } catch (error) {
+      if (error instanceof ServiceError && signal?.aborted) {
+        throw error;
+      }
       throw new ServiceError(
         'Failed to scrape all utilities',
         'DocumentationScraperService',
@@ -180,34 +277,6 @@ export class DocumentationScraperService extends CachedService {
     }
   }
 
-  /**
-   * Scrapes utilities for a specific category
-   */
-  private async scrapeCategoryUtilities(category: string): Promise<TailwindUtility[]> {
-    const utilities: TailwindUtility[] = [];
-    
-    try {
-      // Try common utility paths
-      const utilityPaths = await this.getUtilityPathsForCategory(category);
-      
-      for (const path of utilityPaths) {
-        try {
-          const utility = await this.extractUtilityInfo(path);
-          if (utility) {
-            utilities.push(utility);
-          }
-        } catch (error) {
-          console.warn(`Failed to extract utility info for ${path}:`, error);
-        }
-      }
-      
-    } catch (error) {
-      console.warn(`Failed to scrape category ${category}:`, error);
-    }
-    
-    return utilities;
-  }
-
   /**
    * Gets utility paths for a specific category
    */
@@ -229,9 +298,9 @@ export class DocumentationScraperService extends CachedService {
   /**
    * Extracts utility class information from documentation pages
    */
-  async extractUtilityInfo(utilityPath: string): Promise<TailwindUtility | null> {
+  async extractUtilityInfo(utilityPath: string, version: TailwindVersion = DEFAULT_VERSION, signal?: AbortSignal): Promise<TailwindUtility | null> {
     try {
-      const doc = await this.scrapePage(`/docs/${utilityPath}`);
+      const doc = await this.scrapePage(`/docs/${utilityPath}`, version, signal);
       const $ = cheerio.load(doc.content);
 
       // Extract basic information
@@ -262,43 +331,50 @@ export class DocumentationScraperService extends CachedService {
       };
 
     } catch (error) {
-      console.error(`Failed to extract utility info for ${utilityPath}:`, error);
+      logger.warning(`Failed to extract utility info for ${utilityPath}:`, error);
       return null;
     }
   }
 
   /**
-   * Scrapes all TailwindCSS colors from the documentation
+   * Scrapes all TailwindCSS colors from the documentation, reporting progress color by color
    */
-  async scrapeAllColors(): Promise<ColorInfo[]> {
+  async scrapeAllColors(options: ScrapeColorsOptions = {}): Promise<ColorInfo[]> {
+    const { version = DEFAULT_VERSION, signal, onProgress } = options;
+
     try {
-      console.error('Scraping all TailwindCSS colors...');
+      logger.info(`[${version}] Scraping all TailwindCSS colors...`);
       
       // Scrape the colors reference page
-      const colorsDoc = await this.scrapePage('/docs/customizing-colors');
-      const $ = cheerio.load(colorsDoc.content);
+      await this.scrapePage('/docs/customizing-colors', version, signal);
       
       const colors: ColorInfo[] = [];
       
       // TailwindCSS default color palette
-      const defaultColors = [
-        'slate', 'gray', 'zinc', 'neutral', 'stone', 
-        'red', 'orange', 'amber', 'yellow', 'lime', 'green', 
-        'emerald', 'teal', 'cyan', 'sky', 'blue', 'indigo', 
-        'violet', 'purple', 'fuchsia', 'pink', 'rose'
-      ];
+      const defaultColors = Object.keys(COLOR_PALETTES[version]);
+
+      for (const [index, colorName] of defaultColors.entries()) {
+        this.throwIfCancelled(signal, 'scrapeAllColors');
 
-      for (const colorName of defaultColors) {
-        const colorInfo = await this.extractColorInfo(colorName);
+        const colorInfo = await this.extractColorInfo(colorName, version);
         if (colorInfo) {
           colors.push(colorInfo);
         }
+
+        onProgress?.({
+          progress: index + 1,
+          total: defaultColors.length,
+          message: `Extracted ${colorName}`,
+        });
       }
 
-      console.error(`Successfully scraped ${colors.length} colors`);
+      logger.info(`Successfully scraped ${colors.length} colors`);
       return colors;
       
     } catch (error) {
+      if (error instanceof ServiceError && signal?.aborted) {
+        throw error;
+      }
       throw new ServiceError(
         'Failed to scrape all colors',
         'DocumentationScraperService', 
@@ -311,7 +387,7 @@ export class DocumentationScraperService extends CachedService {
   /**
    * Extracts color information for a specific color
    */
-  private async extractColorInfo(colorName: string): Promise<ColorInfo | null> {
+  private async extractColorInfo(colorName: string, version: TailwindVersion): Promise<ColorInfo | null> {
     try {
       // TailwindCSS default shades
       const standardShades = ['50', '100', '200', '300', '400', '500', '600', '700', '800', '900', '950'];
@@ -319,25 +395,7 @@ export class DocumentationScraperService extends CachedService {
       let shades: { [key: string]: string } = {};
       const usage: string[] = [];
 
-      // Generate default color values (approximated - in real implementation these would be scraped)
-      const baseColors: Record<string, Record<string, string>> = {
-        'slate': {
-          '50': '#f8fafc', '100': '#f1f5f9', '200': '#e2e8f0', '300': '#cbd5e1',
-          '400': '#94a3b8', '500': '#64748b', '600': '#475569', '700': '#334155',
-          '800': '#1e293b', '900': '#0f172a', '950': '#020617'
-        },
-        'red': {
-          '50': '#fef2f2', '100': '#fee2e2', '200': '#fecaca', '300': '#fca5a5',
-          '400': '#f87171', '500': '#ef4444', '600': '#dc2626', '700': '#b91c1c',
-          '800': '#991b1b', '900': '#7f1d1d', '950': '#450a0a'
-        },
-        'blue': {
-          '50': '#eff6ff', '100': '#dbeafe', '200': '#bfdbfe', '300': '#93c5fd',
-          '400': '#60a5fa', '500': '#3b82f6', '600': '#2563eb', '700': '#1d4ed8',
-          '800': '#1e40af', '900': '#1e3a8a', '950': '#172554'
-        },
-        // Add more default colors as needed
-      };
+      const baseColors = COLOR_PALETTES[version];
 
       if (baseColors[colorName]) {
         shades = baseColors[colorName];
@@ -358,7 +416,7 @@ export class DocumentationScraperService extends CachedService {
       };
 
     } catch (error) {
-      console.warn(`Failed to extract color info for ${colorName}:`, error);
+      logger.warning(`Failed to extract color info for ${colorName}:`, error);
       return null;
     }
   }
@@ -366,17 +424,17 @@ export class DocumentationScraperService extends CachedService {
   /**
    * Gets configuration guide based on parameters
    */
-  async getConfigGuide(params: ConfigGuideParams): Promise<ConfigGuide | null> {
-    return this.extractConfigGuide(params.topic || 'installation', params.framework, params.version);
+  async getConfigGuide(params: ConfigGuideParams, options: OperationOptions = {}): Promise<ConfigGuide | null> {
+    return this.extractConfigGuide(params.topic || 'installation', params.framework, params.version, options.signal);
   }
 
   /**
    * Extracts configuration guides from documentation
    */
-  async extractConfigGuide(topic: string, framework?: string, version: TailwindVersion = DEFAULT_VERSION): Promise<ConfigGuide | null> {
+  async extractConfigGuide(topic: string, framework?: string, version: TailwindVersion = DEFAULT_VERSION, signal?: AbortSignal): Promise<ConfigGuide | null> {
     try {
       const configPath = framework ? `/docs/guides/${framework}` : `/docs/configuration`;
-      const doc = await this.scrapePage(configPath, version);
+      const doc = await this.scrapePage(configPath, version, signal);
       const $ = cheerio.load(doc.content);
 
       const title = $('h1').first().text().trim();
@@ -410,7 +468,7 @@ export class DocumentationScraperService extends CachedService {
       };
 
     } catch (error) {
-      console.error(`Failed to extract config guide for ${topic}:`, error);
+      logger.warning(`Failed to extract config guide for ${topic}:`, error);
       return null;
     }
   }
@@ -418,6 +476,21 @@ export class DocumentationScraperService extends CachedService {
   /**
    * Private helper methods
    */
+  private getDocsBaseUrl(version: TailwindVersion): string {
+    return (this.docsBaseUrls[version] ?? getVersionConfig(version).docsBaseUrl).replace(/\/+$/, '');
+  }
+
+  private throwIfCancelled(signal: AbortSignal | undefined, operation: string): void {
+    if (signal?.aborted) {
+      throw new ServiceError(
+        'Operation cancelled',
+        'DocumentationScraperService',
+        operation,
+        signal.reason
+      );
+    }
+  }
+
   private getCacheKey(url: string, version: TailwindVersion = DEFAULT_VERSION): string {
     return `doc:${version}:${url}`;
   }
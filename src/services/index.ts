@@ -3,35 +3,58 @@
  */
 
 export { BaseService, CacheableService, CachedService, ServiceRegistry, ServiceError } from './base.js';
+export type {
+  CacheOptions,
+  CacheStats,
+  ServiceErrorDetails,
+  ServiceErrorKind,
+  ServiceErrorOptions,
+  ServiceState,
+  ServiceStatus,
+} from './base.js';
 export { DocumentationScraperService } from './documentation-scraper.js';
+export type { DocumentationScraperOptions, ScrapeStats } from './documentation-scraper.js';
 export { UtilityMapperService } from './utility-mapper.js';
 export { InstallationService } from './installation-service.js';
-export { ConversionService } from './conversion-service.js';
+export { ConversionService, FRACTION_SCALE, SPACING_SCALE } from './conversion-service.js';
 export { TemplateService } from './template-service.js';
+export { ProjectDetectionService } from './project-detection.js';
+export { MigrationService } from './migration-service.js';
 
 import { ServiceRegistry } from './base.js';
 import { DocumentationScraperService } from './documentation-scraper.js';
+import type { DocumentationScraperOptions } from './documentation-scraper.js';
 import { UtilityMapperService } from './utility-mapper.js';
 import { InstallationService } from './installation-service.js';
 import { ConversionService } from './conversion-service.js';
 import { TemplateService } from './template-service.js';
+import { ProjectDetectionService } from './project-detection.js';
+import { MigrationService } from './migration-service.js';
 
 // Create and export a service registry instance
 export const serviceRegistry = new ServiceRegistry();
 
+export interface ServiceOptions {
+  documentationScraper?: DocumentationScraperOptions;
+}
+
 // Service initialization helper
-export async function initializeServices(): Promise<{
+export async function initializeServices(options: ServiceOptions = {}): Promise<{
   documentationScraper: DocumentationScraperService;
   utilityMapper: UtilityMapperService;
   installationService: InstallationService;
   conversionService: ConversionService;
   templateService: TemplateService;
+  projectDetector: ProjectDetectionService;
+  migrationService: MigrationService;
 }> {
-  const documentationScraper = new DocumentationScraperService();
+  const documentationScraper = new DocumentationScraperService(options.documentationScraper);
   const utilityMapper = new UtilityMapperService();
   const installationService = new InstallationService();
   const conversionService = new ConversionService();
   const templateService = new TemplateService();
+  const projectDetector = new ProjectDetectionService();
+  const migrationService = new MigrationService();
 
   // Register services
   serviceRegistry.register('documentationScraper', documentationScraper);
@@ -39,6 +62,8 @@ export async function initializeServices(): Promise<{
   serviceRegistry.register('installationService', installationService);
   serviceRegistry.register('conversionService', conversionService);
   serviceRegistry.register('templateService', templateService);
+  serviceRegistry.register('projectDetector', projectDetector);
+  serviceRegistry.register('migrationService', migrationService);
 
   // Initialize all services
   await serviceRegistry.initializeAll();
@@ -49,5 +74,7 @@ export async function initializeServices(): Promise<{
     installationService,
     conversionService,
     templateService,
+    projectDetector,
+    migrationService,
   };
 }
\ No newline at end of file
@@ -5,6 +5,7 @@
 
 import { BaseService, ServiceError } from './base.js';
 import type { InstallationGuide, InstallTailwindParams } from '../types/index.js';
+import { suggestAlternatives } from '../utils/suggestions.js';
 import { getVersionConfig, DEFAULT_VERSION } from '../version/index.js';
 import type { TailwindVersion, TailwindVersionConfig } from '../version/index.js';
 
@@ -29,10 +30,16 @@ export class InstallationService implements BaseService {
 
       const frameworkConfig = this.frameworks.get(framework.toLowerCase());
       if (!frameworkConfig) {
+        const allowedValues = Array.from(this.frameworks.keys());
         throw new ServiceError(
           `Unsupported framework: ${framework}`,
           'InstallationService',
-          'generateInstallationGuide'
+          'generateInstallationGuide',
+          undefined,
+          {
+            kind: 'invalid-params',
+            details: { field: 'framework', value: framework, allowedValues, suggestions: suggestAlternatives(framework, allowedValues) },
+          }
         );
       }
 
@@ -0,0 +1,921 @@
+/**
+ * Migration Service for TailwindCSS MCP Server
+ * Rewrites TailwindCSS v3 classes for v4, in class lists or the class attributes of markup,
+ * and explains every change; translates v3 config files into a v4 CSS entry point and
+ * v4 @theme variables back into a v3 config
+ */
+
+import postcss from 'postcss';
+import type { AtRule } from 'postcss';
+import { BaseService, ServiceError } from './base.js';
+import type {
+  ClassChange,
+  ClassMigrationResult,
+  ConfigMigrationResult,
+  MigrateClassesParams,
+  MigrateConfigParams,
+  MigrateThemeParams,
+  ThemeMigrationResult,
+} from '../types/index.js';
+import { splitVariants } from '../utils/class-names.js';
+import { parseConfigModule } from '../utils/static-config.js';
+import type { ConfigModule, ConfigObject, ConfigValue } from '../utils/static-config.js';
+import {
+  COLOR_VALUE,
+  HOVER_MEDIA,
+  getVersionConfig,
+  parseVariant,
+  V4_BEHAVIOR_CHANGES,
+  V4_BUILTIN_PLUGINS,
+  V4_HOVER_WARNING,
+  V4_REMOVED_OPACITY_UTILITIES,
+  V4_RENAMED_UTILITIES,
+  V4_THEME_NAMESPACES,
+  V4_UNSUPPORTED_CONFIG_KEYS,
+} from '../version/index.js';
+import type { ConfigLiteral, UtilityRename, VariantRule } from '../version/index.js';
+
+/** class="…", class='…' and className={'…'}, but not bound attributes such as Vue's :class */
+const CLASS_ATTRIBUTE = /(?<![\w:.@-])(class(?:Name)?\s*=\s*\{?\s*)(["'`])([^"'`]*)\2/g;
+
+/** Content globs of the generated v3 config when none are given */
+const DEFAULT_CONTENT_PATHS = ['./index.html', './src/**/*.{js,ts,jsx,tsx}'];
+
+/** @theme namespaces and their v3 theme keys, longest first so --font-weight-* doesn't match --font-* */
+const V3_THEME_KEYS = Object.entries(V4_THEME_NAMESPACES)
+  .map(([key, namespace]) => ({ key, namespace }))
+  .sort((a, b) => b.namespace.length - a.namespace.length);
+
+const OPACITY_UTILITY = new RegExp(`^(${V4_REMOVED_OPACITY_UTILITIES.join('|')})-opacity-(\\d+|\\[[^\\]]+\\])$`);
+
+interface MigratedClass {
+  original: string;
+  variants: string[];
+  utility: string;
+  important: boolean;
+  reasons: string[];
+  /** Set when the class was merged into another one */
+  removed?: boolean;
+  /** Classes merged into this one, for the change log */
+  merged?: string[];
+}
+
+/**
+ * Collects the changes and warnings of one migration
+ */
+interface MigrationLog {
+  changes: Map<string, ClassChange>;
+  warnings: Map<string, Set<string>>;
+}
+
+/**
+ * The parts of the CSS entry point collected while translating a config
+ */
+interface ConfigTranslation {
+  imports: Map<string, string>;
+  importOptions: string[];
+  plugins: string[];
+  variants: string[];
+  theme: string[];
+  keyframes: string[];
+  notes: string[];
+  warnings: string[];
+}
+
+export class MigrationService implements BaseService {
+  private renames: Map<string, UtilityRename> = new Map();
+
+  async initialize(): Promise<void> {
+    for (const rename of V4_RENAMED_UTILITIES) {
+      this.renames.set(rename.from, rename);
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    this.renames.clear();
+  }
+
+  /**
+   * Rewrite v3 classes for v4
+   */
+  async migrateClasses(params: MigrateClassesParams): Promise<ClassMigrationResult> {
+    try {
+      const log: MigrationLog = { changes: new Map(), warnings: new Map() };
+
+      let attributes = 0;
+      const markup = params.content.replace(CLASS_ATTRIBUTE, (match, attribute: string, quote: string, value: string) => {
+        attributes++;
+        // Template literals with interpolations are left to the caller
+        return value.includes('${') ? match : `${attribute}${quote}${this.migrateClassList(value, log)}${quote}`;
+      });
+
+      const format = attributes > 0 ? 'markup' : 'classes';
+      return {
+        output: format === 'markup' ? markup : this.migrateClassList(params.content, log),
+        format,
+        changes: Array.from(log.changes.values()),
+        warnings: Array.from(log.warnings, ([warning, classes]) => `${Array.from(classes).join(', ')}: ${warning}`),
+      };
+    } catch (error) {
+      throw new ServiceError(
+        'Failed to migrate classes to TailwindCSS v4',
+        'MigrationService',
+        'migrateClasses',
+        error
+      );
+    }
+  }
+
+  /**
+   * Translate a v3 config file into a v4 CSS entry point without executing it
+   */
+  async migrateConfig(params: MigrateConfigParams): Promise<ConfigMigrationResult> {
+    let module: ConfigModule;
+    try {
+      module = parseConfigModule(params.config);
+    } catch (error) {
+      throw new ServiceError(
+        `Could not read the config: ${error instanceof Error ? error.message : String(error)}`,
+        'MigrationService',
+        'migrateConfig',
+        error,
+        { kind: 'invalid-params', details: { field: 'config' } }
+      );
+    }
+
+    try {
+      const translation: ConfigTranslation = {
+        imports: module.imports,
+        importOptions: [],
+        plugins: [],
+        variants: [],
+        theme: [],
+        keyframes: [],
+        notes: [],
+        warnings: [],
+      };
+      translateConfig(module.config, translation);
+
+      return {
+        css: formatEntryPoint(translation),
+        notes: translation.notes,
+        warnings: translation.warnings,
+      };
+    } catch (error) {
+      throw new ServiceError(
+        'Failed to migrate the config to TailwindCSS v4',
+        'MigrationService',
+        'migrateConfig',
+        error
+      );
+    }
+  }
+
+  /**
+   * Translate the variables of v4 @theme blocks into the theme.extend of a v3 config
+   */
+  async migrateThemeToV3(params: MigrateThemeParams): Promise<ThemeMigrationResult> {
+    const themes: AtRule[] = [];
+    try {
+      postcss.parse(params.css).walkAtRules('theme', rule => {
+        themes.push(rule);
+      });
+    } catch (error) {
+      throw new ServiceError(
+        `Invalid CSS: ${error instanceof Error ? error.message : String(error)}`,
+        'MigrationService',
+        'migrateThemeToV3',
+        error,
+        { kind: 'invalid-params', details: { field: 'css' } }
+      );
+    }
+    if (themes.length === 0) {
+      throw new ServiceError(
+        'No @theme block found in the CSS',
+        'MigrationService',
+        'migrateThemeToV3',
+        undefined,
+        { kind: 'invalid-params', details: { field: 'css' } }
+      );
+    }
+
+    try {
+      const warnings: string[] = [];
+      const variables = new Map<string, string>();
+      const keyframes: Record<string, ConfigLiteral> = {};
+
+      for (const theme of themes) {
+        theme.each(node => {
+          if (node.type === 'decl' && node.prop.startsWith('--')) {
+            variables.set(node.prop, node.value);
+          } else if (node.type === 'atrule' && node.name === 'keyframes') {
+            keyframes[node.params] = keyframeRules(node);
+          } else if (node.type !== 'comment') {
+            warnings.push(`${node.toString().split('\n')[0]}: only variables and @keyframes are read from @theme`);
+          }
+        });
+      }
+
+      const extension = themeExtension(variables, warnings);
+      if (Object.keys(keyframes).length > 0) {
+        extension.keyframes = keyframes;
+      }
+
+      const includeTypescript = params.includeTypescript ?? false;
+      return {
+        filename: `tailwind.config.${includeTypescript ? 'ts' : 'js'}`,
+        content: getVersionConfig('v3').generateTailwindConfig(params.contentPaths ?? DEFAULT_CONTENT_PATHS, includeTypescript, extension),
+        warnings,
+      };
+    } catch (error) {
+      throw new ServiceError(
+        'Failed to migrate the theme to TailwindCSS v3',
+        'MigrationService',
+        'migrateThemeToV3',
+        error
+      );
+    }
+  }
+
+  /**
+   * Migrates a whitespace-separated class list, keeping its whitespace
+   */
+  private migrateClassList(list: string, log: MigrationLog): string {
+    const tokens = list.split(/(\s+)/);
+    const classes = new Map<number, MigratedClass>();
+    tokens.forEach((token, index) => {
+      if (index % 2 === 0 && token) {
+        classes.set(index, this.migrateClass(token));
+      }
+    });
+
+    const all = Array.from(classes.values());
+    for (const entry of all) {
+      this.mergeOpacity(entry, all, log);
+    }
+
+    for (const [index, entry] of classes) {
+      if (entry.removed) {
+        tokens[index] = '';
+        // Drop the whitespace before the class, or after it at the start of the list
+        if (index > 0) {
+          tokens[index - 1] = '';
+        } else if (index + 1 < tokens.length) {
+          tokens[index + 1] = '';
+        }
+        continue;
+      }
+
+      const migrated = formatClass(entry);
+      tokens[index] = migrated;
+      if (entry.reasons.length > 0) {
+        const from = [entry.original, ...(entry.merged ?? [])].join(' ');
+        const key = `${from}\n${migrated}`;
+        const change = log.changes.get(key);
+        if (change) {
+          change.occurrences++;
+        } else {
+          log.changes.set(key, { from, to: migrated, reason: entry.reasons.join('; '), occurrences: 1 });
+        }
+      }
+      this.collectWarnings(entry, all, log);
+    }
+
+    return tokens.join('');
+  }
+
+  private migrateClass(className: string): MigratedClass {
+    const parts = splitVariants(className);
+    let utility = parts[parts.length - 1];
+    let variants = parts.slice(0, -1);
+    const reasons: string[] = [];
+
+    let important = utility.endsWith('!');
+    if (utility.startsWith('!')) {
+      utility = utility.slice(1);
+      important = true;
+      reasons.push('The important modifier moved to the end of the class');
+    } else if (important) {
+      utility = utility.slice(0, -1);
+    }
+
+    const rename = this.renames.get(utility);
+    if (rename) {
+      utility = rename.to;
+      reasons.push(rename.reason);
+    }
+
+    const reordered = reorderVariants(variants);
+    if (reordered) {
+      variants = reordered;
+      reasons.push('Stacked variants apply left to right in v4 instead of right to left');
+    }
+
+    return { original: className, variants, utility, important, reasons };
+  }
+
+  /**
+   * Moves a removed *-opacity-* utility onto the color of the same kind and variants as an opacity modifier
+   */
+  private mergeOpacity(entry: MigratedClass, classes: MigratedClass[], log: MigrationLog): void {
+    const match = OPACITY_UTILITY.exec(entry.utility);
+    if (!match) {
+      return;
+    }
+
+    const [, kind, opacity] = match;
+    const colorPattern = new RegExp(`^${kind === 'border' ? 'border(?:-[xytrblse])?' : kind}-${COLOR_VALUE}$`);
+    const target = classes.find(candidate =>
+      candidate !== entry && !candidate.removed && sameVariants(candidate, entry) && colorPattern.test(candidate.utility)
+    );
+    if (!target) {
+      addWarning(log, entry.original, `${kind}-opacity-* was removed in v4 and no ${kind} color with the same variants was found to take its opacity; use an opacity modifier such as ${kind}-black/50`);
+      return;
+    }
+
+    target.utility = `${target.utility}/${opacity}`;
+    target.reasons.push(`${kind}-opacity-* was removed in v4; the opacity is now a modifier on the color`);
+    target.merged = [...(target.merged ?? []), entry.original];
+    entry.removed = true;
+  }
+
+  private collectWarnings(entry: MigratedClass, classes: MigratedClass[], log: MigrationLog): void {
+    const className = formatClass(entry);
+    const utility = entry.utility.replace(/^-/, '');
+
+    for (const change of V4_BEHAVIOR_CHANGES) {
+      if (!change.utility.test(utility)) {
+        continue;
+      }
+      const unless = change.unlessSibling;
+      if (unless && classes.some(sibling => !sibling.removed && sameVariants(sibling, entry) && unless.test(sibling.utility))) {
+        continue;
+      }
+      addWarning(log, className, change.warning);
+    }
+
+    if (entry.variants.some(variant => parseVariant(variant, 'v4')?.atRule === HOVER_MEDIA)) {
+      addWarning(log, className, V4_HOVER_WARNING);
+    }
+  }
+}
+
+/**
+ * v3 applied stacked variants right to left and v4 applies them left to right. The order only
+ * matters when a variant moves to another element, e.g. `first:*:pt-0` becomes `*:first:pt-0`.
+ */
+function reorderVariants(variants: string[]): string[] | undefined {
+  // Variants only v4 knows, such as @md, are parsed as v4; plugin variants stay selectors
+  const parsed = variants.map(variant => ({ variant, rule: parseVariant(variant, 'v3') ?? parseVariant(variant, 'v4') }));
+  // At-rule variants wrap the whole rule, so their position in a stack does not matter
+  const atRules = parsed.filter(({ rule }) => rule?.atRule && !rule.selector);
+  const selectors = parsed.filter(entry => !atRules.includes(entry));
+  if (selectors.length < 2 || !selectors.some(({ rule }) => rule && targetsOtherElement(rule))) {
+    return undefined;
+  }
+  return [...atRules, ...selectors.reverse()].map(({ variant }) => variant);
+}
+
+/**
+ * Whether a variant moves the selector to another element, e.g. `& > *` to the children.
+ * Pseudo-elements don't count: v3 always moved them to the end of the selector.
+ */
+function targetsOtherElement(rule: VariantRule): boolean {
+  // The last compound selector, ignoring combinators inside :is() and attribute selectors
+  const subject = (rule.selector ?? '&').split(/\s*[\s>+~]\s*(?![^([]*[)\]])/).pop()!;
+  return !subject.includes('&');
+}
+
+function sameVariants(a: MigratedClass, b: MigratedClass): boolean {
+  return a.variants.join(':') === b.variants.join(':');
+}
+
+function formatClass(entry: MigratedClass): string {
+  return [...entry.variants, `${entry.utility}${entry.important ? '!' : ''}`].join(':');
+}
+
+function addWarning(log: MigrationLog, className: string, warning: string): void {
+  const classes = log.warnings.get(warning) ?? new Set<string>();
+  classes.add(className);
+  log.warnings.set(warning, classes);
+}
+
+function translateConfig(config: ConfigObject, translation: ConfigTranslation): void {
+  for (const spread of config.spreads) {
+    translation.warnings.push(`...${spread}: spread options can't be read statically; merge them into the CSS by hand`);
+  }
+
+  for (const [key, value] of config.entries) {
+    switch (key) {
+      case 'theme':
+        translateTheme(value, translation);
+        break;
+      case 'darkMode':
+        translateDarkMode(value, translation);
+        break;
+      case 'prefix':
+        translatePrefix(value, translation);
+        break;
+      case 'important':
+        if (value.type === 'literal' && value.value === true) {
+          translation.importOptions.push('important');
+        } else if (!(value.type === 'literal' && value.value === false)) {
+          translation.warnings.push(`important: ${describe(value)}: v4 can only mark every utility !important; wrap the utilities in the selector by hand`);
+        }
+        break;
+      case 'plugins':
+        translatePlugins(value, translation);
+        break;
+      case 'content':
+        translation.notes.push('content: v4 finds your source files automatically; add @source "…" for files it skips, such as git-ignored paths or packages in node_modules');
+        break;
+      default:
+        translation.warnings.push(`${key}: ${V4_UNSUPPORTED_CONFIG_KEYS[key] ?? 'Not a v4 option; translate it by hand'}`);
+    }
+  }
+}
+
+function translateTheme(theme: ConfigValue, translation: ConfigTranslation): void {
+  if (theme.type !== 'object') {
+    translation.warnings.push(`theme: ${describe(theme)} is computed; move its values into @theme by hand`);
+    return;
+  }
+
+  for (const spread of theme.spreads) {
+    translation.warnings.push(`theme: ...${spread} can't be read statically; move its values into @theme by hand`);
+  }
+  for (const [key, value] of theme.entries) {
+    if (key !== 'extend') {
+      // A key directly under theme replaces the defaults of its namespace
+      translateThemeKey(key, value, `theme.${key}`, true, translation);
+      continue;
+    }
+    if (value.type !== 'object') {
+      translation.warnings.push(`theme.extend: ${describe(value)} is computed; move its values into @theme by hand`);
+      continue;
+    }
+    for (const [extendKey, extendValue] of value.entries) {
+      translateThemeKey(extendKey, extendValue, `theme.extend.${extendKey}`, false, translation);
+    }
+  }
+}
+
+function translateThemeKey(key: string, value: ConfigValue, path: string, override: boolean, translation: ConfigTranslation): void {
+  if (key === 'keyframes') {
+    translateKeyframes(value, path, translation);
+    return;
+  }
+
+  const namespace = V4_THEME_NAMESPACES[key];
+  if (!namespace) {
+    translation.warnings.push(`${path}: v4 has no @theme namespace for ${key}; add the utilities with @utility`);
+    return;
+  }
+  if (value.type !== 'object') {
+    translation.warnings.push(`${path}: ${describe(value)} is computed; move its values into @theme by hand`);
+    return;
+  }
+
+  if (override) {
+    translation.theme.push(`--${namespace}-*: initial;`);
+  }
+  translateThemeValues(key, namespace, value, path, [], translation);
+}
+
+/**
+ * Flattens nested theme values into variables, e.g. colors.brand.DEFAULT → --color-brand
+ */
+function translateThemeValues(
+  key: string,
+  namespace: string,
+  object: ConfigObject,
+  path: string,
+  segments: string[],
+  translation: ConfigTranslation
+): void {
+  for (const spread of object.spreads) {
+    translation.warnings.push(`${path}: ...${spread} can't be read statically; add its values to @theme by hand`);
+  }
+
+  for (const [name, value] of object.entries) {
+    const nameSegments = name === 'DEFAULT' ? segments : [...segments, escapeThemeKey(name)];
+    const variable = `--${[namespace, ...nameSegments].join('-')}`;
+    const valuePath = `${path}.${name}`;
+
+    if (value.type === 'object' && key !== 'fontSize') {
+      if (key === 'screens') {
+        translation.warnings.push(`${valuePath}: min/max/raw screens have no @theme equivalent; use a @custom-variant`);
+      } else {
+        translateThemeValues(key, namespace, value, valuePath, nameSegments, translation);
+      }
+      continue;
+    }
+
+    if (key === 'fontFamily' && value.type === 'array') {
+      translateFontFamily(variable, value.items, valuePath, translation);
+    } else if (key === 'fontSize' && value.type === 'array') {
+      translateFontSize(variable, value.items, valuePath, translation);
+    } else {
+      const css = cssValue(value);
+      if (css === undefined) {
+        translation.warnings.push(`${valuePath}: ${describe(value)} is computed; add ${variable} to @theme by hand`);
+      } else {
+        translation.theme.push(`${variable}: ${css};`);
+      }
+    }
+  }
+}
+
+/**
+ * ['Inter', 'sans-serif'] or [['Inter', …], { fontFeatureSettings, fontVariationSettings }]
+ */
+function translateFontFamily(variable: string, items: ConfigValue[], path: string, translation: ConfigTranslation): void {
+  const [fonts, settings] = items[0]?.type === 'array' ? [items[0].items, items[1]] : [items, undefined];
+  const family = fonts.map(font => font.type === 'literal' && typeof font.value === 'string' ? quoteFontName(font.value) : undefined);
+  if (family.some(font => font === undefined)) {
+    translation.warnings.push(`${path}: ${fonts.filter(font => cssValue(font) === undefined).map(describe).join(', ')} can't be read statically; add ${variable} to @theme by hand`);
+    return;
+  }
+
+  translation.theme.push(`${variable}: ${family.join(', ')};`);
+  if (settings?.type === 'object') {
+    translateSubProperties(variable, settings, path, translation);
+  }
+}
+
+/**
+ * ['2rem', '2.5rem'] or ['2rem', { lineHeight, letterSpacing, fontWeight }]
+ */
+function translateFontSize(variable: string, items: ConfigValue[], path: string, translation: ConfigTranslation): void {
+  const size = items[0] && cssValue(items[0]);
+  if (size === undefined) {
+    translation.warnings.push(`${path}: ${describe(items[0] ?? { type: 'expression', source: '[]' })} can't be read statically; add ${variable} to @theme by hand`);
+    return;
+  }
+
+  translation.theme.push(`${variable}: ${size};`);
+  const options = items[1];
+  if (options?.type === 'object') {
+    translateSubProperties(variable, options, path, translation);
+  } else if (options) {
+    const lineHeight = cssValue(options);
+    if (lineHeight === undefined) {
+      translation.warnings.push(`${path}: the line height ${describe(options)} can't be read statically`);
+    } else {
+      translation.theme.push(`${variable}--line-height: ${lineHeight};`);
+    }
+  }
+}
+
+/**
+ * Companion variables such as --text-lg--line-height and --font-display--font-feature-settings
+ */
+function translateSubProperties(variable: string, options: ConfigObject, path: string, translation: ConfigTranslation): void {
+  for (const [name, value] of options.entries) {
+    const css = cssValue(value);
+    if (css === undefined) {
+      translation.warnings.push(`${path}.${name}: ${describe(value)} can't be read statically`);
+    } else {
+      translation.theme.push(`${variable}--${kebabCase(name)}: ${css};`);
+    }
+  }
+}
+
+function translateKeyframes(value: ConfigValue, path: string, translation: ConfigTranslation): void {
+  if (value.type !== 'object') {
+    translation.warnings.push(`${path}: ${describe(value)} is computed; add the @keyframes by hand`);
+    return;
+  }
+
+  for (const [name, frames] of value.entries) {
+    const lines = frames.type === 'object' ? formatRules(frames) : undefined;
+    if (!lines) {
+      translation.warnings.push(`${path}.${name}: the keyframes can't be read statically; add @keyframes ${name} by hand`);
+      continue;
+    }
+    translation.keyframes.push([`@keyframes ${name} {`, ...lines.map(line => `  ${line}`), '}'].join('\n'));
+  }
+}
+
+/**
+ * Nested CSS-in-JS rules as CSS lines, or undefined when a value is computed
+ */
+function formatRules(object: ConfigObject): string[] | undefined {
+  const lines: string[] = [];
+  for (const [selector, value] of object.entries) {
+    if (value.type === 'object') {
+      const nested = formatRules(value);
+      if (!nested) {
+        return undefined;
+      }
+      lines.push(`${selector} {`, ...nested.map(line => `  ${line}`), '}');
+    } else {
+      const css = cssValue(value);
+      if (css === undefined) {
+        return undefined;
+      }
+      lines.push(`${selector.startsWith('--') ? selector : kebabCase(selector)}: ${css};`);
+    }
+  }
+  return object.spreads.length > 0 ? undefined : lines;
+}
+
+function translateDarkMode(value: ConfigValue, translation: ConfigTranslation): void {
+  const [strategy, argument] = value.type === 'array' ? value.items : [value];
+  const mode = strategy?.type === 'literal' ? strategy.value : undefined;
+  const custom = argument?.type === 'literal' && typeof argument.value === 'string' ? argument.value : undefined;
+
+  if (mode === 'media' && !argument) {
+    // The v4 default
+    return;
+  }
+  if ((mode === 'class' || mode === 'selector') && (!argument || custom)) {
+    const selector = custom ?? '.dark';
+    translation.variants.push(`@custom-variant dark (&:where(${selector}, ${selector} *));`);
+    return;
+  }
+  if (mode === 'variant' && custom) {
+    translation.variants.push(`@custom-variant dark (${custom});`);
+    return;
+  }
+  translation.warnings.push(`darkMode: ${describe(value)} can't be translated; define the dark variant with @custom-variant dark (…)`);
+}
+
+function translatePrefix(value: ConfigValue, translation: ConfigTranslation): void {
+  const prefix = value.type === 'literal' && typeof value.value === 'string' ? value.value.replace(/-$/, '') : undefined;
+  if (!prefix) {
+    if (!(value.type === 'literal' && value.value === '')) {
+      translation.warnings.push(`prefix: ${describe(value)} can't be read statically; add prefix(…) to the @import by hand`);
+    }
+    return;
+  }
+  if (!/^[a-z]+$/i.test(prefix)) {
+    translation.warnings.push(`prefix: "${prefix}" is not supported; v4 prefixes may only contain letters`);
+    return;
+  }
+
+  translation.importOptions.unshift(`prefix(${prefix})`);
+  translation.notes.push(`prefix: Prefixes look like variants in v4 and always come first, so ${prefix}-flex hover:${prefix}-underline becomes ${prefix}:flex ${prefix}:hover:underline`);
+}
+
+function translatePlugins(value: ConfigValue, translation: ConfigTranslation): void {
+  if (value.type !== 'array') {
+    translation.warnings.push(`plugins: ${describe(value)} is computed; load each plugin with @plugin "…"`);
+    return;
+  }
+
+  for (const plugin of value.items) {
+    const [module, options] = pluginModule(plugin, translation.imports);
+    if (!module) {
+      translation.warnings.push(`plugins: ${describe(plugin)} is defined inline; move it into its own file and load it with @plugin "./path/to/plugin.js"`);
+      continue;
+    }
+    if (V4_BUILTIN_PLUGINS[module]) {
+      translation.notes.push(`${module}: ${V4_BUILTIN_PLUGINS[module]}`);
+      continue;
+    }
+    if (!options || options.entries.length === 0) {
+      translation.plugins.push(`@plugin "${module}";`);
+      continue;
+    }
+
+    const lines = options.entries.map(([name, option]) => {
+      const css = option.type === 'array' ? listValue(option.items) : cssValue(option);
+      if (css === undefined) {
+        translation.warnings.push(`plugins: the ${name} option of ${module} can't be written in CSS; configure it by hand`);
+      }
+      return css === undefined ? undefined : `  ${name}: ${css};`;
+    }).filter((line): line is string => line !== undefined);
+    translation.plugins.push([`@plugin "${module}" {`, ...lines, '}'].join('\n'));
+  }
+}
+
+/**
+ * The module and options of require('x'), require('x')({ … }), an imported binding or a call of one
+ */
+function pluginModule(plugin: ConfigValue, imports: Map<string, string>): [string | undefined, ConfigObject | undefined] {
+  if (plugin.type === 'expression') {
+    return [imports.get(plugin.source), undefined];
+  }
+  if (plugin.type !== 'call') {
+    return [undefined, undefined];
+  }
+
+  const [first, ...rest] = plugin.args;
+  if (plugin.callee === 'require') {
+    const module = first?.type === 'literal' && typeof first.value === 'string' ? first.value : undefined;
+    return [module, rest[0]?.type === 'object' ? rest[0] : undefined];
+  }
+  return [imports.get(plugin.callee), first?.type === 'object' ? first : undefined];
+}
+
+function formatEntryPoint(translation: ConfigTranslation): string {
+  const blocks = [
+    ['@import "tailwindcss"', ...translation.importOptions].join(' ') + ';',
+    translation.plugins.join('\n'),
+    translation.variants.join('\n'),
+  ];
+
+  if (translation.theme.length > 0 || translation.keyframes.length > 0) {
+    const body = [translation.theme.join('\n'), ...translation.keyframes].filter(Boolean).join('\n\n');
+    blocks.push(['@theme {', ...body.split('\n').map(line => line ? `  ${line}` : ''), '}'].join('\n'));
+  }
+  return `${blocks.filter(Boolean).join('\n\n')}\n`;
+}
+
+/**
+ * A literal as a CSS value, or undefined for computed values
+ */
+function cssValue(value: ConfigValue): string | undefined {
+  if (value.type === 'literal') {
+    return value.value === null || typeof value.value === 'boolean' ? undefined : String(value.value);
+  }
+  return value.type === 'array' ? listValue(value.items) : undefined;
+}
+
+function listValue(items: ConfigValue[]): string | undefined {
+  const values = items.map(cssValue);
+  return values.some(item => item === undefined) ? undefined : values.join(', ');
+}
+
+function quoteFontName(font: string): string {
+  return /\s/.test(font) && !/^["'].*["']$/.test(font) ? `"${font}"` : font;
+}
+
+/**
+ * Theme key as part of a variable name the way v4 reads it back as a utility value:
+ * dots become underscores and other characters identifiers can't hold are escaped, e.g. 1/2 → 1\/2
+ */
+function escapeThemeKey(key: string): string {
+  return key.replace(/\./g, '_').replace(/[^\w\-\u0080-\uffff]/g, character => /[\0-\x1f\x7f]/.test(character)
+    ? `\\${character.charCodeAt(0).toString(16)} `
+    : `\\${character}`);
+}
+
+function unescapeThemeKey(name: string): string {
+  return name
+    .replace(/_/g, '.')
+    .replace(/\\([0-9a-f]{1,6}) ?|\\(.)/gi, (_, hex: string | undefined, character: string) => hex ? String.fromCodePoint(parseInt(hex, 16)) : character);
+}
+
+function kebabCase(name: string): string {
+  return name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+}
+
+/**
+ * Short source text of a value for warnings
+ */
+function describe(value: ConfigValue): string {
+  const source = value.type === 'expression' || value.type === 'call'
+    ? value.source
+    : value.type === 'literal' ? JSON.stringify(value.value) : value.type;
+  const line = source.replace(/\s+/g, ' ');
+  return `\`${line.length > 60 ? `${line.slice(0, 57)}...` : line}\``;
+}
+
+/**
+ * Groups @theme variables by v3 theme key, e.g. --color-brand-500 → colors.brand[500]
+ */
+function themeExtension(variables: Map<string, string>, warnings: string[]): Record<string, ConfigLiteral> {
+  const values = new Map<string, Map<string, string>>();
+  const subProperties = new Map<string, Map<string, Record<string, string>>>();
+
+  for (const [variable, raw] of variables) {
+    const name = variable.slice(2);
+    if (name === '*' || name.endsWith('-*')) {
+      warnings.push(`${variable}: ${raw} resets the v4 defaults; to replace the v3 defaults too, move these values from theme.extend to theme`);
+      continue;
+    }
+
+    const [base, subProperty] = name.split('--');
+    const match = V3_THEME_KEYS.find(({ namespace }) => base === namespace || base.startsWith(`${namespace}-`));
+    if (!match) {
+      warnings.push(`${variable}: no v3 theme key matches this variable; keep it as a CSS variable in your stylesheet`);
+      continue;
+    }
+    if (base === match.namespace) {
+      warnings.push(`${variable}: v4 derives the ${match.key} scale from this value; v3 needs every step listed in theme.extend.${match.key}`);
+      continue;
+    }
+
+    const value = resolveReference(raw, variables);
+    if (/var\(--/.test(value) && Array.from(value.matchAll(/var\((--[\w-]+)/g)).some(([, reference]) => variables.has(reference))) {
+      warnings.push(`${variable}: ${raw} refers to theme variables, which v3 doesn't define; replace the reference with its value`);
+    }
+
+    const token = unescapeThemeKey(base.slice(match.namespace.length + 1));
+    if (subProperty) {
+      if (match.key !== 'fontFamily' && match.key !== 'fontSize') {
+        warnings.push(`${variable}: v3 has no ${subProperty} option for ${match.key}`);
+        continue;
+      }
+      const tokens = subProperties.get(match.key) ?? new Map<string, Record<string, string>>();
+      tokens.set(token, { ...tokens.get(token), [camelCase(subProperty)]: value });
+      subProperties.set(match.key, tokens);
+      continue;
+    }
+    const tokens = values.get(match.key) ?? new Map<string, string>();
+    tokens.set(token, value);
+    values.set(match.key, tokens);
+  }
+
+  const extension: Record<string, ConfigLiteral> = {};
+  for (const [key, tokens] of values) {
+    if (key === 'colors') {
+      extension.colors = nestColors(tokens);
+      continue;
+    }
+
+    const entries: Record<string, ConfigLiteral> = {};
+    for (const [token, value] of tokens) {
+      const options = subProperties.get(key)?.get(token);
+      const base = key === 'fontFamily' ? splitList(value) : value;
+      entries[token] = options ? [base, options] : base;
+    }
+    extension[key] = entries;
+  }
+
+  for (const [key, tokens] of subProperties) {
+    for (const token of tokens.keys()) {
+      if (!values.get(key)?.has(token)) {
+        const variable = `--${V4_THEME_NAMESPACES[key]}-${escapeThemeKey(token)}`;
+        warnings.push(`${variable}--*: skipped because ${variable} is not defined`);
+      }
+    }
+  }
+  return extension;
+}
+
+/**
+ * --color-blue-500 becomes colors.blue[500]; a bare --color-blue next to a scale becomes its DEFAULT
+ */
+function nestColors(tokens: Map<string, string>): Record<string, ConfigLiteral> {
+  const colors: Record<string, ConfigLiteral> = {};
+  const scales = new Map<string, Record<string, string>>();
+
+  for (const [token, value] of tokens) {
+    const shade = /^(.+)-(\d+)$/.exec(token);
+    if (shade) {
+      scales.set(shade[1], { ...scales.get(shade[1]), [shade[2]]: value });
+    } else {
+      colors[token] = value;
+    }
+  }
+  for (const [name, scale] of scales) {
+    const base = colors[name];
+    colors[name] = typeof base === 'string' ? { DEFAULT: base, ...scale } : scale;
+  }
+  return colors;
+}
+
+/**
+ * Replaces a value that is only a reference to another theme variable with that variable's value
+ */
+function resolveReference(value: string, variables: Map<string, string>, depth = 0): string {
+  const reference = /^var\((--[\w-]+)\)$/.exec(value.trim());
+  const resolved = reference && variables.get(reference[1]);
+  return resolved && depth < 5 ? resolveReference(resolved, variables, depth + 1) : value;
+}
+
+function keyframeRules(keyframes: AtRule): Record<string, ConfigLiteral> {
+  const rules: Record<string, ConfigLiteral> = {};
+  keyframes.walkRules(rule => {
+    const declarations: Record<string, string> = {};
+    rule.walkDecls(declaration => {
+      declarations[declaration.prop.startsWith('--') ? declaration.prop : camelCase(declaration.prop)] = declaration.value;
+    });
+    rules[rule.selector] = declarations;
+  });
+  return rules;
+}
+
+/**
+ * Splits a comma-separated list such as a font stack, ignoring commas inside quotes and parentheses
+ */
+function splitList(value: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let depth = 0;
+  let quote = '';
+  for (const char of value) {
+    if (quote) {
+      quote = char === quote ? '' : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  return [...items, current.trim()].filter(Boolean);
+}
+
+function camelCase(name: string): string {
+  return name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
@@ -0,0 +1,346 @@
+/**
+ * Project Detection Service for TailwindCSS MCP Server
+ * Inspects a local project directory to find its TailwindCSS version, integration style,
+ * framework and package manager
+ */
+
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { join, relative, resolve } from 'node:path';
+import { BaseService, ServiceError } from './base.js';
+import type { DetectSetupParams, TailwindIntegration, TailwindSetup } from '../types/index.js';
+import { SUPPORTED_RELEASES, SUPPORTED_VERSIONS } from '../version/index.js';
+import type { TailwindRelease, TailwindVersion } from '../version/index.js';
+
+type PackageManager = NonNullable<TailwindSetup['packageManager']>;
+
+interface PackageJson {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  scripts?: Record<string, string>;
+  packageManager?: string;
+}
+
+interface Stylesheet {
+  path: string;
+  content: string;
+}
+
+/** Lockfiles and the package manager that writes them, in the order they are checked */
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+];
+
+/** Where each text lockfile records the resolved tailwindcss version */
+const LOCKED_VERSION_PATTERNS: Record<string, RegExp> = {
+  'bun.lock': /"tailwindcss@(\d+\.\d+\.\d+[^"]*)"/,
+  'pnpm-lock.yaml': /^\s+'?\/?tailwindcss[@/](\d+\.\d+\.\d+[^:('\s]*)/m,
+  'yarn.lock': /^"?tailwindcss@[^\n]*\n\s+version:? "?(\d+\.\d+\.\d+[^"\s]*)/m,
+};
+
+const CONFIG_FILE_PATTERN = /^(?:(?:tailwind|postcss|vite)\.config\.(?:js|cjs|mjs|ts|cts|mts|json)|\.postcssrc(?:\.json|\.js|\.cjs|\.ya?ml)?)$/;
+
+/** Packages that identify each framework key of the installation service, most specific first */
+const FRAMEWORK_PACKAGES: Array<[string, string[]]> = [
+  ['nextjs', ['next']],
+  ['laravel', ['laravel/framework', 'laravel-vite-plugin', 'laravel-mix']],
+  ['angular', ['@angular/core']],
+  ['svelte', ['@sveltejs/kit', 'svelte']],
+  ['vue', ['nuxt', 'vue']],
+  ['react', ['react']],
+  ['vite', ['vite']],
+];
+
+const V4_STYLESHEET = /@import\s+(?:url\()?["']tailwindcss["']|@theme\b|@custom-variant\b|@utility\b/;
+const V3_STYLESHEET = /@tailwind\s+(?:base|components|utilities)\b|@import\s+["']tailwindcss\/(?:base|components|utilities)/;
+const STYLESHEET_EXTENSIONS = /\.(?:css|pcss|postcss)$/;
+const CLI_SCRIPT = /\btailwindcss\b[^&|;]*\s(?:-i|--input|-o|--output)\b/;
+
+/** Directories that never hold the project's own stylesheets */
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', 'out', 'coverage', 'vendor']);
+const MAX_SEARCH_DEPTH = 4;
+const MAX_STYLESHEETS = 200;
+
+export class ProjectDetectionService implements BaseService {
+  async initialize(): Promise<void> {
+    // Stateless: every call reads the project from disk
+  }
+
+  async cleanup(): Promise<void> {
+    // Nothing to release
+  }
+
+  /**
+   * Detect the TailwindCSS setup of a project directory
+   */
+  async detectSetup(params: DetectSetupParams = {}): Promise<TailwindSetup> {
+    const directory = resolve(params.directory ?? '.');
+
+    try {
+      await this.assertDirectory(directory, params.directory ?? directory);
+
+      const files = await readdir(directory);
+      const packageJson = await readJson<PackageJson>(join(directory, 'package.json'));
+      const composerJson = await readJson<{ require?: Record<string, string> }>(join(directory, 'composer.json'));
+      const dependencies: Record<string, string> = {
+        ...packageJson?.peerDependencies,
+        ...packageJson?.devDependencies,
+        ...packageJson?.dependencies,
+      };
+      const packages = new Set([...Object.keys(dependencies), ...Object.keys(composerJson?.require ?? {})]);
+
+      const configFiles = files.filter(file => CONFIG_FILE_PATTERN.test(file)).sort();
+      const configs = new Map<string, string>();
+      for (const file of configFiles) {
+        configs.set(file, await readFile(join(directory, file), 'utf8').catch(() => ''));
+      }
+      const stylesheets = await this.findTailwindStylesheets(directory);
+
+      const evidence: string[] = [];
+      const setup: TailwindSetup = {
+        directory,
+        detected: false,
+        configFiles,
+        cssEntries: stylesheets.map(stylesheet => stylesheet.path),
+        evidence,
+      };
+
+      const packageVersion = await this.findPackageVersion(directory, files, dependencies);
+      const inferred = inferVersion(packages, configs, stylesheets);
+      if (packageVersion) {
+        setup.packageVersion = packageVersion.value;
+        setup.versionSource = packageVersion.source;
+        const parsed = parseVersion(packageVersion.value);
+        if (parsed) {
+          Object.assign(setup, parsed);
+          evidence.push(`tailwindcss ${packageVersion.value} found in ${packageVersion.file}`);
+        } else {
+          evidence.push(`tailwindcss ${packageVersion.value} found in ${packageVersion.file} is not a supported version (${SUPPORTED_VERSIONS.join(', ')})`);
+        }
+        if (inferred && setup.version && inferred.version !== setup.version) {
+          evidence.push(`${inferred.reason}, which is ${inferred.version} syntax; the project may be mid-migration`);
+        }
+      } else if (inferred) {
+        setup.version = inferred.version;
+        setup.release = SUPPORTED_RELEASES.filter(release => release.startsWith(`${inferred.version}.`)).pop();
+        setup.versionSource = 'setup';
+        evidence.push(inferred.reason);
+      }
+
+      const integration = detectIntegration(packages, configs, packageJson?.scripts ?? {});
+      if (integration) {
+        setup.integration = integration.integration;
+        evidence.push(integration.reason);
+      }
+
+      const framework = FRAMEWORK_PACKAGES.find(([, names]) => names.some(name => packages.has(name)));
+      if (framework) {
+        setup.framework = framework[0];
+        evidence.push(`${framework[1].find(name => packages.has(name))} identifies the ${framework[0]} framework`);
+      }
+
+      const packageManager = detectPackageManager(packageJson, files);
+      if (packageManager) {
+        setup.packageManager = packageManager.packageManager;
+        evidence.push(packageManager.reason);
+      }
+
+      setup.detected = Boolean(
+        packageVersion || inferred || integration || [...packages].some(name => name.startsWith('@tailwindcss/'))
+          || configFiles.some(file => file.startsWith('tailwind.'))
+      );
+      if (!setup.detected) {
+        evidence.push('No TailwindCSS dependency, config file or stylesheet found');
+      }
+
+      return setup;
+    } catch (error) {
+      if (error instanceof ServiceError) {
+        throw error;
+      }
+      throw new ServiceError(
+        `Failed to detect the TailwindCSS setup of ${directory}`,
+        'ProjectDetectionService',
+        'detectSetup',
+        error
+      );
+    }
+  }
+
+  private async assertDirectory(directory: string, given: string): Promise<void> {
+    const stats = await stat(directory).catch(() => undefined);
+    if (!stats?.isDirectory()) {
+      throw new ServiceError(
+        stats ? `Not a directory: ${given}` : `Directory not found: ${given}`,
+        'ProjectDetectionService',
+        'detectSetup',
+        undefined,
+        { kind: 'invalid-params', details: { field: 'directory', value: given } }
+      );
+    }
+  }
+
+  /**
+   * The tailwindcss version installed in node_modules, resolved in a lockfile or declared in package.json
+   */
+  private async findPackageVersion(
+    directory: string,
+    files: string[],
+    dependencies: Record<string, string>
+  ): Promise<{ value: string; source: NonNullable<TailwindSetup['versionSource']>; file: string } | undefined> {
+    const installedFile = join('node_modules', 'tailwindcss', 'package.json');
+    const installed = await readJson<{ version?: string }>(join(directory, installedFile));
+    if (installed?.version) {
+      return { value: installed.version, source: 'node_modules', file: installedFile };
+    }
+
+    for (const [lockfile] of LOCKFILES) {
+      if (!files.includes(lockfile) || lockfile === 'bun.lockb') {
+        continue;
+      }
+      const content = await readFile(join(directory, lockfile), 'utf8').catch(() => '');
+      const locked = lockfile === 'package-lock.json' ? readNpmLockfile(content) : LOCKED_VERSION_PATTERNS[lockfile].exec(content)?.[1];
+      if (locked) {
+        return { value: locked, source: 'lockfile', file: lockfile };
+      }
+    }
+
+    return dependencies.tailwindcss ? { value: dependencies.tailwindcss, source: 'package.json', file: 'package.json' } : undefined;
+  }
+
+  /**
+   * Stylesheets that load TailwindCSS, searched a few levels deep outside build output and dependencies
+   */
+  private async findTailwindStylesheets(root: string): Promise<Stylesheet[]> {
+    const stylesheets: Stylesheet[] = [];
+    let scanned = 0;
+
+    const visit = async (directory: string, depth: number): Promise<void> => {
+      const entries = await readdir(directory, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        if (scanned >= MAX_STYLESHEETS) {
+          return;
+        }
+        const path = join(directory, entry.name);
+        if (entry.isDirectory()) {
+          if (depth < MAX_SEARCH_DEPTH && !entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.has(entry.name)) {
+            await visit(path, depth + 1);
+          }
+        } else if (entry.isFile() && STYLESHEET_EXTENSIONS.test(entry.name)) {
+          scanned++;
+          const content = await readFile(path, 'utf8').catch(() => '');
+          if (V4_STYLESHEET.test(content) || V3_STYLESHEET.test(content)) {
+            stylesheets.push({ path: relative(root, path).split('\\').join('/'), content });
+          }
+        }
+      }
+    };
+
+    await visit(root, 0);
+    return stylesheets;
+  }
+}
+
+/**
+ * Maps a version or range such as "4.1.3" or "^3.4.0" to the major version and the release it
+ * guarantees; minor versions newer than the model resolve to the latest known release
+ */
+function parseVersion(text: string): { version: TailwindVersion; release: TailwindRelease } | undefined {
+  const match = /(\d+)(?:\.(\d+))?/.exec(text);
+  const version = match && `v${match[1]}` as TailwindVersion;
+  if (!version || !SUPPORTED_VERSIONS.includes(version)) {
+    return undefined;
+  }
+  const minor = Number(match[2] ?? 0);
+  const releases = SUPPORTED_RELEASES.filter(release => release.startsWith(`${version}.`));
+  const release = releases.filter(candidate => Number(candidate.split('.')[1]) <= minor).pop() ?? releases[0];
+  return { version, release };
+}
+
+/**
+ * Guesses the major version from the dependencies, config files and stylesheets
+ */
+function inferVersion(
+  packages: Set<string>,
+  configs: Map<string, string>,
+  stylesheets: Stylesheet[]
+): { version: TailwindVersion; reason: string } | undefined {
+  const v4Package = ['@tailwindcss/postcss', '@tailwindcss/vite', '@tailwindcss/cli'].find(name => packages.has(name));
+  if (v4Package) {
+    return { version: 'v4', reason: `${v4Package} is a dependency` };
+  }
+  const v4Stylesheet = stylesheets.find(stylesheet => V4_STYLESHEET.test(stylesheet.content));
+  if (v4Stylesheet) {
+    return { version: 'v4', reason: `${v4Stylesheet.path} uses @import "tailwindcss" or @theme` };
+  }
+  const v3Stylesheet = stylesheets.find(stylesheet => V3_STYLESHEET.test(stylesheet.content));
+  if (v3Stylesheet) {
+    return { version: 'v3', reason: `${v3Stylesheet.path} uses @tailwind directives` };
+  }
+  const tailwindConfig = [...configs.keys()].find(file => file.startsWith('tailwind.'));
+  if (tailwindConfig) {
+    return { version: 'v3', reason: `${tailwindConfig} configures the theme in JavaScript` };
+  }
+  return undefined;
+}
+
+function detectIntegration(
+  packages: Set<string>,
+  configs: Map<string, string>,
+  scripts: Record<string, string>
+): { integration: TailwindIntegration; reason: string } | undefined {
+  const viteConfig = [...configs].find(([file, content]) => file.startsWith('vite.') && content.includes('@tailwindcss/vite'));
+  if (packages.has('@tailwindcss/vite') || viteConfig) {
+    return { integration: 'vite', reason: viteConfig ? `${viteConfig[0]} loads @tailwindcss/vite` : '@tailwindcss/vite is a dependency' };
+  }
+
+  const postcssConfig = [...configs].find(([file, content]) => !file.startsWith('vite.') && !file.startsWith('tailwind.') && content.includes('tailwindcss'));
+  if (packages.has('@tailwindcss/postcss') || postcssConfig) {
+    return { integration: 'postcss', reason: postcssConfig ? `${postcssConfig[0]} loads the TailwindCSS PostCSS plugin` : '@tailwindcss/postcss is a dependency' };
+  }
+
+  const cliScript = Object.entries(scripts).find(([, command]) => CLI_SCRIPT.test(command));
+  if (packages.has('@tailwindcss/cli') || cliScript) {
+    return { integration: 'cli', reason: cliScript ? `the "${cliScript[0]}" script runs the TailwindCSS CLI` : '@tailwindcss/cli is a dependency' };
+  }
+
+  return undefined;
+}
+
+function detectPackageManager(
+  packageJson: PackageJson | undefined,
+  files: string[]
+): { packageManager: PackageManager; reason: string } | undefined {
+  const declared = packageJson?.packageManager?.split('@')[0];
+  const known = LOCKFILES.map(([, packageManager]) => packageManager);
+  if (declared && known.includes(declared as PackageManager)) {
+    return { packageManager: declared as PackageManager, reason: `package.json declares packageManager ${packageJson!.packageManager}` };
+  }
+
+  const lockfile = LOCKFILES.find(([file]) => files.includes(file));
+  return lockfile ? { packageManager: lockfile[1], reason: `${lockfile[0]} is present` } : undefined;
+}
+
+function readNpmLockfile(content: string): string | undefined {
+  try {
+    const lockfile = JSON.parse(content);
+    return lockfile.packages?.['node_modules/tailwindcss']?.version ?? lockfile.dependencies?.tailwindcss?.version;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads a JSON file, or undefined when it is missing or malformed
+ */
+async function readJson<T>(path: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as T;
+  } catch {
+    return undefined;
+  }
+}
@@ -10,6 +10,7 @@ import type {
   GenerateTemplateParams,
   GeneratePaletteParams
 } from '../types/index.js';
+import { suggestAlternatives } from '../utils/suggestions.js';
 import { getVersionConfig, DEFAULT_VERSION } from '../version/index.js';
 import type { TailwindVersion } from '../version/index.js';
 
@@ -33,10 +34,16 @@ export class TemplateService implements BaseService {
       
       const generator = this.componentTemplates.get(componentType.toLowerCase());
       if (!generator) {
+        const allowedValues = Array.from(this.componentTemplates.keys());
         throw new ServiceError(
           `Unsupported component type: ${componentType}`,
           'TemplateService',
-          'generateComponentTemplate'
+          'generateComponentTemplate',
+          undefined,
+          {
+            kind: 'invalid-params',
+            details: { field: 'componentType', value: componentType, allowedValues, suggestions: suggestAlternatives(componentType, allowedValues) },
+          }
         );
       }
 
@@ -66,7 +73,9 @@ export class TemplateService implements BaseService {
         throw new ServiceError(
           `Invalid color format: ${baseColor}. Use hex, rgb, or hsl format.`,
           'TemplateService',
-          'generateColorPalette'
+          'generateColorPalette',
+          undefined,
+          { kind: 'invalid-params', details: { field: 'baseColor', value: baseColor } }
         );
       }
 
@@ -1,6 +1,7 @@
 /**
  * Utility Mapper Service for TailwindCSS MCP Server
- * Handles mapping between CSS properties and TailwindCSS utility classes
+ * Handles mapping between CSS properties and TailwindCSS utility classes, and compares
+ * what a class means in v3 and v4
  */
 
 import { parse } from 'css-tree';
@@ -13,25 +14,126 @@ import {
   ConversionResult,
   ColorInfo,
   GetUtilitiesParams,
-  GetColorsParams
+  GetColorsParams,
+  ClassVersionDetails,
+  CompareVersionsParams,
+  VersionComparison,
+  ClassExplanation,
+  ExplainClassParams
 } from '../types/index.js';
-import { getVersionConfig, DEFAULT_VERSION } from '../version/index.js';
+import { splitVariants } from '../utils/class-names.js';
+import { FRACTION_SCALE, SPACING_SCALE } from './conversion-service.js';
+import {
+  COLOR_PALETTES,
+  COLOR_VALUE,
+  getClassRequirement,
+  getVersionConfig,
+  isReleaseAtLeast,
+  resolveVersion,
+  DEFAULT_VERSION,
+  HOVER_MEDIA,
+  SUPPORTED_VERSIONS,
+  UTILITY_CATEGORIES,
+  UTILITY_DEFAULT_DEPENDENCIES,
+  UTILITY_FAMILIES,
+  V4_BEHAVIOR_CHANGES,
+  V4_HOVER_WARNING,
+  V4_REMOVED_OPACITY_UTILITIES,
+  V4_RENAMED_UTILITIES,
+  applyVariants,
+  decodeArbitrary,
+  getCategoryVariants,
+  parseClass,
+} from '../version/index.js';
+import type { TailwindRelease, TailwindVersion, UtilityCategoryId, UtilityFamily } from '../version/index.js';
+import { createLogger } from '../logging/index.js';
+
+const logger = createLogger('UtilityMapperService');
+
+type ValueType = 'color' | 'image' | 'length' | 'number' | 'position' | 'any' | 'other';
+
+/** How a family takes arbitrary and theme values, e.g. blur-[2px] → filter: blur(2px) */
+interface ValueFamily {
+  family: UtilityFamily;
+  /** The class prefix, e.g. `mt` for mt-4 */
+  prefix: string;
+  /** Function every value is wrapped in, e.g. blur */
+  wrapper?: string;
+  /** The kind of value most classes set */
+  type: ValueType;
+  /** Has negative classes such as -mt-4 */
+  negative: boolean;
+  /** Takes spacing scale steps, e.g. p-4 */
+  spacing: boolean;
+  /** Takes fractions, e.g. w-1/2 */
+  fractions: boolean;
+  /** Takes the arbitrary values of its prefix ahead of the other families, see UtilityFamily.arbitrary */
+  claimed: boolean;
+}
+
+/** The declarations a utility generates, before variants are applied */
+interface ResolvedUtility {
+  source: ClassExplanation['source'];
+  declarations: string[];
+  /** The color the declarations set, for opacity modifiers */
+  color?: string;
+  notes: string[];
+}
+
+/** Type hints of arbitrary values, e.g. bg-[length:200px_100px] */
+const ARBITRARY_TYPE_HINTS: Record<string, ValueType> = {
+  color: 'color',
+  length: 'length',
+  percentage: 'length',
+  'absolute-size': 'length',
+  'relative-size': 'length',
+  number: 'number',
+  url: 'image',
+  image: 'image',
+  'family-name': 'other',
+  position: 'position',
+  size: 'length',
+};
+
+/** Utilities whose rule targets the element's children, with the selector each version uses */
+const CHILD_SELECTORS: Array<[RegExp, Record<TailwindVersion, string>]> = [
+  [/^(?:-?space-[xy]|divide-)/, { v3: '& > :not([hidden]) ~ :not([hidden])', v4: ':where(& > :not(:last-child))' }],
+];
 
 export class UtilityMapperService implements BaseService {
   private utilityMap: Map<string, TailwindUtility> = new Map();
   private cssPropertyMap: Map<string, string[]> = new Map();
-  private colorMap: Map<string, ColorInfo> = new Map();
+  /** The CSS each catalog class generates, e.g. `padding: 1rem` for p-4 */
+  private declarations: Map<string, string> = new Map();
+  /**
+   * Catalog classes whose v4 form differs, by v4 name: v3 shadow-sm is listed as shadow-xs there.
+   * `resolved` is the CSS with the default theme values in place of the theme variables.
+   */
+  private v4Utilities: Map<string, { utility: TailwindUtility; declarations: string; resolved: string }> = new Map();
+  /** The family of each catalog class */
+  private classFamilies: Map<string, UtilityFamily> = new Map();
+  /** Families by class prefix, for arbitrary and theme values such as mt-[3px] */
+  private valueFamilies: Map<string, ValueFamily[]> = new Map();
+  private colorMaps: Record<TailwindVersion, Map<string, ColorInfo>> = { v3: new Map(), v4: new Map() };
+  /** The modifiers of a category's utilities by category and release */
+  private modifiers: Map<string, UtilityModifier[]> = new Map();
 
   async initialize(): Promise<void> {
-    await this.loadUtilityMappings();
+    // Color utilities are generated from the palette
     await this.loadColorMappings();
-    console.error('UtilityMapperService initialized');
+    await this.loadUtilityMappings();
+    logger.info('UtilityMapperService initialized');
   }
 
   async cleanup(): Promise<void> {
     this.utilityMap.clear();
     this.cssPropertyMap.clear();
-    this.colorMap.clear();
+    this.declarations.clear();
+    this.v4Utilities.clear();
+    this.classFamilies.clear();
+    this.valueFamilies.clear();
+    this.colorMaps = { v3: new Map(), v4: new Map() };
+    this.modifiers.clear();
   }
 
   /**
@@ -96,6 +198,25 @@ export class UtilityMapperService implements BaseService {
       .filter(utility => utility.category.id === category);
   }
 
+  /**
+   * Gets the ids of all utility categories
+   */
+  getCategories(): string[] {
+    const categories = new Set(Array.from(this.utilityMap.values()).map(utility => utility.category.id));
+    return Array.from(categories).sort();
+  }
+
+  /**
+   * Counts the utilities, categories and colors in the built-in catalog
+   */
+  getCatalogSize(): { utilities: number; categories: number; colors: number } {
+    return {
+      utilities: this.utilityMap.size,
+      categories: this.getCategories().length,
+      colors: this.colorMaps[DEFAULT_VERSION].size,
+    };
+  }
+
   /**
    * Gets all utilities for a specific CSS property
    */
@@ -142,27 +263,380 @@ export class UtilityMapperService implements BaseService {
       utilities = Array.from(this.utilityMap.values());
     }
 
-    // Apply version-specific utility renames
+    // Leave out utilities the requested release does not ship
     const version = params.version || DEFAULT_VERSION;
-    const versionConfig = getVersionConfig(version);
-    if (versionConfig.renamedUtilities.size > 0) {
-      utilities = utilities.map(utility => {
-        const renamedName = versionConfig.renamedUtilities.get(utility.name);
-        if (renamedName) {
-          return { ...utility, name: renamedName, id: renamedName };
+    const release = params.release ?? resolveVersion(version).release;
+    utilities = utilities.filter(utility =>
+      (!utility.minVersion || isReleaseAtLeast(release, utility.minVersion)) &&
+      (!utility.maxVersion || isReleaseAtLeast(utility.maxVersion, release))
+    );
+
+    // Use the v4 names and CSS; renames can give two v3 classes the same v4 class, such as
+    // rounded (now rounded-sm) and rounded-sm (still shipped with other CSS)
+    if (version === 'v4') {
+      const forms = new Map<string, TailwindUtility>();
+      for (const utility of utilities) {
+        for (const name of v4Names(utility.name)) {
+          const form = this.v4Utilities.get(name)?.utility;
+          if (form || !forms.has(name)) {
+            forms.set(name, form ?? utility);
+          }
         }
-        return utility;
-      });
+      }
+      utilities = Array.from(forms.values());
+    }
+
+    // List the variants of the requested release
+    return utilities.map(utility => {
+      const modifiers = this.getModifiers(utility.category.id as UtilityCategoryId, release);
+      return modifiers === utility.modifiers ? utility : { ...utility, modifiers };
+    });
+  }
+
+  /**
+   * Compares what classes generate in v3 and v4: availability, CSS, the defaults they
+   * rely on and the upgrade notes that apply
+   */
+  async compareVersions(params: CompareVersionsParams): Promise<VersionComparison[]> {
+    if (!params.classes && !params.utility && !params.category) {
+      throw new ServiceError(
+        'Pass classes, a utility or a category to compare',
+        'UtilityMapperService',
+        'compareVersions',
+        undefined,
+        { kind: 'invalid-params', details: { field: 'classes' } }
+      );
     }
 
-    return utilities;
+    const classes = [
+      ...(params.classes?.split(/\s+/).filter(Boolean) ?? []),
+      ...(params.utility ? this.getUtilityScale(params.utility) : []),
+      ...(params.category ? this.getUtilitiesByCategory(params.category).map(utility => utility.name) : []),
+    ];
+    const utilities = classes.map(className => splitVariants(className).pop()!.replace(/^!|!$/g, ''));
+
+    return Array.from(new Set(classes)).map(className => this.compareClass(className, utilities));
+  }
+
+  /**
+   * Every known class of a utility: `shadow` gives shadow, shadow-2xs, shadow-xs, shadow-sm, …
+   */
+  private getUtilityScale(utility: string): string[] {
+    const known = [
+      ...this.utilityMap.keys(),
+      ...Object.keys(getVersionConfig('v3').utilityCss),
+      ...Object.keys(getVersionConfig('v4').utilityCss),
+      ...V4_RENAMED_UTILITIES.flatMap(rename => [rename.from, rename.to]),
+    ];
+    return Array.from(new Set(known.filter(name => name === utility || name.startsWith(`${utility}-`))));
+  }
+
+  private compareClass(className: string, siblings: string[]): VersionComparison {
+    const parts = splitVariants(className);
+    const variants = parts.slice(0, -1);
+    const utility = parts[parts.length - 1].replace(/^!|!$/g, '');
+    const withVariants = (name: string) => [...variants, name].join(':');
+    const notes: string[] = [];
+
+    const rename = V4_RENAMED_UTILITIES.find(candidate => candidate.from === utility);
+    const previous = V4_RENAMED_UTILITIES.find(candidate => candidate.to === utility);
+    const opacity = V4_REMOVED_OPACITY_UTILITIES.some(kind => new RegExp(`^${kind}-opacity-`).test(utility));
+    const maxVersion = this.utilityMap.get(utility)?.maxVersion;
+    // Renamed classes stay available in v4 when another class took over the name, e.g. shadow-sm
+    const removedInV4 = opacity || (maxVersion !== undefined && !isReleaseAtLeast(maxVersion, 'v4.0'))
+      || (rename !== undefined && previous === undefined && !(utility in getVersionConfig('v4').utilityCss));
+
+    const requirement = getClassRequirement(className);
+    const v3 = this.describeClass(utility, 'v3', siblings, !requirement || isReleaseAtLeast('v3.4', requirement.since));
+    const v4 = this.describeClass(utility, 'v4', siblings, !removedInV4);
+    if (requirement) {
+      (requirement.since.startsWith('v3') ? v3 : v4).since = requirement.since;
+      if (!requirement.since.startsWith('v3')) {
+        notes.push(`${requirement.description} arrived in ${requirement.since}`);
+      }
+    }
+
+    if (rename) {
+      notes.push(rename.reason);
+    }
+    if (opacity) {
+      notes.push('The *-opacity-* utilities were removed in v4; use an opacity modifier on the color, such as bg-black/50');
+    }
+    for (const change of V4_BEHAVIOR_CHANGES) {
+      const unless = change.unlessSibling;
+      if (change.utility.test(utility) && !(unless && siblings.some(sibling => unless.test(sibling)))) {
+        notes.push(change.warning);
+      }
+    }
+    if (hoversInV4(className)) {
+      notes.push(V4_HOVER_WARNING);
+    }
+
+    if (v4.css !== undefined) {
+      notes.push(...this.describeThemeVariables(v4.css.split('; ')));
+    }
+
+    // v4 CSS reads theme variables; it means the same as v3's when their defaults give v3's values
+    const v4Resolved = this.v4Utilities.get(utility)?.resolved ?? v4.css;
+    const sameCss = v3.available && v4.available && v3.css === v4Resolved;
+    const sameMeaning = sameCss && v3.defaults.join() === v4.defaults.join() && !notes.some(note => note === V4_HOVER_WARNING);
+    if (v3.css === undefined && v4.css === undefined && !rename && !previous) {
+      notes.push('Not in the catalog; only renames, defaults and upgrade notes were compared');
+    }
+
+    const comparison: VersionComparison = { className, v3, v4, sameMeaning, notes };
+    // Equivalents only exist when the CSS changed; a changed default needs an extra class instead
+    if (!sameMeaning && !sameCss) {
+      const v4Equivalent = rename?.to ?? findByCss(v3.css, 'v4', utility);
+      const v3Equivalent = previous?.from ?? findByCss(v4Resolved, 'v3', utility);
+      if (v4Equivalent && v3.available) {
+        comparison.v4Equivalent = withVariants(v4Equivalent);
+      }
+      if (v3Equivalent && v4.available) {
+        comparison.v3Equivalent = withVariants(v3Equivalent);
+      }
+    }
+    return comparison;
+  }
+
+  private describeClass(utility: string, version: TailwindVersion, siblings: string[], available: boolean): ClassVersionDetails {
+    if (!available) {
+      return { available, defaults: [] };
+    }
+
+    const versionConfig = getVersionConfig(version);
+    const css = this.resolveCatalogClass(utility, version, resolveVersion(version).release)?.declarations.join('; ');
+
+    // A color set by another class replaces the default color
+    const kind = utility.startsWith('ring') ? 'ring' : '(?:border(?:-[xytrblse])?|divide)';
+    const colored = siblings.some(sibling => new RegExp(`^${kind}-${COLOR_VALUE}(?:/.+)?$`).test(sibling));
+    const defaults = UTILITY_DEFAULT_DEPENDENCIES
+      .filter(dependency => dependency.utility.test(utility))
+      .flatMap(dependency => dependency.defaults)
+      .filter(name => !(colored && name.endsWith('-color')))
+      .map(name => `${name}: ${versionConfig.utilityDefaults[name]}`);
+
+    return css === undefined ? { available, defaults } : { available, css, defaults };
+  }
+
+  /**
+   * Explains a class: the rule TailwindCSS generates for it, wrapped in the selectors and
+   * at-rules of its variants
+   */
+  async explainClass(params: ExplainClassParams): Promise<ClassExplanation> {
+    const className = params.className.trim();
+    if (!className || /\s/.test(className)) {
+      throw invalidClass('Pass a single class to explain, such as md:hover:bg-blue-500/50');
+    }
+
+    const version = params.version ?? DEFAULT_VERSION;
+    const release = params.release ?? resolveVersion(version).release;
+    const { variants, unknownVariants, utility, important } = parseClass(className, version);
+
+    const requirement = getClassRequirement(className);
+    if (requirement && !isReleaseAtLeast(release, requirement.since)) {
+      throw invalidClass(`${className} needs TailwindCSS ${requirement.since} (${requirement.description}), not ${release}`);
+    }
+
+    const resolved = this.resolveUtility(utility, version, release);
+    if (!resolved) {
+      throw invalidClass(`"${utility}" is not a TailwindCSS ${version} utility the catalog knows`);
+    }
+    if (unknownVariants.length > 0) {
+      throw invalidClass(`Unknown variant "${unknownVariants[0]}:" in ${className}`);
+    }
+
+    const child = CHILD_SELECTORS.find(([pattern]) => pattern.test(utility));
+    const escaped = `.${escapeClassName(className)}`;
+    const rule = applyVariants(child ? child[1][version].replace(/&/g, escaped) : escaped, variants, version);
+    const { selector, atRules } = rule;
+    // A property the utility sets itself replaces the variant's, as content in before:content-['→']
+    const property = (declaration: string) => declaration.slice(0, declaration.indexOf(':'));
+    const ownProperties = new Set(resolved.declarations.map(property));
+    const declarations = [
+      ...rule.declarations.filter(declaration => !ownProperties.has(property(declaration))),
+      ...resolved.declarations.map(declaration => (important ? `${declaration} !important` : declaration)),
+    ];
+
+    const explanation: ClassExplanation = {
+      className,
+      version,
+      release,
+      utility,
+      variants: variants.map(variant => variant.variant),
+      important,
+      source: resolved.source,
+      selector,
+      atRules,
+      declarations,
+      css: renderRule(atRules, selector, declarations),
+      notes: resolved.notes,
+    };
+    if (requirement) {
+      explanation.since = requirement.since;
+    }
+    return explanation;
+  }
+
+  /**
+   * The declarations of a utility: a catalog class, an arbitrary property, a theme or
+   * arbitrary value of a catalog family, or a color with an opacity modifier
+   */
+  private resolveUtility(utility: string, version: TailwindVersion, release: TailwindRelease): ResolvedUtility | undefined {
+    const catalog = this.resolveCatalogClass(utility, version, release);
+    if (catalog) {
+      return catalog;
+    }
+
+    const property = utility.match(/^\[(--[\w-]+|[a-z-]+):(.+)\]$/);
+    if (property) {
+      return { source: 'arbitrary-property', declarations: [`${property[1]}: ${decodeArbitrary(property[2])}`], notes: [] };
+    }
+
+    // A color with an opacity modifier, e.g. bg-blue-500/50; w-7/9 is a fraction instead
+    const slash = findModifier(utility);
+    if (slash !== -1) {
+      const color = this.resolveUtility(utility.slice(0, slash), version, release);
+      const modified = color?.color && withOpacity(color.color, utility.slice(slash + 1), version);
+      if (color?.color && modified) {
+        return {
+          ...color,
+          declarations: color.declarations.map(declaration => declaration.split(color.color!).join(modified)),
+          color: modified,
+        };
+      }
+    }
+
+    const arbitrary = utility.match(/^(-?)([a-z][\w-]*?)-\[(.+)\]$/);
+    if (arbitrary) {
+      return this.resolveArbitraryValue(arbitrary[2], arbitrary[3], arbitrary[1] === '-', version);
+    }
+
+    // v4 shorthand for a CSS variable value, e.g. bg-(--brand) for bg-[var(--brand)]
+    const variable = utility.match(/^(-?)([a-z][\w-]*?)-\((?:([a-z-]+):)?(--[\w-]+)\)$/);
+    if (variable && version === 'v4') {
+      const hint = variable[3] ? `${variable[3]}:` : '';
+      return this.resolveArbitraryValue(variable[2], `${hint}var(${variable[4]})`, variable[1] === '-', version);
+    }
+
+    const theme = utility.match(/^(-?)([a-z][\w-]*?)-(\d+(?:\.\d+)?|\d+\/\d+)$/);
+    if (theme && version === 'v4') {
+      return this.resolveThemeValue(theme[2], theme[3], theme[1] === '-', version);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * The CSS of a catalog class in a version, with the v4 names and scales applied
+   */
+  private resolveCatalogClass(utility: string, version: TailwindVersion, release: TailwindRelease): ResolvedUtility | undefined {
+    const override = getVersionConfig(version).utilityCss[utility];
+    const rename = V4_RENAMED_UTILITIES.find(candidate => candidate.from === utility);
+    const previous = V4_RENAMED_UTILITIES.find(candidate => candidate.to === utility);
+
+    if (version === 'v4' && override === undefined && rename && !previous) {
+      throw invalidClass(`${utility} is not a v4 utility: ${rename.reason}`);
+    }
+    // v4 classes that were renamed from v3 come from their v3 name, with the v4 CSS
+    const name = version === 'v4' && previous && override === undefined ? previous.from : utility;
+    const form = version === 'v4' ? this.v4Utilities.get(utility) : undefined;
+    const css = override ?? form?.declarations ?? this.declarations.get(name);
+    if (css === undefined) {
+      return undefined;
+    }
+
+    const maxVersion = this.utilityMap.get(name)?.maxVersion;
+    if (override === undefined && maxVersion && !isReleaseAtLeast(maxVersion, release)) {
+      throw invalidClass(`${utility} was removed after TailwindCSS ${maxVersion}`);
+    }
+
+    const family = this.classFamilies.get(name);
+    const declarations = css.split('; ');
+    const resolved: ResolvedUtility = { source: 'catalog', declarations, notes: version === 'v4' ? this.describeThemeVariables(declarations) : [] };
+    if (family?.colors && override === undefined) {
+      resolved.color = (form?.utility ?? this.utilityMap.get(name)!).values[0].value;
+    }
+    return resolved;
+  }
+
+  /**
+   * An arbitrary value of a catalog family, e.g. -mt-[3px] or bg-[#1da1f2]
+   */
+  private resolveArbitraryValue(prefix: string, raw: string, negative: boolean, version: TailwindVersion): ResolvedUtility | undefined {
+    const hint = raw.match(/^([a-z-]+):(.+)$/);
+    const typed = hint && hint[1] in ARBITRARY_TYPE_HINTS;
+    const bare = typed ? hint[2] : raw;
+    const value = decodeArbitrary(bare);
+    const type = typed ? ARBITRARY_TYPE_HINTS[hint[1]] : getValueType(value);
+
+    const families = (this.valueFamilies.get(prefix) ?? []).filter(candidate => !negative || candidate.negative);
+    const claimed = families.filter(candidate => candidate.claimed);
+    const candidates = claimed.length > 0 ? claimed : families;
+    const ranked = candidates
+      .map(candidate => ({ candidate, score: scoreValueFamily(candidate, type) }))
+      .sort((a, b) => b.score - a.score);
+    if (ranked.length === 0) {
+      return undefined;
+    }
+    if (ranked.length > 1 && ranked[0].score === 0) {
+      throw invalidClass(`${prefix}-[${raw}] could set ${candidates.length} properties; add a type hint such as ${prefix}-[length:${bare}]`);
+    }
+
+    const family = ranked[0].candidate;
+    const resolved = this.declareValue(family, negative ? negate(value, version) : value, 'arbitrary-value');
+    if (family.type === 'color') {
+      resolved.color = value;
+    }
+    return resolved;
+  }
+
+  /**
+   * A v4 spacing step or fraction outside the default scale, e.g. p-13 or w-7/9
+   */
+  private resolveThemeValue(prefix: string, step: string, negative: boolean, version: TailwindVersion): ResolvedUtility | undefined {
+    const fraction = step.includes('/');
+    const family = (this.valueFamilies.get(prefix) ?? [])
+      .find(candidate => (fraction ? candidate.fractions : candidate.spacing) && (!negative || candidate.negative));
+    if (!family) {
+      return undefined;
+    }
+
+    let value: string;
+    let note: string;
+    if (fraction) {
+      const [numerator, denominator] = step.split('/').map(Number);
+      const percent = FRACTION_SCALE.find(candidate => candidate.class === step)?.percent
+        ?? Number((numerator / denominator * 100).toFixed(6));
+      value = negative ? negate(`calc(${step} * 100%)`, version) : `calc(${step} * 100%)`;
+      note = `v4 generates any fraction; ${step} is ${percent}%`;
+    } else {
+      // Multiples of the spacing unit, which is the step of class 1
+      const unit = SPACING_SCALE.find(candidate => candidate.class === '1')!.value;
+      const rem = SPACING_SCALE.find(candidate => candidate.class === step)?.value ?? Number(step) * unit;
+      value = `calc(var(--spacing) * ${negative ? '-' : ''}${step})`;
+      note = `v4 generates any multiple of the spacing unit; with the default --spacing of ${unit}rem this is ${negative ? '-' : ''}${rem}rem`;
+    }
+
+    const resolved = this.declareValue(family, value, 'theme');
+    resolved.notes.push(note);
+    return resolved;
+  }
+
+  private declareValue(family: ValueFamily, value: string, source: ResolvedUtility['source']): ResolvedUtility {
+    const formatted = family.wrapper ? `${family.wrapper}(${value})` : value;
+    const declarations = [
+      ...[family.family.property].flat().map(property => `${property}: ${formatted}`),
+      ...Object.entries(family.family.extra ?? {}).map(([property, extra]) => `${property}: ${extra}`),
+    ];
+    return { source, declarations, notes: [] };
   }
 
   /**
    * Gets colors based on parameters (for MCP tool interface)
    */
   async getColors(params: GetColorsParams): Promise<ColorInfo[]> {
-    let colors = this.getColorInfo(params.colorName);
+    let colors = this.getColorInfo(params.colorName, params.version);
     
     if (!params.includeShades) {
       // Filter out shade details if requested
@@ -176,14 +650,15 @@ export class UtilityMapperService implements BaseService {
   }
 
   /**
-   * Gets color information for a specific color or all colors
+   * Gets color information for a specific color or all colors of a version's palette
    */
-  getColorInfo(colorName?: string): ColorInfo[] {
+  getColorInfo(colorName?: string, version: TailwindVersion = DEFAULT_VERSION): ColorInfo[] {
+    const colors = this.colorMaps[version];
     if (colorName) {
-      const color = this.colorMap.get(colorName);
+      const color = colors.get(colorName);
       return color ? [color] : [];
     }
-    return Array.from(this.colorMap.values());
+    return Array.from(colors.values());
   }
 
   /**
@@ -197,133 +672,228 @@ export class UtilityMapperService implements BaseService {
    * Private methods
    */
   private async loadUtilityMappings(): Promise<void> {
-    // This would typically load from a comprehensive mapping file
-    // For now, we'll create some basic mappings as examples
-    
-    // Spacing utilities
-    this.addUtility('m-0', 'margin', '0', 'spacing');
-    this.addUtility('m-1', 'margin', '0.25rem', 'spacing');
-    this.addUtility('m-2', 'margin', '0.5rem', 'spacing');
-    this.addUtility('m-4', 'margin', '1rem', 'spacing');
-    this.addUtility('m-8', 'margin', '2rem', 'spacing');
-
-    this.addUtility('p-0', 'padding', '0', 'spacing');
-    this.addUtility('p-1', 'padding', '0.25rem', 'spacing');
-    this.addUtility('p-2', 'padding', '0.5rem', 'spacing');
-    this.addUtility('p-4', 'padding', '1rem', 'spacing');
-    this.addUtility('p-8', 'padding', '2rem', 'spacing');
-
-    // Width utilities
-    this.addUtility('w-auto', 'width', 'auto', 'sizing');
-    this.addUtility('w-full', 'width', '100%', 'sizing');
-    this.addUtility('w-1/2', 'width', '50%', 'sizing');
-    this.addUtility('w-1/3', 'width', '33.333333%', 'sizing');
-
-    // Height utilities
-    this.addUtility('h-auto', 'height', 'auto', 'sizing');
-    this.addUtility('h-full', 'height', '100%', 'sizing');
-    this.addUtility('h-screen', 'height', '100vh', 'sizing');
-
-    // Display utilities
-    this.addUtility('block', 'display', 'block', 'layout');
-    this.addUtility('inline', 'display', 'inline', 'layout');
-    this.addUtility('flex', 'display', 'flex', 'flexbox');
-    this.addUtility('grid', 'display', 'grid', 'grid');
-    this.addUtility('hidden', 'display', 'none', 'layout');
-
-    // Typography utilities
-    this.addUtility('text-xs', 'font-size', '0.75rem', 'typography');
-    this.addUtility('text-sm', 'font-size', '0.875rem', 'typography');
-    this.addUtility('text-base', 'font-size', '1rem', 'typography');
-    this.addUtility('text-lg', 'font-size', '1.125rem', 'typography');
-    this.addUtility('text-xl', 'font-size', '1.25rem', 'typography');
+    // Composite families go last so CSS conversion finds the single-purpose utility first
+    const families = [
+      ...UTILITY_FAMILIES.filter(family => !family.composite),
+      ...UTILITY_FAMILIES.filter(family => family.composite),
+    ];
+
+    for (const family of families) {
+      const values = { ...family.values };
+      if (family.colors) {
+        for (const color of this.colorMaps.v3.values()) {
+          for (const [shade, hex] of Object.entries(color.shades)) {
+            values[`${family.colors}-${color.name}-${shade}`] = hex;
+          }
+        }
+      }
+      for (const [className, value] of Object.entries(values)) {
+        this.addUtility(className, value, family);
+      }
+      this.addValueFamily(family);
+    }
   }
 
   private async loadColorMappings(): Promise<void> {
-    // Default TailwindCSS color palette
-    const colors = {
-      slate: {
-        '50': '#f8fafc',
-        '100': '#f1f5f9',
-        '200': '#e2e8f0',
-        '300': '#cbd5e1',
-        '400': '#94a3b8',
-        '500': '#64748b',
-        '600': '#475569',
-        '700': '#334155',
-        '800': '#1e293b',
-        '900': '#0f172a',
-      },
-      blue: {
-        '50': '#eff6ff',
-        '100': '#dbeafe',
-        '200': '#bfdbfe',
-        '300': '#93c5fd',
-        '400': '#60a5fa',
-        '500': '#3b82f6',
-        '600': '#2563eb',
-        '700': '#1d4ed8',
-        '800': '#1e40af',
-        '900': '#1e3a8a',
-      },
-      // Add more colors as needed
-    };
+    for (const version of SUPPORTED_VERSIONS) {
+      const colors = new Map<string, ColorInfo>();
+      for (const [colorName, shades] of Object.entries(COLOR_PALETTES[version])) {
+        const usage = Object.keys(shades).flatMap(shade => [
+          `text-${colorName}-${shade}`,
+          `bg-${colorName}-${shade}`,
+          `border-${colorName}-${shade}`,
+        ]);
+        colors.set(colorName, { name: colorName, shades, usage });
+      }
+      this.colorMaps[version] = colors;
+    }
+  }
+
+  private addUtility(className: string, cssValue: string, family: UtilityFamily): void {
+    const { utility, declarations } = this.createUtility(className, cssValue, family);
+
+    this.utilityMap.set(className, utility);
+    this.declarations.set(className, declarations);
+    this.classFamilies.set(className, family);
+    this.addV4Forms(className, cssValue, family, declarations);
+
+    // Update CSS property mapping
+    for (const property of [family.property].flat()) {
+      const existingUtilities = this.cssPropertyMap.get(property) || [];
+      this.cssPropertyMap.set(property, [...existingUtilities, className]);
+    }
+  }
 
-    for (const [colorName, shades] of Object.entries(colors)) {
-      const usage = Object.keys(shades).flatMap(shade => [
-        `text-${colorName}-${shade}`,
-        `bg-${colorName}-${shade}`,
-        `border-${colorName}-${shade}`,
-      ]);
-
-      this.colorMap.set(colorName, {
-        name: colorName,
-        shades,
-        usage,
+  /**
+   * Records the v4 classes of a catalog class that v4 renames or generates other CSS for:
+   * the CSS from the v4 overrides, or the value written with the v4 theme variables
+   */
+  private addV4Forms(className: string, cssValue: string, family: UtilityFamily, declarations: string): void {
+    const { utilityCss } = getVersionConfig('v4');
+    const value = this.toV4Value(className, cssValue, family);
+    // Text sizes read their line-height from the theme too, unless a leading-* class sets one
+    const v4Family: UtilityFamily = isTextSize(className, family)
+      ? { ...family, paired: { [className]: { 'line-height': `var(--tw-leading, var(--${className}--line-height))` } } }
+      : family;
+    for (const name of v4Names(className)) {
+      const css = utilityCss[name];
+      if (name === className && (css === undefined ? value === cssValue : css === declarations)) {
+        continue;
+      }
+      const form = css === undefined ? this.createUtility(name, value, v4Family) : this.createUtility(name, ...splitDeclarations(css, family));
+      // Of the defaults behind the variables, only the palette colors differ from v3
+      const color = value.match(/^var\(--color-([a-z]+)-(\d+)\)$/);
+      const resolved = css ?? (color ? this.createUtility(name, this.colorMaps.v4.get(color[1])!.shades[color[2]], family).declarations : declarations);
+      this.v4Utilities.set(name, { ...form, resolved });
+    }
+  }
+
+  /**
+   * The value of a catalog class as v4 writes it: palette colors are var(--color-*), text sizes
+   * var(--text-*), spacing steps multiples of var(--spacing) and fractions calc(n/d * 100%)
+   */
+  private toV4Value(className: string, value: string, family: UtilityFamily): string {
+    if (family.colors) {
+      const color = className.slice(family.colors.length + 1);
+      const shade = color.match(/^([a-z]+)-(\d+)$/);
+      const themed = shade ? this.colorMaps.v4.get(shade[1])?.shades[shade[2]] !== undefined : color === 'black' || color === 'white';
+      return themed ? `var(--color-${color})` : value;
+    }
+    if (isTextSize(className, family)) {
+      return `var(--${className})`;
+    }
+
+    const step = className.match(/-(\d+(?:\.\d+)?|\d+\/\d+)$/)?.[1];
+    const parts = value.match(/^(?:([\w-]+)\()?(-?)((?:\d*\.)?\d+)(rem|%)\)?$/);
+    if (!step || !parts) {
+      return value;
+    }
+    const [, wrapper, sign, amount, unit] = parts;
+    let v4Value: string | undefined;
+    if (unit === 'rem' && !step.includes('/') && Number(amount) === Number(step) * 0.25) {
+      v4Value = `calc(var(--spacing) * ${sign}${step})`;
+    } else if (unit === '%' && step.includes('/')) {
+      v4Value = sign ? negate(`calc(${step} * 100%)`, 'v4') : `calc(${step} * 100%)`;
+    }
+    if (v4Value === undefined) {
+      return value;
+    }
+    return wrapper ? `${wrapper}(${v4Value})` : v4Value;
+  }
+
+  /**
+   * The defaults of the v4 theme variables a class reads, e.g. --color-blue-500 is oklch(…)
+   */
+  private describeThemeVariables(declarations: string[]): string[] {
+    const css = declarations.join('; ');
+    const notes = Array.from(new Set(Array.from(css.matchAll(/var\(--color-([a-z]+)-(\d+)\)/g), ([, color, shade]) => `${color}-${shade}`)))
+      .map(color => {
+        const [name, shade] = color.split('-');
+        return `--color-${color} is ${this.colorMaps.v4.get(name)?.shades[shade]} in the default theme`;
       });
+    for (const [, size] of css.matchAll(/var\(--(text-[a-z\d]+)\)/g)) {
+      const family = this.classFamilies.get(size);
+      if (!family || !isTextSize(size, family)) {
+        continue;
+      }
+      const [fontSize, lineHeight] = [family.values[size], family.paired![size]['line-height']];
+      notes.push(`--${size} is ${fontSize} and --${size}--line-height is ${v4LineHeight(fontSize, lineHeight)} in the default theme`);
     }
+    if (css.includes('var(--spacing)')) {
+      notes.push(`--spacing is ${SPACING_SCALE.find(candidate => candidate.class === '1')!.value}rem in the default theme`);
+    }
+    return notes;
   }
 
-  private addUtility(className: string, cssProperty: string, cssValue: string, category: string): void {
+  private createUtility(className: string, cssValue: string, family: UtilityFamily): { utility: TailwindUtility; declarations: string } {
+    const properties = [family.property].flat();
+    const extra = Object.entries({ ...family.extra, ...family.paired?.[className] }).map(([property, value]) => `${property}: ${value}`);
+    const declarations = [...properties.map(property => `${property}: ${cssValue}`), ...extra].join('; ');
+    const category = UTILITY_CATEGORIES[family.category];
+
     const utility: TailwindUtility = {
       id: className,
       name: className,
       category: {
-        id: category,
-        name: category,
-        description: '',
+        id: family.category,
+        name: category.name,
+        description: category.description,
         utilities: [],
       },
-      cssProperty,
+      cssProperty: family.property,
       values: [{
         class: className,
         value: cssValue,
         isDefault: false,
       }],
-      modifiers: this.getDefaultModifiers(),
+      modifiers: this.getModifiers(family.category, resolveVersion().release),
       examples: [{
         title: `Using ${className}`,
         code: `<div class="${className}">Content</div>`,
-        description: `Applies ${cssProperty}: ${cssValue}`,
+        description: `Applies ${declarations}`,
       }],
-      documentation: `Sets ${cssProperty} to ${cssValue}`,
+      documentation: `Sets ${properties.join(' and ')} to ${cssValue}${extra.length > 0 ? `, with ${extra.join('; ')}` : ''}`,
     };
+    const requirement = getClassRequirement(className);
+    if (requirement) {
+      utility.minVersion = requirement.since;
+    }
+    if (family.until) {
+      utility.maxVersion = family.until;
+    }
+    return { utility, declarations };
+  }
 
-    this.utilityMap.set(className, utility);
+  private addValueFamily(family: UtilityFamily): void {
+    const names = Object.keys(family.values).map(name => name.replace(/^-/, ''));
+    let prefix = family.arbitrary ?? names[0];
+    for (const name of names) {
+      while (prefix && name !== prefix && !name.startsWith(`${prefix}-`)) {
+        prefix = prefix.includes('-') ? prefix.slice(0, prefix.lastIndexOf('-')) : '';
+      }
+    }
+    // Keyword classes such as block have no prefix to put a value after
+    if ((names.length < 2 && !family.arbitrary) || !prefix) {
+      return;
+    }
 
-    // Update CSS property mapping
-    const existingUtilities = this.cssPropertyMap.get(cssProperty) || [];
-    this.cssPropertyMap.set(cssProperty, [...existingUtilities, className]);
+    const values = Object.values(family.values);
+    const wrapper = values[0].match(/^([\w-]+)\(/)?.[1];
+    const shared = wrapper && values.every(value => value.startsWith(`${wrapper}(`) && value.endsWith(')')) ? wrapper : undefined;
+    const unwrap = (value: string) => (shared ? value.slice(shared.length + 1, -1) : value);
+
+    const counts = new Map<ValueType, number>();
+    for (const value of values) {
+      const type = getValueType(unwrap(value));
+      counts.set(type, (counts.get(type) ?? 0) + 1);
+    }
+    const step = family.values[`${prefix}-1`];
+
+    const valueFamily: ValueFamily = {
+      family,
+      prefix,
+      type: family.colors ? 'color' : family.valueType ?? Array.from(counts).sort((a, b) => b[1] - a[1])[0][0],
+      negative: Object.keys(family.values).some(name => name.startsWith('-')),
+      spacing: step !== undefined && unwrap(step) === '0.25rem',
+      fractions: `${prefix}-1/2` in family.values,
+      claimed: family.arbitrary === prefix,
+    };
+    if (shared) {
+      valueFamily.wrapper = shared;
+    }
+    this.valueFamilies.set(prefix, [...(this.valueFamilies.get(prefix) ?? []), valueFamily]);
   }
 
   private findBestUtilityMatch(cssProperty: string, cssValue: string): string | null {
     const utilities = this.cssPropertyMap.get(cssProperty) || [];
-    
+    const target = normalizeCssValue(cssValue);
+
     for (const utilityId of utilities) {
       const utility = this.utilityMap.get(utilityId);
-      if (utility) {
+      // Utilities that set several properties, such as mx-4, would add styles the CSS doesn't have
+      if (utility && !Array.isArray(utility.cssProperty)) {
         for (const value of utility.values) {
-          if (value.value === cssValue) {
+          if (normalizeCssValue(value.value) === target) {
             return value.class;
           }
         }
@@ -361,38 +931,178 @@ export class UtilityMapperService implements BaseService {
     return null;
   }
 
-  private getDefaultModifiers(): UtilityModifier[] {
-    return [
-      {
-        type: 'responsive',
-        prefix: 'sm:',
-        description: 'Apply on small screens and up',
-      },
-      {
-        type: 'responsive',
-        prefix: 'md:',
-        description: 'Apply on medium screens and up',
-      },
-      {
-        type: 'responsive',
-        prefix: 'lg:',
-        description: 'Apply on large screens and up',
-      },
-      {
-        type: 'state',
-        prefix: 'hover:',
-        description: 'Apply on hover',
-      },
-      {
-        type: 'state',
-        prefix: 'focus:',
-        description: 'Apply when focused',
-      },
-      {
-        type: 'dark',
-        prefix: 'dark:',
-        description: 'Apply in dark mode',
-      },
-    ];
+  /**
+   * The variants suggested for a category's utilities, in the release they are listed for
+   */
+  private getModifiers(category: UtilityCategoryId, release: TailwindRelease): UtilityModifier[] {
+    const key = `${category}@${release}`;
+    let modifiers = this.modifiers.get(key);
+    if (!modifiers) {
+      modifiers = getCategoryVariants(category, release).map(variant => ({
+        type: variant.kind,
+        prefix: `${variant.name}:`,
+        description: variant.description,
+      }));
+      this.modifiers.set(key, modifiers);
+    }
+    return modifiers;
+  }
+}
+
+/**
+ * The v4 classes of a v3 catalog class: its v4 name, and its v3 name too when v4 still
+ * ships that with other CSS, as ring
+ */
+function v4Names(className: string): string[] {
+  const { renamedUtilities, utilityCss } = getVersionConfig('v4');
+  const name = renamedUtilities.get(className);
+  if (!name) {
+    return [className];
   }
-}
\ No newline at end of file
+  return className in utilityCss ? [name, className] : [name];
+}
+
+/**
+ * The value and family of a class from its CSS: the properties set to the first value,
+ * and the other declarations as extras, e.g. outline-style: none
+ */
+function splitDeclarations(css: string, family: UtilityFamily): [string, UtilityFamily] {
+  const declarations = css.split('; ').map(declaration => declaration.split(': ') as [string, string]);
+  const value = declarations[0][1];
+  const properties = declarations.filter(([, candidate]) => candidate === value).map(([property]) => property);
+  const extra = Object.fromEntries(declarations.filter(([, candidate]) => candidate !== value));
+  return [value, { ...family, property: properties.length === 1 ? properties[0] : properties, extra, paired: undefined }];
+}
+
+/** Whether a class is one of the text sizes, which v4 reads from its --text-* theme variables */
+function isTextSize(className: string, family: UtilityFamily): boolean {
+  return family.property === 'font-size' && family.paired?.[className] !== undefined;
+}
+
+/** v4 writes a text size's line-height as a ratio of the size, e.g. calc(1.75 / 1.125) for text-lg */
+function v4LineHeight(fontSize: string, lineHeight: string): string {
+  return lineHeight.endsWith('rem') ? `calc(${parseFloat(lineHeight)} / ${parseFloat(fontSize)})` : lineHeight;
+}
+
+/**
+ * Whether a class has a variant that v4 only applies on devices that can hover
+ */
+function hoversInV4(className: string): boolean {
+  return parseClass(className, 'v4').variants.some(variant => variant.atRule === HOVER_MEDIA);
+}
+
+/**
+ * Compares values the way the CSS means them: case, spacing, leading zeros and the unit of a zero don't matter
+ */
+function normalizeCssValue(value: string): string {
+  const normalized = value.trim().replace(/\s+/g, ' ').toLowerCase().replace(/(^|[\s,(])\.(?=\d)/g, (_, before) => `${before}0.`);
+  return /^-?0(?:px|rem|em|%)?$/.test(normalized) ? '0' : normalized;
+}
+
+/**
+ * The class of a version whose CSS matches, e.g. v3 shadow-sm is v4 shadow-xs
+ */
+function findByCss(css: string | undefined, version: TailwindVersion, exclude: string): string | undefined {
+  if (css === undefined) {
+    return undefined;
+  }
+  return Object.entries(getVersionConfig(version).utilityCss).find(([name, candidate]) => name !== exclude && candidate === css)?.[0];
+}
+
+function invalidClass(message: string): ServiceError {
+  return new ServiceError(message, 'UtilityMapperService', 'explainClass', undefined, {
+    kind: 'invalid-params',
+    details: { field: 'className' },
+  });
+}
+
+function getValueType(value: string): ValueType {
+  if (/^var\(/.test(value)) {
+    return 'any';
+  }
+  if (/^(?:#[\da-f]{3,8}$|(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color|color-mix)\()|^(?:transparent|currentcolor)$/i.test(value)) {
+    return 'color';
+  }
+  if (/^(?:url|image|(?:repeating-)?(?:linear|radial|conic)-gradient)\(/.test(value)) {
+    return 'image';
+  }
+  if (/^-?(?:\d*\.)?\d+(?:px|r?em|%|v[hw]|v(?:min|max)|[sld]v[hw]|ch|ex|lh|fr|deg|turn|rad|m?s)$|^(?:calc|min|max|clamp)\(/.test(value)) {
+    return 'length';
+  }
+  return /^-?(?:\d*\.)?\d+$/.test(value) ? 'number' : 'other';
+}
+
+/**
+ * How well a family fits a value: the type first, then whether the prefix names the property,
+ * as in flex-[2_2_0%]
+ */
+function scoreValueFamily(candidate: ValueFamily, type: ValueType): number {
+  const fit = candidate.type === type ? 4
+    : type === 'any' && candidate.type === 'color' ? 3
+    : type === 'number' && candidate.type === 'length' ? 2
+    : 0;
+  return fit + ([candidate.family.property].flat()[0] === candidate.prefix ? 1 : 0);
+}
+
+/** v3 negates plain values with a minus sign, v4 always multiplies by -1 */
+function negate(value: string, version: TailwindVersion): string {
+  return version === 'v3' && /^[\d.]/.test(value) ? `-${value}` : `calc(${value} * -1)`;
+}
+
+/**
+ * Index of the slash of a modifier outside arbitrary values, e.g. the one in bg-[#000]/50
+ */
+function findModifier(utility: string): number {
+  let depth = 0;
+  for (let i = utility.length - 1; i >= 0; i--) {
+    const char = utility[i];
+    if (char === ']') {
+      depth++;
+    } else if (char === '[') {
+      depth--;
+    } else if (char === '/' && depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * A color with an opacity modifier: v3 writes hex colors as rgb() with an alpha channel,
+ * v4 mixes the color with transparent
+ */
+function withOpacity(color: string, modifier: string, version: TailwindVersion): string | undefined {
+  const alpha = modifier.match(/^\[(.+)\]$/)?.[1] ?? (/^\d+(?:\.\d+)?$/.test(modifier) ? String(Number(modifier) / 100) : undefined);
+  if (alpha === undefined) {
+    return undefined;
+  }
+
+  const hex = color.match(/^#([\da-f]{3}|[\da-f]{6})$/i)?.[1];
+  if (version === 'v3' && hex) {
+    const digits = hex.length === 3 ? hex.split('').map(digit => digit + digit).join('') : hex;
+    const [red, green, blue] = [0, 2, 4].map(start => parseInt(digits.slice(start, start + 2), 16));
+    return `rgb(${red} ${green} ${blue} / ${alpha})`;
+  }
+  const percent = alpha.endsWith('%') ? alpha : `${Number((Number(alpha) * 100).toFixed(4))}%`;
+  return `color-mix(in oklab, ${color} ${percent}, transparent)`;
+}
+
+/** Escapes a class for a selector, e.g. md:w-1/2 → md\:w-1\/2 */
+function escapeClassName(className: string): string {
+  return className.replace(/[^\w-]/g, char => `\\${char}`);
+}
+
+/**
+ * Writes a rule nested in its at-rules, outermost first
+ */
+function renderRule(atRules: string[], selector: string, declarations: string[]): string {
+  const indent = (depth: number) => '  '.repeat(depth);
+  const depth = atRules.length;
+  return [
+    ...atRules.map((atRule, index) => `${indent(index)}${atRule} {`),
+    `${indent(depth)}${selector} {`,
+    ...declarations.map(declaration => `${indent(depth + 1)}${declaration};`),
+    `${indent(depth)}}`,
+    ...atRules.map((_, index) => `${indent(depth - 1 - index)}}`),
+  ].join('\n');
+}
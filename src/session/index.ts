@@ -0,0 +1,148 @@
+/**
+ * Session-scoped project context
+ * Settings stored with set_project_context that later tool calls in the same
+ * session use by default: argument values, a class prefix, breakpoints and palette names
+ */
+
+import type { ProjectContext, SetProjectContextParams } from '../types/index.js';
+import { splitVariants } from '../utils/class-names.js';
+import { BREAKPOINTS } from '../version/index.js';
+import type { TailwindVersion } from '../version/index.js';
+
+/**
+ * State kept for one client session
+ */
+export interface ToolSession {
+  projectContext: ProjectContext;
+}
+
+/** Min-widths of Tailwind's default breakpoints, in px */
+export const DEFAULT_BREAKPOINTS: Record<string, number> = Object.fromEntries(
+  Object.entries(BREAKPOINTS).map(([name, width]) => [name, parseFloat(width)])
+);
+
+/** Color the built-in templates use as their accent; replaced by the primary project color */
+const TEMPLATE_ACCENT_COLOR = 'blue';
+
+export interface ClassRewriteOptions {
+  /** Replace the templates' accent color with the primary project color */
+  replaceAccentColor?: boolean;
+}
+
+/**
+ * Raised for a context setting that cannot be stored; `field` names the rejected setting
+ */
+export class ProjectContextError extends Error {
+  constructor(message: string, public field: keyof SetProjectContextParams) {
+    super(message);
+    this.name = 'ProjectContextError';
+  }
+}
+
+export function createToolSession(): ToolSession {
+  return { projectContext: {} };
+}
+
+/**
+ * Applies an update to the stored context; `reset` starts from an empty context
+ */
+export function mergeProjectContext(current: ProjectContext, update: SetProjectContextParams): ProjectContext {
+  const { reset, ...settings } = update;
+  const invalid = Object.entries(settings.breakpoints ?? {}).filter(([, value]) => parseBreakpoint(value) === undefined);
+  if (invalid.length > 0) {
+    throw new ProjectContextError(
+      `Invalid breakpoint width: ${invalid.map(([name, value]) => `${name}=${value}`).join(', ')}. Use px, rem or em.`,
+      'breakpoints'
+    );
+  }
+  return { ...(reset ? {} : current), ...settings };
+}
+
+/**
+ * Tool arguments implied by the context, applied to calls that do not pass them
+ */
+export function getProjectArguments(context: ProjectContext): Record<string, unknown> {
+  const args: Record<string, unknown> = {
+    version: context.version,
+    framework: context.framework,
+    packageManager: context.packageManager,
+  };
+
+  return Object.fromEntries(Object.entries(args).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Returns true when the context changes generated class names
+ */
+export function hasClassRewrites(context: ProjectContext): boolean {
+  return Boolean(context.prefix || context.colors?.length || Object.keys(context.breakpoints ?? {}).length);
+}
+
+/**
+ * Rewrites the classes in `text`: the contents of `class="…"` attributes and `@apply …;`
+ * rules, or the whole text when it is a plain class list
+ */
+export function rewriteClasses(text: string, context: ProjectContext, version: TailwindVersion, options: ClassRewriteOptions = {}): string {
+  if (!hasClassRewrites(context)) {
+    return text;
+  }
+
+  const rewriteList = (list: string) => list.replace(/\S+/g, className => rewriteClass(className, context, version, options));
+  if (!/class="|@apply /.test(text)) {
+    return rewriteList(text);
+  }
+  return text
+    .replace(/class="([^"]*)"/g, (_, list: string) => `class="${rewriteList(list)}"`)
+    .replace(/@apply ([^;]+);/g, (_, list: string) => `@apply ${rewriteList(list)};`);
+}
+
+/**
+ * Rewrites a single class: breakpoint variants are renamed to the nearest project
+ * breakpoint, the accent color is swapped for the primary color and the prefix is added
+ * (`tw-mt-4` in v3, `tw:mt-4` in v4)
+ */
+export function rewriteClass(className: string, context: ProjectContext, version: TailwindVersion, options: ClassRewriteOptions = {}): string {
+  const parts = splitVariants(className);
+  const variants = parts.slice(0, -1).map(variant => renameBreakpoint(variant, context.breakpoints));
+  let utility = parts[parts.length - 1];
+
+  const primaryColor = context.colors?.[0];
+  if (options.replaceAccentColor && primaryColor) {
+    utility = utility.replace(new RegExp(`^(!?-?[a-z-]+-)${TEMPLATE_ACCENT_COLOR}(-\\d{2,3}(?:/\\d+)?)$`), `$1${primaryColor}$2`);
+  }
+
+  if (context.prefix && version === 'v3') {
+    utility = utility.replace(/^(!?-?)/, `$1${context.prefix}-`);
+  }
+
+  const rewritten = [...variants, utility].join(':');
+  return context.prefix && version !== 'v3' ? `${context.prefix}:${rewritten}` : rewritten;
+}
+
+/**
+ * Converts a breakpoint width to px; undefined when it is not a px, rem or em length
+ */
+export function parseBreakpoint(value: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)(px|rem|em)$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  return match[2] === 'px' ? Number(match[1]) : Number(match[1]) * 16;
+}
+
+/**
+ * Maps a default breakpoint variant (`md`, `max-md`) to the project breakpoint with the closest width
+ */
+function renameBreakpoint(variant: string, breakpoints: Record<string, string> = {}): string {
+  const match = /^(max-)?(.+)$/.exec(variant)!;
+  const width = DEFAULT_BREAKPOINTS[match[2]];
+  const candidates = Object.entries(breakpoints);
+  if (width === undefined || candidates.length === 0) {
+    return variant;
+  }
+
+  const [nearest] = candidates.reduce((best, candidate) =>
+    Math.abs(parseBreakpoint(candidate[1])! - width) < Math.abs(parseBreakpoint(best[1])! - width) ? candidate : best
+  );
+  return `${match[1] ?? ''}${nearest}`;
+}
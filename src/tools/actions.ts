@@ -0,0 +1,154 @@
+/**
+ * Action tools: installation guides, CSS conversion, class, config and theme migration, palettes and component templates
+ */
+
+import { toolInputSchemas, toolOutputSchemas } from '../schemas/index.js';
+import { rewriteClasses } from '../session/index.js';
+import type {
+  ConvertCSSParams,
+  GeneratePaletteParams,
+  GenerateTemplateParams,
+  InstallTailwindParams,
+  MigrateClassesParams,
+  MigrateConfigParams,
+  MigrateThemeParams,
+} from '../types/index.js';
+import { DEFAULT_VERSION } from '../version/index.js';
+import type { ToolDefinition } from './types.js';
+
+export const installTailwind: ToolDefinition<InstallTailwindParams> = {
+  name: 'install_tailwind',
+  description: 'Generate installation commands and configuration files for TailwindCSS in different frameworks',
+  inputSchema: toolInputSchemas.install_tailwind,
+  outputSchema: toolOutputSchemas.install_tailwind,
+  annotations: {
+    // Only describes the commands and files; nothing is installed or written
+    title: 'Generate TailwindCSS Installation Guide',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  async handler(params, { services }) {
+    const guide = await services.installationService.generateInstallationGuide(params);
+    return { data: guide, structuredContent: { ...guide } };
+  },
+};
+
+export const convertCssToTailwind: ToolDefinition<ConvertCSSParams> = {
+  name: 'convert_css_to_tailwind',
+  description: 'Convert traditional CSS to TailwindCSS utility classes',
+  inputSchema: toolInputSchemas.convert_css_to_tailwind,
+  outputSchema: toolOutputSchemas.convert_css_to_tailwind,
+  annotations: {
+    title: 'Convert CSS to TailwindCSS',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  async handler(params, { services, session }) {
+    const converted = await services.conversionService.convertCSS(params);
+    const result = {
+      ...converted,
+      tailwindClasses: rewriteClasses(converted.tailwindClasses, session.projectContext, converted.version),
+    };
+    return { data: result, structuredContent: { ...result } };
+  },
+};
+
+export const migrateClassesToV4: ToolDefinition<MigrateClassesParams> = {
+  name: 'migrate_classes_to_v4',
+  description: 'Rewrite TailwindCSS v3 classes, or the class attributes of markup, for v4 (renamed utilities, opacity modifiers, the important suffix and variant order) and explain each change',
+  inputSchema: toolInputSchemas.migrate_classes_to_v4,
+  outputSchema: toolOutputSchemas.migrate_classes_to_v4,
+  annotations: {
+    // Returns the rewritten text; nothing is written
+    title: 'Migrate Classes to TailwindCSS v4',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  async handler(params, { services }) {
+    const migration = await services.migrationService.migrateClasses(params);
+    return { data: migration, structuredContent: { ...migration } };
+  },
+};
+
+export const migrateConfigToV4: ToolDefinition<MigrateConfigParams> = {
+  name: 'migrate_config_to_v4',
+  description: 'Translate a TailwindCSS v3 config file (theme, darkMode, prefix, important and plugins) into a v4 CSS entry point with @theme, @custom-variant and @plugin, flagging anything that needs to be moved by hand',
+  inputSchema: toolInputSchemas.migrate_config_to_v4,
+  outputSchema: toolOutputSchemas.migrate_config_to_v4,
+  annotations: {
+    // The config is parsed, not executed; the CSS is returned, not written
+    title: 'Migrate Config to TailwindCSS v4',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  async handler(params, { services }) {
+    const migration = await services.migrationService.migrateConfig(params);
+    return { data: migration, structuredContent: { ...migration } };
+  },
+};
+
+export const migrateThemeToV3: ToolDefinition<MigrateThemeParams> = {
+  name: 'migrate_theme_to_v3',
+  description: 'Translate the variables of TailwindCSS v4 @theme blocks (colors, spacing, fonts, breakpoints, radii, animations and keyframes) into the theme.extend of a v3 tailwind.config.js or .ts',
+  inputSchema: toolInputSchemas.migrate_theme_to_v3,
+  outputSchema: toolOutputSchemas.migrate_theme_to_v3,
+  annotations: {
+    title: 'Migrate Theme to TailwindCSS v3',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  async handler(params, { services }) {
+    const migration = await services.migrationService.migrateThemeToV3(params);
+    return { data: migration, structuredContent: { ...migration } };
+  },
+};
+
+export const generateColorPalette: ToolDefinition<GeneratePaletteParams> = {
+  name: 'generate_color_palette',
+  description: 'Generate a custom color palette with multiple shades from a base color',
+  inputSchema: toolInputSchemas.generate_color_palette,
+  outputSchema: toolOutputSchemas.generate_color_palette,
+  annotations: {
+    title: 'Generate Color Palette',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  async handler(params, { services }) {
+    const palette = await services.templateService.generateColorPalette(params);
+    return { data: palette, structuredContent: { ...palette } };
+  },
+};
+
+export const generateComponentTemplate: ToolDefinition<GenerateTemplateParams> = {
+  name: 'generate_component_template',
+  description: 'Generate HTML component templates with TailwindCSS classes',
+  inputSchema: toolInputSchemas.generate_component_template,
+  outputSchema: toolOutputSchemas.generate_component_template,
+  annotations: {
+    title: 'Generate Component Template',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  async handler(params, { services, session }) {
+    const generated = await services.templateService.generateComponentTemplate(params);
+    const rewrite = (text: string) => rewriteClasses(
+      text,
+      session.projectContext,
+      params.version ?? DEFAULT_VERSION,
+      { replaceAccentColor: true }
+    );
+    const template = {
+      ...generated,
+      html: rewrite(generated.html),
+      utilities: generated.utilities.map(rewrite),
+    };
+    return { data: template, structuredContent: { ...template } };
+  },
+};
@@ -0,0 +1,49 @@
+/**
+ * Diagnostics tools: service health, cache statistics and catalog size
+ */
+
+import { toolInputSchemas, toolOutputSchemas } from '../schemas/index.js';
+import { serviceRegistry } from '../services/index.js';
+import type { ServerStatus } from '../types/index.js';
+import { SUPPORTED_VERSIONS, resolveVersion } from '../version/index.js';
+import type { ToolDefinition } from './types.js';
+
+export const getServerStatus: ToolDefinition<Record<string, never>> = {
+  name: 'get_server_status',
+  description: 'Report service health, documentation cache and scrape statistics, supported versions and catalog size',
+  inputSchema: toolInputSchemas.get_server_status,
+  outputSchema: toolOutputSchemas.get_server_status,
+  annotations: {
+    title: 'Get Server Status',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  async handler(_params, { services, defaultVersion }) {
+    const scrapeStats = services.documentationScraper.getScrapeStats();
+    const status: ServerStatus = {
+      services: serviceRegistry.getStatus().map(({ cache, ...service }) => ({
+        ...service,
+        ...(cache ? { cache: { ...cache, lastCleanup: cache.lastCleanup.toISOString() } } : {}),
+      })),
+      documentation: {
+        requests: scrapeStats.requests,
+        failures: scrapeStats.failures,
+        ...(scrapeStats.lastFailure
+          ? { lastFailure: { ...scrapeStats.lastFailure, at: scrapeStats.lastFailure.at.toISOString() } }
+          : {}),
+      },
+      versions: {
+        supported: SUPPORTED_VERSIONS,
+        default: resolveVersion(defaultVersion).version,
+        defaultRelease: resolveVersion(defaultVersion).release,
+      },
+      catalog: {
+        ...services.utilityMapper.getCatalogSize(),
+        frameworks: services.installationService.getSupportedFrameworks().length,
+        templates: services.templateService.getAvailableComponents().length,
+      },
+    };
+    return { data: status, structuredContent: { ...status } };
+  },
+};
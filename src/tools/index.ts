@@ -0,0 +1,72 @@
+/**
+ * Tools for TailwindCSS MCP Server
+ * Each tool declares its name, schemas, annotations and handler; the server
+ * serves whatever is registered, including add-on modules
+ */
+
+import {
+  compareTailwindVersions,
+  explainTailwindClass,
+  getTailwindColors,
+  getTailwindConfigGuide,
+  getTailwindUtilities,
+  searchTailwindDocs,
+} from './information.js';
+import {
+  convertCssToTailwind,
+  generateColorPalette,
+  generateComponentTemplate,
+  installTailwind,
+  migrateClassesToV4,
+  migrateConfigToV4,
+  migrateThemeToV3,
+} from './actions.js';
+import { getServerStatus } from './diagnostics.js';
+import { setProjectContext } from './session.js';
+import { detectTailwindSetup } from './project.js';
+import { ToolRegistry } from './registry.js';
+import type { ToolRegistryOptions } from './registry.js';
+import type { ToolDefinition } from './types.js';
+
+export { ToolRegistry, withArgumentDefaults } from './registry.js';
+export { renderMarkdown } from './markdown.js';
+export type { ToolRegistryOptions } from './registry.js';
+export { loadToolModules, resolveToolModules } from './loader.js';
+export type { ToolContext, ToolDefinition, ToolResult, ToolServices } from './types.js';
+
+export const builtinTools: ToolDefinition[] = [
+  getTailwindUtilities,
+  getTailwindColors,
+  compareTailwindVersions,
+  explainTailwindClass,
+  getTailwindConfigGuide,
+  searchTailwindDocs,
+  installTailwind,
+  convertCssToTailwind,
+  migrateClassesToV4,
+  migrateConfigToV4,
+  migrateThemeToV3,
+  generateColorPalette,
+  generateComponentTemplate,
+  setProjectContext,
+  getServerStatus,
+  detectTailwindSetup,
+];
+
+/**
+ * Identity helper that type-checks a tool definition in add-on modules
+ */
+export function defineTool<P>(tool: ToolDefinition<P>): ToolDefinition<P> {
+  return tool;
+}
+
+/**
+ * Creates a registry containing the built-in tools allowed by `options`
+ */
+export function createToolRegistry(options: ToolRegistryOptions = {}): ToolRegistry {
+  const registry = new ToolRegistry(options);
+  for (const tool of builtinTools) {
+    registry.register(tool);
+  }
+  return registry;
+}
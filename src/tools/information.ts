@@ -0,0 +1,165 @@
+/**
+ * Information tools: utilities, colors, version comparisons, class explanations, configuration guides and documentation search
+ */
+
+import { toolInputSchemas, toolOutputSchemas } from '../schemas/index.js';
+import { hasClassRewrites, rewriteClasses } from '../session/index.js';
+import type { ToolSession } from '../session/index.js';
+import type {
+  CompareVersionsParams,
+  ConfigGuideParams,
+  ExplainClassParams,
+  GetColorsParams,
+  GetUtilitiesParams,
+  SearchDocsParams,
+  TailwindUtility,
+} from '../types/index.js';
+import { DEFAULT_VERSION } from '../version/index.js';
+import type { TailwindVersion } from '../version/index.js';
+import type { ToolDefinition } from './types.js';
+
+export const getTailwindUtilities: ToolDefinition<GetUtilitiesParams> = {
+  name: 'get_tailwind_utilities',
+  description: 'Get TailwindCSS utilities by category, property, or search term',
+  inputSchema: toolInputSchemas.get_tailwind_utilities,
+  outputSchema: toolOutputSchemas.get_tailwind_utilities,
+  annotations: {
+    // source: 'docs' scrapes the live documentation
+    title: 'Get TailwindCSS Utilities',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  async handler(params, { services, options, session }) {
+    const found = params.source === 'docs'
+      ? filterScrapedUtilities(
+          await services.documentationScraper.scrapeAllUtilities({
+            ...options,
+            version: params.version,
+            categories: params.category ? [params.category] : undefined,
+          }),
+          params
+        )
+      : await services.utilityMapper.getUtilities(params);
+    const utilities = applyProjectClasses(found, session, params.version ?? DEFAULT_VERSION);
+    return { data: utilities, structuredContent: { utilities } };
+  },
+};
+
+export const getTailwindColors: ToolDefinition<GetColorsParams> = {
+  name: 'get_tailwind_colors',
+  description: 'Get TailwindCSS color palette information',
+  inputSchema: toolInputSchemas.get_tailwind_colors,
+  outputSchema: toolOutputSchemas.get_tailwind_colors,
+  annotations: {
+    // source: 'docs' scrapes the live documentation
+    title: 'Get TailwindCSS Colors',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  async handler(params, { services, options }) {
+    const colors = params.source === 'docs'
+      ? (await services.documentationScraper.scrapeAllColors({ ...options, version: params.version }))
+          .filter(color => !params.colorName || color.name === params.colorName.toLowerCase())
+      : await services.utilityMapper.getColors(params);
+    return { data: colors, structuredContent: { colors } };
+  },
+};
+
+export const compareTailwindVersions: ToolDefinition<CompareVersionsParams> = {
+  name: 'compare_tailwind_versions',
+  description: 'Compare what classes, a utility scale or a category mean in TailwindCSS v3 and v4: availability, generated CSS, the defaults they rely on, equivalent classes and upgrade notes',
+  inputSchema: toolInputSchemas.compare_tailwind_versions,
+  outputSchema: toolOutputSchemas.compare_tailwind_versions,
+  annotations: {
+    title: 'Compare TailwindCSS Versions',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  async handler(params, { services }) {
+    const comparisons = await services.utilityMapper.compareVersions(params);
+    return { data: comparisons, structuredContent: { comparisons } };
+  },
+};
+
+export const explainTailwindClass: ToolDefinition<ExplainClassParams> = {
+  name: 'explain_tailwind_class',
+  description: 'Explain what a class does: the exact CSS rule TailwindCSS generates for it, wrapped in the media queries and selectors of its variants, including arbitrary values and properties',
+  inputSchema: toolInputSchemas.explain_tailwind_class,
+  outputSchema: toolOutputSchemas.explain_tailwind_class,
+  annotations: {
+    title: 'Explain TailwindCSS Class',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  async handler(params, { services }) {
+    const explanation = await services.utilityMapper.explainClass(params);
+    return { data: explanation, structuredContent: { ...explanation } };
+  },
+};
+
+export const getTailwindConfigGuide: ToolDefinition<ConfigGuideParams> = {
+  name: 'get_tailwind_config_guide',
+  description: 'Get TailwindCSS configuration guides for different frameworks',
+  inputSchema: toolInputSchemas.get_tailwind_config_guide,
+  outputSchema: toolOutputSchemas.get_tailwind_config_guide,
+  annotations: {
+    title: 'Get TailwindCSS Configuration Guide',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  async handler(params, { services, options }) {
+    const guide = await services.documentationScraper.getConfigGuide(params, options);
+    return { data: guide, structuredContent: { guide } };
+  },
+};
+
+export const searchTailwindDocs: ToolDefinition<SearchDocsParams> = {
+  name: 'search_tailwind_docs',
+  description: 'Search TailwindCSS documentation',
+  inputSchema: toolInputSchemas.search_tailwind_docs,
+  outputSchema: toolOutputSchemas.search_tailwind_docs,
+  annotations: {
+    title: 'Search TailwindCSS Documentation',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  async handler(params, { services, options }) {
+    const results = await services.documentationScraper.searchDocumentation(params, options);
+    return { data: results, structuredContent: { results } };
+  },
+};
+
+/**
+ * Applies the property and search filters to utilities scraped from the docs
+ */
+function filterScrapedUtilities(utilities: TailwindUtility[], params: GetUtilitiesParams): TailwindUtility[] {
+  const property = params.property?.toLowerCase();
+  const search = params.search?.toLowerCase();
+
+  return utilities.filter(utility =>
+    (!property || [utility.cssProperty].flat().some(css => css.toLowerCase().includes(property))) &&
+    (!search || utility.name.toLowerCase().includes(search) || utility.id.includes(search))
+  );
+}
+
+/**
+ * Rewrites utility classes and examples with the session's class prefix and breakpoints
+ */
+function applyProjectClasses(utilities: TailwindUtility[], session: ToolSession, version: TailwindVersion): TailwindUtility[] {
+  const context = session.projectContext;
+  if (!hasClassRewrites(context)) {
+    return utilities;
+  }
+
+  return utilities.map(utility => ({
+    ...utility,
+    values: utility.values.map(value => ({ ...value, class: rewriteClasses(value.class, context, version) })),
+    examples: utility.examples.map(example => ({ ...example, code: rewriteClasses(example.code, context, version) })),
+  }));
+}
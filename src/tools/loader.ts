@@ -0,0 +1,70 @@
+/**
+ * Add-on tool modules
+ * Loads extra tool definitions from local files or installed packages
+ */
+
+import { isAbsolute, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseFlags } from '../utils/flags.js';
+import type { ToolDefinition } from './types.js';
+
+/**
+ * Resolves add-on tool module specifiers from CLI flags, falling back to environment variables.
+ *
+ * Flag: `--tool-modules <a,b>` (also `--tool-modules=a,b`).
+ * Environment: `TAILWIND_MCP_TOOL_MODULES` (comma-separated).
+ */
+export function resolveToolModules(argv: string[], env: NodeJS.ProcessEnv = {}): string[] {
+  const flags = parseFlags(argv, ['tool-modules']);
+  const value = flags['tool-modules'] ?? env.TAILWIND_MCP_TOOL_MODULES ?? '';
+
+  return value.split(',').map(specifier => specifier.trim()).filter(Boolean);
+}
+
+/**
+ * Imports each module and collects its tools. A module exports its tools as the
+ * default export or as `tools`, either as a single definition or an array.
+ * Relative paths are resolved against `cwd`; anything else is imported as a package.
+ */
+export async function loadToolModules(specifiers: string[], cwd: string = process.cwd()): Promise<ToolDefinition[]> {
+  const tools: ToolDefinition[] = [];
+
+  for (const specifier of specifiers) {
+    const url = specifier.startsWith('.') || isAbsolute(specifier)
+      ? pathToFileURL(resolve(cwd, specifier)).href
+      : specifier;
+
+    let module: Record<string, unknown>;
+    try {
+      module = await import(url);
+    } catch (error) {
+      throw new Error(`Failed to load tool module ${specifier}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const exported = module.default ?? module.tools;
+    const definitions = Array.isArray(exported) ? exported : [exported];
+    if (exported === undefined || definitions.length === 0) {
+      throw new Error(`Tool module ${specifier} does not export any tools`);
+    }
+
+    for (const definition of definitions) {
+      assertToolDefinition(definition, specifier);
+      tools.push(definition);
+    }
+  }
+
+  return tools;
+}
+
+function assertToolDefinition(value: unknown, specifier: string): asserts value is ToolDefinition {
+  const tool = value as Partial<ToolDefinition> | null;
+  if (
+    !tool ||
+    typeof tool.name !== 'string' ||
+    typeof tool.description !== 'string' ||
+    tool.inputSchema?.type !== 'object' ||
+    typeof tool.handler !== 'function'
+  ) {
+    throw new Error(`Invalid tool in module ${specifier}: expected { name, description, inputSchema, handler }`);
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Markdown rendering of tool results for `responseFormat: "markdown"`
+ * Chat clients show the text content to users directly; tools without a renderer
+ * (e.g. add-on tools) are shown as a fenced JSON block
+ */
+
+import type {
+  ClassExplanation,
+  ClassMigrationResult,
+  ClassVersionDetails,
+  ColorInfo,
+  ColorPalette,
+  ComponentTemplate,
+  ConfigGuide,
+  ConfigMigrationResult,
+  ConversionResult,
+  InstallationGuide,
+  ProjectContext,
+  SearchResult,
+  ServerStatus,
+  TailwindSetup,
+  TailwindUtility,
+  ThemeMigrationResult,
+  VersionComparison,
+} from '../types/index.js';
+
+/**
+ * The result data of each built-in tool that has a renderer
+ */
+interface RenderedResults {
+  get_tailwind_utilities: TailwindUtility[];
+  get_tailwind_colors: ColorInfo[];
+  compare_tailwind_versions: VersionComparison[];
+  explain_tailwind_class: ClassExplanation;
+  get_tailwind_config_guide: ConfigGuide | null;
+  search_tailwind_docs: SearchResult[];
+  install_tailwind: InstallationGuide;
+  convert_css_to_tailwind: ConversionResult;
+  migrate_classes_to_v4: ClassMigrationResult;
+  migrate_config_to_v4: ConfigMigrationResult;
+  migrate_theme_to_v3: ThemeMigrationResult;
+  generate_color_palette: ColorPalette;
+  generate_component_template: ComponentTemplate;
+  set_project_context: ProjectContext;
+  get_server_status: ServerStatus;
+  detect_tailwind_setup: TailwindSetup;
+}
+
+const renderers: { [Tool in keyof RenderedResults]: (data: RenderedResults[Tool]) => string } = {
+  get_tailwind_utilities: (utilities: TailwindUtility[]) => {
+    if (utilities.length === 0) {
+      return '_No utilities found._';
+    }
+    return utilities.map(utility => {
+      const properties = [utility.cssProperty].flat();
+      return joinBlocks([
+        `### ${utility.name}`,
+        `Category: ${utility.category.name}${utility.minVersion ? ` · Requires ${utility.minVersion} or newer` : ''}` +
+          (utility.maxVersion ? ` · Removed after ${utility.maxVersion}` : ''),
+        table(['Class', 'CSS'], utility.values.map(value => [
+          code(value.class),
+          code(properties.map(property => `${property}: ${value.value};`).join(' ')),
+        ])),
+      ]);
+    }).join('\n\n');
+  },
+
+  get_tailwind_colors: (colors: ColorInfo[]) => {
+    if (colors.length === 0) {
+      return '_No colors found._';
+    }
+    return colors.map(color => joinBlocks([
+      `### ${color.name}`,
+      table(['Shade', 'Value', 'Class'], Object.entries(color.shades).map(([shade, value]) => [
+        shade,
+        code(value),
+        code(`bg-${color.name}-${shade}`),
+      ])),
+    ])).join('\n\n');
+  },
+
+  compare_tailwind_versions: (comparisons: VersionComparison[]) => {
+    if (comparisons.length === 0) {
+      return '_No classes to compare._';
+    }
+    const availability = (details: ClassVersionDetails) => details.available ? `Yes${details.since ? ` (${details.since})` : ''}` : 'No';
+    return comparisons.map(comparison => joinBlocks([
+      `### ${comparison.className} — ${comparison.sameMeaning ? 'same in v3 and v4' : 'changed in v4'}`,
+      table(['', 'v3', 'v4'], [
+        ['Available', availability(comparison.v3), availability(comparison.v4)],
+        ['CSS', comparison.v3.css ? code(comparison.v3.css) : '—', comparison.v4.css ? code(comparison.v4.css) : '—'],
+        ['Defaults', comparison.v3.defaults.map(code).join(', ') || '—', comparison.v4.defaults.map(code).join(', ') || '—'],
+      ]),
+      [
+        comparison.v4Equivalent ? `In v4, use ${code(comparison.v4Equivalent)} for the v3 look.` : '',
+        comparison.v3Equivalent ? `In v3, use ${code(comparison.v3Equivalent)} for the v4 look.` : '',
+      ].filter(Boolean).join(' '),
+      bullets(comparison.notes),
+    ])).join('\n\n');
+  },
+
+  explain_tailwind_class: (explanation: ClassExplanation) => joinBlocks([
+    `### ${explanation.className}`,
+    `TailwindCSS ${explanation.release} · ${explanation.source}${explanation.since ? ` · Requires ${explanation.since} or newer` : ''}`,
+    fence(explanation.css, 'css'),
+    bullets(explanation.notes),
+  ]),
+
+  get_tailwind_config_guide: (guide: ConfigGuide | null) => {
+    if (!guide) {
+      return '_No configuration guide found._';
+    }
+    return joinBlocks([
+      `## ${guide.topic}`,
+      guide.description,
+      ...guide.examples.map(example => `### ${example.title}\n\n${fence(example.code, detectLanguage(example.code))}`),
+      section('Best practices', bullets(guide.bestPractices)),
+    ]);
+  },
+
+  search_tailwind_docs: (results: SearchResult[]) => {
+    if (results.length === 0) {
+      return '_No results found._';
+    }
+    return results.map((result, index) => `${index + 1}. [${result.title}](${result.url}) — ${result.snippet}`).join('\n');
+  },
+
+  install_tailwind: (guide: InstallationGuide) => {
+    const steps = [
+      ...guide.commands.map(command => `Run:\n\n${fence(command, 'bash')}`),
+      ...guide.configFiles.map(file => `Create \`${file.filename}\`:\n\n${fence(file.content, languageForFile(file.filename))}`),
+      ...guide.nextSteps,
+    ];
+    return joinBlocks([
+      `## Install TailwindCSS ${guide.version}`,
+      steps.map((step, index) => `${index + 1}. ${indentContinuation(step, '   ')}`).join('\n\n'),
+    ]);
+  },
+
+  convert_css_to_tailwind: (result: ConversionResult) => joinBlocks([
+    result.tailwindClasses ? fence(result.tailwindClasses, 'text') : '_No TailwindCSS classes generated._',
+    section('Unsupported styles', bullets((result.unsupportedStyles ?? []).map(code))),
+    section('Custom utilities', (result.customUtilities ?? []).length > 0 ? fence(result.customUtilities!.join('\n'), 'css') : ''),
+    section('Suggestions', bullets(result.suggestions ?? [])),
+  ]),
+
+  migrate_classes_to_v4: (migration: ClassMigrationResult) => joinBlocks([
+    fence(migration.output, migration.format === 'markup' ? detectLanguage(migration.output) : 'text'),
+    migration.changes.length > 0
+      ? section('Changes', table(['From', 'To', 'Reason', 'Count'], migration.changes.map(change => [
+          code(change.from),
+          code(change.to),
+          change.reason,
+          String(change.occurrences),
+        ])))
+      : '_No classes needed changes._',
+    section('Warnings', bullets(migration.warnings)),
+  ]),
+
+  migrate_config_to_v4: (migration: ConfigMigrationResult) => joinBlocks([
+    fence(migration.css, 'css'),
+    section('Notes', bullets(migration.notes)),
+    section('Needs manual migration', bullets(migration.warnings)),
+  ]),
+
+  migrate_theme_to_v3: (migration: ThemeMigrationResult) => joinBlocks([
+    `### ${migration.filename}`,
+    fence(migration.content, migration.filename.endsWith('.ts') ? 'ts' : 'js'),
+    section('Needs manual migration', bullets(migration.warnings)),
+  ]),
+
+  generate_color_palette: (palette: ColorPalette) => joinBlocks([
+    `## ${palette.name}`,
+    table(['Shade', 'Value', 'Class'], Object.entries(palette.colors).map(([shade, value]) => [
+      shade,
+      code(value),
+      code(`bg-${palette.name}-${shade}`),
+    ])),
+    section('CSS variables', fence(palette.cssVariables, 'css')),
+    section('Tailwind config', fence(palette.tailwindConfig, detectLanguage(palette.tailwindConfig))),
+  ]),
+
+  generate_component_template: (template: ComponentTemplate) => joinBlocks([
+    template.description,
+    fence(template.html, 'html'),
+    section('Utilities', template.utilities.length > 0 ? template.utilities.map(code).join(' ') : ''),
+    section('Customizations', bullets(template.customizations)),
+  ]),
+
+  set_project_context: (context: ProjectContext) => {
+    const rows = Object.entries(context).map(([setting, value]) => [
+      setting,
+      code(typeof value === 'string' ? value : JSON.stringify(value)),
+    ]);
+    return rows.length > 0 ? joinBlocks(['## Project context', table(['Setting', 'Value'], rows)]) : '_No project context set._';
+  },
+
+  get_server_status: (status: ServerStatus) => {
+    const { documentation, versions, catalog } = status;
+    return joinBlocks([
+      '## Services',
+      table(['Service', 'State', 'Cache'], status.services.map(service => [
+        service.error ? `${service.name} (${service.error})` : service.name,
+        service.state,
+        service.cache
+          ? `${service.cache.totalEntries} entries, ${Math.round(service.cache.memoryUsage / 1024)} KB, ${Math.round(service.cache.hitRate * 100)}% hits`
+          : '',
+      ])),
+      bullets([
+        `Documentation: ${documentation.requests} requests, ${documentation.failures} failed` +
+          (documentation.lastFailure ? ` (last: ${documentation.lastFailure.url}, ${documentation.lastFailure.message})` : ''),
+        `Versions: ${versions.supported.join(', ')} (default: ${versions.defaultRelease})`,
+        `Catalog: ${catalog.utilities} utilities in ${catalog.categories} categories, ${catalog.colors} colors, ` +
+          `${catalog.frameworks} frameworks, ${catalog.templates} templates`,
+      ]),
+    ]);
+  },
+
+  detect_tailwind_setup: (setup: TailwindSetup) => {
+    if (!setup.detected) {
+      return joinBlocks([`_No TailwindCSS setup found in ${code(setup.directory)}._`, bullets(setup.evidence)]);
+    }
+    const rows: Array<[string, string | undefined]> = [
+      ['Version', setup.version && `${setup.version} (${setup.release})`],
+      ['Package version', setup.packageVersion && `${setup.packageVersion} (from ${setup.versionSource})`],
+      ['Integration', setup.integration],
+      ['Framework', setup.framework],
+      ['Package manager', setup.packageManager],
+      ['Config files', setup.configFiles.map(code).join(', ')],
+      ['CSS entries', setup.cssEntries.map(code).join(', ')],
+    ];
+    return joinBlocks([
+      `## TailwindCSS setup of ${code(setup.directory)}`,
+      table(['Setting', 'Value'], rows.filter(([, value]) => value).map(([setting, value]) => [setting, value!])),
+      section('Evidence', bullets(setup.evidence)),
+    ]);
+  },
+};
+
+/**
+ * Renders a tool's result data as markdown
+ */
+export function renderMarkdown(toolName: string, data: unknown): string {
+  if (!Object.hasOwn(renderers, toolName)) {
+    return fence(JSON.stringify(data, null, 2), 'json');
+  }
+  // The registry hands each tool's own result to its renderer
+  const renderer: (data: never) => string = renderers[toolName as keyof RenderedResults];
+  return renderer(data as never);
+}
+
+/**
+ * A titled block, or nothing when the body is empty
+ */
+function section(title: string, body: string): string {
+  return body ? `#### ${title}\n\n${body}` : '';
+}
+
+function joinBlocks(blocks: string[]): string {
+  return blocks.filter(Boolean).join('\n\n');
+}
+
+function bullets(items: string[]): string {
+  return items.map(item => `- ${item}`).join('\n');
+}
+
+function table(headers: string[], rows: string[][]): string {
+  const line = (cells: string[]) => `| ${cells.map(cell => cell.replace(/\|/g, '\\|').replace(/\n/g, ' ')).join(' | ')} |`;
+  return [line(headers), `|${headers.map(() => '---').join('|')}|`, ...rows.map(line)].join('\n');
+}
+
+function code(text: string): string {
+  return text.includes('`') ? `\`\` ${text} \`\`` : `\`${text}\``;
+}
+
+/**
+ * A fenced code block, with a longer fence when the code itself contains one
+ */
+function fence(text: string, language = ''): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(longest + 1);
+  return `${marker}${language}\n${text.trim()}\n${marker}`;
+}
+
+/**
+ * Indents every line after the first so multi-line content stays inside a list item
+ */
+function indentContinuation(text: string, prefix: string): string {
+  return text.split('\n').map((line, index) => index === 0 || !line ? line : `${prefix}${line}`).join('\n');
+}
+
+function languageForFile(filename: string): string {
+  const extension = filename.split('.').pop() ?? '';
+  const languages: Record<string, string> = { js: 'js', cjs: 'js', mjs: 'js', ts: 'ts', css: 'css', json: 'json', html: 'html' };
+  return languages[extension] ?? '';
+}
+
+/**
+ * Guesses the language of a snippet for syntax highlighting
+ */
+function detectLanguage(snippet: string): string {
+  const text = snippet.trim();
+  if (text.startsWith('<')) {
+    return 'html';
+  }
+  if (/^(@|[.#:]?[\w-]+\s*\{)/.test(text)) {
+    return 'css';
+  }
+  return /\b(module\.exports|export|import|const)\b/.test(text) ? 'js' : '';
+}
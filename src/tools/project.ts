@@ -0,0 +1,37 @@
+/**
+ * Project tools: inspect the TailwindCSS setup of a local project
+ */
+
+import { isAbsolute, relative, resolve, sep } from 'node:path';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { toolInputSchemas, toolOutputSchemas } from '../schemas/index.js';
+import type { DetectSetupParams } from '../types/index.js';
+import type { ToolDefinition } from './types.js';
+
+export const detectTailwindSetup: ToolDefinition<DetectSetupParams> = {
+  name: 'detect_tailwind_setup',
+  description: 'Inspect a local project directory (package.json, lockfiles, Tailwind/PostCSS/Vite config and CSS entry files) to find the installed TailwindCSS version, integration style, framework and package manager. Pass the results to set_project_context or as the version and framework of other tools.',
+  inputSchema: toolInputSchemas.detect_tailwind_setup,
+  outputSchema: toolOutputSchemas.detect_tailwind_setup,
+  annotations: {
+    title: 'Detect TailwindCSS Setup',
+    readOnlyHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  async handler(params, { services, projectRoot }) {
+    if (projectRoot !== undefined && !isInside(projectRoot, resolve(params.directory ?? '.'))) {
+      throw new McpError(ErrorCode.InvalidParams, `Directory is outside the project root ${projectRoot}: ${params.directory}`, {
+        kind: 'invalid-params',
+        field: 'directory',
+      });
+    }
+    const setup = await services.projectDetector.detectSetup(params);
+    return { data: setup, structuredContent: { ...setup } };
+  },
+};
+
+function isInside(root: string, directory: string): boolean {
+  const path = relative(resolve(root), directory);
+  return path !== '..' && !path.startsWith(`..${sep}`) && !isAbsolute(path);
+}
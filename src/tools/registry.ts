@@ -0,0 +1,198 @@
+/**
+ * Tool registry for TailwindCSS MCP Server
+ * Advertises registered tools and dispatches tools/call requests to their handlers
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult, Tool, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { isCallerError, toMcpError } from '../errors/index.js';
+import { createLogger } from '../logging/index.js';
+import { validateArguments } from '../schemas/index.js';
+import type { ResponseFormat } from '../schemas/index.js';
+import { getProjectArguments } from '../session/index.js';
+import { suggestAlternatives, withSuggestions } from '../utils/suggestions.js';
+import { isVersionSpec, resolveVersion } from '../version/index.js';
+import { renderMarkdown } from './markdown.js';
+import type { ToolContext, ToolDefinition, ToolResult } from './types.js';
+
+const logger = createLogger('ToolRegistry');
+
+export interface ToolRegistryOptions {
+  /** Argument defaults applied to the input schema of every registered tool */
+  argumentDefaults?: Record<string, unknown>;
+  /** Tools this returns false for are skipped on registration */
+  isEnabled?: (name: string) => boolean;
+}
+
+export class ToolRegistry {
+  private tools: Map<string, ToolDefinition> = new Map();
+
+  constructor(private options: ToolRegistryOptions = {}) {}
+
+  /**
+   * Registers a tool with the configured argument defaults.
+   * Returns false when the tool is disabled.
+   */
+  register(tool: ToolDefinition): boolean {
+    if (this.options.isEnabled && !this.options.isEnabled(tool.name)) {
+      logger.debug(`Tool disabled by configuration: ${tool.name}`);
+      return false;
+    }
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    const defaults = this.options.argumentDefaults;
+    this.tools.set(tool.name, defaults ? withArgumentDefaults(tool, defaults) : tool);
+    return true;
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  getAll(): ToolDefinition[] {
+    return Array.from(this.tools.values());
+  }
+
+  /**
+   * Describes every registered tool for tools/list
+   */
+  list(): Tool[] {
+    return this.getAll().map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+      ...(tool.outputSchema ? { outputSchema: tool.outputSchema } : {}),
+      ...(tool.annotations ? { annotations: withSafetyDefaults(tool.annotations) } : {}),
+    })) as Tool[];
+  }
+
+  /**
+   * Validates the arguments and runs the tool's handler, returning its raw result
+   */
+  async run(name: string, args: unknown, context: ToolContext): Promise<ToolResult> {
+    return (await this.execute(name, args, context)).result;
+  }
+
+  /**
+   * Runs a tool for tools/call in the requested response format, converting service errors to MCP errors
+   */
+  async call(name: string, args: unknown, context: ToolContext): Promise<CallToolResult> {
+    this.require(name);
+
+    try {
+      const { result, responseFormat } = await this.execute(name, args, context);
+      return createToolResponse(name, result, responseFormat);
+    } catch (error) {
+      const mcpError = toMcpError(error, name);
+      logger.log(isCallerError(mcpError) ? 'warning' : 'error', `Service error during "${name}":`, error);
+      throw mcpError;
+    }
+  }
+
+  /**
+   * Validates the arguments and runs the handler; `responseFormat` only affects
+   * how the result is rendered, so it is taken out before the handler sees the arguments
+   */
+  private async execute(name: string, args: unknown, context: ToolContext): Promise<{ result: ToolResult; responseFormat: ResponseFormat }> {
+    const tool = this.require(name);
+    const { responseFormat = 'json', ...params } = validateArguments<{ responseFormat?: ResponseFormat }>(
+      tool.name,
+      tool.inputSchema,
+      withProjectArguments(tool, args, context)
+    );
+    const resolved = tool.ignoreArgumentDefaults ? params : withResolvedRelease(params);
+    return { result: await tool.handler(resolved, context), responseFormat };
+  }
+
+  private require(name: string): ToolDefinition {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      const suggestions = suggestAlternatives(name, this.tools.keys());
+      throw new McpError(ErrorCode.MethodNotFound, withSuggestions(`Unknown tool: ${name}`, suggestions), { suggestions });
+    }
+    return tool;
+  }
+}
+
+/**
+ * Returns a copy of `tool` whose input schema defaults to the given argument values,
+ * so defaults are both advertised in tools/list and applied during validation
+ */
+export function withArgumentDefaults(tool: ToolDefinition, defaults: Record<string, unknown>): ToolDefinition {
+  if (tool.ignoreArgumentDefaults) {
+    return tool;
+  }
+
+  const properties = { ...tool.inputSchema.properties };
+  let changed = false;
+
+  for (const [name, value] of Object.entries(defaults)) {
+    const property = properties[name];
+    if (!property) {
+      continue;
+    }
+    properties[name] = {
+      ...property,
+      default: value,
+      description: property.description?.replace(/\(default: [^)]*\)/, `(default: ${value})`),
+    };
+    changed = true;
+  }
+
+  return changed ? { ...tool, inputSchema: { ...tool.inputSchema, properties } } : tool;
+}
+
+/**
+ * Spells out that a tool which is not read-only is destructive unless it says otherwise,
+ * rather than relying on every client applying the protocol default
+ */
+function withSafetyDefaults(annotations: ToolAnnotations): ToolAnnotations {
+  return annotations.readOnlyHint || annotations.destructiveHint !== undefined
+    ? annotations
+    : { ...annotations, destructiveHint: true };
+}
+
+/**
+ * Fills arguments the call leaves out from the session's project context,
+ * for the arguments the tool accepts
+ */
+function withProjectArguments(tool: ToolDefinition, args: unknown, context: ToolContext): unknown {
+  if (tool.ignoreArgumentDefaults || args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args))) {
+    return args;
+  }
+
+  const provided = (args ?? {}) as Record<string, unknown>;
+  const projectArguments = Object.entries(getProjectArguments(context.session.projectContext))
+    .filter(([key]) => key in tool.inputSchema.properties && (provided[key] === undefined || provided[key] === null));
+
+  return projectArguments.length > 0 ? { ...provided, ...Object.fromEntries(projectArguments) } : args;
+}
+
+/**
+ * Splits a pinned minor release (`version: "v4.0"`) into the major `version`
+ * services work with and the exact `release`
+ */
+function withResolvedRelease(params: Record<string, unknown>): Record<string, unknown> {
+  const { version } = params;
+  if (typeof version !== 'string' || !version.includes('.') || !isVersionSpec(version)) {
+    return params;
+  }
+  return { ...params, ...resolveVersion(version) };
+}
+
+/**
+ * Creates a standardized success response with the result as JSON or markdown text and,
+ * when present, as structured content
+ */
+function createToolResponse(name: string, result: ToolResult, responseFormat: ResponseFormat): CallToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: responseFormat === 'markdown' ? renderMarkdown(name, result.data) : JSON.stringify(result.data, null, 2),
+      },
+    ],
+    ...(result.structuredContent ? { structuredContent: result.structuredContent } : {}),
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Session tools: the project context shared by later calls in the same session
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { toolInputSchemas, toolOutputSchemas } from '../schemas/index.js';
+import { mergeProjectContext, ProjectContextError } from '../session/index.js';
+import type { SetProjectContextParams } from '../types/index.js';
+import type { ToolDefinition } from './types.js';
+
+export const setProjectContext: ToolDefinition<SetProjectContextParams> = {
+  name: 'set_project_context',
+  description: 'Store project settings (version, class prefix, palette names, breakpoints, framework, package manager) that later calls in this session use by default. Call without arguments to read the current settings.',
+  inputSchema: toolInputSchemas.set_project_context,
+  outputSchema: toolOutputSchemas.set_project_context,
+  annotations: {
+    // Changes settings for this session only
+    title: 'Set Project Context',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  ignoreArgumentDefaults: true,
+  async handler(params, { session }) {
+    try {
+      session.projectContext = mergeProjectContext(session.projectContext, params);
+    } catch (error) {
+      if (error instanceof ProjectContextError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message, { kind: 'invalid-params', field: error.field });
+      }
+      throw error;
+    }
+    return { data: session.projectContext, structuredContent: { context: session.projectContext } };
+  },
+};
@@ -0,0 +1,77 @@
+/**
+ * Tool definition types for TailwindCSS MCP Server
+ * Built-in tools and add-on modules describe themselves with the same shape
+ */
+
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { ObjectSchema } from '../schemas/index.js';
+import type {
+  ConversionService,
+  DocumentationScraperService,
+  InstallationService,
+  MigrationService,
+  ProjectDetectionService,
+  TemplateService,
+  UtilityMapperService,
+} from '../services/index.js';
+import type { ToolSession } from '../session/index.js';
+import type { OperationOptions } from '../types/index.js';
+import type { TailwindVersionSpec } from '../version/index.js';
+
+/**
+ * Shared service instances available to every tool handler
+ */
+export interface ToolServices {
+  documentationScraper: DocumentationScraperService;
+  utilityMapper: UtilityMapperService;
+  installationService: InstallationService;
+  conversionService: ConversionService;
+  templateService: TemplateService;
+  projectDetector: ProjectDetectionService;
+  migrationService: MigrationService;
+}
+
+export interface ToolContext {
+  services: ToolServices;
+  /** Progress reporting and cancellation for the current request */
+  options: OperationOptions;
+  /** State of the calling session, such as the stored project context */
+  session: ToolSession;
+  /** The version tools default to, from the server configuration; DEFAULT_VERSION when unset */
+  defaultVersion?: TailwindVersionSpec;
+  /**
+   * Directory that project tools may read inside; set for the HTTP and SSE transports,
+   * whose clients are not on the server's machine. Any directory is readable when unset.
+   */
+  projectRoot?: string;
+}
+
+/**
+ * Result of a tool handler: `data` is rendered as the text content and
+ * `structuredContent` must match the tool's output schema when one is declared
+ */
+export interface ToolResult {
+  data: unknown;
+  structuredContent?: Record<string, unknown>;
+}
+
+export interface ToolDefinition<P = any> {
+  name: string;
+  description: string;
+  inputSchema: ObjectSchema;
+  outputSchema?: ObjectSchema;
+  /**
+   * Behavior hints clients use to auto-approve safe calls. Built-in tools declare a title,
+   * readOnlyHint, idempotentHint and openWorldHint; tools that write files or change
+   * anything outside the session must not be read-only and are advertised as destructive
+   * unless they set `destructiveHint: false`.
+   */
+  annotations?: ToolAnnotations;
+  /**
+   * Take arguments as given, e.g. for tools that store settings: no configured or project
+   * context defaults, and a pinned minor release is not split into `version` and `release`
+   */
+  ignoreArgumentDefaults?: boolean;
+  /** Receives arguments already validated against `inputSchema`, with defaults applied */
+  handler(params: P, context: ToolContext): Promise<ToolResult>;
+}
@@ -0,0 +1,300 @@
+/**
+ * HTTP transports for TailwindCSS MCP Server
+ * Serves Streamable HTTP (`/mcp`) or legacy SSE (`/sse` + `/messages`) with one MCP server per session
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../logging/index.js';
+
+const logger = createLogger('HttpTransport');
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Host names that always reach the server from the machine it runs on */
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/** Bind addresses that listen on every interface, so they name no host clients use */
+const WILDCARD_HOSTS = ['0.0.0.0', '::', '[::]'];
+
+export interface HttpTransportOptions {
+  transport: 'http' | 'sse';
+  host: string;
+  port: number;
+  /** Host names clients may address the server by, besides localhost and the bound address */
+  allowedHosts?: string[];
+  /** Browser origins that may call the server, besides those on an allowed host */
+  allowedOrigins?: string[];
+}
+
+export interface HttpTransportHandle {
+  host: string;
+  port: number;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+/**
+ * Starts an HTTP server that creates a fresh MCP server for every client session.
+ * Requests whose Host or Origin header names another site are refused, so a web page
+ * cannot reach the server through DNS rebinding.
+ */
+export async function startHttpTransport(
+  options: HttpTransportOptions,
+  createServer: () => Server
+): Promise<HttpTransportHandle> {
+  const sessions = new Map<string, Session>();
+  const allowedHosts = new Set([
+    ...LOOPBACK_HOSTS,
+    ...(WILDCARD_HOSTS.includes(options.host) ? [] : [formatHostname(options.host)]),
+    ...(options.allowedHosts ?? []).map(formatHostname),
+  ]);
+  const allowedOrigins = new Set((options.allowedOrigins ?? []).map(origin => origin.toLowerCase()));
+  if (WILDCARD_HOSTS.includes(options.host) && !options.allowedHosts?.length) {
+    logger.warning(`Listening on ${options.host} but only localhost is an allowed host; set --allowed-hosts to the names clients use`);
+  }
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    sessions.delete(sessionId);
+    await session.server.close().catch(error => {
+      logger.error(`Failed to close session ${sessionId}:`, error);
+    });
+  };
+
+  const handleStreamableRequest = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    if (url.pathname !== '/mcp') {
+      sendJsonRpcError(res, 404, 'Not found');
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    const session = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req);
+
+      if (session) {
+        await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+        return;
+      }
+
+      if (sessionId === undefined && isInitializeRequest(body)) {
+        const server = createServer();
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            sessions.set(id, { server, transport });
+          },
+        });
+        transport.onclose = () => {
+          if (transport.sessionId) {
+            void closeSession(transport.sessionId);
+          }
+        };
+
+        try {
+          await server.connect(transport);
+          await transport.handleRequest(req, res, body);
+        } finally {
+          // A failed initialize leaves no session to route to, so nothing would ever close its server
+          if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+            await server.close().catch(error => {
+              logger.error('Failed to close the server of a failed initialize:', error);
+            });
+          }
+        }
+        return;
+      }
+
+      rejectMissingSession(res, sessionId);
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!session) {
+        rejectMissingSession(res, sessionId);
+        return;
+      }
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res);
+      return;
+    }
+
+    sendJsonRpcError(res, 405, 'Method not allowed');
+  };
+
+  const handleSseRequest = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    if (req.method === 'GET' && url.pathname === '/sse') {
+      const server = createServer();
+      const transport = new SSEServerTransport('/messages', res);
+      sessions.set(transport.sessionId, { server, transport });
+      res.on('close', () => {
+        void closeSession(transport.sessionId);
+      });
+
+      await server.connect(transport);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/messages') {
+      const session = sessions.get(url.searchParams.get('sessionId') ?? '');
+      if (!session) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      const body = await readJsonBody(req);
+      await (session.transport as SSEServerTransport).handlePostMessage(req, res, body);
+      return;
+    }
+
+    sendJsonRpcError(res, 404, 'Not found');
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    const refusal = checkRequestSource(req, allowedHosts, allowedOrigins);
+    if (refusal) {
+      logger.warning(`Refused HTTP request: ${refusal}`);
+      sendJsonRpcError(res, 403, `Forbidden: ${refusal}`);
+      return;
+    }
+    const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+
+    const handler = options.transport === 'sse'
+      ? handleSseRequest(req, res, url)
+      : handleStreamableRequest(req, res, url);
+
+    handler.catch(error => {
+      logger.error('HTTP transport error:', error);
+      if (!res.headersSent) {
+        if (error instanceof HttpError) {
+          sendJsonRpcError(res, error.status, error.message);
+        } else if (error instanceof SyntaxError) {
+          sendJsonRpcError(res, 400, 'Parse error: Invalid JSON');
+        } else {
+          sendJsonRpcError(res, 500, 'Internal server error');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+
+  return {
+    host: options.host,
+    port: address.port,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      await Promise.all(Array.from(sessions.keys()).map(closeSession));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
+
+/**
+ * Answers a request without a usable session: 400 without a session id, 404 for an unknown
+ * or expired one so the client knows to initialize a new session
+ */
+function rejectMissingSession(res: ServerResponse, sessionId: string | string[] | undefined): void {
+  if (sessionId === undefined) {
+    sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+  } else {
+    sendJsonRpcError(res, 404, 'Session not found');
+  }
+}
+
+/**
+ * Why a request must be refused: a Host header that isn't an allowed host, or a browser
+ * Origin that is neither allowed nor on an allowed host. Clients outside a browser send no Origin.
+ */
+function checkRequestSource(req: IncomingMessage, allowedHosts: Set<string>, allowedOrigins: Set<string>): string | undefined {
+  const host = req.headers.host;
+  if (!host || !allowedHosts.has(parseHostname(`http://${host}`) ?? '')) {
+    return `host ${host ?? '(none)'} is not allowed`;
+  }
+
+  const origin = req.headers.origin;
+  if (origin && !allowedOrigins.has(origin.toLowerCase()) && !allowedHosts.has(parseHostname(origin) ?? '')) {
+    return `origin ${origin} is not allowed`;
+  }
+  return undefined;
+}
+
+/** The host name of a URL, with IPv6 addresses in brackets */
+function parseHostname(url: string): string | undefined {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/** A configured host name in the form URLs give it, e.g. ::1 becomes [::1] */
+function formatHostname(host: string): string {
+  const name = host.includes(':') && !host.startsWith('[') ? `[${host}]` : host;
+  return parseHostname(`http://${name}`) ?? name.toLowerCase();
+}
+
+/**
+ * Reads and parses a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Sends a JSON-RPC error response without an id
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: {
+      code: status === 400 ? -32600 : -32000,
+      message,
+    },
+    id: null,
+  }));
+}
@@ -0,0 +1,66 @@
+/**
+ * Transport selection for TailwindCSS MCP Server
+ * Resolves which transport to run from CLI flags and environment variables
+ */
+
+import { parseFlags } from '../utils/flags.js';
+
+export { startHttpTransport } from './http.js';
+export type { HttpTransportHandle, HttpTransportOptions } from './http.js';
+
+export type TransportType = 'stdio' | 'http' | 'sse';
+
+export const SUPPORTED_TRANSPORTS: TransportType[] = ['stdio', 'http', 'sse'];
+
+export interface TransportOptions {
+  transport: TransportType;
+  host: string;
+  port: number;
+  /** Host names clients may address the HTTP server by, besides localhost and the bound address */
+  allowedHosts: string[];
+  /** Browser origins that may call the HTTP server, besides those on an allowed host */
+  allowedOrigins: string[];
+}
+
+export const DEFAULT_TRANSPORT_OPTIONS: TransportOptions = {
+  transport: 'stdio',
+  host: '127.0.0.1',
+  port: 3000,
+  allowedHosts: [],
+  allowedOrigins: [],
+};
+
+/**
+ * Resolves transport options from CLI flags, falling back to environment variables.
+ *
+ * Flags: `--transport <stdio|http|sse>`, `--host <host>`, `--port <port>`, `--allowed-hosts <a,b>`,
+ * `--allowed-origins <a,b>` (also `--flag=value`).
+ * Environment: `TAILWIND_MCP_TRANSPORT`, `TAILWIND_MCP_HOST`, `TAILWIND_MCP_PORT`,
+ * `TAILWIND_MCP_ALLOWED_HOSTS`, `TAILWIND_MCP_ALLOWED_ORIGINS`.
+ */
+export function resolveTransportOptions(argv: string[], env: NodeJS.ProcessEnv = {}): TransportOptions {
+  const flags = parseFlags(argv, ['transport', 'host', 'port', 'allowed-hosts', 'allowed-origins']);
+
+  const transport = flags.transport ?? env.TAILWIND_MCP_TRANSPORT ?? DEFAULT_TRANSPORT_OPTIONS.transport;
+  if (!SUPPORTED_TRANSPORTS.includes(transport as TransportType)) {
+    throw new Error(`Unsupported transport: ${transport}. Use one of: ${SUPPORTED_TRANSPORTS.join(', ')}`);
+  }
+
+  const portValue = flags.port ?? env.TAILWIND_MCP_PORT;
+  const port = portValue === undefined ? DEFAULT_TRANSPORT_OPTIONS.port : Number(portValue);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${portValue}`);
+  }
+
+  return {
+    transport: transport as TransportType,
+    host: flags.host ?? env.TAILWIND_MCP_HOST ?? DEFAULT_TRANSPORT_OPTIONS.host,
+    port,
+    allowedHosts: splitList(flags['allowed-hosts'] ?? env.TAILWIND_MCP_ALLOWED_HOSTS),
+    allowedOrigins: splitList(flags['allowed-origins'] ?? env.TAILWIND_MCP_ALLOWED_ORIGINS),
+  };
+}
+
+function splitList(value = ''): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
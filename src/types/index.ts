@@ -3,7 +3,7 @@
  * Based on the implementation plan in TAILWINDCSS_MCP_IMPLEMENTATION_PLAN.md
  */
 
-import type { TailwindVersion } from '../version/index.js';
+import type { TailwindRelease, TailwindVersion, TailwindVersionSpec, VariantKind } from '../version/index.js';
 
 export type { TailwindVersion } from '../version/index.js';
 
@@ -16,6 +16,10 @@ export interface TailwindUtility {
   modifiers: UtilityModifier[];
   examples: Example[];
   documentation: string;
+  /** First release that ships the utility, when it is newer than v3.0 */
+  minVersion?: TailwindRelease;
+  /** Last release that ships the utility, when it was removed in a later major version */
+  maxVersion?: TailwindRelease;
 }
 
 export interface UtilityCategory {
@@ -33,7 +37,7 @@ export interface UtilityValue {
 }
 
 export interface UtilityModifier {
-  type: "responsive" | "state" | "dark" | "group" | "peer";
+  type: VariantKind;
   prefix: string;
   description: string;
 }
@@ -76,6 +80,13 @@ export interface SearchResult {
   relevance: number;
 }
 
+export interface DocumentationPage {
+  url: string;
+  title: string;
+  content: string;
+  version: TailwindVersion;
+}
+
 export interface ConfigGuide {
   topic: string;
   description: string;
@@ -107,6 +118,87 @@ export interface ConversionResult {
   version: TailwindVersion;
 }
 
+export interface ClassChange {
+  from: string;
+  to: string;
+  reason: string;
+  /** Number of times the class was rewritten */
+  occurrences: number;
+}
+
+export interface ClassMigrationResult {
+  /** The input with every class rewritten for v4 */
+  output: string;
+  /** "markup" when class attributes were rewritten, "classes" for a plain class list */
+  format: "classes" | "markup";
+  changes: ClassChange[];
+  /** v3 classes that keep their name but look or behave differently in v4 */
+  warnings: string[];
+}
+
+export interface ConfigMigrationResult {
+  /** CSS entry point with @import "tailwindcss", @plugin, @custom-variant and @theme */
+  css: string;
+  /** Behavior that changed in the translation, such as the prefix syntax */
+  notes: string[];
+  /** Options and values that could not be translated and need to be moved by hand */
+  warnings: string[];
+}
+
+export interface ThemeMigrationResult {
+  /** tailwind.config.js, or tailwind.config.ts when TypeScript was requested */
+  filename: string;
+  /** v3 config with the @theme variables under theme.extend */
+  content: string;
+  /** Variables and rules that have no v3 theme key */
+  warnings: string[];
+}
+
+export interface ClassVersionDetails {
+  available: boolean;
+  /** Generated CSS, when the catalog knows the class */
+  css?: string;
+  /** Defaults the class falls back to, e.g. "border-color: currentColor" */
+  defaults: string[];
+  /** Release that introduced the class, when newer than the first release of the version */
+  since?: TailwindRelease;
+}
+
+export interface VersionComparison {
+  className: string;
+  v3: ClassVersionDetails;
+  v4: ClassVersionDetails;
+  /** Whether the class is available in both versions and looks the same */
+  sameMeaning: boolean;
+  /** The v4 class that looks like the v3 class */
+  v4Equivalent?: string;
+  /** The v3 class that looks like the v4 class */
+  v3Equivalent?: string;
+  notes: string[];
+}
+
+export interface ClassExplanation {
+  className: string;
+  version: TailwindVersion;
+  release: TailwindRelease;
+  /** The class without its variants and important modifier */
+  utility: string;
+  variants: string[];
+  important: boolean;
+  /** Where the declarations come from: a catalog class, a theme scale step or an arbitrary value or property */
+  source: "catalog" | "theme" | "arbitrary-value" | "arbitrary-property";
+  /** Selector of the generated rule, e.g. .hover\:underline:hover */
+  selector: string;
+  /** At-rules wrapping the rule, outermost first */
+  atRules: string[];
+  declarations: string[];
+  /** The generated rule, wrapped in its at-rules */
+  css: string;
+  /** Release that introduced the class or one of its variants */
+  since?: TailwindRelease;
+  notes: string[];
+}
+
 export interface ColorPalette {
   name: string;
   colors: {
@@ -144,17 +236,108 @@ export interface ComponentTemplate {
   customizations: string[];
 }
 
+export interface ProjectContext {
+  /** Major version, or a minor release such as "v4.0" to pin the available features */
+  version?: TailwindVersionSpec;
+  /** Class prefix from the project's Tailwind setup, e.g. "tw" */
+  prefix?: string;
+  /** Custom palette names, e.g. ["brand", "accent"]; the first is the primary color */
+  colors?: string[];
+  /** Custom breakpoints by name with their min-width, e.g. { "tablet": "640px" } */
+  breakpoints?: Record<string, string>;
+  framework?: string;
+  packageManager?: InstallTailwindParams["packageManager"];
+}
+
+export interface ServerStatus {
+  services: {
+    name: string;
+    state: "registered" | "initializing" | "ready" | "failed" | "stopped";
+    error?: string;
+    cache?: {
+      totalEntries: number;
+      memoryUsage: number; // Estimated bytes
+      hitRate: number;
+      lastCleanup: string; // ISO timestamp
+    };
+  }[];
+  documentation: {
+    requests: number;
+    failures: number;
+    lastFailure?: {
+      url: string;
+      message: string;
+      at: string; // ISO timestamp
+    };
+  };
+  versions: {
+    supported: TailwindVersion[];
+    /** The version tools use when a call names none, from the server configuration */
+    default: TailwindVersion;
+    /** The release of the default version, e.g. v3.2 when the configuration pins it */
+    defaultRelease: TailwindRelease;
+  };
+  catalog: {
+    utilities: number;
+    categories: number;
+    colors: number;
+    frameworks: number;
+    templates: number;
+  };
+}
+
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface OperationOptions {
+  signal?: AbortSignal;
+  onProgress?: (update: ProgressUpdate) => void;
+}
+
+export interface ScrapeUtilitiesOptions extends OperationOptions {
+  version?: TailwindVersion;
+  categories?: string[];
+}
+
+export interface ScrapeColorsOptions extends OperationOptions {
+  version?: TailwindVersion;
+}
+
 // Tool parameter interfaces
 export interface GetUtilitiesParams {
   category?: string;
   property?: string;
   search?: string;
+  source?: "catalog" | "docs";
+  version?: TailwindVersion;
+  /** Release pinned by the call; the latest release of `version` when unset */
+  release?: TailwindRelease;
+}
+
+export interface CompareVersionsParams {
+  /** Classes separated by spaces */
+  classes?: string;
+  /** A utility and its scale, e.g. 'shadow' for shadow, shadow-sm, shadow-md, … */
+  utility?: string;
+  /** Every catalog utility of a category */
+  category?: string;
+}
+
+export interface ExplainClassParams {
+  /** A single class, with any variants, e.g. md:hover:bg-blue-500/50 */
+  className: string;
   version?: TailwindVersion;
+  /** Release pinned by the call; the latest release of `version` when unset */
+  release?: TailwindRelease;
 }
 
 export interface GetColorsParams {
   colorName?: string;
   includeShades?: boolean;
+  source?: "catalog" | "docs";
   version?: TailwindVersion;
 }
 
@@ -182,6 +365,8 @@ export interface ConvertCSSParams {
   css: string;
   mode?: "inline" | "classes" | "component";
   version?: TailwindVersion;
+  /** Release pinned by the call; the latest release of `version` when unset */
+  release?: TailwindRelease;
 }
 
 export interface GeneratePaletteParams {
@@ -204,4 +389,57 @@ export interface GenerateTemplateParams {
   darkMode?: boolean;
   responsive?: boolean;
   version?: TailwindVersion;
+}
+
+export interface MigrateClassesParams {
+  /** Space-separated classes, or markup whose class and className attributes are rewritten */
+  content: string;
+}
+
+export interface MigrateConfigParams {
+  /** Source of a v3 tailwind.config.js or tailwind.config.ts; it is parsed, never executed */
+  config: string;
+}
+
+export interface MigrateThemeParams {
+  /** CSS with one or more v4 @theme blocks */
+  css: string;
+  includeTypescript?: boolean;
+  /** Globs for the content option of the generated config */
+  contentPaths?: string[];
+}
+
+export interface DetectSetupParams {
+  /** Project directory; relative paths resolve against the working directory */
+  directory?: string;
+}
+
+export type TailwindIntegration = "postcss" | "vite" | "cli";
+
+export interface TailwindSetup {
+  /** Absolute path of the inspected directory */
+  directory: string;
+  /** Whether the project uses TailwindCSS at all */
+  detected: boolean;
+  version?: TailwindVersion;
+  release?: TailwindRelease;
+  /** Installed version, e.g. "4.1.3", or the declared range, e.g. "^3.4.0" */
+  packageVersion?: string;
+  /** Where the version was read from; "setup" means it was inferred from the CSS and config files */
+  versionSource?: "node_modules" | "lockfile" | "package.json" | "setup";
+  integration?: TailwindIntegration;
+  /** Framework key accepted by install_tailwind */
+  framework?: string;
+  packageManager?: InstallTailwindParams["packageManager"];
+  /** Tailwind, PostCSS and Vite config files, relative to the directory */
+  configFiles: string[];
+  /** Stylesheets that load TailwindCSS, relative to the directory */
+  cssEntries: string[];
+  /** The findings each conclusion is based on */
+  evidence: string[];
+}
+
+export interface SetProjectContextParams extends ProjectContext {
+  /** Clear the stored settings before applying the given ones */
+  reset?: boolean;
 }
\ No newline at end of file
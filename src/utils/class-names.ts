@@ -0,0 +1,27 @@
+/**
+ * Helpers for reading TailwindCSS class names
+ */
+
+/**
+ * Splits a class into its variants and utility, ignoring colons inside arbitrary values
+ */
+export function splitVariants(className: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < className.length; i++) {
+    const char = className[i];
+    if (char === '[' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === ')') {
+      depth--;
+    } else if (char === ':' && depth === 0) {
+      parts.push(className.slice(start, i));
+      start = i + 1;
+    }
+  }
+
+  parts.push(className.slice(start));
+  return parts;
+}
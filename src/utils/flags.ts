@@ -0,0 +1,26 @@
+/**
+ * Minimal `--flag value` / `--flag=value` parser shared by the CLI option resolvers
+ */
+
+/**
+ * Collects the named flags from an argument list, ignoring any other arguments
+ */
+export function parseFlags<Name extends string>(argv: string[], names: readonly Name[]): Partial<Record<Name, string>> {
+  const flags: Partial<Record<Name, string>> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const match = /^--([a-z-]+)(?:=(.*))?$/.exec(argv[i]);
+    if (!match || !names.includes(match[1] as Name)) {
+      continue;
+    }
+
+    const name = match[1] as Name;
+    const value = match[2] ?? argv[++i];
+    if (value === undefined || value === '') {
+      throw new Error(`Missing value for --${name}`);
+    }
+    flags[name] = value;
+  }
+
+  return flags;
+}
@@ -0,0 +1,393 @@
+/**
+ * Static reader for JavaScript and TypeScript config modules such as tailwind.config.js
+ * The exported object literal is parsed without executing the file; anything computed
+ * (function calls, references, template interpolations) is kept as its source text
+ */
+
+export type ConfigValue =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'array'; items: ConfigValue[] }
+  | { type: 'object'; entries: Array<[string, ConfigValue]>; spreads: string[] }
+  | { type: 'call'; callee: string; args: ConfigValue[]; source: string }
+  | { type: 'expression'; source: string };
+
+export type ConfigObject = Extract<ConfigValue, { type: 'object' }>;
+
+export interface ConfigModule {
+  config: ConfigObject;
+  /** Local names bound by `import x from 'module'` or `const x = require('module')` */
+  imports: Map<string, string>;
+}
+
+interface Token {
+  kind: 'string' | 'number' | 'identifier' | 'punctuation' | 'template' | 'regex';
+  value: string;
+  start: number;
+  end: number;
+}
+
+const PUNCTUATION = ['...', '=>', '{', '}', '[', ']', '(', ')', ',', ':', ';', '.', '=', '?', '+', '-', '*', '/', '%', '!', '<', '>', '&', '|'];
+const CLOSING = new Set(['}', ']', ')']);
+
+/**
+ * Parses the object a config module exports; throws when no exported object literal is found
+ */
+export function parseConfigModule(source: string): ConfigModule {
+  const imports = new Map<string, string>();
+  for (const match of source.matchAll(/import\s+(\w+)\s+from\s+["']([^"']+)["']/g)) {
+    imports.set(match[1], match[2]);
+  }
+  for (const match of source.matchAll(/(?:const|let|var)\s+(\w+)\s*=\s*require\(\s*["']([^"']+)["']\s*\)/g)) {
+    imports.set(match[1], match[2]);
+  }
+
+  const parser = new Parser(source, tokenize(source));
+  const config = parser.parseExport();
+  if (!config) {
+    throw new Error('No exported config object found; expected `module.exports = { … }` or `export default { … }`');
+  }
+  return { config, imports };
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private source: string, private tokens: Token[]) {}
+
+  /**
+   * Finds the exported value and parses it, following `export default config` to its declaration
+   */
+  parseExport(): ConfigObject | undefined {
+    const exported = /\bmodule\.exports\s*=|\bexport\s+default\b/.exec(this.source);
+    if (!exported) {
+      return undefined;
+    }
+    const target = this.parseAt(exported.index + exported[0].length);
+
+    if (target?.type === 'expression' && /^[A-Za-z_$][\w$]*$/.test(target.source)) {
+      const declaration = new RegExp(`\\b(?:const|let|var)\\s+${target.source}\\s*(?::[^=]+)?=`).exec(this.source);
+      return declaration ? this.unwrap(this.parseAt(declaration.index + declaration[0].length)) : undefined;
+    }
+    return this.unwrap(target);
+  }
+
+  private parseAt(offset: number): ConfigValue | undefined {
+    this.position = this.tokens.findIndex(token => token.start >= offset);
+    return this.position === -1 ? undefined : this.parseValue();
+  }
+
+  /**
+   * The object itself, or the object passed to a wrapper such as `defineConfig({ … })`
+   */
+  private unwrap(value: ConfigValue | undefined): ConfigObject | undefined {
+    if (value?.type === 'object') {
+      return value;
+    }
+    return value?.type === 'call' && value.args[0]?.type === 'object' ? value.args[0] : undefined;
+  }
+
+  private parseValue(): ConfigValue {
+    const start = this.position;
+    const value = this.parsePrimary();
+
+    // TypeScript `satisfies Config` and `as Config` don't change the value
+    if (this.peek()?.kind === 'identifier' && ['satisfies', 'as'].includes(this.peek()!.value)) {
+      this.position++;
+      this.parseExpression();
+      return value;
+    }
+
+    // Anything that continues the expression (operators, member access) makes it computed
+    const next = this.peek();
+    if (next && !(next.kind === 'punctuation' && [',', ';', ...CLOSING].includes(next.value)) && !this.isStatementEnd(next)) {
+      this.position = start;
+      return this.parseExpression();
+    }
+    return value;
+  }
+
+  private parsePrimary(): ConfigValue {
+    const token = this.peek();
+    if (!token) {
+      throw new Error('Unexpected end of config');
+    }
+
+    if (token.kind === 'string') {
+      this.position++;
+      return { type: 'literal', value: token.value };
+    }
+    if (token.kind === 'number') {
+      this.position++;
+      return { type: 'literal', value: Number(token.value) };
+    }
+    if (token.kind === 'punctuation' && token.value === '-' && this.peek(1)?.kind === 'number') {
+      this.position += 2;
+      return { type: 'literal', value: -Number(this.tokens[this.position - 1].value) };
+    }
+    if (token.kind === 'identifier' && ['true', 'false', 'null'].includes(token.value)) {
+      this.position++;
+      return { type: 'literal', value: token.value === 'null' ? null : token.value === 'true' };
+    }
+    if (token.kind === 'punctuation' && token.value === '{') {
+      return this.parseObject();
+    }
+    if (token.kind === 'punctuation' && token.value === '[') {
+      return this.parseArray();
+    }
+    if (token.kind === 'identifier' && this.peek(1)?.value === '(') {
+      return this.parseCall();
+    }
+    return this.parseExpression();
+  }
+
+  private parseObject(): ConfigObject {
+    const object: ConfigObject = { type: 'object', entries: [], spreads: [] };
+    this.expect('{');
+
+    while (!this.match('}')) {
+      if (this.match('...')) {
+        object.spreads.push(this.parseExpression().source);
+      } else {
+        const keyToken = this.next();
+        if (keyToken.value === '[') {
+          // Computed keys can't be read statically; keep them as expressions
+          const key = this.skipBalanced(keyToken);
+          this.expect(':');
+          object.entries.push([key, { type: 'expression', source: this.parseExpression().source }]);
+        } else if (this.match(':')) {
+          object.entries.push([keyToken.value, this.parseValue()]);
+        } else if (this.peek()?.value === '(') {
+          // Method shorthand: key() { … }
+          const start = keyToken.start;
+          this.skipBalanced(this.next());
+          this.skipBalanced(this.next());
+          object.entries.push([keyToken.value, { type: 'expression', source: this.source.slice(start, this.tokens[this.position - 1].end) }]);
+        } else {
+          object.entries.push([keyToken.value, { type: 'expression', source: keyToken.value }]);
+        }
+      }
+      if (!this.match(',')) {
+        this.expect('}');
+        break;
+      }
+    }
+    return object;
+  }
+
+  private parseArray(): ConfigValue {
+    const items: ConfigValue[] = [];
+    this.expect('[');
+    while (!this.match(']')) {
+      items.push(this.match('...') ? { type: 'expression', source: `...${this.parseExpression().source}` } : this.parseValue());
+      if (!this.match(',')) {
+        this.expect(']');
+        break;
+      }
+    }
+    return { type: 'array', items };
+  }
+
+  private parseCall(): ConfigValue {
+    const start = this.position;
+    const callee = this.next().value;
+    const args = this.parseCallArguments();
+
+    const next = this.peek();
+    if (next && !(next.kind === 'punctuation' && [',', ';', ...CLOSING].includes(next.value)) && !this.isStatementEnd(next)) {
+      // require('plugin')({ … }) passes options to the plugin; anything else, such as member access, is computed
+      if (next.value === '(') {
+        const outer = this.parseCallArguments();
+        return { type: 'call', callee, args: [...args, ...outer], source: this.source.slice(this.tokens[start].start, this.tokens[this.position - 1].end) };
+      }
+      this.position = start;
+      return this.parseExpression();
+    }
+    return { type: 'call', callee, args, source: this.source.slice(this.tokens[start].start, this.tokens[this.position - 1].end) };
+  }
+
+  private parseCallArguments(): ConfigValue[] {
+    const args: ConfigValue[] = [];
+    this.expect('(');
+    while (!this.match(')')) {
+      args.push(this.parseValue());
+      if (!this.match(',')) {
+        this.expect(')');
+        break;
+      }
+    }
+    return args;
+  }
+
+  /**
+   * Consumes tokens up to the next top-level separator and returns their source text
+   */
+  private parseExpression(): { type: 'expression'; source: string } {
+    const first = this.peek();
+    if (!first) {
+      throw new Error('Unexpected end of config');
+    }
+
+    let last = first;
+    while (this.position < this.tokens.length) {
+      const token = this.peek()!;
+      if (token.kind === 'punctuation' && ([',', ';'].includes(token.value) || CLOSING.has(token.value))) {
+        break;
+      }
+      if (token !== first && this.isStatementEnd(token)) {
+        break;
+      }
+      this.position++;
+      last = ['{', '[', '('].includes(token.value) && token.kind === 'punctuation' ? this.tokens[this.findClosing(this.position - 1)] : token;
+      if (last !== token) {
+        this.position = this.tokens.indexOf(last) + 1;
+      }
+    }
+    return { type: 'expression', source: this.source.slice(first.start, last.end).trim() };
+  }
+
+  /**
+   * A keyword starting a new statement after an expression without a semicolon
+   */
+  private isStatementEnd(token: Token): boolean {
+    return token.kind === 'identifier' && ['export', 'module', 'const', 'let', 'var', 'import'].includes(token.value)
+      && this.source.slice(this.tokens[this.position - 1]?.end ?? 0, token.start).includes('\n');
+  }
+
+  private skipBalanced(open: Token): string {
+    const closing = this.findClosing(this.tokens.indexOf(open));
+    this.position = closing + 1;
+    return this.source.slice(open.start, this.tokens[closing].end);
+  }
+
+  private findClosing(index: number): number {
+    let depth = 0;
+    for (let i = index; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.kind !== 'punctuation') {
+        continue;
+      }
+      if (['{', '[', '('].includes(token.value)) {
+        depth++;
+      } else if (CLOSING.has(token.value) && --depth === 0) {
+        return i;
+      }
+    }
+    throw new Error(`Unbalanced "${this.tokens[index].value}" in config`);
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new Error('Unexpected end of config');
+    }
+    return token;
+  }
+
+  private match(value: string): boolean {
+    const token = this.peek();
+    if (token?.kind === 'punctuation' && token.value === value) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): void {
+    if (!this.match(value)) {
+      const token = this.peek();
+      const line = token ? this.source.slice(0, token.start).split('\n').length : 'end';
+      throw new Error(`Expected "${value}" but found ${token ? `"${token.value}"` : 'the end of the file'} (line ${line})`);
+    }
+  }
+}
+
+/**
+ * Splits source into tokens, dropping whitespace and comments
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const start = i;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (source.startsWith('//', i)) {
+      i = source.indexOf('\n', i) === -1 ? source.length : source.indexOf('\n', i);
+    } else if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      i = end === -1 ? source.length : end + 2;
+    } else if (char === '"' || char === "'" || char === '`') {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          value += unescape(source[i + 1]);
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      i++;
+      // Template literals with interpolations are computed
+      tokens.push({ kind: char === '`' && value.includes('${') ? 'template' : 'string', value, start, end: i });
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^(?:0[xX][\da-fA-F]+|\d*\.?\d+(?:[eE][+-]?\d+)?)/.exec(source.slice(i))!;
+      i += match[0].length;
+      tokens.push({ kind: 'number', value: match[0], start, end: i });
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[\w$]+/.exec(source.slice(i))!;
+      i += match[0].length;
+      tokens.push({ kind: 'identifier', value: match[0], start, end: i });
+    } else if (char === '/' && isRegexPosition(tokens)) {
+      i = skipRegex(source, i);
+      tokens.push({ kind: 'regex', value: source.slice(start, i), start, end: i });
+    } else {
+      const punctuation = PUNCTUATION.find(candidate => source.startsWith(candidate, i)) ?? char;
+      i += punctuation.length;
+      tokens.push({ kind: 'punctuation', value: punctuation, start, end: i });
+    }
+  }
+
+  return tokens;
+}
+
+function unescape(char: string): string {
+  return ({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[char] ?? char;
+}
+
+/**
+ * A slash starts a regular expression where a value is expected, e.g. `pattern: /bg-.+/`
+ */
+function isRegexPosition(tokens: Token[]): boolean {
+  const previous = tokens[tokens.length - 1];
+  return !previous || (previous.kind === 'punctuation' && !CLOSING.has(previous.value));
+}
+
+function skipRegex(source: string, start: number): number {
+  let i = start + 1;
+  let inClass = false;
+  while (i < source.length && source[i] !== '\n') {
+    const char = source[i];
+    if (char === '\\') {
+      i += 2;
+      continue;
+    }
+    if (char === '[') {
+      inClass = true;
+    } else if (char === ']') {
+      inClass = false;
+    } else if (char === '/' && !inClass) {
+      i++;
+      break;
+    }
+    i++;
+  }
+  return i + (/^[a-z]*/.exec(source.slice(i))?.[0].length ?? 0);
+}
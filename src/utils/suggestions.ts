@@ -0,0 +1,65 @@
+/**
+ * Fuzzy "did you mean" matching for rejected names and values
+ */
+
+/**
+ * Returns the candidates closest to `value`, best match first.
+ * A candidate qualifies when it contains (or is contained in) the value, or when
+ * its edit distance is at most a third of the longer string's length.
+ */
+export function suggestAlternatives(value: string, candidates: Iterable<string>, limit = 3): string[] {
+  const needle = value.trim().toLowerCase();
+  if (!needle) {
+    return [];
+  }
+
+  const scored: Array<{ candidate: string; distance: number }> = [];
+  for (const candidate of new Set(candidates)) {
+    if (candidate === value) {
+      continue;
+    }
+
+    const target = candidate.toLowerCase();
+
+    const distance = editDistance(needle, target);
+    const contains = Math.min(needle.length, target.length) >= 3 && (target.includes(needle) || needle.includes(target));
+    if (contains || distance <= Math.max(1, Math.floor(Math.max(needle.length, target.length) / 3))) {
+      scored.push({ candidate, distance: contains ? Math.min(distance, 1) : distance });
+    }
+  }
+
+  return scored
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Appends a "Did you mean …?" sentence to an error message when there are suggestions
+ */
+export function withSuggestions(message: string, suggestions: string[] = []): string {
+  if (suggestions.length === 0) {
+    return message;
+  }
+  const quoted = suggestions.map(suggestion => `"${suggestion}"`);
+  const list = quoted.length === 1 ? quoted[0] : `${quoted.slice(0, -1).join(', ')} or ${quoted[quoted.length - 1]}`;
+  return `${message}${/[.?!]$/.test(message) ? '' : '.'} Did you mean ${list}?`;
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
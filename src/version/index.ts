@@ -1,7 +1,59 @@
 export {
+  type ClassRequirement,
+  type ConfigLiteral,
+  type TailwindFeature,
+  type TailwindFeatureInfo,
+  type TailwindRelease,
   type TailwindVersion,
   type TailwindVersionConfig,
+  type TailwindVersionSpec,
   DEFAULT_VERSION,
+  SUPPORTED_RELEASES,
   SUPPORTED_VERSIONS,
+  TAILWIND_FEATURES,
+  UTILITY_DEFAULT_DEPENDENCIES,
+  VERSION_SPECS,
+  getClassRequirement,
+  getFeatureFlags,
   getVersionConfig,
+  isReleaseAtLeast,
+  isVersionSpec,
+  resolveVersion,
+  supportsFeature,
 } from './tailwind-version.js';
+export {
+  type BehaviorChange,
+  type UtilityRename,
+  COLOR_VALUE,
+  V4_BEHAVIOR_CHANGES,
+  V4_BUILTIN_PLUGINS,
+  V4_HOVER_WARNING,
+  V4_REMOVED_OPACITY_UTILITIES,
+  V4_RENAMED_UTILITIES,
+  V4_THEME_NAMESPACES,
+  V4_UNSUPPORTED_CONFIG_KEYS,
+} from './migration.js';
+export {
+  type UtilityCategoryId,
+  type UtilityFamily,
+  COLOR_PALETTES,
+  UTILITY_CATEGORIES,
+  UTILITY_FAMILIES,
+} from './utility-catalog.js';
+export {
+  type ParsedClass,
+  type ParsedVariant,
+  type VariantDefinition,
+  type VariantKind,
+  type VariantRule,
+  BREAKPOINTS,
+  CONTAINER_SIZES,
+  HOVER_MEDIA,
+  VARIANT_KINDS,
+  applyVariants,
+  decodeArbitrary,
+  getCategoryVariants,
+  getVariantRegistry,
+  parseClass,
+  parseVariant,
+} from './variants.js';
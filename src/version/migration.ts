@@ -0,0 +1,126 @@
+/**
+ * TailwindCSS v3 → v4 migration rules
+ * Utilities that were renamed or removed in v4, and v3 classes that keep their name but
+ * behave differently; the migration service applies them to class lists and markup
+ */
+
+export interface UtilityRename {
+  from: string;
+  to: string;
+  reason: string;
+}
+
+export interface BehaviorChange {
+  /** Matches the utility, without variants or the important modifier */
+  utility: RegExp;
+  /** Skipped when another class with the same variants matches, e.g. an explicit border color */
+  unlessSibling?: RegExp;
+  warning: string;
+}
+
+/**
+ * `utility-sm` became `utility-xs` and the bare utility became `utility-sm`
+ */
+function scaleShift(utility: string, sides: string[] = ['']): UtilityRename[] {
+  return sides.flatMap(side => {
+    const name = `${utility}${side}`;
+    const reason = `The ${utility} scale shifted down a step: ${name}-sm is now ${name}-xs and ${name} is now ${name}-sm`;
+    return [
+      { from: `${name}-sm`, to: `${name}-xs`, reason },
+      { from: name, to: `${name}-sm`, reason },
+    ];
+  });
+}
+
+const ROUNDED_SIDES = ['', '-t', '-r', '-b', '-l', '-s', '-e', '-tl', '-tr', '-br', '-bl', '-ss', '-se', '-es', '-ee'];
+const GRADIENT_DIRECTIONS = ['t', 'tr', 'r', 'br', 'b', 'bl', 'l', 'tl'];
+
+export const V4_RENAMED_UTILITIES: UtilityRename[] = [
+  ...scaleShift('shadow'),
+  ...scaleShift('drop-shadow'),
+  ...scaleShift('blur'),
+  ...scaleShift('backdrop-blur'),
+  ...scaleShift('rounded', ROUNDED_SIDES),
+  {
+    from: 'outline-none',
+    to: 'outline-hidden',
+    reason: 'outline-none now sets outline-style: none; outline-hidden hides the outline but keeps it in forced colors mode, like v3 outline-none',
+  },
+  { from: 'ring', to: 'ring-3', reason: 'The default ring width changed from 3px to 1px' },
+  { from: 'decoration-slice', to: 'box-decoration-slice', reason: 'The deprecated decoration-* box decoration utilities were removed' },
+  { from: 'decoration-clone', to: 'box-decoration-clone', reason: 'The deprecated decoration-* box decoration utilities were removed' },
+  { from: 'overflow-ellipsis', to: 'text-ellipsis', reason: 'The deprecated overflow-ellipsis utility was removed' },
+  { from: 'flex-shrink', to: 'shrink', reason: 'The deprecated flex-shrink-* utilities were removed' },
+  { from: 'flex-shrink-0', to: 'shrink-0', reason: 'The deprecated flex-shrink-* utilities were removed' },
+  { from: 'flex-grow', to: 'grow', reason: 'The deprecated flex-grow-* utilities were removed' },
+  { from: 'flex-grow-0', to: 'grow-0', reason: 'The deprecated flex-grow-* utilities were removed' },
+  ...GRADIENT_DIRECTIONS.map(direction => ({
+    from: `bg-gradient-to-${direction}`,
+    to: `bg-linear-to-${direction}`,
+    reason: 'bg-gradient-* was renamed to bg-linear-* alongside the new radial and conic gradients',
+  })),
+];
+
+/** Color utilities whose separate *-opacity-* utility was removed in favor of an opacity modifier */
+export const V4_REMOVED_OPACITY_UTILITIES = ['bg', 'text', 'border', 'divide', 'ring', 'placeholder'];
+
+/** A color value of a color utility: a palette color, a keyword or an arbitrary color */
+export const COLOR_VALUE = String.raw`(?:inherit|current|transparent|black|white|[a-z]+-\d{2,3}|\[(?:#|rgba?\(|hsla?\(|oklch\(|color:)[^\]]*\]|\(color:[^)]*\))`;
+
+export const V4_BEHAVIOR_CHANGES: BehaviorChange[] = [
+  {
+    utility: /^(?:border(?:-[xytrblse])?(?:-\d+|-\[[^\]]+\])?|divide-[xy](?:-\d+)?)$/,
+    unlessSibling: new RegExp(`^(?:border(?:-[xytrblse])?|divide)-${COLOR_VALUE}(?:/.+)?$`),
+    warning: 'Borders and dividers default to currentColor instead of gray-200 in v4; add a color such as border-gray-200 to keep the v3 look',
+  },
+  {
+    utility: /^ring(?:-\d+|-\[[^\]]+\])?$/,
+    unlessSibling: new RegExp(`^ring-${COLOR_VALUE}(?:/.+)?$`),
+    warning: 'Rings default to currentColor instead of blue-500 in v4; add ring-blue-500 to keep the v3 look',
+  },
+  {
+    utility: /^-?space-[xy]-/,
+    warning: 'space-x-* and space-y-* use a different selector in v4 and can change layouts with inline elements; prefer flex or grid with gap-*',
+  },
+];
+
+export const V4_HOVER_WARNING = 'The hover: variant only applies on devices that support hovering in v4, so touch screens no longer keep hover styles after a tap';
+
+/**
+ * v3 theme keys and the v4 @theme namespace their values move to, e.g. colors.brand → --color-brand
+ */
+export const V4_THEME_NAMESPACES: Record<string, string> = {
+  colors: 'color',
+  spacing: 'spacing',
+  fontFamily: 'font',
+  fontSize: 'text',
+  fontWeight: 'font-weight',
+  letterSpacing: 'tracking',
+  lineHeight: 'leading',
+  borderRadius: 'radius',
+  boxShadow: 'shadow',
+  dropShadow: 'drop-shadow',
+  blur: 'blur',
+  screens: 'breakpoint',
+  animation: 'animate',
+  transitionTimingFunction: 'ease',
+  maxWidth: 'container',
+  aspectRatio: 'aspect',
+  perspective: 'perspective',
+};
+
+/** First-party plugins whose features are built into v4 */
+export const V4_BUILTIN_PLUGINS: Record<string, string> = {
+  '@tailwindcss/container-queries': 'Container queries are built into v4; remove the plugin',
+  '@tailwindcss/line-clamp': 'line-clamp-* utilities are built in since v3.3; remove the plugin',
+  '@tailwindcss/aspect-ratio': 'aspect-* utilities use the native aspect-ratio property in v4; remove the plugin unless you need its aspect-w-* and aspect-h-* classes',
+};
+
+/** Top-level config keys without a CSS equivalent, and what to do instead */
+export const V4_UNSUPPORTED_CONFIG_KEYS: Record<string, string> = {
+  safelist: 'v4 has no safelist; list the classes with @source inline("…") (v4.1 or newer)',
+  blocklist: 'v4 has no blocklist; exclude classes with @source not inline("…") (v4.1 or newer)',
+  corePlugins: 'Core plugins can\'t be disabled in v4; remove the corePlugins option',
+  presets: 'Presets are not supported in CSS configs; translate the preset and @import its CSS instead',
+  separator: 'The variant separator is always ":" in v4',
+};
@@ -1,14 +1,37 @@
 /**
  * TailwindCSS Version Configuration Module
- * Centralizes all v3/v4 differences so services can consult per-request.
+ * Centralizes all v3/v4 differences so services can consult per-request,
+ * and tracks which minor release introduced each feature.
  */
 
+import { splitVariants } from '../utils/class-names.js';
+import { V4_RENAMED_UTILITIES } from './migration.js';
+
 export type TailwindVersion = 'v3' | 'v4';
 
 export const DEFAULT_VERSION: TailwindVersion = 'v4';
 
 export const SUPPORTED_VERSIONS: TailwindVersion[] = ['v3', 'v4'];
 
+/**
+ * Minor releases, oldest first; a major version stands for its latest minor release
+ */
+export type TailwindRelease = 'v3.0' | 'v3.1' | 'v3.2' | 'v3.3' | 'v3.4' | 'v4.0' | 'v4.1';
+
+export const SUPPORTED_RELEASES: TailwindRelease[] = ['v3.0', 'v3.1', 'v3.2', 'v3.3', 'v3.4', 'v4.0', 'v4.1'];
+
+/**
+ * A major version, or a minor release to pin the available features to
+ */
+export type TailwindVersionSpec = TailwindVersion | TailwindRelease;
+
+export const VERSION_SPECS: TailwindVersionSpec[] = [...SUPPORTED_VERSIONS, ...SUPPORTED_RELEASES];
+
+/**
+ * A value that can be written into a JS config, such as the contents of theme.extend
+ */
+export type ConfigLiteral = string | number | ConfigLiteral[] | { [key: string]: ConfigLiteral };
+
 export interface TailwindVersionConfig {
   version: TailwindVersion;
   docsBaseUrl: string;
@@ -17,22 +40,19 @@ export interface TailwindVersionConfig {
   cssEntryContent: string;
   postcssPluginConfig: Record<string, Record<string, unknown>>;
   configFileRequired: boolean;
-  generateTailwindConfig: (contentPaths: string[], includeTypescript: boolean) => string;
+  /** The v3 config file, with `themeExtension` as theme.extend; v4 returns a CSS-first example instead */
+  generateTailwindConfig: (contentPaths: string[], includeTypescript: boolean, themeExtension?: Record<string, ConfigLiteral>) => string;
   renamedUtilities: Map<string, string>;
+  /** Values utilities fall back to when the class doesn't set them, e.g. the border color */
+  utilityDefaults: Record<string, string>;
+  /** CSS of the utilities whose output differs between versions */
+  utilityCss: Record<string, string>;
   paletteConfigFormat: (name: string, colors: Record<string, string>) => string;
 }
 
 const v3RenamedUtilities = new Map<string, string>();
 
-const v4RenamedUtilities = new Map<string, string>([
-  ['decoration-slice', 'box-decoration-slice'],
-  ['decoration-clone', 'box-decoration-clone'],
-  ['overflow-ellipsis', 'text-ellipsis'],
-  ['flex-shrink', 'shrink'],
-  ['flex-shrink-0', 'shrink-0'],
-  ['flex-grow', 'grow'],
-  ['flex-grow-0', 'grow-0'],
-]);
+const v4RenamedUtilities = new Map<string, string>(V4_RENAMED_UTILITIES.map(({ from, to }) => [from, to]));
 
 const v3Config: TailwindVersionConfig = {
   version: 'v3',
@@ -45,7 +65,7 @@ const v3Config: TailwindVersionConfig = {
     autoprefixer: {},
   },
   configFileRequired: true,
-  generateTailwindConfig: (contentPaths: string[], includeTypescript: boolean): string => {
+  generateTailwindConfig: (contentPaths: string[], includeTypescript: boolean, themeExtension: Record<string, ConfigLiteral> = {}): string => {
     const typeAnnotation = includeTypescript ? ': import("tailwindcss").Config' : '';
     return `/** @type {import('tailwindcss').Config} */
 ${includeTypescript ? 'import type { Config } from "tailwindcss";' : ''}
@@ -55,12 +75,36 @@ ${includeTypescript ? 'const config: Config = {' : 'module.exports = {'}
     ${contentPaths.map(path => `"${path}"`).join(',\n    ')}
   ],
   theme: {
-    extend: {},
+    extend: ${formatConfigLiteral(themeExtension, '    ')},
   },
   plugins: [],
 }${includeTypescript ? ';\n\nexport default config;' : ''}`;
   },
   renamedUtilities: v3RenamedUtilities,
+  utilityDefaults: {
+    'border-color': '#e5e7eb',
+    'ring-width': '3px',
+    'ring-color': 'rgb(59 130 246 / 0.5)',
+    'placeholder-color': '#9ca3af',
+    'button-cursor': 'pointer',
+  },
+  utilityCss: {
+    'shadow-sm': 'box-shadow: 0 1px 2px 0 rgb(0 0 0 / 0.05)',
+    shadow: 'box-shadow: 0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)',
+    'drop-shadow-sm': 'filter: drop-shadow(0 1px 1px rgb(0 0 0 / 0.05))',
+    'drop-shadow': 'filter: drop-shadow(0 1px 2px rgb(0 0 0 / 0.1)) drop-shadow(0 1px 1px rgb(0 0 0 / 0.06))',
+    'blur-sm': 'filter: blur(4px)',
+    blur: 'filter: blur(8px)',
+    'backdrop-blur-sm': 'backdrop-filter: blur(4px)',
+    'backdrop-blur': 'backdrop-filter: blur(8px)',
+    'rounded-sm': 'border-radius: 0.125rem',
+    rounded: 'border-radius: 0.25rem',
+    'outline-none': 'outline: 2px solid transparent; outline-offset: 2px',
+    ring: 'box-shadow: 0 0 0 3px var(--tw-ring-color)',
+    'ring-1': 'box-shadow: 0 0 0 1px var(--tw-ring-color)',
+    'ring-2': 'box-shadow: 0 0 0 2px var(--tw-ring-color)',
+    border: 'border-width: 1px',
+  },
   paletteConfigFormat: (name: string, colors: Record<string, string>): string => {
     return `// Add to your tailwind.config.js
 module.exports = {
@@ -85,9 +129,10 @@ const v4Config: TailwindVersionConfig = {
     '@tailwindcss/postcss': {},
   },
   configFileRequired: false,
-  generateTailwindConfig: (_contentPaths: string[], _includeTypescript: boolean): string => {
+  generateTailwindConfig: (_contentPaths: string[], _includeTypescript: boolean, _themeExtension?: Record<string, ConfigLiteral>): string => {
     return `/* TailwindCSS v4 uses CSS-first configuration.
-   Add customizations directly in your CSS file using @theme. */
+   Add customizations directly in your CSS file using @theme.
+   To carry over an existing v3 tailwind.config.js, translate it with the migrate_config_to_v4 tool. */
 
 /* Example CSS-first config in your main CSS file: */
 /*
@@ -101,6 +146,38 @@ const v4Config: TailwindVersionConfig = {
 */`;
   },
   renamedUtilities: v4RenamedUtilities,
+  utilityDefaults: {
+    'border-color': 'currentColor',
+    'ring-width': '1px',
+    'ring-color': 'currentColor',
+    'placeholder-color': 'currentColor at 50% opacity',
+    'button-cursor': 'default',
+  },
+  utilityCss: {
+    'shadow-2xs': 'box-shadow: 0 1px rgb(0 0 0 / 0.05)',
+    'shadow-xs': 'box-shadow: 0 1px 2px 0 rgb(0 0 0 / 0.05)',
+    'shadow-sm': 'box-shadow: 0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)',
+    'drop-shadow-xs': 'filter: drop-shadow(0 1px 1px rgb(0 0 0 / 0.05))',
+    'drop-shadow-sm': 'filter: drop-shadow(0 1px 2px rgb(0 0 0 / 0.15))',
+    'drop-shadow-md': 'filter: drop-shadow(0 3px 3px rgb(0 0 0 / 0.12))',
+    'drop-shadow-lg': 'filter: drop-shadow(0 4px 4px rgb(0 0 0 / 0.15))',
+    'drop-shadow-xl': 'filter: drop-shadow(0 9px 7px rgb(0 0 0 / 0.1))',
+    'drop-shadow-2xl': 'filter: drop-shadow(0 25px 25px rgb(0 0 0 / 0.15))',
+    'blur-xs': 'filter: blur(4px)',
+    'blur-sm': 'filter: blur(8px)',
+    'backdrop-blur-xs': 'backdrop-filter: blur(4px)',
+    'backdrop-blur-sm': 'backdrop-filter: blur(8px)',
+    'rounded-xs': 'border-radius: 0.125rem',
+    'rounded-sm': 'border-radius: 0.25rem',
+    'outline-none': 'outline-style: none',
+    'content-none': '--tw-content: none; content: none',
+    'outline-hidden': 'outline: 2px solid transparent; outline-offset: 2px',
+    ring: 'box-shadow: 0 0 0 1px var(--tw-ring-color)',
+    'ring-1': 'box-shadow: 0 0 0 1px var(--tw-ring-color)',
+    'ring-2': 'box-shadow: 0 0 0 2px var(--tw-ring-color)',
+    'ring-3': 'box-shadow: 0 0 0 3px var(--tw-ring-color)',
+    border: 'border-width: 1px',
+  },
   paletteConfigFormat: (name: string, colors: Record<string, string>): string => {
     let css = `/* Add to your main CSS file (TailwindCSS v4 CSS-first config) */\n@theme {\n`;
     for (const [shade, color] of Object.entries(colors)) {
@@ -111,6 +188,32 @@ const v4Config: TailwindVersionConfig = {
   },
 };
 
+/**
+ * Writes a value as a JS literal in the style of the generated config files
+ */
+function formatConfigLiteral(value: ConfigLiteral, indent: string): string {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => formatConfigLiteral(item, indent)).join(', ')}]`;
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length === 0) {
+    return '{}';
+  }
+  const inner = `${indent}  `;
+  const lines = entries.map(([key, item]) => {
+    const name = /^(?:[A-Za-z_$][\w$]*|0|[1-9]\d*)$/.test(key) ? key : `'${key.replace(/'/g, "\\'")}'`;
+    return `${inner}${name}: ${formatConfigLiteral(item, inner)},`;
+  });
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
 const versionConfigs: Record<TailwindVersion, TailwindVersionConfig> = {
   v3: v3Config,
   v4: v4Config,
@@ -120,3 +223,209 @@ export function getVersionConfig(version?: TailwindVersion): TailwindVersionConf
   const v = version || DEFAULT_VERSION;
   return versionConfigs[v];
 }
+
+/**
+ * Utilities that rely on a default from `utilityDefaults` unless a sibling class sets it
+ */
+export const UTILITY_DEFAULT_DEPENDENCIES: Array<{ utility: RegExp; defaults: string[] }> = [
+  { utility: /^(?:border(?:-[xytrblse])?(?:-\d+)?|divide-[xy](?:-\d+)?)$/, defaults: ['border-color'] },
+  { utility: /^ring$/, defaults: ['ring-width', 'ring-color'] },
+  { utility: /^ring-\d+$/, defaults: ['ring-color'] },
+];
+
+/**
+ * Features that arrived in a minor release
+ */
+export type TailwindFeature =
+  | 'contrast-variants'
+  | 'backdrop-variant'
+  | 'arbitrary-variants'
+  | 'named-group-variants'
+  | 'min-max-variants'
+  | 'data-aria-variants'
+  | 'supports-variant'
+  | 'logical-properties'
+  | 'line-clamp'
+  | 'shade-950'
+  | 'text-wrap'
+  | 'size-utilities'
+  | 'dynamic-viewport-units'
+  | 'subgrid'
+  | 'has-variant'
+  | 'child-variant'
+  | 'forced-color-adjust'
+  | 'forced-colors-variant'
+  | 'container-queries'
+  | 'starting-variant'
+  | 'not-variant'
+  | 'in-variant'
+  | 'nth-variants'
+  | 'descendant-variant'
+  | 'inert-variant'
+  | 'inset-shadow'
+  | '3d-transforms'
+  | 'field-sizing'
+  | 'color-scheme'
+  | 'xs-scale-steps'
+  | 'gradient-types'
+  | 'v4-outline-ring-names'
+  | 'text-shadow'
+  | 'mask'
+  | 'overflow-wrap'
+  | 'colored-drop-shadow'
+  | 'safe-alignment'
+  | 'baseline-last'
+  | 'pointer-variants'
+  | 'details-content-variant'
+  | 'user-validity-variants'
+  | 'noscript-variant'
+  | 'inverted-colors-variant';
+
+export interface TailwindFeatureInfo {
+  /** First release that ships the feature */
+  since: TailwindRelease;
+  description: string;
+  /** Utilities (without variants) that belong to the feature */
+  utilities?: RegExp[];
+  /** Variants that belong to the feature */
+  variants?: RegExp[];
+}
+
+export const TAILWIND_FEATURES: Record<TailwindFeature, TailwindFeatureInfo> = {
+  'contrast-variants': { since: 'v3.1', description: 'contrast-more and contrast-less variants', variants: [/^contrast-(more|less)$/] },
+  'backdrop-variant': { since: 'v3.1', description: 'The backdrop variant', variants: [/^backdrop$/] },
+  'arbitrary-variants': { since: 'v3.1', description: 'Arbitrary variants such as [&>*]:', variants: [/^\[.*\]$/] },
+  'named-group-variants': { since: 'v3.2', description: 'Named groups and peers such as group-hover/item', variants: [/^(group|peer)-.+\/[\w-]+$/] },
+  'min-max-variants': { since: 'v3.2', description: 'max-* breakpoint variants and arbitrary min-[…] and max-[…] variants', variants: [/^(min|max)-/] },
+  'data-aria-variants': { since: 'v3.2', description: 'data-* and aria-* variants', variants: [/^(group-|peer-)?(data|aria)-/] },
+  'supports-variant': { since: 'v3.2', description: 'supports-* variants', variants: [/^supports-/] },
+  'logical-properties': {
+    since: 'v3.3',
+    description: 'Logical inline start/end utilities',
+    utilities: [/^(scroll-)?[mp][se]-/, /^(start|end)-/, /^rounded-(s|e|ss|se|es|ee)(-|$)/, /^border-[se](-|$)/],
+  },
+  'line-clamp': { since: 'v3.3', description: 'Built-in line-clamp utilities', utilities: [/^line-clamp-/] },
+  'shade-950': { since: 'v3.3', description: 'The 950 shade of the palette colors', utilities: [/^[a-z-]+-[a-z]+-950(?:\/.+)?$/] },
+  'text-wrap': { since: 'v3.4', description: 'text-wrap utilities', utilities: [/^text-(balance|pretty|wrap|nowrap)$/] },
+  'size-utilities': { since: 'v3.4', description: 'size-* utilities for width and height', utilities: [/^size-/] },
+  'dynamic-viewport-units': {
+    since: 'v3.4',
+    description: 'Dynamic, small and large viewport units',
+    utilities: [/^(min-|max-)?[hw]-(dvh|svh|lvh|dvw|svw|lvw)$/],
+  },
+  subgrid: { since: 'v3.4', description: 'Subgrid utilities', utilities: [/^grid-(cols|rows)-subgrid$/] },
+  'has-variant': { since: 'v3.4', description: 'has-* variants', variants: [/^(group-|peer-)?has-/] },
+  'child-variant': { since: 'v3.4', description: 'The * child variant', variants: [/^\*$/] },
+  'forced-color-adjust': { since: 'v3.4', description: 'forced-color-adjust utilities', utilities: [/^forced-color-adjust-/] },
+  'forced-colors-variant': { since: 'v3.4', description: 'The forced-colors variant', variants: [/^forced-colors$/] },
+  'container-queries': {
+    since: 'v4.0',
+    description: 'Built-in container queries',
+    utilities: [/^@container/],
+    variants: [/^@/],
+  },
+  'starting-variant': { since: 'v4.0', description: 'The starting variant for @starting-style', variants: [/^starting$/] },
+  'not-variant': { since: 'v4.0', description: 'not-* variants', variants: [/^not-/] },
+  'in-variant': { since: 'v4.0', description: 'in-* variants', variants: [/^in-(?!range$)/] },
+  'nth-variants': { since: 'v4.0', description: 'nth-* variants', variants: [/^(group-|peer-|in-|not-|has-)?nth-/] },
+  'descendant-variant': { since: 'v4.0', description: 'The ** descendant variant', variants: [/^\*\*$/] },
+  'inert-variant': { since: 'v4.0', description: 'The inert variant', variants: [/^(group-|peer-|in-|not-)?inert$/] },
+  'inset-shadow': { since: 'v4.0', description: 'Inset shadow and inset ring utilities', utilities: [/^inset-(shadow|ring)(-|$)/] },
+  '3d-transforms': {
+    since: 'v4.0',
+    description: '3D transform utilities',
+    utilities: [/^(rotate-[xy]|translate-z|scale-z)-/, /^(perspective|perspective-origin)-/, /^transform-(3d|flat)$/, /^backface-/],
+  },
+  'field-sizing': { since: 'v4.0', description: 'field-sizing utilities', utilities: [/^field-sizing-/] },
+  'color-scheme': { since: 'v4.0', description: 'color-scheme utilities', utilities: [/^scheme-/] },
+  'xs-scale-steps': {
+    since: 'v4.0',
+    description: 'The xs and 2xs steps of the shadow, drop shadow, blur and radius scales',
+    utilities: [/^(?:shadow|drop-shadow|blur|backdrop-blur|rounded(?:-[a-z]{1,2})?)-2?xs$/],
+  },
+  'gradient-types': { since: 'v4.0', description: 'Linear, radial and conic gradient utilities', utilities: [/^bg-(?:linear|radial|conic)(?:-|$)/] },
+  'v4-outline-ring-names': { since: 'v4.0', description: 'outline-hidden and ring-3', utilities: [/^outline-hidden$/, /^ring-3$/] },
+  'text-shadow': { since: 'v4.1', description: 'Text shadow utilities', utilities: [/^text-shadow(-|$)/] },
+  mask: { since: 'v4.1', description: 'Mask utilities', utilities: [/^mask-/] },
+  'overflow-wrap': { since: 'v4.1', description: 'overflow-wrap utilities', utilities: [/^wrap-(break-word|anywhere|normal)$/] },
+  'colored-drop-shadow': {
+    since: 'v4.1',
+    description: 'Colored drop shadows',
+    utilities: [/^drop-shadow-[a-z]+-\d{2,3}(\/\d+)?$/],
+  },
+  'safe-alignment': {
+    since: 'v4.1',
+    description: 'Safe alignment utilities',
+    utilities: [/^(justify|items|self|content|place-content|place-items|place-self|justify-items|justify-self)-[a-z-]+-safe$/],
+  },
+  'baseline-last': { since: 'v4.1', description: 'Last baseline alignment', utilities: [/^(items|self)-baseline-last$/] },
+  'pointer-variants': { since: 'v4.1', description: 'Pointer and any-pointer variants', variants: [/^(any-)?pointer-(fine|coarse|none)$/] },
+  'details-content-variant': { since: 'v4.1', description: 'The details-content variant', variants: [/^details-content$/] },
+  'user-validity-variants': { since: 'v4.1', description: 'user-valid and user-invalid variants', variants: [/^user-(valid|invalid)$/] },
+  'noscript-variant': { since: 'v4.1', description: 'The noscript variant', variants: [/^noscript$/] },
+  'inverted-colors-variant': { since: 'v4.1', description: 'The inverted-colors variant', variants: [/^inverted-colors$/] },
+};
+
+/**
+ * The release a class needs: the newest feature among its variants and utility
+ */
+export interface ClassRequirement {
+  feature: TailwindFeature;
+  since: TailwindRelease;
+  description: string;
+}
+
+/**
+ * Splits a version spec into its major version and the exact release;
+ * a major version resolves to its latest release
+ */
+export function resolveVersion(spec: TailwindVersionSpec = DEFAULT_VERSION): { version: TailwindVersion; release: TailwindRelease } {
+  const version = spec.slice(0, 2) as TailwindVersion;
+  const release = spec.includes('.')
+    ? spec as TailwindRelease
+    : SUPPORTED_RELEASES.filter(candidate => candidate.startsWith(`${version}.`)).pop()!;
+  return { version, release };
+}
+
+export function isVersionSpec(value: unknown): value is TailwindVersionSpec {
+  return VERSION_SPECS.includes(value as TailwindVersionSpec);
+}
+
+/**
+ * Returns true when `release` is `minimum` or newer
+ */
+export function isReleaseAtLeast(release: TailwindRelease, minimum: TailwindRelease): boolean {
+  return SUPPORTED_RELEASES.indexOf(release) >= SUPPORTED_RELEASES.indexOf(minimum);
+}
+
+export function supportsFeature(release: TailwindRelease, feature: TailwindFeature): boolean {
+  return isReleaseAtLeast(release, TAILWIND_FEATURES[feature].since);
+}
+
+/**
+ * Every feature with whether `release` ships it
+ */
+export function getFeatureFlags(release: TailwindRelease): Record<TailwindFeature, boolean> {
+  return Object.fromEntries(
+    (Object.keys(TAILWIND_FEATURES) as TailwindFeature[]).map(feature => [feature, supportsFeature(release, feature)])
+  ) as Record<TailwindFeature, boolean>;
+}
+
+/**
+ * Finds the newest feature a class relies on; undefined when it works in every supported release
+ */
+export function getClassRequirement(className: string): ClassRequirement | undefined {
+  const parts = splitVariants(className);
+  const variants = parts.slice(0, -1);
+  const utility = parts[parts.length - 1].replace(/^!?-?|!$/g, '');
+
+  let newest: ClassRequirement | undefined;
+  for (const [feature, info] of Object.entries(TAILWIND_FEATURES) as Array<[TailwindFeature, TailwindFeatureInfo]>) {
+    const matches = info.utilities?.some(pattern => pattern.test(utility))
+      || info.variants?.some(pattern => variants.some(variant => pattern.test(variant)));
+    if (matches && (!newest || !isReleaseAtLeast(newest.since, info.since))) {
+      newest = { feature, since: info.since, description: info.description };
+    }
+  }
+  return newest;
+}
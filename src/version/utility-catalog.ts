@@ -0,0 +1,1312 @@
+/**
+ * TailwindCSS core utility catalog
+ * Every core utility family with its classes and CSS, grouped by the documentation's categories.
+ * Values are the v3.4 defaults. The v4 form of a class takes its name from the renames in
+ * migration.ts, its CSS from the v4 `utilityCss` where that differs, and reads palette colors
+ * and spacing steps from theme variables. The release a class needs comes from
+ * TAILWIND_FEATURES, and families removed in v4 carry `until`.
+ */
+
+import type { TailwindRelease, TailwindVersion } from './tailwind-version.js';
+
+export type UtilityCategoryId =
+  | 'layout'
+  | 'flexbox-and-grid'
+  | 'spacing'
+  | 'sizing'
+  | 'typography'
+  | 'backgrounds'
+  | 'borders'
+  | 'effects'
+  | 'filters'
+  | 'tables'
+  | 'transitions-and-animation'
+  | 'transforms'
+  | 'interactivity'
+  | 'svg'
+  | 'accessibility';
+
+export const UTILITY_CATEGORIES: Record<UtilityCategoryId, { name: string; description: string }> = {
+  layout: { name: 'Layout', description: 'Display, positioning, overflow and other page layout utilities' },
+  'flexbox-and-grid': { name: 'Flexbox & Grid', description: 'Flex and grid containers, their items and alignment' },
+  spacing: { name: 'Spacing', description: 'Padding, margin and the space between children' },
+  sizing: { name: 'Sizing', description: 'Width, height and their limits' },
+  typography: { name: 'Typography', description: 'Fonts, text, lists and wrapping' },
+  backgrounds: { name: 'Backgrounds', description: 'Background colors, images, gradients and positioning' },
+  borders: { name: 'Borders', description: 'Border radius, width, color and style, dividers, outlines and rings' },
+  effects: { name: 'Effects', description: 'Shadows, opacity, blend modes and masks' },
+  filters: { name: 'Filters', description: 'Filters and backdrop filters' },
+  tables: { name: 'Tables', description: 'Table borders, layout and captions' },
+  'transitions-and-animation': { name: 'Transitions & Animation', description: 'Transitions, their timing and animations' },
+  transforms: { name: 'Transforms', description: '2D and 3D transforms and their origin' },
+  interactivity: { name: 'Interactivity', description: 'Cursors, scrolling, selection and form control behavior' },
+  svg: { name: 'SVG', description: 'SVG fill and stroke' },
+  accessibility: { name: 'Accessibility', description: 'Screen reader and forced colors utilities' },
+};
+
+export interface UtilityFamily {
+  category: UtilityCategoryId;
+  /** Properties every class sets to its value */
+  property: string | string[];
+  /** Class name → value */
+  values: Record<string, string>;
+  /** Class prefix of the palette colors, e.g. `bg` for bg-blue-500 */
+  colors?: string;
+  /** Declarations every class sets besides `property` */
+  extra?: Record<string, string>;
+  /** Declarations single classes set besides `property`, e.g. the line-height that goes with text-lg */
+  paired?: Record<string, Record<string, string>>;
+  /** Sets more than its property or depends on a selector; CSS conversion prefers other families */
+  composite?: boolean;
+  /**
+   * Class prefix whose arbitrary values this family takes ahead of the other families with that
+   * prefix, e.g. `content` for content-['→'], which sets content rather than align-content
+   */
+  arbitrary?: string;
+  /** Kind of arbitrary value the family takes when its classes are keywords, e.g. lengths for bg-[length:200px_100px] */
+  valueType?: 'length' | 'position';
+  /** Last release that ships the family */
+  until?: TailwindRelease;
+}
+
+/**
+ * Classes `prefix-key` for each scale step; `DEFAULT` is the bare prefix. `negative` adds
+ * `-prefix-key` for non-zero steps, and `format` wraps each value, e.g. in translateX()
+ */
+function scale(
+  prefix: string,
+  steps: Record<string, string>,
+  options: { negative?: boolean; format?: (value: string) => string } = {}
+): Record<string, string> {
+  const format = options.format ?? ((value: string) => value);
+  const classes: Record<string, string> = {};
+  for (const [key, value] of Object.entries(steps)) {
+    classes[key === 'DEFAULT' ? prefix : `${prefix}-${key}`] = format(value);
+  }
+  if (options.negative) {
+    for (const [key, value] of Object.entries(steps)) {
+      if (/^\d/.test(value) && !/^0(?:px|rem|deg|%)?$/.test(value)) {
+        classes[key === 'DEFAULT' ? `-${prefix}` : `-${prefix}-${key}`] = format(`-${value}`);
+      }
+    }
+  }
+  return classes;
+}
+
+/** Classes named after their value, e.g. `cursor-pointer` → pointer */
+function keywords(prefix: string, values: string[]): Record<string, string> {
+  return Object.fromEntries(values.map(value => [prefix ? `${prefix}-${value}` : value, value]));
+}
+
+const SPACING: Record<string, string> = {
+  0: '0px',
+  px: '1px',
+  0.5: '0.125rem',
+  1: '0.25rem',
+  1.5: '0.375rem',
+  2: '0.5rem',
+  2.5: '0.625rem',
+  3: '0.75rem',
+  3.5: '0.875rem',
+  4: '1rem',
+  5: '1.25rem',
+  6: '1.5rem',
+  7: '1.75rem',
+  8: '2rem',
+  9: '2.25rem',
+  10: '2.5rem',
+  11: '2.75rem',
+  12: '3rem',
+  14: '3.5rem',
+  16: '4rem',
+  20: '5rem',
+  24: '6rem',
+  28: '7rem',
+  32: '8rem',
+  36: '9rem',
+  40: '10rem',
+  44: '11rem',
+  48: '12rem',
+  52: '13rem',
+  56: '14rem',
+  60: '15rem',
+  64: '16rem',
+  72: '18rem',
+  80: '20rem',
+  96: '24rem',
+};
+
+const FRACTIONS: Record<string, string> = {
+  '1/2': '50%',
+  '1/3': '33.333333%',
+  '2/3': '66.666667%',
+  '1/4': '25%',
+  '2/4': '50%',
+  '3/4': '75%',
+  '1/5': '20%',
+  '2/5': '40%',
+  '3/5': '60%',
+  '4/5': '80%',
+  '1/6': '16.666667%',
+  '2/6': '33.333333%',
+  '3/6': '50%',
+  '4/6': '66.666667%',
+  '5/6': '83.333333%',
+};
+
+const TWELFTHS: Record<string, string> = {
+  '1/12': '8.333333%',
+  '2/12': '16.666667%',
+  '3/12': '25%',
+  '4/12': '33.333333%',
+  '5/12': '41.666667%',
+  '6/12': '50%',
+  '7/12': '58.333333%',
+  '8/12': '66.666667%',
+  '9/12': '75%',
+  '10/12': '83.333333%',
+  '11/12': '91.666667%',
+};
+
+const INSET: Record<string, string> = {
+  ...SPACING,
+  auto: 'auto',
+  '1/2': '50%',
+  '1/3': '33.333333%',
+  '2/3': '66.666667%',
+  '1/4': '25%',
+  '2/4': '50%',
+  '3/4': '75%',
+  full: '100%',
+};
+
+const CONTENT_SIZES = { min: 'min-content', max: 'max-content', fit: 'fit-content' };
+
+const COLOR_KEYWORDS = { inherit: 'inherit', current: 'currentColor', transparent: 'transparent', black: '#000', white: '#fff' };
+
+/** The shades of every palette color, lightest first; 950 arrived in v3.3 */
+const SHADES = ['50', '100', '200', '300', '400', '500', '600', '700', '800', '900', '950'];
+
+function shades(values: string[]): Record<string, string> {
+  return Object.fromEntries(SHADES.map((shade, index) => [shade, values[index]]));
+}
+
+/**
+ * The default color palettes: hex colors in v3, OKLCH colors in v4. Every color has the
+ * shades 50 to 950 in both versions
+ */
+export const COLOR_PALETTES: Record<TailwindVersion, Record<string, Record<string, string>>> = {
+  v3: {
+    slate: shades(['#f8fafc', '#f1f5f9', '#e2e8f0', '#cbd5e1', '#94a3b8', '#64748b', '#475569', '#334155', '#1e293b', '#0f172a', '#020617']),
+    gray: shades(['#f9fafb', '#f3f4f6', '#e5e7eb', '#d1d5db', '#9ca3af', '#6b7280', '#4b5563', '#374151', '#1f2937', '#111827', '#030712']),
+    zinc: shades(['#fafafa', '#f4f4f5', '#e4e4e7', '#d4d4d8', '#a1a1aa', '#71717a', '#52525b', '#3f3f46', '#27272a', '#18181b', '#09090b']),
+    neutral: shades(['#fafafa', '#f5f5f5', '#e5e5e5', '#d4d4d4', '#a3a3a3', '#737373', '#525252', '#404040', '#262626', '#171717', '#0a0a0a']),
+    stone: shades(['#fafaf9', '#f5f5f4', '#e7e5e4', '#d6d3d1', '#a8a29e', '#78716c', '#57534e', '#44403c', '#292524', '#1c1917', '#0c0a09']),
+    red: shades(['#fef2f2', '#fee2e2', '#fecaca', '#fca5a5', '#f87171', '#ef4444', '#dc2626', '#b91c1c', '#991b1b', '#7f1d1d', '#450a0a']),
+    orange: shades(['#fff7ed', '#ffedd5', '#fed7aa', '#fdba74', '#fb923c', '#f97316', '#ea580c', '#c2410c', '#9a3412', '#7c2d12', '#431407']),
+    amber: shades(['#fffbeb', '#fef3c7', '#fde68a', '#fcd34d', '#fbbf24', '#f59e0b', '#d97706', '#b45309', '#92400e', '#78350f', '#451a03']),
+    yellow: shades(['#fefce8', '#fef9c3', '#fef08a', '#fde047', '#facc15', '#eab308', '#ca8a04', '#a16207', '#854d0e', '#713f12', '#422006']),
+    lime: shades(['#f7fee7', '#ecfccb', '#d9f99d', '#bef264', '#a3e635', '#84cc16', '#65a30d', '#4d7c0f', '#3f6212', '#365314', '#1a2e05']),
+    green: shades(['#f0fdf4', '#dcfce7', '#bbf7d0', '#86efac', '#4ade80', '#22c55e', '#16a34a', '#15803d', '#166534', '#14532d', '#052e16']),
+    emerald: shades(['#ecfdf5', '#d1fae5', '#a7f3d0', '#6ee7b7', '#34d399', '#10b981', '#059669', '#047857', '#065f46', '#064e3b', '#022c22']),
+    teal: shades(['#f0fdfa', '#ccfbf1', '#99f6e4', '#5eead4', '#2dd4bf', '#14b8a6', '#0d9488', '#0f766e', '#115e59', '#134e4a', '#042f2e']),
+    cyan: shades(['#ecfeff', '#cffafe', '#a5f3fc', '#67e8f9', '#22d3ee', '#06b6d4', '#0891b2', '#0e7490', '#155e75', '#164e63', '#083344']),
+    sky: shades(['#f0f9ff', '#e0f2fe', '#bae6fd', '#7dd3fc', '#38bdf8', '#0ea5e9', '#0284c7', '#0369a1', '#075985', '#0c4a6e', '#082f49']),
+    blue: shades(['#eff6ff', '#dbeafe', '#bfdbfe', '#93c5fd', '#60a5fa', '#3b82f6', '#2563eb', '#1d4ed8', '#1e40af', '#1e3a8a', '#172554']),
+    indigo: shades(['#eef2ff', '#e0e7ff', '#c7d2fe', '#a5b4fc', '#818cf8', '#6366f1', '#4f46e5', '#4338ca', '#3730a3', '#312e81', '#1e1b4b']),
+    violet: shades(['#f5f3ff', '#ede9fe', '#ddd6fe', '#c4b5fd', '#a78bfa', '#8b5cf6', '#7c3aed', '#6d28d9', '#5b21b6', '#4c1d95', '#2e1065']),
+    purple: shades(['#faf5ff', '#f3e8ff', '#e9d5ff', '#d8b4fe', '#c084fc', '#a855f7', '#9333ea', '#7e22ce', '#6b21a8', '#581c87', '#3b0764']),
+    fuchsia: shades(['#fdf4ff', '#fae8ff', '#f5d0fe', '#f0abfc', '#e879f9', '#d946ef', '#c026d3', '#a21caf', '#86198f', '#701a75', '#4a044e']),
+    pink: shades(['#fdf2f8', '#fce7f3', '#fbcfe8', '#f9a8d4', '#f472b6', '#ec4899', '#db2777', '#be185d', '#9d174d', '#831843', '#500724']),
+    rose: shades(['#fff1f2', '#ffe4e6', '#fecdd3', '#fda4af', '#fb7185', '#f43f5e', '#e11d48', '#be123c', '#9f1239', '#881337', '#4c0519']),
+  },
+  v4: {
+    slate: shades([
+      'oklch(98.4% 0.003 247.858)', 'oklch(96.8% 0.007 247.896)', 'oklch(92.9% 0.013 255.508)', 'oklch(86.9% 0.022 252.894)',
+      'oklch(70.4% 0.04 256.788)', 'oklch(55.4% 0.046 257.417)', 'oklch(44.6% 0.043 257.281)', 'oklch(37.2% 0.044 257.287)',
+      'oklch(27.9% 0.041 260.031)', 'oklch(20.8% 0.042 265.755)', 'oklch(12.9% 0.042 264.695)',
+    ]),
+    gray: shades([
+      'oklch(98.5% 0.002 247.839)', 'oklch(96.7% 0.003 264.542)', 'oklch(92.8% 0.006 264.531)', 'oklch(87.2% 0.01 258.338)',
+      'oklch(70.7% 0.022 261.325)', 'oklch(55.1% 0.027 264.364)', 'oklch(44.6% 0.03 256.802)', 'oklch(37.3% 0.034 259.733)',
+      'oklch(27.8% 0.033 256.848)', 'oklch(21% 0.034 264.665)', 'oklch(13% 0.028 261.692)',
+    ]),
+    zinc: shades([
+      'oklch(98.5% 0 0)', 'oklch(96.7% 0.001 286.375)', 'oklch(92% 0.004 286.32)', 'oklch(87.1% 0.006 286.286)',
+      'oklch(70.5% 0.015 286.067)', 'oklch(55.2% 0.016 285.938)', 'oklch(44.2% 0.017 285.786)', 'oklch(37% 0.013 285.805)',
+      'oklch(27.4% 0.006 286.033)', 'oklch(21% 0.006 285.885)', 'oklch(14.1% 0.005 285.823)',
+    ]),
+    neutral: shades([
+      'oklch(98.5% 0 0)', 'oklch(97% 0 0)', 'oklch(92.2% 0 0)', 'oklch(87% 0 0)',
+      'oklch(70.8% 0 0)', 'oklch(55.6% 0 0)', 'oklch(43.9% 0 0)', 'oklch(37.1% 0 0)',
+      'oklch(26.9% 0 0)', 'oklch(20.5% 0 0)', 'oklch(14.5% 0 0)',
+    ]),
+    stone: shades([
+      'oklch(98.5% 0.001 106.423)', 'oklch(97% 0.001 106.424)', 'oklch(92.3% 0.003 48.717)', 'oklch(86.9% 0.005 56.366)',
+      'oklch(70.9% 0.01 56.259)', 'oklch(55.3% 0.013 58.071)', 'oklch(44.4% 0.011 73.639)', 'oklch(37.4% 0.01 67.558)',
+      'oklch(26.8% 0.007 34.298)', 'oklch(21.6% 0.006 56.043)', 'oklch(14.7% 0.004 49.25)',
+    ]),
+    red: shades([
+      'oklch(97.1% 0.013 17.38)', 'oklch(93.6% 0.032 17.717)', 'oklch(88.5% 0.062 18.334)', 'oklch(80.8% 0.114 19.571)',
+      'oklch(70.4% 0.191 22.216)', 'oklch(63.7% 0.237 25.331)', 'oklch(57.7% 0.245 27.325)', 'oklch(50.5% 0.213 27.518)',
+      'oklch(44.4% 0.177 26.899)', 'oklch(39.6% 0.141 25.723)', 'oklch(25.8% 0.092 26.042)',
+    ]),
+    orange: shades([
+      'oklch(98% 0.016 73.684)', 'oklch(95.4% 0.038 75.164)', 'oklch(90.1% 0.076 70.697)', 'oklch(83.7% 0.128 66.29)',
+      'oklch(75% 0.183 55.934)', 'oklch(70.5% 0.213 47.604)', 'oklch(64.6% 0.222 41.116)', 'oklch(55.3% 0.195 38.402)',
+      'oklch(47% 0.157 37.304)', 'oklch(40.8% 0.123 38.172)', 'oklch(26.6% 0.079 36.259)',
+    ]),
+    amber: shades([
+      'oklch(98.7% 0.022 95.277)', 'oklch(96.2% 0.059 95.617)', 'oklch(92.4% 0.12 95.746)', 'oklch(87.9% 0.169 91.605)',
+      'oklch(82.8% 0.189 84.429)', 'oklch(76.9% 0.188 70.08)', 'oklch(66.6% 0.179 58.318)', 'oklch(55.5% 0.163 48.998)',
+      'oklch(47.3% 0.137 46.201)', 'oklch(41.4% 0.112 45.904)', 'oklch(27.9% 0.077 45.635)',
+    ]),
+    yellow: shades([
+      'oklch(98.7% 0.026 102.212)', 'oklch(97.3% 0.071 103.193)', 'oklch(94.5% 0.129 101.54)', 'oklch(90.5% 0.182 98.111)',
+      'oklch(85.2% 0.199 91.936)', 'oklch(79.5% 0.184 86.047)', 'oklch(68.1% 0.162 75.834)', 'oklch(55.4% 0.135 66.442)',
+      'oklch(47.6% 0.114 61.907)', 'oklch(42.1% 0.095 57.708)', 'oklch(28.6% 0.066 53.813)',
+    ]),
+    lime: shades([
+      'oklch(98.6% 0.031 120.757)', 'oklch(96.7% 0.067 122.328)', 'oklch(93.8% 0.127 124.321)', 'oklch(89.7% 0.196 126.665)',
+      'oklch(84.1% 0.238 128.85)', 'oklch(76.8% 0.233 130.85)', 'oklch(64.8% 0.2 131.684)', 'oklch(53.2% 0.157 131.589)',
+      'oklch(45.3% 0.124 130.933)', 'oklch(40.5% 0.101 131.063)', 'oklch(27.4% 0.072 132.109)',
+    ]),
+    green: shades([
+      'oklch(98.2% 0.018 155.826)', 'oklch(96.2% 0.044 156.743)', 'oklch(92.5% 0.084 155.995)', 'oklch(87.1% 0.15 154.449)',
+      'oklch(79.2% 0.209 151.711)', 'oklch(72.3% 0.219 149.579)', 'oklch(62.7% 0.194 149.214)', 'oklch(52.7% 0.154 150.069)',
+      'oklch(44.8% 0.119 151.328)', 'oklch(39.3% 0.095 152.535)', 'oklch(26.6% 0.065 152.934)',
+    ]),
+    emerald: shades([
+      'oklch(97.9% 0.021 166.113)', 'oklch(95% 0.052 163.051)', 'oklch(90.5% 0.093 164.15)', 'oklch(84.5% 0.143 164.978)',
+      'oklch(76.5% 0.177 163.223)', 'oklch(69.6% 0.17 162.48)', 'oklch(59.6% 0.145 163.225)', 'oklch(50.8% 0.118 165.612)',
+      'oklch(43.2% 0.095 166.913)', 'oklch(37.8% 0.077 168.94)', 'oklch(26.2% 0.051 172.552)',
+    ]),
+    teal: shades([
+      'oklch(98.4% 0.014 180.72)', 'oklch(95.3% 0.051 180.801)', 'oklch(91% 0.096 180.426)', 'oklch(85.5% 0.138 181.071)',
+      'oklch(77.7% 0.152 181.912)', 'oklch(70.4% 0.14 182.503)', 'oklch(60% 0.118 184.704)', 'oklch(51.1% 0.096 186.391)',
+      'oklch(43.7% 0.078 188.216)', 'oklch(38.6% 0.063 188.416)', 'oklch(27.7% 0.046 192.524)',
+    ]),
+    cyan: shades([
+      'oklch(98.4% 0.019 200.873)', 'oklch(95.6% 0.045 203.388)', 'oklch(91.7% 0.08 205.041)', 'oklch(86.5% 0.127 207.078)',
+      'oklch(78.9% 0.154 211.53)', 'oklch(71.5% 0.143 215.221)', 'oklch(60.9% 0.126 221.723)', 'oklch(52% 0.105 223.128)',
+      'oklch(45% 0.085 224.283)', 'oklch(39.8% 0.07 227.392)', 'oklch(30.2% 0.056 229.695)',
+    ]),
+    sky: shades([
+      'oklch(97.7% 0.013 236.62)', 'oklch(95.1% 0.026 236.824)', 'oklch(90.1% 0.058 230.902)', 'oklch(82.8% 0.111 230.318)',
+      'oklch(74.6% 0.16 232.661)', 'oklch(68.5% 0.169 237.323)', 'oklch(58.8% 0.158 241.966)', 'oklch(50% 0.134 242.749)',
+      'oklch(44.3% 0.11 240.79)', 'oklch(39.1% 0.09 240.876)', 'oklch(29.3% 0.066 243.157)',
+    ]),
+    blue: shades([
+      'oklch(97% 0.014 254.604)', 'oklch(93.2% 0.032 255.585)', 'oklch(88.2% 0.059 254.128)', 'oklch(80.9% 0.105 251.813)',
+      'oklch(70.7% 0.165 254.624)', 'oklch(62.3% 0.214 259.815)', 'oklch(54.6% 0.245 262.881)', 'oklch(48.8% 0.243 264.376)',
+      'oklch(42.4% 0.199 265.638)', 'oklch(37.9% 0.146 265.522)', 'oklch(28.2% 0.091 267.935)',
+    ]),
+    indigo: shades([
+      'oklch(96.2% 0.018 272.314)', 'oklch(93% 0.034 272.788)', 'oklch(87% 0.065 274.039)', 'oklch(78.5% 0.115 274.713)',
+      'oklch(67.3% 0.182 276.935)', 'oklch(58.5% 0.233 277.117)', 'oklch(51.1% 0.262 276.966)', 'oklch(45.7% 0.24 277.023)',
+      'oklch(39.8% 0.195 277.366)', 'oklch(35.9% 0.144 278.697)', 'oklch(25.7% 0.09 281.288)',
+    ]),
+    violet: shades([
+      'oklch(96.9% 0.016 293.756)', 'oklch(94.3% 0.029 294.588)', 'oklch(89.4% 0.057 293.283)', 'oklch(81.1% 0.111 293.571)',
+      'oklch(70.2% 0.183 293.541)', 'oklch(60.6% 0.25 292.717)', 'oklch(54.1% 0.281 293.009)', 'oklch(49.1% 0.27 292.581)',
+      'oklch(43.2% 0.232 292.759)', 'oklch(38% 0.189 293.745)', 'oklch(28.3% 0.141 291.089)',
+    ]),
+    purple: shades([
+      'oklch(97.7% 0.014 308.299)', 'oklch(94.6% 0.033 307.174)', 'oklch(90.2% 0.063 306.703)', 'oklch(82.7% 0.119 306.383)',
+      'oklch(71.4% 0.203 305.504)', 'oklch(62.7% 0.265 303.9)', 'oklch(55.8% 0.288 302.321)', 'oklch(49.6% 0.265 301.924)',
+      'oklch(43.8% 0.218 303.724)', 'oklch(38.1% 0.176 304.987)', 'oklch(29.1% 0.149 302.717)',
+    ]),
+    fuchsia: shades([
+      'oklch(97.7% 0.017 320.058)', 'oklch(95.2% 0.037 318.852)', 'oklch(90.3% 0.076 319.62)', 'oklch(83.3% 0.145 321.434)',
+      'oklch(74% 0.238 322.16)', 'oklch(66.7% 0.295 322.15)', 'oklch(59.1% 0.293 322.896)', 'oklch(51.8% 0.253 323.949)',
+      'oklch(45.2% 0.211 324.591)', 'oklch(40.1% 0.17 325.612)', 'oklch(29.3% 0.136 325.661)',
+    ]),
+    pink: shades([
+      'oklch(97.1% 0.014 343.198)', 'oklch(94.8% 0.028 342.258)', 'oklch(89.9% 0.061 343.231)', 'oklch(82.3% 0.12 346.018)',
+      'oklch(71.8% 0.202 349.761)', 'oklch(65.6% 0.241 354.308)', 'oklch(59.2% 0.249 0.584)', 'oklch(52.5% 0.223 3.958)',
+      'oklch(45.9% 0.187 3.815)', 'oklch(40.8% 0.153 2.432)', 'oklch(28.4% 0.109 3.907)',
+    ]),
+    rose: shades([
+      'oklch(96.9% 0.015 12.422)', 'oklch(94.1% 0.03 12.58)', 'oklch(89.2% 0.058 10.001)', 'oklch(81% 0.117 11.638)',
+      'oklch(71.2% 0.194 13.428)', 'oklch(64.5% 0.246 16.439)', 'oklch(58.6% 0.253 17.585)', 'oklch(51.4% 0.222 16.935)',
+      'oklch(45.5% 0.188 13.697)', 'oklch(41% 0.159 10.272)', 'oklch(27.1% 0.105 12.094)',
+    ]),
+  },
+};
+
+const OPACITY: Record<string, string> = Object.fromEntries(
+  [0, 5, 10, 15, 20, 25, 30, 35, 40, 45, 50, 55, 60, 65, 70, 75, 80, 85, 90, 95, 100].map(step => [step, String(step / 100)])
+);
+
+const RADIUS = {
+  none: '0px',
+  sm: '0.125rem',
+  DEFAULT: '0.25rem',
+  md: '0.375rem',
+  lg: '0.5rem',
+  xl: '0.75rem',
+  '2xl': '1rem',
+  '3xl': '1.5rem',
+  full: '9999px',
+};
+
+const BLUR = {
+  none: '0',
+  sm: '4px',
+  DEFAULT: '8px',
+  md: '12px',
+  lg: '16px',
+  xl: '24px',
+  '2xl': '40px',
+  '3xl': '64px',
+};
+
+const BRIGHTNESS = { 0: '0', 50: '.5', 75: '.75', 90: '.9', 95: '.95', 100: '1', 105: '1.05', 110: '1.1', 125: '1.25', 150: '1.5', 200: '2' };
+const CONTRAST = { 0: '0', 50: '.5', 75: '.75', 100: '1', 125: '1.25', 150: '1.5', 200: '2' };
+const SATURATE = { 0: '0', 50: '.5', 100: '1', 150: '1.5', 200: '2' };
+const HUE_ROTATE = { 0: '0deg', 15: '15deg', 30: '30deg', 60: '60deg', 90: '90deg', 180: '180deg' };
+const ROTATE = { 0: '0deg', 1: '1deg', 2: '2deg', 3: '3deg', 6: '6deg', 12: '12deg', 45: '45deg', 90: '90deg', 180: '180deg' };
+const SKEW = { 0: '0deg', 1: '1deg', 2: '2deg', 3: '3deg', 6: '6deg', 12: '12deg' };
+const SCALE = { 0: '0', 50: '.5', 75: '.75', 90: '.9', 95: '.95', 100: '1', 105: '1.05', 110: '1.1', 125: '1.25', 150: '1.5' };
+const BORDER_WIDTH = { 0: '0px', DEFAULT: '1px', 2: '2px', 4: '4px', 8: '8px' };
+const LINE_WIDTH = { 0: '0px', 1: '1px', 2: '2px', 4: '4px', 8: '8px' };
+const DURATION = Object.fromEntries([0, 75, 100, 150, 200, 300, 500, 700, 1000].map(step => [step, `${step}ms`]));
+
+const POSITIONS = {
+  bottom: 'bottom',
+  center: 'center',
+  left: 'left',
+  'left-bottom': 'left bottom',
+  'left-top': 'left top',
+  right: 'right',
+  'right-bottom': 'right bottom',
+  'right-top': 'right top',
+  top: 'top',
+};
+
+const ORIGINS = {
+  center: 'center',
+  top: 'top',
+  'top-right': 'top right',
+  right: 'right',
+  'bottom-right': 'bottom right',
+  bottom: 'bottom',
+  'bottom-left': 'bottom left',
+  left: 'left',
+  'top-left': 'top left',
+};
+
+/** Font size and the line-height that goes with it */
+const FONT_SIZES: Record<string, [string, string]> = {
+  xs: ['0.75rem', '1rem'],
+  sm: ['0.875rem', '1.25rem'],
+  base: ['1rem', '1.5rem'],
+  lg: ['1.125rem', '1.75rem'],
+  xl: ['1.25rem', '1.75rem'],
+  '2xl': ['1.5rem', '2rem'],
+  '3xl': ['1.875rem', '2.25rem'],
+  '4xl': ['2.25rem', '2.5rem'],
+  '5xl': ['3rem', '1'],
+  '6xl': ['3.75rem', '1'],
+  '7xl': ['4.5rem', '1'],
+  '8xl': ['6rem', '1'],
+  '9xl': ['8rem', '1'],
+};
+
+const BREAKS = ['auto', 'avoid', 'all', 'avoid-page', 'page', 'left', 'right', 'column'];
+
+const BLEND_MODES = [
+  'normal', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn',
+  'hard-light', 'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity',
+];
+
+const CURSORS = [
+  'auto', 'default', 'pointer', 'wait', 'text', 'move', 'help', 'not-allowed', 'none', 'context-menu',
+  'progress', 'cell', 'crosshair', 'vertical-text', 'alias', 'copy', 'no-drop', 'grab', 'grabbing',
+  'all-scroll', 'col-resize', 'row-resize', 'n-resize', 'e-resize', 's-resize', 'w-resize', 'ne-resize',
+  'nw-resize', 'se-resize', 'sw-resize', 'ew-resize', 'ns-resize', 'nesw-resize', 'nwse-resize', 'zoom-in', 'zoom-out',
+];
+
+const GRADIENT_DIRECTIONS = { t: 'top', tr: 'top right', r: 'right', br: 'bottom right', b: 'bottom', bl: 'bottom left', l: 'left', tl: 'top left' };
+
+/** Side suffixes of padding, margin and scroll margin/padding and the properties they set */
+const SIDES: Array<[string, string | string[]]> = [
+  ['', ''],
+  ['x', ['-left', '-right']],
+  ['y', ['-top', '-bottom']],
+  ['s', '-inline-start'],
+  ['e', '-inline-end'],
+  ['t', '-top'],
+  ['r', '-right'],
+  ['b', '-bottom'],
+  ['l', '-left'],
+];
+
+/** A family per side, e.g. p, px, …, pl for padding */
+function sided(
+  prefix: string,
+  property: string,
+  category: UtilityCategoryId,
+  steps: Record<string, string>,
+  negative = false
+): UtilityFamily[] {
+  return SIDES.map(([side, suffix]) => ({
+    category,
+    property: Array.isArray(suffix) ? suffix.map(part => `${property}${part}`) : `${property}${suffix}`,
+    values: scale(`${prefix}${side}`, steps, { negative }),
+  }));
+}
+
+/** Rounded corner suffixes and the radius properties they set */
+const CORNERS: Array<[string, string | string[]]> = [
+  ['', 'border-radius'],
+  ['-s', ['border-start-start-radius', 'border-end-start-radius']],
+  ['-e', ['border-start-end-radius', 'border-end-end-radius']],
+  ['-t', ['border-top-left-radius', 'border-top-right-radius']],
+  ['-r', ['border-top-right-radius', 'border-bottom-right-radius']],
+  ['-b', ['border-bottom-right-radius', 'border-bottom-left-radius']],
+  ['-l', ['border-top-left-radius', 'border-bottom-left-radius']],
+  ['-ss', 'border-start-start-radius'],
+  ['-se', 'border-start-end-radius'],
+  ['-ee', 'border-end-end-radius'],
+  ['-es', 'border-end-start-radius'],
+  ['-tl', 'border-top-left-radius'],
+  ['-tr', 'border-top-right-radius'],
+  ['-br', 'border-bottom-right-radius'],
+  ['-bl', 'border-bottom-left-radius'],
+];
+
+/** Border width suffixes and the width properties they set */
+const BORDER_SIDES: Array<[string, string | string[]]> = [
+  ['', 'border-width'],
+  ['-x', ['border-left-width', 'border-right-width']],
+  ['-y', ['border-top-width', 'border-bottom-width']],
+  ['-s', 'border-inline-start-width'],
+  ['-e', 'border-inline-end-width'],
+  ['-t', 'border-top-width'],
+  ['-r', 'border-right-width'],
+  ['-b', 'border-bottom-width'],
+  ['-l', 'border-left-width'],
+];
+
+/** A filter or backdrop filter family, e.g. brightness-50 → filter: brightness(.5) */
+function filter(prefix: string, fn: string, steps: Record<string, string>, negative = false): UtilityFamily {
+  return {
+    category: 'filters',
+    property: prefix.startsWith('backdrop-') ? 'backdrop-filter' : 'filter',
+    values: scale(prefix, steps, { negative, format: value => `${fn}(${value})` }),
+  };
+}
+
+/** A color family: the color keywords plus every palette shade */
+function color(prefix: string, property: string | string[], category: UtilityCategoryId, composite = false): UtilityFamily {
+  return { category, property, values: scale(prefix, COLOR_KEYWORDS), colors: prefix, ...(composite ? { composite } : {}) };
+}
+
+export const UTILITY_FAMILIES: UtilityFamily[] = [
+  // Layout
+  { category: 'layout', property: 'aspect-ratio', values: { 'aspect-auto': 'auto', 'aspect-square': '1 / 1', 'aspect-video': '16 / 9' } },
+  { category: 'layout', property: 'width', values: { container: '100%' }, composite: true },
+  {
+    category: 'layout',
+    property: 'columns',
+    values: scale('columns', {
+      ...Object.fromEntries(Array.from({ length: 12 }, (_, index) => [index + 1, String(index + 1)])),
+      auto: 'auto',
+      '3xs': '16rem',
+      '2xs': '18rem',
+      xs: '20rem',
+      sm: '24rem',
+      md: '28rem',
+      lg: '32rem',
+      xl: '36rem',
+      '2xl': '42rem',
+      '3xl': '48rem',
+      '4xl': '56rem',
+      '5xl': '64rem',
+      '6xl': '72rem',
+      '7xl': '80rem',
+    }),
+  },
+  { category: 'layout', property: 'break-after', values: keywords('break-after', BREAKS) },
+  { category: 'layout', property: 'break-before', values: keywords('break-before', BREAKS) },
+  { category: 'layout', property: 'break-inside', values: keywords('break-inside', ['auto', 'avoid', 'avoid-page', 'avoid-column']) },
+  { category: 'layout', property: 'box-decoration-break', values: keywords('box-decoration', ['clone', 'slice']) },
+  { category: 'layout', property: 'box-sizing', values: { 'box-border': 'border-box', 'box-content': 'content-box' } },
+  {
+    category: 'layout',
+    property: 'display',
+    values: {
+      ...keywords('', [
+        'block', 'inline-block', 'inline', 'flex', 'inline-flex', 'table', 'inline-table', 'table-caption', 'table-cell',
+        'table-column', 'table-column-group', 'table-footer-group', 'table-header-group', 'table-row-group', 'table-row',
+        'flow-root', 'grid', 'inline-grid', 'contents', 'list-item',
+      ]),
+      hidden: 'none',
+    },
+  },
+  { category: 'layout', property: 'float', values: keywords('float', ['right', 'left', 'none']) },
+  { category: 'layout', property: 'clear', values: keywords('clear', ['left', 'right', 'both', 'none']) },
+  { category: 'layout', property: 'isolation', values: { isolate: 'isolate', 'isolation-auto': 'auto' } },
+  { category: 'layout', property: 'object-fit', values: keywords('object', ['contain', 'cover', 'fill', 'none', 'scale-down']) },
+  { category: 'layout', property: 'object-position', values: scale('object', POSITIONS), valueType: 'position' },
+  { category: 'layout', property: 'overflow', values: keywords('overflow', ['auto', 'hidden', 'clip', 'visible', 'scroll']) },
+  { category: 'layout', property: 'overflow-x', values: keywords('overflow-x', ['auto', 'hidden', 'clip', 'visible', 'scroll']) },
+  { category: 'layout', property: 'overflow-y', values: keywords('overflow-y', ['auto', 'hidden', 'clip', 'visible', 'scroll']) },
+  { category: 'layout', property: 'overscroll-behavior', values: keywords('overscroll', ['auto', 'contain', 'none']) },
+  { category: 'layout', property: 'overscroll-behavior-x', values: keywords('overscroll-x', ['auto', 'contain', 'none']) },
+  { category: 'layout', property: 'overscroll-behavior-y', values: keywords('overscroll-y', ['auto', 'contain', 'none']) },
+  { category: 'layout', property: 'position', values: keywords('', ['static', 'fixed', 'absolute', 'relative', 'sticky']) },
+  { category: 'layout', property: 'inset', values: scale('inset', INSET, { negative: true }) },
+  { category: 'layout', property: ['left', 'right'], values: scale('inset-x', INSET, { negative: true }) },
+  { category: 'layout', property: ['top', 'bottom'], values: scale('inset-y', INSET, { negative: true }) },
+  { category: 'layout', property: 'inset-inline-start', values: scale('start', INSET, { negative: true }) },
+  { category: 'layout', property: 'inset-inline-end', values: scale('end', INSET, { negative: true }) },
+  { category: 'layout', property: 'top', values: scale('top', INSET, { negative: true }) },
+  { category: 'layout', property: 'right', values: scale('right', INSET, { negative: true }) },
+  { category: 'layout', property: 'bottom', values: scale('bottom', INSET, { negative: true }) },
+  { category: 'layout', property: 'left', values: scale('left', INSET, { negative: true }) },
+  { category: 'layout', property: 'visibility', values: { visible: 'visible', invisible: 'hidden', collapse: 'collapse' } },
+  {
+    category: 'layout',
+    property: 'z-index',
+    values: scale('z', { 0: '0', 10: '10', 20: '20', 30: '30', 40: '40', 50: '50', auto: 'auto' }, { negative: true }),
+  },
+
+  // Flexbox & Grid
+  { category: 'flexbox-and-grid', property: 'flex-basis', values: scale('basis', { ...SPACING, auto: 'auto', ...FRACTIONS, ...TWELFTHS, full: '100%' }) },
+  {
+    category: 'flexbox-and-grid',
+    property: 'flex-direction',
+    values: { 'flex-row': 'row', 'flex-row-reverse': 'row-reverse', 'flex-col': 'column', 'flex-col-reverse': 'column-reverse' },
+  },
+  { category: 'flexbox-and-grid', property: 'flex-wrap', values: keywords('flex', ['wrap', 'wrap-reverse', 'nowrap']) },
+  { category: 'flexbox-and-grid', property: 'flex', values: { 'flex-1': '1 1 0%', 'flex-auto': '1 1 auto', 'flex-initial': '0 1 auto', 'flex-none': 'none' } },
+  { category: 'flexbox-and-grid', property: 'flex-grow', values: { grow: '1', 'grow-0': '0' } },
+  { category: 'flexbox-and-grid', property: 'flex-shrink', values: { shrink: '1', 'shrink-0': '0' } },
+  {
+    category: 'flexbox-and-grid',
+    property: 'order',
+    values: scale('order', {
+      ...Object.fromEntries(Array.from({ length: 12 }, (_, index) => [index + 1, String(index + 1)])),
+      first: '-9999',
+      last: '9999',
+      none: '0',
+    }),
+  },
+  {
+    category: 'flexbox-and-grid',
+    property: 'grid-template-columns',
+    values: scale('grid-cols', {
+      ...Object.fromEntries(Array.from({ length: 12 }, (_, index) => [index + 1, `repeat(${index + 1}, minmax(0, 1fr))`])),
+      none: 'none',
+      subgrid: 'subgrid',
+    }),
+  },
+  {
+    category: 'flexbox-and-grid',
+    property: 'grid-column',
+    values: scale('col', {
+      auto: 'auto',
+      ...Object.fromEntries(Array.from({ length: 12 }, (_, index) => [`span-${index + 1}`, `span ${index + 1} / span ${index + 1}`])),
+      'span-full': '1 / -1',
+    }),
+  },
+  {
+    category: 'flexbox-and-grid',
+    property: 'grid-column-start',
+    values: scale('col-start', { ...Object.fromEntries(Array.from({ length: 13 }, (_, index) => [index + 1, String(index + 1)])), auto: 'auto' }),
+  },
+  {
+    category: 'flexbox-and-grid',
+    property: 'grid-column-end',
+    values: scale('col-end', { ...Object.fromEntries(Array.from({ length: 13 }, (_, index) => [index + 1, String(index + 1)])), auto: 'auto' }),
+  },
+  {
+    category: 'flexbox-and-grid',
+    property: 'grid-template-rows',
+    values: scale('grid-rows', {
+      ...Object.fromEntries(Array.from({ length: 12 }, (_, index) => [index + 1, `repeat(${index + 1}, minmax(0, 1fr))`])),
+      none: 'none',
+      subgrid: 'subgrid',
+    }),
+  },
+  {
+    category: 'flexbox-and-grid',
+    property: 'grid-row',
+    values: scale('row', {
+      auto: 'auto',
+      ...Object.fromEntries(Array.from({ length: 12 }, (_, index) => [`span-${index + 1}`, `span ${index + 1} / span ${index + 1}`])),
+      'span-full': '1 / -1',
+    }),
+  },
+  {
+    category: 'flexbox-and-grid',
+    property: 'grid-row-start',
+    values: scale('row-start', { ...Object.fromEntries(Array.from({ length: 13 }, (_, index) => [index + 1, String(index + 1)])), auto: 'auto' }),
+  },
+  {
+    category: 'flexbox-and-grid',
+    property: 'grid-row-end',
+    values: scale('row-end', { ...Object.fromEntries(Array.from({ length: 13 }, (_, index) => [index + 1, String(index + 1)])), auto: 'auto' }),
+  },
+  {
+    category: 'flexbox-and-grid',
+    property: 'grid-auto-flow',
+    values: scale('grid-flow', { row: 'row', col: 'column', dense: 'dense', 'row-dense': 'row dense', 'col-dense': 'column dense' }),
+  },
+  {
+    category: 'flexbox-and-grid',
+    property: 'grid-auto-columns',
+    values: scale('auto-cols', { auto: 'auto', min: 'min-content', max: 'max-content', fr: 'minmax(0, 1fr)' }),
+  },
+  {
+    category: 'flexbox-and-grid',
+    property: 'grid-auto-rows',
+    values: scale('auto-rows', { auto: 'auto', min: 'min-content', max: 'max-content', fr: 'minmax(0, 1fr)' }),
+  },
+  { category: 'flexbox-and-grid', property: 'gap', values: scale('gap', SPACING) },
+  { category: 'flexbox-and-grid', property: 'column-gap', values: scale('gap-x', SPACING) },
+  { category: 'flexbox-and-grid', property: 'row-gap', values: scale('gap-y', SPACING) },
+  {
+    category: 'flexbox-and-grid',
+    property: 'justify-content',
+    values: scale('justify', {
+      normal: 'normal',
+      start: 'flex-start',
+      end: 'flex-end',
+      center: 'center',
+      between: 'space-between',
+      around: 'space-around',
+      evenly: 'space-evenly',
+      stretch: 'stretch',
+      'center-safe': 'safe center',
+      'end-safe': 'safe flex-end',
+    }),
+  },
+  { category: 'flexbox-and-grid', property: 'justify-items', values: keywords('justify-items', ['start', 'end', 'center', 'stretch']) },
+  { category: 'flexbox-and-grid', property: 'justify-self', values: keywords('justify-self', ['auto', 'start', 'end', 'center', 'stretch']) },
+  {
+    category: 'flexbox-and-grid',
+    property: 'align-content',
+    values: scale('content', {
+      normal: 'normal',
+      center: 'center',
+      start: 'flex-start',
+      end: 'flex-end',
+      between: 'space-between',
+      around: 'space-around',
+      evenly: 'space-evenly',
+      baseline: 'baseline',
+      stretch: 'stretch',
+    }),
+  },
+  {
+    category: 'flexbox-and-grid',
+    property: 'align-items',
+    values: scale('items', {
+      start: 'flex-start',
+      end: 'flex-end',
+      center: 'center',
+      baseline: 'baseline',
+      stretch: 'stretch',
+      'baseline-last': 'last baseline',
+      'center-safe': 'safe center',
+      'end-safe': 'safe flex-end',
+    }),
+  },
+  {
+    category: 'flexbox-and-grid',
+    property: 'align-self',
+    values: scale('self', {
+      auto: 'auto',
+      start: 'flex-start',
+      end: 'flex-end',
+      center: 'center',
+      stretch: 'stretch',
+      baseline: 'baseline',
+      'baseline-last': 'last baseline',
+    }),
+  },
+  {
+    category: 'flexbox-and-grid',
+    property: 'place-content',
+    values: scale('place-content', {
+      center: 'center',
+      start: 'start',
+      end: 'end',
+      between: 'space-between',
+      around: 'space-around',
+      evenly: 'space-evenly',
+      baseline: 'baseline',
+      stretch: 'stretch',
+    }),
+  },
+  { category: 'flexbox-and-grid', property: 'place-items', values: keywords('place-items', ['start', 'end', 'center', 'baseline', 'stretch']) },
+  { category: 'flexbox-and-grid', property: 'place-self', values: keywords('place-self', ['auto', 'start', 'end', 'center', 'stretch']) },
+
+  // Spacing
+  ...sided('p', 'padding', 'spacing', SPACING),
+  ...sided('m', 'margin', 'spacing', { ...SPACING, auto: 'auto' }, true),
+  { category: 'spacing', property: 'margin-left', values: scale('space-x', SPACING, { negative: true }), composite: true },
+  { category: 'spacing', property: 'margin-top', values: scale('space-y', SPACING, { negative: true }), composite: true },
+  { category: 'spacing', property: '--tw-space-x-reverse', values: { 'space-x-reverse': '1' }, composite: true },
+  { category: 'spacing', property: '--tw-space-y-reverse', values: { 'space-y-reverse': '1' }, composite: true },
+
+  // Sizing
+  {
+    category: 'sizing',
+    property: 'width',
+    values: scale('w', {
+      ...SPACING,
+      auto: 'auto',
+      ...FRACTIONS,
+      ...TWELFTHS,
+      full: '100%',
+      screen: '100vw',
+      svw: '100svw',
+      lvw: '100lvw',
+      dvw: '100dvw',
+      ...CONTENT_SIZES,
+    }),
+  },
+  { category: 'sizing', property: 'min-width', values: scale('min-w', { ...SPACING, full: '100%', ...CONTENT_SIZES }) },
+  {
+    category: 'sizing',
+    property: 'max-width',
+    values: scale('max-w', {
+      ...SPACING,
+      none: 'none',
+      xs: '20rem',
+      sm: '24rem',
+      md: '28rem',
+      lg: '32rem',
+      xl: '36rem',
+      '2xl': '42rem',
+      '3xl': '48rem',
+      '4xl': '56rem',
+      '5xl': '64rem',
+      '6xl': '72rem',
+      '7xl': '80rem',
+      full: '100%',
+      ...CONTENT_SIZES,
+      prose: '65ch',
+      'screen-sm': '640px',
+      'screen-md': '768px',
+      'screen-lg': '1024px',
+      'screen-xl': '1280px',
+      'screen-2xl': '1536px',
+    }),
+  },
+  {
+    category: 'sizing',
+    property: 'height',
+    values: scale('h', {
+      ...SPACING,
+      auto: 'auto',
+      ...FRACTIONS,
+      full: '100%',
+      screen: '100vh',
+      svh: '100svh',
+      lvh: '100lvh',
+      dvh: '100dvh',
+      ...CONTENT_SIZES,
+    }),
+  },
+  {
+    category: 'sizing',
+    property: 'min-height',
+    values: scale('min-h', { ...SPACING, full: '100%', screen: '100vh', svh: '100svh', lvh: '100lvh', dvh: '100dvh', ...CONTENT_SIZES }),
+  },
+  {
+    category: 'sizing',
+    property: 'max-height',
+    values: scale('max-h', {
+      ...SPACING,
+      none: 'none',
+      full: '100%',
+      screen: '100vh',
+      svh: '100svh',
+      lvh: '100lvh',
+      dvh: '100dvh',
+      ...CONTENT_SIZES,
+    }),
+  },
+  { category: 'sizing', property: ['width', 'height'], values: scale('size', { ...SPACING, auto: 'auto', ...FRACTIONS, full: '100%', ...CONTENT_SIZES }) },
+
+  // Typography
+  {
+    category: 'typography',
+    property: 'font-family',
+    values: {
+      'font-sans': 'ui-sans-serif, system-ui, sans-serif, "Apple Color Emoji", "Segoe UI Emoji", "Segoe UI Symbol", "Noto Color Emoji"',
+      'font-serif': 'ui-serif, Georgia, Cambria, "Times New Roman", Times, serif',
+      'font-mono': 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace',
+    },
+  },
+  {
+    category: 'typography',
+    property: 'font-size',
+    values: scale('text', Object.fromEntries(Object.entries(FONT_SIZES).map(([size, [fontSize]]) => [size, fontSize]))),
+    paired: Object.fromEntries(Object.entries(FONT_SIZES).map(([size, [, lineHeight]]) => [`text-${size}`, { 'line-height': lineHeight }])),
+  },
+  {
+    category: 'typography',
+    property: '-webkit-font-smoothing',
+    values: { antialiased: 'antialiased' },
+    extra: { '-moz-osx-font-smoothing': 'grayscale' },
+  },
+  {
+    category: 'typography',
+    property: '-webkit-font-smoothing',
+    values: { 'subpixel-antialiased': 'auto' },
+    extra: { '-moz-osx-font-smoothing': 'auto' },
+  },
+  { category: 'typography', property: 'font-style', values: { italic: 'italic', 'not-italic': 'normal' } },
+  {
+    category: 'typography',
+    property: 'font-weight',
+    values: scale('font', {
+      thin: '100',
+      extralight: '200',
+      light: '300',
+      normal: '400',
+      medium: '500',
+      semibold: '600',
+      bold: '700',
+      extrabold: '800',
+      black: '900',
+    }),
+  },
+  {
+    category: 'typography',
+    property: 'font-variant-numeric',
+    values: {
+      'normal-nums': 'normal',
+      ...keywords('', ['ordinal', 'slashed-zero', 'lining-nums', 'oldstyle-nums', 'proportional-nums', 'tabular-nums', 'diagonal-fractions', 'stacked-fractions']),
+    },
+  },
+  {
+    category: 'typography',
+    property: 'letter-spacing',
+    values: scale('tracking', { tighter: '-0.05em', tight: '-0.025em', normal: '0em', wide: '0.025em', wider: '0.05em', widest: '0.1em' }),
+  },
+  {
+    category: 'typography',
+    property: '-webkit-line-clamp',
+    values: scale('line-clamp', { 1: '1', 2: '2', 3: '3', 4: '4', 5: '5', 6: '6' }),
+    extra: { overflow: 'hidden', display: '-webkit-box', '-webkit-box-orient': 'vertical' },
+    composite: true,
+  },
+  {
+    category: 'typography',
+    property: '-webkit-line-clamp',
+    values: { 'line-clamp-none': 'none' },
+    extra: { overflow: 'visible', display: 'block', '-webkit-box-orient': 'horizontal' },
+    composite: true,
+  },
+  {
+    category: 'typography',
+    property: 'line-height',
+    values: scale('leading', {
+      3: '.75rem',
+      4: '1rem',
+      5: '1.25rem',
+      6: '1.5rem',
+      7: '1.75rem',
+      8: '2rem',
+      9: '2.25rem',
+      10: '2.5rem',
+      none: '1',
+      tight: '1.25',
+      snug: '1.375',
+      normal: '1.5',
+      relaxed: '1.625',
+      loose: '2',
+    }),
+  },
+  { category: 'typography', property: 'list-style-image', values: { 'list-image-none': 'none' } },
+  { category: 'typography', property: 'list-style-position', values: keywords('list', ['inside', 'outside']) },
+  { category: 'typography', property: 'list-style-type', values: keywords('list', ['none', 'disc', 'decimal']) },
+  { category: 'typography', property: 'text-align', values: keywords('text', ['left', 'center', 'right', 'justify', 'start', 'end']) },
+  color('text', 'color', 'typography'),
+  { category: 'typography', property: 'text-decoration-line', values: { ...keywords('', ['underline', 'overline', 'line-through']), 'no-underline': 'none' } },
+  color('decoration', 'text-decoration-color', 'typography'),
+  { category: 'typography', property: 'text-decoration-style', values: keywords('decoration', ['solid', 'double', 'dotted', 'dashed', 'wavy']) },
+  {
+    category: 'typography',
+    property: 'text-decoration-thickness',
+    values: scale('decoration', { auto: 'auto', 'from-font': 'from-font', ...LINE_WIDTH }),
+  },
+  { category: 'typography', property: 'text-underline-offset', values: scale('underline-offset', { auto: 'auto', ...LINE_WIDTH }) },
+  { category: 'typography', property: 'text-transform', values: { ...keywords('', ['uppercase', 'lowercase', 'capitalize']), 'normal-case': 'none' } },
+  { category: 'typography', property: 'text-overflow', values: { 'text-ellipsis': 'ellipsis', 'text-clip': 'clip' } },
+  {
+    category: 'typography',
+    property: 'text-overflow',
+    values: { truncate: 'ellipsis' },
+    extra: { overflow: 'hidden', 'white-space': 'nowrap' },
+    composite: true,
+  },
+  { category: 'typography', property: 'text-wrap', values: keywords('text', ['wrap', 'nowrap', 'balance', 'pretty']) },
+  { category: 'typography', property: 'text-indent', values: scale('indent', SPACING, { negative: true }) },
+  {
+    category: 'typography',
+    property: 'vertical-align',
+    values: keywords('align', ['baseline', 'top', 'middle', 'bottom', 'text-top', 'text-bottom', 'sub', 'super']),
+  },
+  {
+    category: 'typography',
+    property: 'white-space',
+    values: keywords('whitespace', ['normal', 'nowrap', 'pre', 'pre-line', 'pre-wrap', 'break-spaces']),
+  },
+  { category: 'typography', property: 'overflow-wrap', values: { 'break-words': 'break-word' } },
+  { category: 'typography', property: 'word-break', values: { 'break-all': 'break-all', 'break-keep': 'keep-all' } },
+  { category: 'typography', property: 'word-break', values: { 'break-normal': 'normal' }, extra: { 'overflow-wrap': 'normal' }, composite: true },
+  { category: 'typography', property: 'overflow-wrap', values: keywords('wrap', ['break-word', 'anywhere', 'normal']) },
+  { category: 'typography', property: 'hyphens', values: keywords('hyphens', ['none', 'manual', 'auto']) },
+  {
+    category: 'typography',
+    property: '--tw-content',
+    values: { 'content-none': 'none' },
+    extra: { content: 'var(--tw-content)' },
+    arbitrary: 'content',
+  },
+
+  // Backgrounds
+  { category: 'backgrounds', property: 'background-attachment', values: keywords('bg', ['fixed', 'local', 'scroll']) },
+  {
+    category: 'backgrounds',
+    property: 'background-clip',
+    values: { 'bg-clip-border': 'border-box', 'bg-clip-padding': 'padding-box', 'bg-clip-content': 'content-box', 'bg-clip-text': 'text' },
+  },
+  color('bg', 'background-color', 'backgrounds'),
+  { category: 'backgrounds', property: '--tw-bg-opacity', values: scale('bg-opacity', OPACITY), until: 'v3.4' },
+  {
+    category: 'backgrounds',
+    property: 'background-origin',
+    values: { 'bg-origin-border': 'border-box', 'bg-origin-padding': 'padding-box', 'bg-origin-content': 'content-box' },
+  },
+  { category: 'backgrounds', property: 'background-position', values: scale('bg', POSITIONS), valueType: 'position' },
+  {
+    category: 'backgrounds',
+    property: 'background-repeat',
+    values: { ...keywords('bg', ['repeat', 'no-repeat', 'repeat-x', 'repeat-y']), 'bg-repeat-round': 'round', 'bg-repeat-space': 'space' },
+  },
+  { category: 'backgrounds', property: 'background-size', values: keywords('bg', ['auto', 'cover', 'contain']), valueType: 'length' },
+  {
+    category: 'backgrounds',
+    property: 'background-image',
+    values: {
+      'bg-none': 'none',
+      ...scale('bg-gradient-to', GRADIENT_DIRECTIONS, { format: direction => `linear-gradient(to ${direction}, var(--tw-gradient-stops))` }),
+      'bg-radial': 'radial-gradient(var(--tw-gradient-stops))',
+      'bg-conic': 'conic-gradient(var(--tw-gradient-stops))',
+    },
+  },
+  color('from', '--tw-gradient-from', 'backgrounds'),
+  color('via', '--tw-gradient-via', 'backgrounds'),
+  color('to', '--tw-gradient-to', 'backgrounds'),
+
+  // Borders
+  ...CORNERS.map(([corner, property]): UtilityFamily => ({ category: 'borders', property, values: scale(`rounded${corner}`, RADIUS) })),
+  ...BORDER_SIDES.map(([side, property]): UtilityFamily => ({ category: 'borders', property, values: scale(`border${side}`, BORDER_WIDTH) })),
+  color('border', 'border-color', 'borders'),
+  { category: 'borders', property: '--tw-border-opacity', values: scale('border-opacity', OPACITY), until: 'v3.4' },
+  { category: 'borders', property: 'border-style', values: keywords('border', ['solid', 'dashed', 'dotted', 'double', 'hidden', 'none']) },
+  { category: 'borders', property: 'border-left-width', values: scale('divide-x', BORDER_WIDTH), composite: true },
+  { category: 'borders', property: 'border-top-width', values: scale('divide-y', BORDER_WIDTH), composite: true },
+  { category: 'borders', property: '--tw-divide-x-reverse', values: { 'divide-x-reverse': '1' }, composite: true },
+  { category: 'borders', property: '--tw-divide-y-reverse', values: { 'divide-y-reverse': '1' }, composite: true },
+  color('divide', 'border-color', 'borders', true),
+  { category: 'borders', property: '--tw-divide-opacity', values: scale('divide-opacity', OPACITY), until: 'v3.4', composite: true },
+  { category: 'borders', property: 'border-style', values: keywords('divide', ['solid', 'dashed', 'dotted', 'double', 'none']), composite: true },
+  { category: 'borders', property: 'outline-width', values: scale('outline', LINE_WIDTH) },
+  color('outline', 'outline-color', 'borders'),
+  { category: 'borders', property: 'outline-style', values: { outline: 'solid', ...keywords('outline', ['dashed', 'dotted', 'double']) } },
+  {
+    category: 'borders',
+    property: 'outline',
+    values: { 'outline-none': '2px solid transparent' },
+    extra: { 'outline-offset': '2px' },
+    composite: true,
+  },
+  { category: 'borders', property: 'outline-offset', values: scale('outline-offset', LINE_WIDTH) },
+  {
+    category: 'borders',
+    property: 'box-shadow',
+    values: scale('ring', { 0: '0px', 1: '1px', 2: '2px', DEFAULT: '3px', 4: '4px', 8: '8px' }, { format: width => `0 0 0 ${width} var(--tw-ring-color)` }),
+    composite: true,
+  },
+  { category: 'borders', property: '--tw-ring-inset', values: { 'ring-inset': 'inset' } },
+  color('ring', '--tw-ring-color', 'borders'),
+  { category: 'borders', property: '--tw-ring-opacity', values: scale('ring-opacity', OPACITY), until: 'v3.4' },
+  { category: 'borders', property: '--tw-ring-offset-width', values: scale('ring-offset', LINE_WIDTH) },
+  color('ring-offset', '--tw-ring-offset-color', 'borders'),
+
+  // Effects
+  {
+    category: 'effects',
+    property: 'box-shadow',
+    values: scale('shadow', {
+      '2xs': '0 1px rgb(0 0 0 / 0.05)',
+      sm: '0 1px 2px 0 rgb(0 0 0 / 0.05)',
+      DEFAULT: '0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)',
+      md: '0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)',
+      lg: '0 10px 15px -3px rgb(0 0 0 / 0.1), 0 4px 6px -4px rgb(0 0 0 / 0.1)',
+      xl: '0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)',
+      '2xl': '0 25px 50px -12px rgb(0 0 0 / 0.25)',
+      none: '0 0 #0000',
+    }),
+  },
+  { category: 'effects', property: 'box-shadow', values: { 'shadow-inner': 'inset 0 2px 4px 0 rgb(0 0 0 / 0.05)' }, until: 'v3.4' },
+  color('shadow', '--tw-shadow-color', 'effects'),
+  {
+    category: 'effects',
+    property: 'box-shadow',
+    values: scale('inset-shadow', {
+      '2xs': 'inset 0 1px rgb(0 0 0 / 0.05)',
+      xs: 'inset 0 1px 1px rgb(0 0 0 / 0.05)',
+      sm: 'inset 0 2px 4px rgb(0 0 0 / 0.05)',
+      none: 'inset 0 0 #0000',
+    }),
+  },
+  {
+    category: 'effects',
+    property: 'box-shadow',
+    values: scale('inset-ring', { 0: '0px', DEFAULT: '1px', 2: '2px', 4: '4px', 8: '8px' }, { format: width => `inset 0 0 0 ${width} var(--tw-inset-ring-color)` }),
+    composite: true,
+  },
+  {
+    category: 'effects',
+    property: 'text-shadow',
+    values: scale('text-shadow', {
+      '2xs': '0px 1px 0px rgb(0 0 0 / 0.15)',
+      xs: '0px 1px 1px rgb(0 0 0 / 0.2)',
+      sm: '0px 1px 0px rgb(0 0 0 / 0.075), 0px 1px 1px rgb(0 0 0 / 0.075), 0px 2px 2px rgb(0 0 0 / 0.075)',
+      md: '0px 1px 1px rgb(0 0 0 / 0.1), 0px 1px 2px rgb(0 0 0 / 0.1), 0px 2px 4px rgb(0 0 0 / 0.1)',
+      lg: '0px 1px 2px rgb(0 0 0 / 0.1), 0px 3px 2px rgb(0 0 0 / 0.1), 0px 4px 8px rgb(0 0 0 / 0.1)',
+      none: 'none',
+    }),
+  },
+  { category: 'effects', property: 'opacity', values: scale('opacity', OPACITY) },
+  { category: 'effects', property: 'mix-blend-mode', values: keywords('mix-blend', [...BLEND_MODES, 'plus-lighter']) },
+  { category: 'effects', property: 'background-blend-mode', values: keywords('bg-blend', BLEND_MODES) },
+  { category: 'effects', property: 'mask-image', values: { 'mask-none': 'none' } },
+  {
+    category: 'effects',
+    property: 'mask-clip',
+    values: {
+      ...scale('mask-clip', { border: 'border-box', padding: 'padding-box', content: 'content-box', fill: 'fill-box', stroke: 'stroke-box', view: 'view-box' }),
+      'mask-no-clip': 'no-clip',
+    },
+  },
+  { category: 'effects', property: 'mask-composite', values: keywords('mask', ['add', 'subtract', 'intersect', 'exclude']) },
+  { category: 'effects', property: 'mask-mode', values: { 'mask-alpha': 'alpha', 'mask-luminance': 'luminance', 'mask-match': 'match-source' } },
+  {
+    category: 'effects',
+    property: 'mask-origin',
+    values: scale('mask-origin', { border: 'border-box', padding: 'padding-box', content: 'content-box', fill: 'fill-box', stroke: 'stroke-box', view: 'view-box' }),
+  },
+  { category: 'effects', property: 'mask-position', values: scale('mask', ORIGINS) },
+  {
+    category: 'effects',
+    property: 'mask-repeat',
+    values: { ...keywords('mask', ['repeat', 'no-repeat', 'repeat-x', 'repeat-y']), 'mask-repeat-space': 'space', 'mask-repeat-round': 'round' },
+  },
+  { category: 'effects', property: 'mask-size', values: keywords('mask', ['auto', 'cover', 'contain']) },
+  { category: 'effects', property: 'mask-type', values: keywords('mask-type', ['alpha', 'luminance']) },
+
+  // Filters
+  filter('blur', 'blur', BLUR),
+  filter('brightness', 'brightness', BRIGHTNESS),
+  filter('contrast', 'contrast', CONTRAST),
+  {
+    category: 'filters',
+    property: 'filter',
+    values: scale('drop-shadow', {
+      sm: 'drop-shadow(0 1px 1px rgb(0 0 0 / 0.05))',
+      DEFAULT: 'drop-shadow(0 1px 2px rgb(0 0 0 / 0.1)) drop-shadow(0 1px 1px rgb(0 0 0 / 0.06))',
+      md: 'drop-shadow(0 4px 3px rgb(0 0 0 / 0.07)) drop-shadow(0 2px 2px rgb(0 0 0 / 0.06))',
+      lg: 'drop-shadow(0 10px 8px rgb(0 0 0 / 0.04)) drop-shadow(0 4px 3px rgb(0 0 0 / 0.1))',
+      xl: 'drop-shadow(0 20px 13px rgb(0 0 0 / 0.03)) drop-shadow(0 8px 5px rgb(0 0 0 / 0.08))',
+      '2xl': 'drop-shadow(0 25px 25px rgb(0 0 0 / 0.15))',
+      none: 'drop-shadow(0 0 #0000)',
+    }),
+  },
+  filter('grayscale', 'grayscale', { 0: '0', DEFAULT: '100%' }),
+  filter('hue-rotate', 'hue-rotate', HUE_ROTATE, true),
+  filter('invert', 'invert', { 0: '0', DEFAULT: '100%' }),
+  filter('saturate', 'saturate', SATURATE),
+  filter('sepia', 'sepia', { 0: '0', DEFAULT: '100%' }),
+  filter('backdrop-blur', 'blur', BLUR),
+  filter('backdrop-brightness', 'brightness', BRIGHTNESS),
+  filter('backdrop-contrast', 'contrast', CONTRAST),
+  filter('backdrop-grayscale', 'grayscale', { 0: '0', DEFAULT: '100%' }),
+  filter('backdrop-hue-rotate', 'hue-rotate', HUE_ROTATE, true),
+  filter('backdrop-invert', 'invert', { 0: '0', DEFAULT: '100%' }),
+  filter('backdrop-opacity', 'opacity', OPACITY),
+  filter('backdrop-saturate', 'saturate', SATURATE),
+  filter('backdrop-sepia', 'sepia', { 0: '0', DEFAULT: '100%' }),
+
+  // Tables
+  { category: 'tables', property: 'border-collapse', values: { 'border-collapse': 'collapse', 'border-separate': 'separate' } },
+  { category: 'tables', property: 'border-spacing', values: scale('border-spacing', SPACING, { format: value => `${value} ${value}` }) },
+  { category: 'tables', property: 'table-layout', values: keywords('table', ['auto', 'fixed']) },
+  { category: 'tables', property: 'caption-side', values: keywords('caption', ['top', 'bottom']) },
+
+  // Transitions & Animation
+  {
+    category: 'transitions-and-animation',
+    property: 'transition-property',
+    values: scale('transition', {
+      none: 'none',
+      all: 'all',
+      DEFAULT: 'color, background-color, border-color, text-decoration-color, fill, stroke, opacity, box-shadow, transform, filter, backdrop-filter',
+      colors: 'color, background-color, border-color, text-decoration-color, fill, stroke',
+      opacity: 'opacity',
+      shadow: 'box-shadow',
+      transform: 'transform',
+    }),
+  },
+  { category: 'transitions-and-animation', property: 'transition-duration', values: scale('duration', DURATION) },
+  {
+    category: 'transitions-and-animation',
+    property: 'transition-timing-function',
+    values: scale('ease', {
+      linear: 'linear',
+      in: 'cubic-bezier(0.4, 0, 1, 1)',
+      out: 'cubic-bezier(0, 0, 0.2, 1)',
+      'in-out': 'cubic-bezier(0.4, 0, 0.2, 1)',
+    }),
+  },
+  { category: 'transitions-and-animation', property: 'transition-delay', values: scale('delay', DURATION) },
+  {
+    category: 'transitions-and-animation',
+    property: 'animation',
+    values: scale('animate', {
+      none: 'none',
+      spin: 'spin 1s linear infinite',
+      ping: 'ping 1s cubic-bezier(0, 0, 0.2, 1) infinite',
+      pulse: 'pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite',
+      bounce: 'bounce 1s infinite',
+    }),
+  },
+
+  // Transforms
+  { category: 'transforms', property: 'backface-visibility', values: keywords('backface', ['hidden', 'visible']) },
+  {
+    category: 'transforms',
+    property: 'perspective',
+    values: scale('perspective', { dramatic: '100px', near: '300px', normal: '500px', midrange: '800px', distant: '1200px', none: 'none' }),
+  },
+  { category: 'transforms', property: 'perspective-origin', values: scale('perspective-origin', ORIGINS) },
+  { category: 'transforms', property: 'transform', values: scale('rotate', ROTATE, { negative: true, format: angle => `rotate(${angle})` }) },
+  { category: 'transforms', property: 'transform', values: scale('rotate-x', ROTATE, { negative: true, format: angle => `rotateX(${angle})` }) },
+  { category: 'transforms', property: 'transform', values: scale('rotate-y', ROTATE, { negative: true, format: angle => `rotateY(${angle})` }) },
+  { category: 'transforms', property: 'transform', values: scale('scale', SCALE, { format: factor => `scale(${factor})` }) },
+  { category: 'transforms', property: 'transform', values: scale('scale-x', SCALE, { format: factor => `scaleX(${factor})` }) },
+  { category: 'transforms', property: 'transform', values: scale('scale-y', SCALE, { format: factor => `scaleY(${factor})` }) },
+  { category: 'transforms', property: 'transform', values: scale('scale-z', SCALE, { format: factor => `scaleZ(${factor})` }) },
+  { category: 'transforms', property: 'transform', values: scale('skew-x', SKEW, { negative: true, format: angle => `skewX(${angle})` }) },
+  { category: 'transforms', property: 'transform', values: scale('skew-y', SKEW, { negative: true, format: angle => `skewY(${angle})` }) },
+  { category: 'transforms', property: 'transform', values: { 'transform-none': 'none' } },
+  { category: 'transforms', property: 'transform-origin', values: scale('origin', ORIGINS) },
+  { category: 'transforms', property: 'transform-style', values: { 'transform-3d': 'preserve-3d', 'transform-flat': 'flat' } },
+  {
+    category: 'transforms',
+    property: 'transform',
+    values: scale('translate-x', { ...SPACING, ...FRACTIONS, full: '100%' }, { negative: true, format: length => `translateX(${length})` }),
+  },
+  {
+    category: 'transforms',
+    property: 'transform',
+    values: scale('translate-y', { ...SPACING, ...FRACTIONS, full: '100%' }, { negative: true, format: length => `translateY(${length})` }),
+  },
+  { category: 'transforms', property: 'transform', values: scale('translate-z', SPACING, { negative: true, format: length => `translateZ(${length})` }) },
+
+  // Interactivity
+  { category: 'interactivity', property: 'accent-color', values: { 'accent-auto': 'auto', ...scale('accent', COLOR_KEYWORDS) }, colors: 'accent' },
+  { category: 'interactivity', property: 'appearance', values: keywords('appearance', ['none', 'auto']) },
+  color('caret', 'caret-color', 'interactivity'),
+  {
+    category: 'interactivity',
+    property: 'color-scheme',
+    values: scale('scheme', {
+      normal: 'normal',
+      dark: 'dark',
+      light: 'light',
+      'light-dark': 'light dark',
+      'only-dark': 'only dark',
+      'only-light': 'only light',
+    }),
+  },
+  { category: 'interactivity', property: 'cursor', values: keywords('cursor', CURSORS) },
+  { category: 'interactivity', property: 'field-sizing', values: keywords('field-sizing', ['fixed', 'content']) },
+  { category: 'interactivity', property: 'pointer-events', values: keywords('pointer-events', ['none', 'auto']) },
+  { category: 'interactivity', property: 'resize', values: { 'resize-none': 'none', 'resize-y': 'vertical', 'resize-x': 'horizontal', resize: 'both' } },
+  { category: 'interactivity', property: 'scroll-behavior', values: keywords('scroll', ['auto', 'smooth']) },
+  ...sided('scroll-m', 'scroll-margin', 'interactivity', SPACING, true),
+  ...sided('scroll-p', 'scroll-padding', 'interactivity', SPACING),
+  { category: 'interactivity', property: 'scroll-snap-align', values: { ...keywords('snap', ['start', 'end', 'center']), 'snap-align-none': 'none' } },
+  { category: 'interactivity', property: 'scroll-snap-stop', values: keywords('snap', ['normal', 'always']) },
+  {
+    category: 'interactivity',
+    property: 'scroll-snap-type',
+    values: {
+      'snap-none': 'none',
+      ...scale('snap', { x: 'x', y: 'y', both: 'both' }, { format: axis => `${axis} var(--tw-scroll-snap-strictness)` }),
+    },
+  },
+  { category: 'interactivity', property: '--tw-scroll-snap-strictness', values: keywords('snap', ['mandatory', 'proximity']) },
+  {
+    category: 'interactivity',
+    property: 'touch-action',
+    values: keywords('touch', ['auto', 'none', 'pan-x', 'pan-left', 'pan-right', 'pan-y', 'pan-up', 'pan-down', 'pinch-zoom', 'manipulation']),
+  },
+  { category: 'interactivity', property: 'user-select', values: keywords('select', ['none', 'text', 'all', 'auto']) },
+  {
+    category: 'interactivity',
+    property: 'will-change',
+    values: scale('will-change', { auto: 'auto', scroll: 'scroll-position', contents: 'contents', transform: 'transform' }),
+  },
+
+  // SVG
+  { category: 'svg', property: 'fill', values: { 'fill-none': 'none', ...scale('fill', COLOR_KEYWORDS) }, colors: 'fill' },
+  { category: 'svg', property: 'stroke', values: { 'stroke-none': 'none', ...scale('stroke', COLOR_KEYWORDS) }, colors: 'stroke' },
+  { category: 'svg', property: 'stroke-width', values: scale('stroke', { 0: '0', 1: '1', 2: '2' }) },
+
+  // Accessibility
+  {
+    category: 'accessibility',
+    property: 'position',
+    values: { 'sr-only': 'absolute' },
+    extra: {
+      width: '1px',
+      height: '1px',
+      padding: '0',
+      margin: '-1px',
+      overflow: 'hidden',
+      clip: 'rect(0, 0, 0, 0)',
+      'white-space': 'nowrap',
+      'border-width': '0',
+    },
+    composite: true,
+  },
+  {
+    category: 'accessibility',
+    property: 'position',
+    values: { 'not-sr-only': 'static' },
+    extra: {
+      width: 'auto',
+      height: 'auto',
+      padding: '0',
+      margin: '0',
+      overflow: 'visible',
+      clip: 'auto',
+      'white-space': 'normal',
+    },
+    composite: true,
+  },
+  { category: 'accessibility', property: 'forced-color-adjust', values: keywords('forced-color-adjust', ['auto', 'none']) },
+];
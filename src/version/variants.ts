@@ -0,0 +1,552 @@
+/**
+ * TailwindCSS variant registry and parser
+ * Every core variant with the selectors and at-rules it wraps a utility in, per version.
+ * The release a variant needs comes from TAILWIND_FEATURES.
+ */
+
+import { splitVariants } from '../utils/class-names.js';
+import { getClassRequirement, isReleaseAtLeast, resolveVersion } from './tailwind-version.js';
+import type { TailwindRelease, TailwindVersion } from './tailwind-version.js';
+import type { UtilityCategoryId } from './utility-catalog.js';
+
+export type VariantKind =
+  | 'responsive'
+  | 'container'
+  | 'state'
+  | 'pseudo-element'
+  | 'dark'
+  | 'media'
+  | 'group'
+  | 'peer'
+  | 'data'
+  | 'aria'
+  | 'supports'
+  | 'has'
+  | 'not'
+  | 'in'
+  | 'child'
+  | 'direction'
+  | 'starting'
+  | 'arbitrary';
+
+export const VARIANT_KINDS: VariantKind[] = [
+  'responsive', 'container', 'state', 'pseudo-element', 'dark', 'media', 'group', 'peer', 'data',
+  'aria', 'supports', 'has', 'not', 'in', 'child', 'direction', 'starting', 'arbitrary',
+];
+
+/** How a variant changes the rule of a utility */
+export interface VariantRule {
+  /** Selector with `&` standing for the selector it wraps, e.g. `&:hover` */
+  selector?: string;
+  /** At-rule the rule is nested in, e.g. `@media (min-width: 768px)` */
+  atRule?: string;
+  /** Declarations the variant adds to the rule, e.g. the content of ::before */
+  declarations?: string[];
+}
+
+export interface ParsedVariant extends VariantRule {
+  /** The variant as written, e.g. group-hover/card */
+  variant: string;
+  kind: VariantKind;
+}
+
+export interface ParsedClass {
+  className: string;
+  variants: ParsedVariant[];
+  /** Variants the version doesn't know, e.g. those of plugins */
+  unknownVariants: string[];
+  /** The class without its variants and important modifier */
+  utility: string;
+  important: boolean;
+}
+
+export interface VariantDefinition {
+  /** The variant as written; functional variants end in `-*` or hold `…`, e.g. `data-*` */
+  name: string;
+  kind: VariantKind;
+  description: string;
+  /** Release that introduced the variant, when newer than v3.0 */
+  since?: TailwindRelease;
+}
+
+/** Default breakpoints with their min-width */
+export const BREAKPOINTS: Record<string, string> = {
+  sm: '640px',
+  md: '768px',
+  lg: '1024px',
+  xl: '1280px',
+  '2xl': '1536px',
+};
+
+/** Default container sizes of v4's @container variants */
+export const CONTAINER_SIZES: Record<string, string> = {
+  '3xs': '16rem',
+  '2xs': '18rem',
+  xs: '20rem',
+  sm: '24rem',
+  md: '28rem',
+  lg: '32rem',
+  xl: '36rem',
+  '2xl': '42rem',
+  '3xl': '48rem',
+  '4xl': '56rem',
+  '5xl': '64rem',
+  '6xl': '72rem',
+  '7xl': '80rem',
+};
+
+/** The at-rule v4 adds to hover variants, so they only apply on devices that can hover */
+export const HOVER_MEDIA = '@media (hover: hover)';
+
+/** Pseudo-class variants, usable on the element and after group-, peer-, in-, not- and has- */
+const PSEUDO_CLASSES: Record<string, string> = {
+  hover: ':hover',
+  focus: ':focus',
+  'focus-within': ':focus-within',
+  'focus-visible': ':focus-visible',
+  active: ':active',
+  visited: ':visited',
+  target: ':target',
+  first: ':first-child',
+  last: ':last-child',
+  only: ':only-child',
+  odd: ':nth-child(odd)',
+  even: ':nth-child(even)',
+  'first-of-type': ':first-of-type',
+  'last-of-type': ':last-of-type',
+  'only-of-type': ':only-of-type',
+  empty: ':empty',
+  disabled: ':disabled',
+  enabled: ':enabled',
+  checked: ':checked',
+  indeterminate: ':indeterminate',
+  default: ':default',
+  required: ':required',
+  optional: ':optional',
+  valid: ':valid',
+  invalid: ':invalid',
+  'user-valid': ':user-valid',
+  'user-invalid': ':user-invalid',
+  'in-range': ':in-range',
+  'out-of-range': ':out-of-range',
+  'placeholder-shown': ':placeholder-shown',
+  autofill: ':autofill',
+  'read-only': ':read-only',
+  open: '[open]',
+  inert: '[inert]',
+};
+
+/** Pseudo-classes v4 matches more broadly, e.g. open also matches open popovers */
+const V4_PSEUDO_CLASSES: Record<string, string> = {
+  open: ':is([open], :popover-open, :open)',
+  inert: ':is([inert], [inert] *)',
+};
+
+/** v4-only pseudo-classes */
+const V4_ONLY_PSEUDO_CLASSES = ['inert', 'user-valid', 'user-invalid'];
+
+const PSEUDO_ELEMENTS: Record<string, string> = {
+  before: '&::before',
+  after: '&::after',
+  placeholder: '&::placeholder',
+  file: '&::file-selector-button',
+  marker: '& *::marker, &::marker',
+  selection: '& *::selection, &::selection',
+  'first-line': '&::first-line',
+  'first-letter': '&::first-letter',
+  backdrop: '&::backdrop',
+  'details-content': '&::details-content',
+};
+
+const MEDIA_VARIANTS: Record<string, string> = {
+  dark: '@media (prefers-color-scheme: dark)',
+  print: '@media print',
+  'motion-safe': '@media (prefers-reduced-motion: no-preference)',
+  'motion-reduce': '@media (prefers-reduced-motion: reduce)',
+  'contrast-more': '@media (prefers-contrast: more)',
+  'contrast-less': '@media (prefers-contrast: less)',
+  portrait: '@media (orientation: portrait)',
+  landscape: '@media (orientation: landscape)',
+  'forced-colors': '@media (forced-colors: active)',
+  'inverted-colors': '@media (inverted-colors: inverted)',
+  'pointer-fine': '@media (pointer: fine)',
+  'pointer-coarse': '@media (pointer: coarse)',
+  'pointer-none': '@media (pointer: none)',
+  'any-pointer-fine': '@media (any-pointer: fine)',
+  'any-pointer-coarse': '@media (any-pointer: coarse)',
+  'any-pointer-none': '@media (any-pointer: none)',
+  noscript: '@media (scripting: none)',
+};
+
+/** aria-* variants for boolean attributes, e.g. aria-checked matches aria-checked="true" */
+const ARIA_STATES = ['busy', 'checked', 'disabled', 'expanded', 'hidden', 'pressed', 'readonly', 'required', 'selected'];
+
+/** Functional variants, which take a name or an arbitrary value, with a variant that shows the syntax */
+const FUNCTIONAL_VARIANTS: Array<{ name: string; kind: VariantKind; description: string; example: string }> = [
+  { name: 'min-[…]', kind: 'responsive', description: 'Applies from an arbitrary min-width up', example: 'min-[900px]' },
+  { name: 'max-[…]', kind: 'responsive', description: 'Applies below an arbitrary width', example: 'max-[900px]' },
+  { name: '@*', kind: 'container', description: 'Applies when the nearest @container is at least a container size wide; @max-* below it, @*/name for a named container', example: '@md' },
+  { name: 'group-*', kind: 'group', description: 'Applies when a parent with the group class, or group/name for group-*/name, is in a state', example: 'group-hover' },
+  { name: 'peer-*', kind: 'peer', description: 'Applies when a previous sibling with the peer class, or peer/name for peer-*/name, is in a state', example: 'peer-checked' },
+  { name: 'data-*', kind: 'data', description: 'Matches a data attribute, e.g. data-[size=large]; v4 also takes a bare name such as data-active', example: 'data-[state=open]' },
+  { name: 'aria-*', kind: 'aria', description: 'Matches an ARIA attribute, e.g. aria-[sort=ascending]; boolean states such as aria-checked match "true"', example: 'aria-checked' },
+  { name: 'supports-*', kind: 'supports', description: 'Applies when the browser supports a declaration, e.g. supports-[display:grid]', example: 'supports-[display:grid]' },
+  { name: 'has-*', kind: 'has', description: 'Applies when the element contains a match, e.g. has-[img]; v4 also takes a state such as has-checked', example: 'has-[img]' },
+  { name: 'not-*', kind: 'not', description: 'Applies when the element is not in a state or a media query does not match, e.g. not-first or not-dark', example: 'not-first' },
+  { name: 'in-*', kind: 'in', description: 'Applies when any parent is in a state, without a group class', example: 'in-focus' },
+  { name: 'nth-*', kind: 'state', description: 'Matches the nth child: nth-3, nth-last-3, nth-of-type-3, nth-last-of-type-3 or nth-[2n+1]', example: 'nth-3' },
+  { name: '[…]', kind: 'arbitrary', description: 'An arbitrary selector with & for the element, or an at-rule, e.g. [&>p] or [@media(hover:hover)]', example: '[&>p]' },
+];
+
+/** Variants suggested for the utilities of each category, after the breakpoints */
+const CATEGORY_VARIANTS: Record<UtilityCategoryId, string[]> = {
+  layout: ['@md', 'print'],
+  'flexbox-and-grid': ['@md', 'first', 'last'],
+  spacing: ['first', 'last', '*', 'rtl'],
+  sizing: ['@md', 'portrait', 'landscape'],
+  typography: ['hover', 'focus', 'dark', 'group-hover', 'placeholder', 'first-letter', 'selection'],
+  backgrounds: ['hover', 'focus', 'active', 'dark', 'group-hover', 'peer-checked', 'aria-selected', 'data-[state=open]'],
+  borders: ['hover', 'focus', 'focus-visible', 'invalid', 'dark', 'peer-focus'],
+  effects: ['hover', 'focus', 'dark', 'group-hover', 'starting'],
+  filters: ['hover', 'group-hover', 'dark'],
+  tables: ['first', 'last', 'odd', 'even'],
+  'transitions-and-animation': ['hover', 'motion-safe', 'motion-reduce', 'starting'],
+  transforms: ['hover', 'active', 'group-hover', 'motion-reduce'],
+  interactivity: ['hover', 'focus', 'disabled', 'aria-disabled', 'pointer-coarse'],
+  svg: ['hover', 'dark', 'group-hover'],
+  accessibility: ['focus', 'not-focus', 'forced-colors'],
+};
+
+/**
+ * Every variant a release ships: the static variants and the syntax of the functional ones
+ */
+export function getVariantRegistry(release: TailwindRelease): VariantDefinition[] {
+  const names = [
+    ...Object.keys(BREAKPOINTS),
+    ...Object.keys(BREAKPOINTS).map(name => `max-${name}`),
+    ...Object.keys(PSEUDO_CLASSES),
+    ...Object.keys(PSEUDO_ELEMENTS),
+    ...Object.keys(MEDIA_VARIANTS),
+    'ltr', 'rtl', '*', '**', 'starting',
+  ];
+  const functional = FUNCTIONAL_VARIANTS
+    .filter(({ example }) => defineVariant(example, release))
+    .map(({ example, ...definition }) => withSince(definition, example));
+  return [...defineVariants(names, release), ...functional];
+}
+
+/**
+ * The variants suggested for the utilities of a category that a release ships
+ */
+export function getCategoryVariants(category: UtilityCategoryId, release: TailwindRelease): VariantDefinition[] {
+  return defineVariants([...Object.keys(BREAKPOINTS), ...(CATEGORY_VARIANTS[category] ?? [])], release);
+}
+
+/**
+ * Splits a class into its variants, parsed for a version, and its utility
+ */
+export function parseClass(className: string, version: TailwindVersion): ParsedClass {
+  const parts = splitVariants(className);
+  const last = parts[parts.length - 1];
+  const variants: ParsedVariant[] = [];
+  const unknownVariants: string[] = [];
+
+  for (const variant of parts.slice(0, -1)) {
+    const parsed = parseVariant(variant, version);
+    if (parsed) {
+      variants.push(parsed);
+    } else {
+      unknownVariants.push(variant);
+    }
+  }
+
+  return { className, variants, unknownVariants, utility: last.replace(/^!|!$/g, ''), important: /^!|!$/.test(last) };
+}
+
+/**
+ * Wraps a selector in stacked variants: v3 applies them from the inside out, v4 in the
+ * order they are written. At-rules are listed outermost first.
+ */
+export function applyVariants(
+  selector: string,
+  variants: ParsedVariant[],
+  version: TailwindVersion
+): { selector: string; atRules: string[]; declarations: string[] } {
+  let wrapped = selector;
+  for (const variant of version === 'v4' ? variants : [...variants].reverse()) {
+    if (variant.selector) {
+      wrapped = variant.selector.replace(/&/g, wrapped);
+    }
+  }
+  return {
+    selector: wrapped,
+    atRules: variants.flatMap(variant => (variant.atRule ? [variant.atRule] : [])),
+    declarations: variants.flatMap(variant => variant.declarations ?? []),
+  };
+}
+
+/**
+ * The rule a variant wraps a utility in for a version, or undefined for a variant the
+ * version doesn't have
+ */
+export function parseVariant(variant: string, version: TailwindVersion): ParsedVariant | undefined {
+  const rule = parseRule(variant, version);
+  return rule && { variant, ...rule };
+}
+
+/**
+ * Reads an arbitrary value or variant: underscores are spaces unless escaped, and math
+ * operators in calc(), min(), max() and clamp() get the spaces CSS requires around + and -
+ */
+export function decodeArbitrary(value: string): string {
+  return spaceMathOperators(value.replace(/(\\?)_/g, (_, escaped: string) => (escaped ? '_' : ' ')));
+}
+
+const MATH_FUNCTIONS = new Set(['calc', 'min', 'max', 'clamp']);
+
+function spaceMathOperators(value: string): string {
+  // One entry per open parenthesis: whether operators directly inside it are math
+  const math: boolean[] = [];
+  let result = '';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '(') {
+      const name = result.match(/[\w-]*$/)![0];
+      math.push(MATH_FUNCTIONS.has(name) || (name === '' && math.at(-1) === true));
+    } else if (char === ')') {
+      math.pop();
+    } else if ('+-*/'.includes(char) && math.at(-1) && isBinaryOperator(value, i)) {
+      result = `${result.trimEnd()} ${char} `;
+      while (value[i + 1] === ' ') i++;
+      continue;
+    }
+    result += char;
+  }
+  return result;
+}
+
+/** A sign that starts a number, e.g. in calc(-1 * x) or 1e-3, is not an operator */
+function isBinaryOperator(value: string, index: number): boolean {
+  if (value[index] === '*' || value[index] === '/') {
+    return true;
+  }
+  const before = value.slice(0, index).trimEnd();
+  if (before === '' || /[(,+\-*/]$/.test(before)) {
+    return false;
+  }
+  return !/\de$/.test(before) || !/^\d/.test(value.slice(index + 1));
+}
+
+function parseRule(variant: string, version: TailwindVersion): Omit<ParsedVariant, 'variant'> | undefined {
+  const v4 = version === 'v4';
+
+  if (variant in BREAKPOINTS) {
+    return { kind: 'responsive', atRule: minWidthQuery(BREAKPOINTS[variant], v4) };
+  }
+  const width = variant.match(/^(min|max)-(?:\[(.+)\]|(.+))$/);
+  if (width && (width[2] || width[1] === 'max' && width[3] in BREAKPOINTS)) {
+    const value = width[2] ?? BREAKPOINTS[width[3]];
+    return { kind: 'responsive', atRule: width[1] === 'min' ? minWidthQuery(value, v4) : maxWidthQuery(value, v4) };
+  }
+  if (variant.startsWith('@')) {
+    return v4 ? parseContainer(variant.slice(1)) : undefined;
+  }
+
+  if (variant in MEDIA_VARIANTS) {
+    return { kind: variant === 'dark' ? 'dark' : 'media', atRule: MEDIA_VARIANTS[variant] };
+  }
+  if (variant in PSEUDO_ELEMENTS) {
+    const content = variant === 'before' || variant === 'after' ? { declarations: ['content: var(--tw-content)'] } : {};
+    return { kind: 'pseudo-element', selector: PSEUDO_ELEMENTS[variant], ...content };
+  }
+  if (variant === 'ltr' || variant === 'rtl') {
+    return {
+      kind: 'direction',
+      selector: v4
+        ? `&:where(:dir(${variant}), [dir="${variant}"], [dir="${variant}"] *)`
+        : `&:where([dir="${variant}"], [dir="${variant}"] *)`,
+    };
+  }
+  if (variant === '*') {
+    return { kind: 'child', selector: v4 ? ':is(& > *)' : '& > *' };
+  }
+  if (variant === '**') {
+    return v4 ? { kind: 'child', selector: ':is(& *)' } : undefined;
+  }
+  if (variant === 'starting') {
+    return v4 ? { kind: 'starting', atRule: '@starting-style' } : undefined;
+  }
+
+  const arbitrary = variant.match(/^\[(.+)\]$/)?.[1];
+  if (arbitrary) {
+    const value = decodeArbitrary(arbitrary);
+    if (value.startsWith('@')) {
+      return { kind: 'arbitrary', atRule: value };
+    }
+    return { kind: 'arbitrary', selector: value.includes('&') ? value : `&:is(${value})` };
+  }
+
+  // Pseudo-classes first: in-range is a state, not an in-* variant
+  const condition = parseCondition(variant, v4);
+  if (condition) {
+    return {
+      kind: variant.startsWith('data-') ? 'data' : variant.startsWith('aria-') ? 'aria' : 'state',
+      selector: `&${condition}`,
+      // Hover only applies on devices that can hover in v4
+      ...(v4 && variant === 'hover' ? { atRule: HOVER_MEDIA } : {}),
+    };
+  }
+
+  const functional = variant.match(/^(group|peer|in|not|has|supports)-(.+)$/);
+  return functional ? parseFunctional(functional[1] as FunctionalKind, functional[2], v4) : undefined;
+}
+
+
+type FunctionalKind = 'group' | 'peer' | 'in' | 'not' | 'has' | 'supports';
+
+/**
+ * group-*, peer-*, in-*, not-*, has-* and supports-* variants
+ */
+function parseFunctional(kind: FunctionalKind, value: string, v4: boolean): Omit<ParsedVariant, 'variant'> | undefined {
+  const version: TailwindVersion = v4 ? 'v4' : 'v3';
+
+  if (kind === 'supports') {
+    const query = value.match(/^\[(.+)\]$/)?.[1];
+    const declaration = query ? decodeArbitrary(query) : value;
+    return { kind, atRule: `@supports (${declaration.includes(':') ? declaration : `${declaration}: var(--tw)`})` };
+  }
+
+  if (kind === 'not') {
+    // not-* only exists in v4; it negates a state or a media query
+    const negated = v4 ? parseRule(value, version) : undefined;
+    if (negated?.atRule && !negated.selector) {
+      return { kind, atRule: negated.atRule.replace(/^@(media|supports) /, '@$1 not ') };
+    }
+    const condition = parseCondition(value, v4);
+    return condition && v4 ? { kind, selector: `&:not(${condition.replace(/^(?=\[)/, '*')})` } : undefined;
+  }
+
+  if (kind === 'has') {
+    const arbitrary = value.match(/^\[(.+)\]$/)?.[1];
+    if (arbitrary) {
+      return { kind, selector: `&:has(${decodeArbitrary(arbitrary)})` };
+    }
+    const condition = v4 ? parseCondition(value, v4) : undefined;
+    return condition ? { kind, selector: `&:has(*${condition})` } : undefined;
+  }
+
+  // group/name and peer/name mark a named group or peer
+  const [, state, name] = value.match(/^(.+?)(?:\/([\w-]+))?$/)!;
+  const condition = parseCondition(state, v4);
+  if (!condition) {
+    return undefined;
+  }
+  const hover = v4 && state === 'hover' ? { atRule: HOVER_MEDIA } : {};
+
+  if (kind === 'in') {
+    return v4 ? { kind, selector: `:where(*${condition}) &`, ...hover } : undefined;
+  }
+
+  const className = `.${kind}${name ? `\\/${name}` : ''}`;
+  const marker = v4 ? `:where(${className})` : className;
+  // An arbitrary state with & places the marker, e.g. group-[:nth-of-type(3)_&]
+  const target = condition.includes('&') ? condition.replace(/&/g, marker) : `${marker}${condition}`;
+  const combinator = kind === 'group' ? ' ' : ' ~ ';
+  return { kind, selector: v4 ? `&:is(${target}${combinator}*)` : `${target}${combinator}&`, ...hover };
+}
+
+/**
+ * The selector a state adds to an element: a pseudo-class, nth-*, data-*, aria-* or an arbitrary selector
+ */
+function parseCondition(state: string, v4: boolean): string | undefined {
+  if (state in PSEUDO_CLASSES) {
+    return !v4 && V4_ONLY_PSEUDO_CLASSES.includes(state) ? undefined : pseudoClass(state, v4);
+  }
+
+  const arbitrary = state.match(/^\[(.+)\]$/)?.[1];
+  if (arbitrary) {
+    return decodeArbitrary(arbitrary);
+  }
+
+  const nth = state.match(/^nth-(last-)?(of-type-)?(?:\[(.+)\]|(\d+))$/);
+  if (nth && v4) {
+    return `:nth-${nth[1] ?? ''}${nth[2] ? 'of-type' : 'child'}(${nth[3] ? decodeArbitrary(nth[3]) : nth[4]})`;
+  }
+
+  const attribute = state.match(/^(data|aria)-(?:\[(.+)\]|([\w-]+))$/);
+  if (attribute) {
+    const [, type, value, name] = attribute;
+    if (value) {
+      const [key, ...rest] = decodeArbitrary(value).split('=');
+      return rest.length > 0 ? `[${type}-${key}=${type === 'aria' ? `"${rest.join('=').replace(/^"|"$/g, '')}"` : rest.join('=')}]` : `[${type}-${key}]`;
+    }
+    if (type === 'aria') {
+      return ARIA_STATES.includes(name) ? `[aria-${name}="true"]` : undefined;
+    }
+    // Bare data attributes only exist in v4; v3 reads them from the config
+    return v4 ? `[data-${name}]` : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * v4 container queries: @md, @max-md, @min-[400px], @max-[400px] and @md/name for a named container
+ */
+function parseContainer(query: string): Omit<ParsedVariant, 'variant'> | undefined {
+  const match = query.match(/^(?:(min|max)-)?(?:\[(.+)\]|([\w-]+))(?:\/([\w-]+))?$/);
+  if (!match) {
+    return undefined;
+  }
+  const [, bound, arbitrary, size, name] = match;
+  const width = arbitrary ?? CONTAINER_SIZES[size];
+  if (!width || arbitrary && !bound) {
+    return undefined;
+  }
+  return { kind: 'container', atRule: `@container ${name ? `${name} ` : ''}(width ${bound === 'max' ? '<' : '>='} ${width})` };
+}
+
+function defineVariants(names: string[], release: TailwindRelease): VariantDefinition[] {
+  return names.flatMap(name => {
+    const definition = defineVariant(name, release);
+    return definition ? [definition] : [];
+  });
+}
+
+/**
+ * Describes a variant by the rule it wraps a utility in, or undefined when the release doesn't ship it
+ */
+function defineVariant(variant: string, release: TailwindRelease): VariantDefinition | undefined {
+  const parsed = parseVariant(variant, resolveVersion(release).version);
+  const requirement = getClassRequirement(`${variant}:block`);
+  if (!parsed || requirement && !isReleaseAtLeast(release, requirement.since)) {
+    return undefined;
+  }
+  const target = parsed.selector ? `Targets ${parsed.selector}` : 'Applies';
+  const description = parsed.atRule ? `${target} inside ${parsed.atRule}` : target;
+  return withSince({ name: variant, kind: parsed.kind, description }, variant);
+}
+
+function withSince(definition: VariantDefinition, variant: string): VariantDefinition {
+  const requirement = getClassRequirement(`${variant}:block`);
+  return requirement ? { ...definition, since: requirement.since } : definition;
+}
+
+function pseudoClass(name: string, v4: boolean): string {
+  return (v4 && V4_PSEUDO_CLASSES[name]) || PSEUDO_CLASSES[name];
+}
+
+/** v4 writes media queries in range syntax, e.g. `(width >= 48rem)` for md */
+function minWidthQuery(width: string, v4: boolean): string {
+  return v4 ? `@media (width >= ${toRem(width)})` : `@media (min-width: ${width})`;
+}
+
+function maxWidthQuery(width: string, v4: boolean): string {
+  return v4 ? `@media (width < ${toRem(width)})` : `@media not all and (min-width: ${width})`;
+}
+
+/** The default v4 breakpoints are in rem; other widths are kept as written */
+function toRem(width: string): string {
+  const pixels = width.match(/^(\d+)px$/)?.[1];
+  return pixels && Object.values(BREAKPOINTS).includes(width) ? `${Number(pixels) / 16}rem` : width;
+}